@@ -31,6 +31,17 @@ const getRedisClient = () => {
   return redisClient;
 };
 
+// A separate connection to the same server, for blocking commands and pub/sub, which tie up
+// a connection while they wait (see services/jobs)
+const createRedisConnection = async () => {
+  const connection = getRedisClient().duplicate();
+  connection.on('error', (err) => {
+    console.error('Redis Connection Error:', err);
+  });
+  await connection.connect();
+  return connection;
+};
+
 const setSessionData = async (sessionId, data, ttl = 3600) => {
   const client = getRedisClient();
   await client.setEx(`session:${sessionId}`, ttl, JSON.stringify(data));
@@ -58,21 +69,39 @@ const getCache = async (key) => {
   return data ? JSON.parse(data) : null;
 };
 
+// Deletes the keys matching a glob pattern; returns how many were deleted
 const clearCache = async (pattern) => {
   const client = getRedisClient();
   const keys = await client.keys(pattern);
   if (keys.length > 0) {
     await client.del(keys);
   }
+  return keys.length;
+};
+
+// Up to `limit` keys matching a glob pattern, with their remaining TTL in seconds.
+// SCAN rather than KEYS, so listing doesn't block Redis.
+const listCacheKeys = async (pattern, limit = 100) => {
+  const client = getRedisClient();
+  const keys = [];
+  for await (const key of client.scanIterator({ MATCH: pattern, COUNT: 100 })) {
+    keys.push(key);
+    if (keys.length >= limit) {
+      break;
+    }
+  }
+  return Promise.all(keys.map(async (key) => ({ key, ttl: await client.ttl(key) })));
 };
 
 module.exports = {
   connectRedis,
   getRedisClient,
+  createRedisConnection,
   setSessionData,
   getSessionData,
   deleteSessionData,
   setCache,
   getCache,
-  clearCache
+  clearCache,
+  listCacheKeys
 }; 
\ No newline at end of file
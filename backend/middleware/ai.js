@@ -0,0 +1,60 @@
+const { CACHE_SCOPES, getCacheOwner } = require('../services/ai/cache');
+const { getProvider, hasProvider, hasModel, getDefaultProviderName } = require('../services/ai');
+const { reserveQuota, releaseQuota } = require('../services/usage');
+
+// Resolve the LLM provider and model for this request (body.provider and body.model, else the
+// deployment defaults) and whose cache entries it uses: the user's own, or shared ones with
+// body.cacheScope 'shared'. Only allow-listed models can be picked (see services/ai).
+const withProvider = (req, res, next) => {
+  const { provider = getDefaultProviderName(), model, cacheScope = 'user' } = req.body;
+
+  if (!hasProvider(provider)) {
+    return res.status(400).json({ error: `Unsupported AI provider: ${provider}` });
+  }
+  if (model !== undefined && (typeof model !== 'string' || !hasModel(provider, model))) {
+    return res.status(400).json({ error: `Unsupported model for ${provider}: ${model}` });
+  }
+  if (!CACHE_SCOPES.includes(cacheScope)) {
+    return res.status(400).json({ error: `cacheScope must be one of ${CACHE_SCOPES.join(', ')}` });
+  }
+
+  req.aiProvider = getProvider(provider);
+  req.aiModel = model || req.aiProvider.model;
+  req.cacheScope = cacheScope;
+  req.cacheOwner = getCacheOwner(req.user, cacheScope);
+  next();
+};
+
+const QUOTA_LABELS = {
+  requestsPerDay: 'requests per day',
+  tokensPerMonth: 'tokens per month'
+};
+
+// Reject requests from users over their plan quota (see services/usage.js). Others go on with
+// req.quotaReservation, which whoever records the request's usage releases afterwards.
+const requireQuota = async (req, res, next) => {
+  try {
+    const reservation = await reserveQuota(req.user);
+    const { quota } = reservation;
+    if (quota.exceeded) {
+      await releaseQuota(reservation);
+      const resetsAt = quota.resets[quota.exceeded];
+      res.set('Retry-After', String(Math.ceil((resetsAt.getTime() - Date.now()) / 1000)));
+      return res.status(429).json({
+        error: `AI quota exceeded: the ${quota.plan} plan allows ${quota.limits[quota.exceeded]} ${QUOTA_LABELS[quota.exceeded]}`,
+        code: 'QUOTA_EXCEEDED',
+        quota: { ...quota, resetsAt }
+      });
+    }
+    req.quotaReservation = reservation;
+  } catch (error) {
+    console.error('AI quota check error:', error);
+    return res.status(500).json({ error: 'Failed to check AI quota' });
+  }
+  next();
+};
+
+module.exports = {
+  withProvider,
+  requireQuota
+};
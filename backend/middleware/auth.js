@@ -51,6 +51,14 @@ const optionalAuth = async (req, res, next) => {
   }
 };
 
+// Use after auth
+const requireAdmin = (req, res, next) => {
+  if (!req.user || req.user.role !== 'admin') {
+    return res.status(403).json({ error: 'Admin access required.', code: 'ADMIN_REQUIRED' });
+  }
+  next();
+};
+
 const generateToken = (userId) => {
   return jwt.sign(
     { userId },
@@ -62,5 +70,6 @@ const generateToken = (userId) => {
 module.exports = {
   auth,
   optionalAuth,
+  requireAdmin,
   generateToken
 }; 
\ No newline at end of file
@@ -0,0 +1,79 @@
+const mongoose = require('mongoose');
+
+const analysisIssueSchema = new mongoose.Schema({
+  message: {
+    type: String,
+    required: true
+  },
+  severity: {
+    type: String,
+    enum: ['low', 'medium', 'high', 'critical'],
+    default: 'medium'
+  },
+  category: {
+    type: String,
+    default: 'quality'
+  },
+  // Line the issue refers to, when the model or check could point at one
+  line: {
+    type: Number,
+    default: null
+  },
+  // Code the line is in; only static CSS checks report 'css'
+  file: {
+    type: String,
+    enum: ['jsx', 'css'],
+    default: 'jsx'
+  },
+  // Static check that reported the issue (services/staticChecks.js); null for model findings
+  rule: {
+    type: String,
+    default: null
+  }
+}, { _id: false });
+
+// Analysis of one component version; versions are immutable, so it never goes stale.
+// `provider` is null when only the static checks ran.
+const componentAnalysisSchema = new mongoose.Schema({
+  sessionId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Session',
+    required: true
+  },
+  version: {
+    type: Number,
+    required: true
+  },
+  analysis: {
+    codeQuality: { type: String, default: '' },
+    performance: { type: String, default: '' },
+    accessibility: { type: String, default: '' },
+    security: { type: String, default: '' },
+    optimizations: { type: [String], default: [] },
+    issues: { type: [analysisIssueSchema], default: [] },
+    overallScore: { type: Number, min: 0, max: 100, required: true }
+  },
+  provider: {
+    type: String,
+    default: null
+  },
+  model: {
+    type: String,
+    default: null
+  },
+  // Prompt template version the model was asked with; null for the built-in prompt
+  promptTemplate: {
+    type: new mongoose.Schema({
+      id: String,
+      name: String,
+      version: Number
+    }, { _id: false }),
+    default: null
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+componentAnalysisSchema.index({ sessionId: 1, version: 1 }, { unique: true });
+
+module.exports = mongoose.model('ComponentAnalysis', componentAnalysisSchema);
@@ -0,0 +1,77 @@
+const mongoose = require('mongoose');
+
+// Immutable snapshot of a session's componentCode at a given version
+const componentVersionSchema = new mongoose.Schema({
+  sessionId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Session',
+    required: true
+  },
+  version: {
+    type: Number,
+    required: true
+  },
+  jsx: {
+    type: String,
+    default: ''
+  },
+  css: {
+    type: String,
+    default: ''
+  },
+  tsx: {
+    type: String,
+    default: ''
+  },
+  entry: {
+    type: String,
+    default: 'Component.jsx'
+  },
+  files: {
+    type: [{
+      _id: false,
+      path: { type: String, required: true },
+      content: { type: String, default: '' }
+    }],
+    default: []
+  },
+  source: {
+    type: String,
+    enum: ['initial', 'ai', 'manual', 'restore'],
+    default: 'manual'
+  },
+  // Chat message (in the session's chatHistory) that produced this version
+  messageId: {
+    type: mongoose.Schema.Types.ObjectId,
+    default: null
+  },
+  restoredFrom: {
+    type: Number,
+    default: null
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+// Snapshots are write-once
+componentVersionSchema.pre('save', function(next) {
+  if (!this.isNew) {
+    return next(new Error('Component versions are immutable'));
+  }
+  next();
+});
+
+['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne'].forEach(operation => {
+  componentVersionSchema.pre(operation, function(next) {
+    next(new Error('Component versions are immutable'));
+  });
+});
+
+componentVersionSchema.index({ sessionId: 1, version: 1 }, { unique: true });
+
+module.exports = mongoose.model('ComponentVersion', componentVersionSchema);
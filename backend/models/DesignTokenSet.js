@@ -0,0 +1,53 @@
+const mongoose = require('mongoose');
+
+// One design token; exposed to components as the CSS variable --<name>
+const designTokenSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true
+  },
+  group: {
+    type: String,
+    enum: ['color', 'typography', 'radius', 'spacing', 'shadow', 'other'],
+    default: 'other'
+  },
+  value: {
+    type: String,
+    required: true
+  },
+  // Used instead of value in dark mode; null when the token doesn't change
+  darkValue: {
+    type: String,
+    default: null
+  }
+}, { _id: false });
+
+// A user's brand: colors, typography, radii and spacing that generated components use
+const designTokenSetSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100
+  },
+  tokens: {
+    type: [designTokenSchema],
+    default: []
+  },
+  // Used by sessions that haven't picked a set
+  isDefault: {
+    type: Boolean,
+    default: false
+  }
+}, {
+  timestamps: true
+});
+
+designTokenSetSchema.index({ userId: 1, name: 1 }, { unique: true });
+
+module.exports = mongoose.model('DesignTokenSet', designTokenSetSchema);
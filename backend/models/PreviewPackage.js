@@ -0,0 +1,55 @@
+const mongoose = require('mongoose');
+
+// An npm package on the allow-list: generated components may import it, the preview
+// loads its prebuilt bundle and exports list it as a dependency. Managed by admins.
+const previewPackageSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true
+  },
+  // Exact version, so the preview and exported projects run the same code
+  version: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  // Shown to the model next to the name, e.g. "Icons as React components"
+  description: {
+    type: String,
+    default: '',
+    maxlength: 200
+  },
+  enabled: {
+    type: Boolean,
+    default: true
+  },
+  // Bundle state; only ready packages are offered to the model and the preview
+  status: {
+    type: String,
+    enum: ['pending', 'building', 'ready', 'failed'],
+    default: 'pending'
+  },
+  error: {
+    type: String,
+    default: null
+  },
+  bundleSize: {
+    type: Number,
+    default: null
+  },
+  builtAt: {
+    type: Date,
+    default: null
+  },
+  addedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+module.exports = mongoose.model('PreviewPackage', previewPackageSchema);
@@ -0,0 +1,88 @@
+const mongoose = require('mongoose');
+
+// A value the user fills in when using a template, referenced in its text as {{name}}
+const templateVariableSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true
+  },
+  label: {
+    type: String,
+    default: ''
+  },
+  defaultValue: {
+    type: String,
+    default: ''
+  },
+  required: {
+    type: Boolean,
+    default: false
+  }
+}, { _id: false });
+
+// Reusable prompt for one AI task, e.g. "Form with validation" for generate. The head is
+// the latest version; every change to the prompt is kept in PromptTemplateVersion.
+const promptTemplateSchema = new mongoose.Schema({
+  ownerId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100
+  },
+  description: {
+    type: String,
+    default: '',
+    maxlength: 500
+  },
+  task: {
+    type: String,
+    enum: ['generate', 'refine', 'variations', 'analyze'],
+    required: true
+  },
+  // Shared templates can be used, not edited, by every user
+  visibility: {
+    type: String,
+    enum: ['private', 'shared'],
+    default: 'private'
+  },
+  // Used for its task when a request picks no template; shared templates only, set by admins
+  isDefault: {
+    type: Boolean,
+    default: false
+  },
+  version: {
+    type: Number,
+    default: 1
+  },
+  // Sent as the system message
+  systemPrompt: {
+    type: String,
+    default: ''
+  },
+  // Added to the built-in instructions, or replacing them with mode 'replace'
+  body: {
+    type: String,
+    default: ''
+  },
+  mode: {
+    type: String,
+    enum: ['append', 'replace'],
+    default: 'append'
+  },
+  variables: {
+    type: [templateVariableSchema],
+    default: []
+  }
+}, {
+  timestamps: true
+});
+
+promptTemplateSchema.index({ ownerId: 1, task: 1 });
+promptTemplateSchema.index({ visibility: 1, task: 1 });
+
+module.exports = mongoose.model('PromptTemplate', promptTemplateSchema);
@@ -0,0 +1,63 @@
+const mongoose = require('mongoose');
+
+// Immutable snapshot of a prompt template's prompt at a given version. Results record
+// the template version that produced them, so old versions stay readable.
+const promptTemplateVersionSchema = new mongoose.Schema({
+  templateId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'PromptTemplate',
+    required: true
+  },
+  version: {
+    type: Number,
+    required: true
+  },
+  systemPrompt: {
+    type: String,
+    default: ''
+  },
+  body: {
+    type: String,
+    default: ''
+  },
+  mode: {
+    type: String,
+    enum: ['append', 'replace'],
+    default: 'append'
+  },
+  variables: {
+    type: [{
+      _id: false,
+      name: { type: String, required: true },
+      label: { type: String, default: '' },
+      defaultValue: { type: String, default: '' },
+      required: { type: Boolean, default: false }
+    }],
+    default: []
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+// Snapshots are write-once
+promptTemplateVersionSchema.pre('save', function(next) {
+  if (!this.isNew) {
+    return next(new Error('Prompt template versions are immutable'));
+  }
+  next();
+});
+
+['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne'].forEach(operation => {
+  promptTemplateVersionSchema.pre(operation, function(next) {
+    next(new Error('Prompt template versions are immutable'));
+  });
+});
+
+promptTemplateVersionSchema.index({ templateId: 1, version: 1 }, { unique: true });
+
+module.exports = mongoose.model('PromptTemplateVersion', promptTemplateVersionSchema);
@@ -1,4 +1,5 @@
 const mongoose = require('mongoose');
+const ComponentVersion = require('./ComponentVersion');
 
 const chatMessageSchema = new mongoose.Schema({
   role: {
@@ -21,6 +22,18 @@ const chatMessageSchema = new mongoose.Schema({
   }
 });
 
+// Module or stylesheet next to the entry (see services/componentFiles.js)
+const componentFileSchema = new mongoose.Schema({
+  path: {
+    type: String,
+    required: true
+  },
+  content: {
+    type: String,
+    default: ''
+  }
+}, { _id: false });
+
 const componentCodeSchema = new mongoose.Schema({
   jsx: {
     type: String,
@@ -34,6 +47,15 @@ const componentCodeSchema = new mongoose.Schema({
     type: String,
     default: ''
   },
+  // File name of the entry module (jsx); its stylesheet (css) has the same base name
+  entry: {
+    type: String,
+    default: 'Component.jsx'
+  },
+  files: {
+    type: [componentFileSchema],
+    default: []
+  },
   version: {
     type: Number,
     default: 1
@@ -44,6 +66,24 @@ const componentCodeSchema = new mongoose.Schema({
   }
 });
 
+// Older chat turns rolled up for prompts once the history outgrows its token budget
+// (see services/conversation.js)
+const conversationSummarySchema = new mongoose.Schema({
+  content: {
+    type: String,
+    default: ''
+  },
+  // How many chatHistory messages, from the start, the summary covers
+  messageCount: {
+    type: Number,
+    default: 0
+  },
+  updatedAt: {
+    type: Date,
+    default: null
+  }
+}, { _id: false });
+
 const uiStateSchema = new mongoose.Schema({
   selectedElement: {
     type: String,
@@ -71,12 +111,35 @@ const uiStateSchema = new mongoose.Schema({
   }
 });
 
+// Someone the owner shared the session with. Editors chat, edit the code and generate like the
+// owner; viewers follow along read-only.
+const collaboratorSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  role: {
+    type: String,
+    enum: ['editor', 'viewer'],
+    default: 'editor'
+  },
+  addedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
 const sessionSchema = new mongoose.Schema({
   userId: {
     type: mongoose.Schema.Types.ObjectId,
     ref: 'User',
     required: true
   },
+  collaborators: {
+    type: [collaboratorSchema],
+    default: []
+  },
   title: {
     type: String,
     required: true,
@@ -93,6 +156,10 @@ const sessionSchema = new mongoose.Schema({
     type: [chatMessageSchema],
     default: []
   },
+  conversationSummary: {
+    type: conversationSummarySchema,
+    default: () => ({})
+  },
   componentCode: {
     type: componentCodeSchema,
     default: () => ({})
@@ -101,6 +168,12 @@ const sessionSchema = new mongoose.Schema({
     type: uiStateSchema,
     default: () => ({})
   },
+  // Design tokens for prompts and the preview; null uses the owner's default set
+  designTokenSetId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'DesignTokenSet',
+    default: null
+  },
   isActive: {
     type: Boolean,
     default: true
@@ -134,6 +207,7 @@ sessionSchema.pre('save', function(next) {
 // Indexes for better query performance
 sessionSchema.index({ userId: 1, lastAccessed: -1 });
 sessionSchema.index({ userId: 1, isActive: 1 });
+sessionSchema.index({ 'collaborators.userId': 1, isActive: 1 });
 sessionSchema.index({ title: 'text', description: 'text' });
 
 // Virtual for chat message count
@@ -141,9 +215,28 @@ sessionSchema.virtual('messageCount').get(function() {
   return this.chatHistory.length;
 });
 
-// Method to add chat message
-sessionSchema.methods.addChatMessage = function(role, content, metadata = {}) {
+// Query conditions for the sessions a user can open: their own and those shared with them.
+// With `canEdit`, sessions they only view are left out.
+sessionSchema.statics.accessFilter = function(userId, { canEdit = false } = {}) {
+  const shared = canEdit
+    ? { collaborators: { $elemMatch: { userId, role: 'editor' } } }
+    : { 'collaborators.userId': userId };
+  return { $or: [{ userId }, shared] };
+};
+
+// 'owner', the collaborator's role, or null for users the session isn't shared with
+sessionSchema.methods.getAccessRole = function(userId) {
+  if (String(this.userId) === String(userId)) {
+    return 'owner';
+  }
+  const collaborator = (this.collaborators || []).find(entry => String(entry.userId) === String(userId));
+  return collaborator ? collaborator.role : null;
+};
+
+// Method to add chat message; messageId is for messages other documents refer to before they exist
+sessionSchema.methods.addChatMessage = function(role, content, metadata = {}, messageId = null) {
   this.chatHistory.push({
+    ...(messageId ? { _id: messageId } : {}),
     role,
     content,
     metadata
@@ -151,19 +244,134 @@ sessionSchema.methods.addChatMessage = function(role, content, metadata = {}) {
   return this.save();
 };
 
-// Method to update component code
-sessionSchema.methods.updateComponentCode = function(jsx, css, tsx = '') {
-  this.componentCode.jsx = jsx;
-  this.componentCode.css = css;
-  this.componentCode.tsx = tsx;
-  this.componentCode.version += 1;
-  this.componentCode.lastModified = new Date();
-  return this.save();
+const DUPLICATE_KEY_ERROR = 11000;
+// A snapshot whose head update never happened (its process stopped in between) blocks its
+// version; the next save removes it once it is this old
+const ORPHAN_SNAPSHOT_AGE = 60 * 1000;
+
+// A save that lost the race for a head version. It fails like the snapshot's unique index
+// would, so callers handle either as the same conflict.
+const versionConflict = () => {
+  const error = new Error('Component code was changed by another save');
+  error.code = DUPLICATE_KEY_ERROR;
+  return error;
+};
+
+// Remove the snapshot of `version` if it is an orphan: older than ORPHAN_SNAPSHOT_AGE while the
+// session's head is still the version before it. Resolves with whether one was removed.
+const removeOrphanSnapshot = async (Session, sessionId, version) => {
+  const headMoved = await Session.exists({ _id: sessionId, 'componentCode.version': { $gte: version } });
+  if (headMoved) {
+    return false;
+  }
+  const { deletedCount } = await ComponentVersion.deleteOne({
+    sessionId,
+    version,
+    createdAt: { $lt: new Date(Date.now() - ORPHAN_SNAPSHOT_AGE) }
+  });
+  return deletedCount > 0;
+};
+
+// Method to update component code; each version is kept as an immutable snapshot.
+// options.files and options.entry keep their current values when not given.
+// The snapshot is written first and the head moved only if it is still the version the
+// snapshot follows; a save that loses either race fails with a duplicate key error and
+// leaves nothing behind.
+sessionSchema.methods.updateComponentCode = async function(jsx, css, tsx = '', options = {}) {
+  const { source = 'manual', messageId = null, restoredFrom = null, userId = this.userId } = options;
+  const current = this.componentCode;
+  const files = options.files || current.files || [];
+  const entry = options.entry || current.entry;
+
+  // Sessions created before version history only have their head; snapshot it first
+  const headExists = await ComponentVersion.exists({ sessionId: this._id, version: current.version });
+  if (!headExists) {
+    await ComponentVersion.create({
+      sessionId: this._id,
+      version: current.version,
+      jsx: current.jsx,
+      css: current.css,
+      tsx: current.tsx,
+      entry: current.entry,
+      files: current.files,
+      source: 'initial',
+      createdBy: this.userId
+    }).catch((error) => {
+      // A concurrent save snapshotted it first
+      if (error.code !== DUPLICATE_KEY_ERROR) {
+        throw error;
+      }
+    });
+  }
+
+  const version = current.version + 1;
+  const snapshot = {
+    sessionId: this._id,
+    version,
+    jsx,
+    css,
+    tsx,
+    entry,
+    files,
+    source,
+    messageId,
+    restoredFrom,
+    createdBy: userId
+  };
+
+  // The unique (sessionId, version) index rejects a concurrent update to the same head
+  let created;
+  try {
+    created = await ComponentVersion.create(snapshot);
+  } catch (error) {
+    if (error.code !== DUPLICATE_KEY_ERROR || !(await removeOrphanSnapshot(this.constructor, this._id, version))) {
+      throw error;
+    }
+    created = await ComponentVersion.create(snapshot);
+  }
+
+  const lastModified = new Date();
+  const lastAccessed = new Date();
+  let result;
+  try {
+    result = await this.constructor.updateOne(
+      { _id: this._id, 'componentCode.version': current.version },
+      {
+        $set: {
+          'componentCode.jsx': jsx,
+          'componentCode.css': css,
+          'componentCode.tsx': tsx,
+          'componentCode.entry': entry,
+          'componentCode.files': files,
+          'componentCode.version': version,
+          'componentCode.lastModified': lastModified,
+          lastAccessed
+        }
+      }
+    );
+  } catch (error) {
+    await ComponentVersion.deleteOne({ _id: created._id });
+    throw error;
+  }
+  if (result.matchedCount === 0) {
+    await ComponentVersion.deleteOne({ _id: created._id });
+    throw versionConflict();
+  }
+
+  // Mirror the saved head without leaving it modified, so a later save() doesn't write it again
+  this.componentCode.set({ jsx, css, tsx, entry, files, version, lastModified });
+  this.lastAccessed = lastAccessed;
+  this.modifiedPaths()
+    .filter(path => path === 'lastAccessed' || path === 'componentCode' || path.startsWith('componentCode.'))
+    .forEach(path => this.unmarkModified(path));
+  return this;
 };
 
 // Method to update UI state
 sessionSchema.methods.updateUIState = function(uiState) {
-  this.uiState = { ...this.uiState, ...uiState };
+  // Merge plain objects; spreading the subdocument itself would copy Mongoose internals
+  const current = this.uiState ? this.uiState.toObject() : {};
+  this.uiState = { ...current, ...uiState };
   return this.save();
 };
 
@@ -0,0 +1,67 @@
+const mongoose = require('mongoose');
+
+// One metered AI request: the model calls it made (including repairs and history summaries)
+// or the cache hit that answered it
+const usageRecordSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  sessionId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Session',
+    default: null
+  },
+  // Route that was called, e.g. "generate" or "generate/stream"
+  endpoint: {
+    type: String,
+    required: true
+  },
+  provider: {
+    type: String,
+    required: true
+  },
+  model: {
+    type: String,
+    required: true
+  },
+  // Model calls made; 0 when the response came from the cache
+  calls: {
+    type: Number,
+    default: 0
+  },
+  cached: {
+    type: Boolean,
+    default: false
+  },
+  inputTokens: {
+    type: Number,
+    default: 0
+  },
+  outputTokens: {
+    type: Number,
+    default: 0
+  },
+  // Time spent waiting for the model
+  latencyMs: {
+    type: Number,
+    default: 0
+  },
+  // Estimated from the model's price per token; 0 for unpriced models
+  costUsd: {
+    type: Number,
+    default: 0
+  },
+  succeeded: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+usageRecordSchema.index({ userId: 1, createdAt: -1 });
+usageRecordSchema.index({ createdAt: -1 });
+
+module.exports = mongoose.model('UsageRecord', usageRecordSchema);
@@ -29,6 +29,18 @@ const userSchema = new mongoose.Schema({
     type: Boolean,
     default: true
   },
+  // Admins manage deployment-wide settings such as the preview package allow-list
+  role: {
+    type: String,
+    enum: ['user', 'admin'],
+    default: 'user'
+  },
+  // Sets the AI quota (see services/usage.js)
+  plan: {
+    type: String,
+    enum: ['free', 'pro', 'team'],
+    default: 'free'
+  },
   lastLogin: {
     type: Date,
     default: Date.now
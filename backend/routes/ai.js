@@ -1,462 +1,423 @@
 const express = require('express');
-const { auth } = require('../middleware/auth');
-const { setCache, getCache } = require('../config/redis');
+const { auth, requireAdmin } = require('../middleware/auth');
+const { withProvider, requireQuota } = require('../middleware/ai');
+const { getCache, clearCache, listCacheKeys } = require('../config/redis');
+const { componentSchema, elementPatchSchema } = require('../services/ai/schemas');
+const { AIOutputError } = require('../services/ai/structured');
+const { CACHE_PREFIX, describeCacheKey, completeCached } = require('../services/ai/cache');
+const { getProvider, getDefaultProviderName, getAllowedProviderNames, getAllowedModels } = require('../services/ai');
+const { findElement, replaceElement } = require('../services/jsxElements');
+const { getAllowedPackages, describePackages } = require('../services/packages');
+const { getSessionTokenSet, describeTokens } = require('../services/designTokens');
+const { PromptTemplateError, resolvePrompt } = require('../services/promptTemplates');
+const { buildConversation } = require('../services/conversation');
+const {
+  AITaskError,
+  describeCode,
+  resolveFiles,
+  withTypeScript,
+  MULTI_FILE_INSTRUCTIONS,
+  runGenerate,
+  runVariations,
+  runAnalyze
+} = require('../services/aiTasks');
+const { createMeter, meterProvider, recordUsage, releaseQuota } = require('../services/usage');
 
 const router = express.Router();
 
-// Component generation prompt template
-const generateComponentPrompt = (userPrompt, existingCode = null, chatHistory = []) => {
-  let prompt = `You are an expert React developer. Generate a complete React component based on the user's request.
-
-IMPORTANT REQUIREMENTS:
-1. Generate a standalone React functional component (no imports needed)
-2. Use only React hooks (useState, useEffect) - no external libraries
-3. Include all CSS styles in a separate CSS block
-4. Make the component self-contained and preview-friendly
-5. Use semantic HTML elements and modern design principles
-6. Make the component responsive and accessible
-7. Use inline styles or CSS classes for styling
-8. Do NOT include import statements or export statements
-9. The component should work in a browser environment with React 18
-
-User Request: ${userPrompt}
+// Record the model calls of a request once the response is over, then release its quota
+// reservation (see services/usage.js)
+const withUsage = (req, res, next) => {
+  const meter = createMeter();
+  const { name: provider } = req.aiProvider;
+  req.aiProvider = meterProvider(req.aiProvider, meter);
+
+  res.on('close', () => {
+    recordUsage({
+      userId: req.user._id,
+      sessionId: req.body.sessionId,
+      endpoint: req.route.path.slice(1),
+      provider,
+      model: req.aiModel,
+      meter,
+      succeeded: res.statusCode < 400 && !res.locals.failed
+    })
+      .catch(error => console.error('Record AI usage error:', error))
+      .then(() => releaseQuota(req.quotaReservation))
+      .catch(error => console.error('Release AI quota error:', error));
+  });
+  next();
+};
 
-`;
+// The provider, model and cache scope a task runs with (see services/aiTasks.js)
+const getTaskContext = (req) => ({
+  user: req.user,
+  provider: req.aiProvider,
+  model: req.aiModel,
+  cacheOwner: req.cacheOwner
+});
 
-  if (existingCode) {
-    prompt += `\nExisting Code:\n${existingCode}\n\nPlease modify/improve the existing code based on the new request.`;
+// Write a single server-sent event; flush so compression does not buffer it
+const sendEvent = (res, event, data) => {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  if (res.flush) {
+    res.flush();
   }
+};
 
-  if (chatHistory.length > 0) {
-    prompt += `\n\nPrevious conversation context:\n`;
-    chatHistory.slice(-5).forEach(msg => {
-      prompt += `${msg.role}: ${msg.content}\n`;
+// Invalid model output is reported as a typed 502 so clients never store it as code
+const sendAIError = (res, error, message) => {
+  if (error instanceof PromptTemplateError || error instanceof AITaskError) {
+    return res.status(error.status).json({ error: error.message, code: error.code });
+  }
+  if (error instanceof AIOutputError) {
+    return res.status(error.status).json({
+      error: message,
+      code: error.code,
+      details: error.message,
+      validationErrors: error.errors
     });
   }
 
-  prompt += `\n\nPlease provide the response in the following JSON format:
-{
-  "jsx": "// React JSX code here",
-  "css": "// CSS styles here",
-  "tsx": "// TypeScript version if applicable",
-  "explanation": "Brief explanation of the component and its features"
-}`;
-
-  return prompt;
+  res.status(500).json({
+    error: message,
+    details: error.message
+  });
 };
 
-// Generate component from prompt
-router.post('/generate', auth, async (req, res) => {
-  try {
-    const { prompt, sessionId, existingCode, chatHistory } = req.body;
+// Describe an error reported by the preview, quoting the offending JSX line when known
+const describePreviewError = (previewError, jsx = '') => {
+  const { kind = 'runtime', message = 'Unknown error', line } = previewError;
+  let description = `The component currently fails in the preview with this ${kind} error:
+${String(message).slice(0, 2000)}`;
 
-    if (!prompt) {
-      return res.status(400).json({ error: 'Prompt is required' });
-    }
+  const sourceLine = Number.isInteger(line) ? String(jsx).split('\n')[line - 1] : undefined;
+  if (sourceLine !== undefined) {
+    description += `
 
-    // Check cache first
-    const cacheKey = `ai_generate:${Buffer.from(prompt).toString('base64')}`;
-    const cachedResult = await getCache(cacheKey);
-    
-    if (cachedResult) {
-      return res.json({
-        success: true,
-        data: cachedResult,
-        cached: true
-      });
-    }
+The error points at line ${line}:
+${sourceLine.trim()}`;
+  }
 
-    // Generate component using direct Gemini API
-    const apiKey = process.env.GEMINI_API_KEY;
-    const aiPrompt = generateComponentPrompt(prompt, existingCode, chatHistory);
-    
-    let apiChatHistory = [];
-    apiChatHistory.push({ role: "user", parts: [{ text: aiPrompt }] });
+  return description;
+};
 
-    const payload = { contents: apiChatHistory };
+// Refine prompt scoped to one element; the model returns only that element's replacement
+const elementPatchPrompt = (userPrompt, currentCode, target, previewError) => {
+  return `You are an expert React developer. Modify ONE element of an existing React component based on the user's request.
 
-    const apiUrl = `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${apiKey}`;
+Full Component Code (context only, do not return it):
+${currentCode.jsx}
 
-    const apiResponse = await fetch(apiUrl, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(payload)
-    });
+CSS:
+${currentCode.css || ''}
 
-    if (!apiResponse.ok) {
-      const errorData = await apiResponse.json();
-      throw new Error(errorData.error?.message || `HTTP error! status: ${apiResponse.status}`);
-    }
+Target Element (${target.id}, <${target.name}>):
+${target.code}
+${previewError ? `\n${describePreviewError(previewError, currentCode.jsx)}\n` : ''}
+User's Request: ${userPrompt || 'Fix the error above.'}
 
-    const result = await apiResponse.json();
+Return only the replacement for the target element in this JSON format:
+{
+  "jsx": "<the single JSX element that replaces the target, including its children>",
+  "css": "// Only new or overriding CSS rules the change needs, or an empty string",
+  "explanation": "Brief explanation of the changes made"
+}
 
-    let text = '';
-    if (result.candidates && result.candidates.length > 0 &&
-        result.candidates[0].content && result.candidates[0].content.parts &&
-        result.candidates[0].content.parts.length > 0) {
-      text = result.candidates[0].content.parts[0].text;
-    } else {
-      throw new Error('No content received from the API.');
-    }
+The replacement must be exactly one JSX element. Keep the variables, handlers and class names it uses unless the request asks to change them.`;
+};
 
-    // Parse the response
-    let parsedResponse;
-    try {
-      // Try to extract JSON from the response
-      const jsonMatch = text.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        parsedResponse = JSON.parse(jsonMatch[0]);
-      } else {
-        // Fallback: create a basic structure
-        parsedResponse = {
-          jsx: text,
-          css: '',
-          tsx: '',
-          explanation: 'Generated component based on your request'
-        };
-      }
-    } catch (parseError) {
-      console.error('Failed to parse AI response:', parseError);
-      parsedResponse = {
-        jsx: text,
-        css: '',
-        tsx: '',
-        explanation: 'Generated component based on your request'
-      };
+// List available AI providers
+router.get('/providers', auth, (req, res) => {
+  const providers = getAllowedProviderNames().map(name => {
+    const provider = getProvider(name);
+    return {
+      name,
+      model: provider.model,
+      models: getAllowedModels(name),
+      configured: provider.isConfigured()
+    };
+  });
+
+  res.json({
+    success: true,
+    data: {
+      default: getDefaultProviderName(),
+      providers
     }
+  });
+});
 
-    // Cache the result
-    await setCache(cacheKey, parsedResponse, 3600); // Cache for 1 hour
+// Generate component from prompt
+router.post('/generate', auth, withProvider, requireQuota, withUsage, async (req, res) => {
+  try {
+    const { data, cached } = await runGenerate(getTaskContext(req), req.body);
 
     res.json({
       success: true,
-      data: parsedResponse,
-      cached: false
+      data,
+      cached
     });
 
   } catch (error) {
     console.error('AI generation error:', error);
-    res.status(500).json({ 
+    sendAIError(res, error, 'Failed to generate component');
+  }
+});
+
+// Stream component generation as server-sent events
+router.post('/generate/stream', auth, withProvider, requireQuota, withUsage, async (req, res) => {
+  // Stop pulling from the provider once the client goes away
+  const abortController = new AbortController();
+  res.on('close', () => abortController.abort());
+
+  try {
+    const { data, cached } = await runGenerate(getTaskContext(req), req.body, {
+      signal: abortController.signal,
+      // Invalid requests and template errors come first, as plain JSON responses
+      onStart: () => {
+        res.set({
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          Connection: 'keep-alive',
+          'X-Accel-Buffering': 'no'
+        });
+        res.flushHeaders();
+      },
+      onPartial: (partial) => sendEvent(res, 'partial', partial),
+      onStatus: (status) => sendEvent(res, 'status', status)
+    });
+
+    sendEvent(res, 'done', { data, cached });
+    res.end();
+  } catch (error) {
+    if (abortController.signal.aborted) {
+      return;
+    }
+
+    console.error('AI streaming generation error:', error);
+    if (!res.headersSent) {
+      return sendAIError(res, error, 'Failed to generate component');
+    }
+
+    // The status is already 200, so the usage record needs telling
+    res.locals.failed = true;
+    sendEvent(res, 'error', {
       error: 'Failed to generate component',
-      details: error.message 
+      code: error.code,
+      details: error.message,
+      validationErrors: error.errors
     });
+    res.end();
   }
 });
 
 // Refine existing component
-router.post('/refine', auth, async (req, res) => {
+router.post('/refine', auth, withProvider, requireQuota, withUsage, async (req, res) => {
   try {
-    const { prompt, currentCode, sessionId } = req.body;
+    const { prompt, currentCode, sessionId, chatHistory, error: previewError, targetElementId } = req.body;
 
-    if (!prompt || !currentCode) {
+    if ((!prompt && !previewError) || !currentCode) {
       return res.status(400).json({ error: 'Prompt and current code are required' });
     }
 
-    const apiKey = process.env.GEMINI_API_KEY;
-    
-    const refinePrompt = `You are an expert React developer. Please refine/modify the existing React component based on the user's request.
+    // Scoped to one element: ask for a patch and splice it in, leaving the rest untouched
+    if (targetElementId) {
+      const target = typeof currentCode.jsx === 'string' ? findElement(currentCode.jsx, targetElementId) : null;
+      if (!target) {
+        return res.status(400).json({
+          error: `Element ${targetElementId} not found in the current code`,
+          code: 'ELEMENT_NOT_FOUND'
+        });
+      }
+
+      const { data: patch, cached } = await completeCached(req.aiProvider, {
+        owner: req.cacheOwner,
+        schema: elementPatchSchema,
+        task: 'refineElement',
+        model: req.aiModel,
+        messages: [{ role: 'user', content: elementPatchPrompt(prompt, currentCode, target, previewError) }]
+      });
+
+      return res.json({
+        success: true,
+        data: {
+          ...withTypeScript({ jsx: replaceElement(currentCode.jsx, targetElementId, patch.jsx) }),
+          files: resolveFiles({}, currentCode),
+          css: [(currentCode.css || '').trim(), patch.css.trim()].filter(Boolean).join('\n\n'),
+          explanation: patch.explanation,
+          patch: {
+            targetElementId,
+            jsx: patch.jsx.trim(),
+            css: patch.css.trim()
+          }
+        },
+        cached
+      });
+    }
+
+    const resolved = await resolvePrompt(req.user, 'refine', req.body);
+    const refinePrompt = `${resolved.instructions}
 
 Current Component Code:
-${currentCode.jsx || currentCode}
+${describeCode(currentCode)}
+${previewError ? `\n${describePreviewError(previewError, typeof currentCode === 'string' ? currentCode : currentCode.jsx)}\n` : ''}
+User's Refinement Request: ${prompt || 'Fix the error above.'}
 
-CSS:
-${currentCode.css || ''}
+${describePackages(await getAllowedPackages())}
+
+${describeTokens(await getSessionTokenSet(req.user._id, sessionId))}
 
-User's Refinement Request: ${prompt}
+${MULTI_FILE_INSTRUCTIONS}
 
 Please provide the updated component in the same JSON format:
 {
   "jsx": "// Updated React JSX code",
   "css": "// Updated CSS styles",
-  "tsx": "// Updated TypeScript version if applicable",
+  "files": [{ "path": "relative/path.jsx", "content": "// updated other files, if any" }],
   "explanation": "Brief explanation of the changes made"
 }
 
 Make sure to preserve the existing functionality while applying the requested changes.`;
 
-    let apiChatHistory = [];
-    apiChatHistory.push({ role: "user", parts: [{ text: refinePrompt }] });
-
-    const payload = { contents: apiChatHistory };
-
-    const apiUrl = `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${apiKey}`;
-
-    const apiResponse = await fetch(apiUrl, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(payload)
+    const { data: parsedResponse, cached } = await completeCached(req.aiProvider, {
+      owner: req.cacheOwner,
+      promptTemplate: resolved.promptTemplate,
+      schema: componentSchema,
+      task: 'refine',
+      model: req.aiModel,
+      system: resolved.system,
+      messages: await buildConversation(req.aiProvider, req.aiModel, {
+        userId: req.user._id,
+        sessionId,
+        chatHistory,
+        prompt,
+        request: refinePrompt
+      })
     });
 
-    if (!apiResponse.ok) {
-      const errorData = await apiResponse.json();
-      throw new Error(errorData.error?.message || `HTTP error! status: ${apiResponse.status}`);
-    }
-
-    const result = await apiResponse.json();
-
-    let text = '';
-    if (result.candidates && result.candidates.length > 0 &&
-        result.candidates[0].content && result.candidates[0].content.parts &&
-        result.candidates[0].content.parts.length > 0) {
-      text = result.candidates[0].content.parts[0].text;
-    } else {
-      throw new Error('No content received from the API.');
-    }
-
-    // Parse the response
-    let parsedResponse;
-    try {
-      const jsonMatch = text.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        parsedResponse = JSON.parse(jsonMatch[0]);
-      } else {
-        parsedResponse = {
-          jsx: text,
-          css: currentCode.css || '',
-          tsx: currentCode.tsx || '',
-          explanation: 'Refined component based on your request'
-        };
-      }
-    } catch (parseError) {
-      console.error('Failed to parse AI response:', parseError);
-      parsedResponse = {
-        jsx: text,
-        css: currentCode.css || '',
-        tsx: currentCode.tsx || '',
-        explanation: 'Refined component based on your request'
-      };
-    }
-
     res.json({
       success: true,
-      data: parsedResponse
+      data: {
+        ...withTypeScript({ ...parsedResponse, files: resolveFiles(parsedResponse, currentCode) }),
+        promptTemplate: resolved.promptTemplate
+      },
+      cached
     });
 
   } catch (error) {
     console.error('AI refinement error:', error);
-    res.status(500).json({ 
-      error: 'Failed to refine component',
-      details: error.message 
-    });
+    sendAIError(res, error, 'Failed to refine component');
   }
 });
 
 // Generate component variations
-router.post('/variations', auth, async (req, res) => {
+router.post('/variations', auth, withProvider, requireQuota, withUsage, async (req, res) => {
   try {
-    const { baseCode, count = 3 } = req.body;
-
-    if (!baseCode) {
-      return res.status(400).json({ error: 'Base code is required' });
-    }
-
-    const apiKey = process.env.GEMINI_API_KEY;
-    
-    const variationsPrompt = `You are an expert React developer. Generate ${count} different variations of the following React component. Each variation should have a different style, layout, or approach while maintaining the same core functionality.
-
-Base Component:
-${baseCode.jsx || baseCode}
-
-CSS:
-${baseCode.css || ''}
-
-Please provide ${count} variations in the following JSON format:
-{
-  "variations": [
-    {
-      "name": "Variation 1 Name",
-      "jsx": "// JSX code for variation 1",
-      "css": "// CSS for variation 1",
-      "description": "Brief description of this variation"
-    },
-    // ... more variations
-  ]
-}`;
-
-    let apiChatHistory = [];
-    apiChatHistory.push({ role: "user", parts: [{ text: variationsPrompt }] });
-
-    const payload = { contents: apiChatHistory };
-
-    const apiUrl = `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${apiKey}`;
-
-    const apiResponse = await fetch(apiUrl, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(payload)
-    });
-
-    if (!apiResponse.ok) {
-      const errorData = await apiResponse.json();
-      throw new Error(errorData.error?.message || `HTTP error! status: ${apiResponse.status}`);
-    }
-
-    const result = await apiResponse.json();
-
-    let text = '';
-    if (result.candidates && result.candidates.length > 0 &&
-        result.candidates[0].content && result.candidates[0].content.parts &&
-        result.candidates[0].content.parts.length > 0) {
-      text = result.candidates[0].content.parts[0].text;
-    } else {
-      throw new Error('No content received from the API.');
-    }
-
-    // Parse the response
-    let parsedResponse;
-    try {
-      const jsonMatch = text.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        parsedResponse = JSON.parse(jsonMatch[0]);
-      } else {
-        parsedResponse = {
-          variations: [{
-            name: "Default Variation",
-            jsx: text,
-            css: baseCode.css || '',
-            description: "Generated variation"
-          }]
-        };
-      }
-    } catch (parseError) {
-      console.error('Failed to parse AI response:', parseError);
-      parsedResponse = {
-        variations: [{
-          name: "Default Variation",
-          jsx: text,
-          css: baseCode.css || '',
-          description: "Generated variation"
-        }]
-      };
-    }
+    const { data, cached } = await runVariations(getTaskContext(req), req.body);
 
     res.json({
       success: true,
-      data: parsedResponse
+      data,
+      cached
     });
 
   } catch (error) {
     console.error('AI variations error:', error);
-    res.status(500).json({ 
-      error: 'Failed to generate variations',
-      details: error.message 
-    });
+    sendAIError(res, error, 'Failed to generate variations');
   }
 });
 
-// Analyze component code
-router.post('/analyze', auth, async (req, res) => {
+// Analyze component code, or the head version of a session
+router.post('/analyze', auth, withProvider, requireQuota, withUsage, async (req, res) => {
   try {
-    const { code } = req.body;
+    const { data, cached } = await runAnalyze(getTaskContext(req), req.body);
 
-    if (!code) {
-      return res.status(400).json({ error: 'Code is required' });
-    }
-
-    const apiKey = process.env.GEMINI_API_KEY;
-    
-    const analyzePrompt = `You are an expert React developer and code reviewer. Analyze the following React component code and provide feedback on:
-
-1. Code quality and best practices
-2. Performance considerations
-3. Accessibility improvements
-4. Security considerations
-5. Suggested optimizations
-6. Potential bugs or issues
-
-Component Code:
-${code.jsx || code}
-
-CSS:
-${code.css || ''}
+    res.json({
+      success: true,
+      data,
+      cached
+    });
 
-Please provide a comprehensive analysis in JSON format:
-{
-  "analysis": {
-    "codeQuality": "Assessment of code quality",
-    "performance": "Performance considerations",
-    "accessibility": "Accessibility improvements",
-    "security": "Security considerations",
-    "optimizations": ["List of suggested optimizations"],
-    "issues": ["List of potential issues"],
-    "overallScore": 85
+  } catch (error) {
+    console.error('AI analysis error:', error);
+    sendAIError(res, error, 'Failed to analyze component');
   }
-}`;
+});
 
-    let apiChatHistory = [];
-    apiChatHistory.push({ role: "user", parts: [{ text: analyzePrompt }] });
+// Cache patterns are Redis globs below the ai_cache prefix, e.g. "user:<userId>:*" or "*:refine:*"
+const MAX_CACHE_PATTERN_LENGTH = 200;
+const MAX_CACHE_ENTRIES = 500;
 
-    const payload = { contents: apiChatHistory };
+const getCachePattern = (pattern) => {
+  if (typeof pattern !== 'string' || !pattern.trim() || pattern.length > MAX_CACHE_PATTERN_LENGTH) {
+    return null;
+  }
+  return `${CACHE_PREFIX}:${pattern.trim()}`;
+};
 
-    const apiUrl = `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${apiKey}`;
+// List cached responses matching a pattern (admin)
+router.get('/cache', auth, requireAdmin, async (req, res) => {
+  try {
+    const pattern = getCachePattern(req.query.pattern || '*');
+    if (!pattern) {
+      return res.status(400).json({ error: `pattern must be a glob of at most ${MAX_CACHE_PATTERN_LENGTH} characters` });
+    }
+    const limit = Math.min(parseInt(req.query.limit) || 100, MAX_CACHE_ENTRIES);
 
-    const apiResponse = await fetch(apiUrl, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(payload)
+    const keys = await listCacheKeys(pattern, limit);
+    res.json({
+      success: true,
+      data: {
+        pattern,
+        entries: keys.map(({ key, ttl }) => ({ key, ...describeCacheKey(key), ttl }))
+      }
     });
+  } catch (error) {
+    console.error('List AI cache error:', error);
+    res.status(500).json({ error: 'Failed to list cache entries' });
+  }
+});
 
-    if (!apiResponse.ok) {
-      const errorData = await apiResponse.json();
-      throw new Error(errorData.error?.message || `HTTP error! status: ${apiResponse.status}`);
+// A cached response by its full key (admin)
+router.get('/cache/entry', auth, requireAdmin, async (req, res) => {
+  try {
+    const { key } = req.query;
+    if (typeof key !== 'string' || !key.startsWith(`${CACHE_PREFIX}:`)) {
+      return res.status(400).json({ error: `key must be a cache key starting with ${CACHE_PREFIX}:` });
     }
 
-    const result = await apiResponse.json();
-
-    let text = '';
-    if (result.candidates && result.candidates.length > 0 &&
-        result.candidates[0].content && result.candidates[0].content.parts &&
-        result.candidates[0].content.parts.length > 0) {
-      text = result.candidates[0].content.parts[0].text;
-    } else {
-      throw new Error('No content received from the API.');
+    const value = await getCache(key);
+    if (!value) {
+      return res.status(404).json({ error: 'Cache entry not found' });
     }
 
-    // Parse the response
-    let parsedResponse;
-    try {
-      const jsonMatch = text.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        parsedResponse = JSON.parse(jsonMatch[0]);
-      } else {
-        parsedResponse = {
-          analysis: {
-            codeQuality: "Analysis not available",
-            performance: "Analysis not available",
-            accessibility: "Analysis not available",
-            security: "Analysis not available",
-            optimizations: [],
-            issues: [],
-            overallScore: 0
-          }
-        };
-      }
-    } catch (parseError) {
-      console.error('Failed to parse AI response:', parseError);
-      parsedResponse = {
-        analysis: {
-          codeQuality: "Failed to analyze code",
-          performance: "Failed to analyze code",
-          accessibility: "Failed to analyze code",
-          security: "Failed to analyze code",
-          optimizations: [],
-          issues: [],
-          overallScore: 0
-        }
-      };
+    res.json({
+      success: true,
+      data: { key, ...describeCacheKey(key), value }
+    });
+  } catch (error) {
+    console.error('Get AI cache entry error:', error);
+    res.status(500).json({ error: 'Failed to get cache entry' });
+  }
+});
+
+// Purge cached responses matching a pattern (admin); the pattern is required so nothing is purged by accident
+router.delete('/cache', auth, requireAdmin, async (req, res) => {
+  try {
+    const pattern = getCachePattern(req.query.pattern);
+    if (!pattern) {
+      return res.status(400).json({ error: `pattern must be a glob of at most ${MAX_CACHE_PATTERN_LENGTH} characters` });
     }
 
+    const deleted = await clearCache(pattern);
     res.json({
       success: true,
-      data: parsedResponse
+      data: { pattern, deleted }
     });
-
   } catch (error) {
-    console.error('AI analysis error:', error);
-    res.status(500).json({ 
-      error: 'Failed to analyze component',
-      details: error.message 
-    });
+    console.error('Purge AI cache error:', error);
+    res.status(500).json({ error: 'Failed to purge cache entries' });
   }
 });
 
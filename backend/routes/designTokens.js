@@ -0,0 +1,163 @@
+const express = require('express');
+const DesignTokenSet = require('../models/DesignTokenSet');
+const Session = require('../models/Session');
+const { auth } = require('../middleware/auth');
+const { validateTokens } = require('../services/designTokens');
+
+const router = express.Router();
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+const validateName = (name) => {
+  if (typeof name !== 'string' || !name.trim() || name.trim().length > 100) {
+    return 'Name is required and must be at most 100 characters';
+  }
+  return null;
+};
+
+// Only one set per user is the default
+const makeDefault = async (tokenSet) => {
+  await DesignTokenSet.updateMany(
+    { userId: tokenSet.userId, _id: { $ne: tokenSet._id }, isDefault: true },
+    { $set: { isDefault: false } }
+  );
+  tokenSet.isDefault = true;
+  await tokenSet.save();
+};
+
+// List the user's token sets
+router.get('/', auth, async (req, res) => {
+  try {
+    const tokenSets = await DesignTokenSet.find({ userId: req.user._id }).sort({ name: 1 });
+
+    res.json({ tokenSets });
+  } catch (error) {
+    console.error('Design tokens fetch error:', error);
+    res.status(500).json({ error: 'Failed to fetch design tokens' });
+  }
+});
+
+router.get('/:id', auth, async (req, res) => {
+  try {
+    const tokenSet = await DesignTokenSet.findOne({ _id: req.params.id, userId: req.user._id });
+    if (!tokenSet) {
+      return res.status(404).json({ error: 'Token set not found' });
+    }
+
+    res.json({ tokenSet });
+  } catch (error) {
+    console.error('Design token set fetch error:', error);
+    res.status(500).json({ error: 'Failed to fetch token set' });
+  }
+});
+
+// Create a token set; the user's first set becomes their default
+router.post('/', auth, async (req, res) => {
+  try {
+    const { name, tokens = [], isDefault = false } = req.body;
+
+    const nameError = validateName(name);
+    if (nameError) {
+      return res.status(400).json({ error: nameError });
+    }
+    const validated = validateTokens(tokens);
+    if (validated.error) {
+      return res.status(400).json({ error: validated.error });
+    }
+
+    const tokenSet = new DesignTokenSet({
+      userId: req.user._id,
+      name: name.trim(),
+      tokens: validated.tokens
+    });
+    await tokenSet.save();
+
+    const hasDefault = await DesignTokenSet.exists({ userId: req.user._id, isDefault: true });
+    if (isDefault === true || !hasDefault) {
+      await makeDefault(tokenSet);
+    }
+
+    res.status(201).json({ tokenSet });
+  } catch (error) {
+    if (error.code === DUPLICATE_KEY_ERROR) {
+      return res.status(409).json({ error: `A token set named "${req.body.name.trim()}" already exists` });
+    }
+    console.error('Design token set create error:', error);
+    res.status(500).json({ error: 'Failed to create token set' });
+  }
+});
+
+// Rename a set or replace its tokens
+router.put('/:id', auth, async (req, res) => {
+  try {
+    const { name, tokens } = req.body;
+
+    const tokenSet = await DesignTokenSet.findOne({ _id: req.params.id, userId: req.user._id });
+    if (!tokenSet) {
+      return res.status(404).json({ error: 'Token set not found' });
+    }
+
+    if (name !== undefined) {
+      const nameError = validateName(name);
+      if (nameError) {
+        return res.status(400).json({ error: nameError });
+      }
+      tokenSet.name = name.trim();
+    }
+    if (tokens !== undefined) {
+      const validated = validateTokens(tokens);
+      if (validated.error) {
+        return res.status(400).json({ error: validated.error });
+      }
+      tokenSet.tokens = validated.tokens;
+    }
+    await tokenSet.save();
+
+    res.json({ tokenSet });
+  } catch (error) {
+    if (error.code === DUPLICATE_KEY_ERROR) {
+      return res.status(409).json({ error: `A token set named "${req.body.name.trim()}" already exists` });
+    }
+    console.error('Design token set update error:', error);
+    res.status(500).json({ error: 'Failed to update token set' });
+  }
+});
+
+// Use this set for sessions that haven't picked one
+router.post('/:id/default', auth, async (req, res) => {
+  try {
+    const tokenSet = await DesignTokenSet.findOne({ _id: req.params.id, userId: req.user._id });
+    if (!tokenSet) {
+      return res.status(404).json({ error: 'Token set not found' });
+    }
+
+    await makeDefault(tokenSet);
+
+    res.json({ tokenSet });
+  } catch (error) {
+    console.error('Design token default error:', error);
+    res.status(500).json({ error: 'Failed to set default token set' });
+  }
+});
+
+// Delete a set; sessions using it fall back to the default
+router.delete('/:id', auth, async (req, res) => {
+  try {
+    const tokenSet = await DesignTokenSet.findOneAndDelete({ _id: req.params.id, userId: req.user._id });
+    if (!tokenSet) {
+      return res.status(404).json({ error: 'Token set not found' });
+    }
+
+    await Session.updateMany(
+      { userId: req.user._id, designTokenSetId: tokenSet._id },
+      { $set: { designTokenSetId: null } }
+    );
+
+    res.json({ message: 'Token set deleted' });
+  } catch (error) {
+    console.error('Design token set delete error:', error);
+    res.status(500).json({ error: 'Failed to delete token set' });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,229 @@
+const express = require('express');
+const mongoose = require('mongoose');
+const Session = require('../models/Session');
+const { auth } = require('../middleware/auth');
+const { withProvider, requireQuota } = require('../middleware/ai');
+const {
+  JOB_TYPES,
+  isFinished,
+  describeJob,
+  getJob,
+  getUserJob,
+  enqueueJob,
+  listJobs,
+  cancelJob,
+  getJobFile,
+  subscribeToJob
+} = require('../services/jobs/queue');
+const { JOB_HANDLERS } = require('../services/jobs/handlers');
+const { releaseQuota } = require('../services/usage');
+
+const router = express.Router();
+
+const KEEP_ALIVE_INTERVAL = 15 * 1000;
+
+const checkJobRequest = (req, res, next) => {
+  const { type, sessionId } = req.body;
+  if (!JOB_TYPES.includes(type)) {
+    return res.status(400).json({ error: `type must be one of ${JOB_TYPES.join(', ')}` });
+  }
+  if (sessionId !== undefined && !mongoose.Types.ObjectId.isValid(sessionId)) {
+    return res.status(400).json({ error: 'Invalid sessionId' });
+  }
+  next();
+};
+
+// Provider and quota checks apply to the job types that call a model
+const forAIJobs = (middleware) => (req, res, next) => (
+  JOB_HANDLERS[req.body.type].ai ? middleware(req, res, next) : next()
+);
+
+// Queue a job. The body is { type, provider, model, cacheScope } plus the request of the
+// matching /api/ai endpoint, or { type: 'export', sessionId, options } for exports. A queued
+// AI job keeps the request's quota reservation until it finishes.
+router.post('/', auth, checkJobRequest, forAIJobs(withProvider), forAIJobs(requireQuota), async (req, res) => {
+  let job = null;
+  try {
+    const { type, provider, model, cacheScope, ...payload } = req.body;
+
+    const invalid = JOB_HANDLERS[type].validate(payload);
+    if (invalid) {
+      return res.status(400).json({ error: invalid, code: 'INVALID_REQUEST' });
+    }
+
+    if (payload.sessionId) {
+      const session = await Session.exists({
+        _id: payload.sessionId,
+        isActive: true,
+        ...Session.accessFilter(req.user._id, { canEdit: JOB_HANDLERS[type].editSession })
+      });
+      if (!session) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+    }
+
+    job = await enqueueJob({
+      type,
+      userId: req.user._id,
+      sessionId: payload.sessionId || null,
+      provider: req.aiProvider ? req.aiProvider.name : null,
+      model: req.aiProvider ? req.aiModel : null,
+      cacheScope: req.cacheScope,
+      quotaReservation: req.quotaReservation ? req.quotaReservation.id : null,
+      payload
+    });
+
+    res.status(202).json({ job: describeJob(job) });
+  } catch (error) {
+    console.error('Queue job error:', error);
+    res.status(500).json({ error: 'Failed to queue job' });
+  } finally {
+    if (!job) {
+      await releaseQuota(req.quotaReservation).catch(error => console.error('Release AI quota error:', error));
+    }
+  }
+});
+
+// The user's recent jobs, optionally only a session's or only the unfinished ones
+router.get('/', auth, async (req, res) => {
+  try {
+    const jobs = await listJobs(req.user._id, {
+      sessionId: req.query.sessionId,
+      active: req.query.active === 'true'
+    });
+    res.json({ jobs: jobs.map(describeJob) });
+  } catch (error) {
+    console.error('List jobs error:', error);
+    res.status(500).json({ error: 'Failed to list jobs' });
+  }
+});
+
+router.get('/:jobId', auth, async (req, res) => {
+  try {
+    const job = await getUserJob(req.user._id, req.params.jobId);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    res.json({ job: describeJob(job) });
+  } catch (error) {
+    console.error('Get job error:', error);
+    res.status(500).json({ error: 'Failed to get job' });
+  }
+});
+
+// Follow a job as server-sent events: 'status' with the job whenever it changes, 'partial'
+// output while a generation streams. The stream ends once the job has finished.
+router.get('/:jobId/events', auth, async (req, res) => {
+  let job;
+  try {
+    job = await getUserJob(req.user._id, req.params.jobId);
+  } catch (error) {
+    console.error('Job events error:', error);
+    return res.status(500).json({ error: 'Failed to get job' });
+  }
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+
+  const sendEvent = (event, data) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    if (res.flush) {
+      res.flush();
+    }
+  };
+
+  let closed = false;
+  let unsubscribe = () => {};
+  const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), KEEP_ALIVE_INTERVAL);
+  const close = () => {
+    if (!closed) {
+      closed = true;
+      clearInterval(keepAlive);
+      unsubscribe();
+      res.end();
+    }
+  };
+  res.on('close', close);
+
+  const sendStatus = (current) => {
+    sendEvent('status', current);
+    if (isFinished(current)) {
+      close();
+    }
+  };
+
+  try {
+    // Subscribed before the job is read again, so no change is missed in between
+    const stop = await subscribeToJob(job.id, ({ event, data }) => {
+      if (event === 'status') {
+        sendStatus(data);
+      } else if (event !== 'cancel') {
+        sendEvent(event, data);
+      }
+    });
+    if (closed) {
+      return stop();
+    }
+    unsubscribe = stop;
+
+    sendStatus(describeJob(await getJob(job.id)));
+  } catch (error) {
+    console.error('Job events error:', error);
+    sendEvent('error', { error: 'Failed to follow job' });
+    close();
+  }
+});
+
+router.post('/:jobId/cancel', auth, async (req, res) => {
+  try {
+    const job = await getUserJob(req.user._id, req.params.jobId);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    if (isFinished(job)) {
+      return res.status(409).json({ error: 'Job has already finished', code: 'JOB_FINISHED', job: describeJob(job) });
+    }
+
+    res.json({ job: describeJob(await cancelJob(job.id)) });
+  } catch (error) {
+    console.error('Cancel job error:', error);
+    res.status(500).json({ error: 'Failed to cancel job' });
+  }
+});
+
+// The file of a finished export job
+router.get('/:jobId/download', auth, async (req, res) => {
+  try {
+    const job = await getUserJob(req.user._id, req.params.jobId);
+    if (!job || job.type !== 'export') {
+      return res.status(404).json({ error: 'Export job not found' });
+    }
+    if (job.status !== 'succeeded') {
+      return res.status(409).json({ error: 'Export has not finished', code: 'JOB_NOT_FINISHED' });
+    }
+
+    const file = await getJobFile(job.id);
+    if (!file) {
+      return res.status(404).json({ error: 'Export file has expired' });
+    }
+
+    res.set({
+      'Content-Type': file.contentType,
+      'Content-Disposition': `attachment; filename="${file.filename}"`
+    });
+    res.send(file.content);
+  } catch (error) {
+    console.error('Download job file error:', error);
+    res.status(500).json({ error: 'Failed to download export' });
+  }
+});
+
+module.exports = router;
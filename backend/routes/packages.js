@@ -0,0 +1,172 @@
+const express = require('express');
+const PreviewPackage = require('../models/PreviewPackage');
+const { auth, requireAdmin } = require('../middleware/auth');
+const {
+  validatePackageName,
+  validatePackageVersion,
+  invalidateAllowedPackages,
+  queuePackageBuild,
+  removeBundle
+} = require('../services/packages');
+const { readBundle } = require('../services/packages/bundler');
+
+const router = express.Router();
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+// List the allow-list; admins also see disabled, building and failed packages
+router.get('/', auth, async (req, res) => {
+  try {
+    const filter = req.user.role === 'admin' ? {} : { enabled: true, status: 'ready' };
+    const packages = await PreviewPackage.find(filter).sort({ name: 1 });
+
+    res.json({ packages });
+  } catch (error) {
+    console.error('Packages fetch error:', error);
+    res.status(500).json({ error: 'Failed to fetch packages' });
+  }
+});
+
+// The package's prebuilt CommonJS bundle, loaded by the preview
+router.get('/:id/bundle', auth, async (req, res) => {
+  try {
+    const pkg = await PreviewPackage.findOne({ _id: req.params.id, status: 'ready' });
+
+    if (!pkg || (!pkg.enabled && req.user.role !== 'admin')) {
+      return res.status(404).json({ error: 'Package not found' });
+    }
+
+    const bundle = await readBundle(pkg.name, pkg.version);
+    if (bundle === null) {
+      return res.status(404).json({ error: 'Package bundle not found; rebuild it', code: 'BUNDLE_MISSING' });
+    }
+    res.set({
+      'Content-Type': 'application/javascript; charset=utf-8',
+      // The URL carries no version, so clients revalidate against the version in the list
+      'Cache-Control': 'private, no-cache',
+      ETag: `"${pkg.name}@${pkg.version}"`
+    });
+    res.send(bundle);
+  } catch (error) {
+    console.error('Package bundle error:', error);
+    res.status(500).json({ error: 'Failed to load package bundle' });
+  }
+});
+
+// Add a package to the allow-list and build its bundle in the background
+router.post('/', auth, requireAdmin, async (req, res) => {
+  try {
+    const { name, version, description = '' } = req.body;
+
+    const validationError = validatePackageName(name) || validatePackageVersion(version);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const pkg = new PreviewPackage({
+      name,
+      version,
+      description,
+      addedBy: req.user._id
+    });
+    await pkg.save();
+
+    queuePackageBuild(pkg._id);
+
+    res.status(201).json({ package: pkg });
+  } catch (error) {
+    if (error.code === DUPLICATE_KEY_ERROR) {
+      return res.status(409).json({ error: `${req.body.name} is already on the allow-list` });
+    }
+    console.error('Package create error:', error);
+    res.status(500).json({ error: 'Failed to add package' });
+  }
+});
+
+// Update the description, enable or disable, or move to another version (rebuilt)
+router.put('/:id', auth, requireAdmin, async (req, res) => {
+  try {
+    const { version, description, enabled } = req.body;
+
+    const pkg = await PreviewPackage.findById(req.params.id);
+    if (!pkg) {
+      return res.status(404).json({ error: 'Package not found' });
+    }
+
+    if (version !== undefined) {
+      const validationError = validatePackageVersion(version);
+      if (validationError) {
+        return res.status(400).json({ error: validationError });
+      }
+    }
+    if (enabled !== undefined && typeof enabled !== 'boolean') {
+      return res.status(400).json({ error: 'enabled must be a boolean' });
+    }
+
+    const previousVersion = pkg.version;
+    const rebuild = version !== undefined && version !== pkg.version;
+    if (description !== undefined) pkg.description = description;
+    if (enabled !== undefined) pkg.enabled = enabled;
+    if (rebuild) {
+      pkg.version = version;
+      pkg.status = 'pending';
+      pkg.bundleSize = null;
+      pkg.builtAt = null;
+    }
+    await pkg.save();
+    await invalidateAllowedPackages();
+
+    if (rebuild) {
+      await removeBundle(pkg.name, previousVersion);
+      queuePackageBuild(pkg._id);
+    }
+
+    res.json({ package: pkg });
+  } catch (error) {
+    console.error('Package update error:', error);
+    res.status(500).json({ error: 'Failed to update package' });
+  }
+});
+
+// Build the bundle again, e.g. after a failed install
+router.post('/:id/rebuild', auth, requireAdmin, async (req, res) => {
+  try {
+    const pkg = await PreviewPackage.findById(req.params.id);
+    if (!pkg) {
+      return res.status(404).json({ error: 'Package not found' });
+    }
+    if (pkg.status === 'building') {
+      return res.status(409).json({ error: `${pkg.name} is already being built` });
+    }
+
+    pkg.status = 'pending';
+    await pkg.save();
+    await invalidateAllowedPackages();
+    queuePackageBuild(pkg._id);
+
+    res.status(202).json({ package: pkg });
+  } catch (error) {
+    console.error('Package rebuild error:', error);
+    res.status(500).json({ error: 'Failed to rebuild package' });
+  }
+});
+
+// Remove a package from the allow-list; components that import it stop previewing
+router.delete('/:id', auth, requireAdmin, async (req, res) => {
+  try {
+    const pkg = await PreviewPackage.findByIdAndDelete(req.params.id);
+    if (!pkg) {
+      return res.status(404).json({ error: 'Package not found' });
+    }
+
+    await invalidateAllowedPackages();
+    await removeBundle(pkg.name, pkg.version);
+
+    res.json({ message: 'Package removed' });
+  } catch (error) {
+    console.error('Package delete error:', error);
+    res.status(500).json({ error: 'Failed to remove package' });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,232 @@
+const express = require('express');
+const PromptTemplate = require('../models/PromptTemplate');
+const PromptTemplateVersion = require('../models/PromptTemplateVersion');
+const { auth } = require('../middleware/auth');
+const { TEMPLATE_TASKS, BUILT_IN_INSTRUCTIONS, validatePrompt } = require('../services/promptTemplates');
+
+const router = express.Router();
+
+const DUPLICATE_KEY_ERROR = 11000;
+const PROMPT_FIELDS = ['systemPrompt', 'body', 'mode', 'variables'];
+
+const validateDetails = ({ name, description, visibility }) => {
+  if (name !== undefined && (typeof name !== 'string' || !name.trim() || name.trim().length > 100)) {
+    return 'Name is required and must be at most 100 characters';
+  }
+  if (description !== undefined && (typeof description !== 'string' || description.length > 500)) {
+    return 'Description must be at most 500 characters';
+  }
+  if (visibility !== undefined && !['private', 'shared'].includes(visibility)) {
+    return 'visibility must be private or shared';
+  }
+  return null;
+};
+
+// Owners edit their templates; admins edit any, e.g. to tune a shared default
+const canEdit = (template, user) => {
+  return String(template.ownerId) === String(user._id) || user.role === 'admin';
+};
+
+const findAccessible = (user, id) => {
+  return PromptTemplate.findOne({ _id: id, $or: [{ ownerId: user._id }, { visibility: 'shared' }] });
+};
+
+const saveVersion = (template, prompt, user) => {
+  return new PromptTemplateVersion({
+    templateId: template._id,
+    version: template.version,
+    ...prompt,
+    createdBy: user._id
+  }).save();
+};
+
+// Only one default template per task
+const makeDefault = async (template) => {
+  await PromptTemplate.updateMany(
+    { task: template.task, _id: { $ne: template._id }, isDefault: true },
+    { $set: { isDefault: false } }
+  );
+  template.isDefault = true;
+};
+
+// List the user's templates and the shared ones, optionally for one task
+router.get('/', auth, async (req, res) => {
+  try {
+    const { task } = req.query;
+    const filter = { $or: [{ ownerId: req.user._id }, { visibility: 'shared' }] };
+    if (task) {
+      if (!TEMPLATE_TASKS.includes(task)) {
+        return res.status(400).json({ error: `task must be one of ${TEMPLATE_TASKS.join(', ')}` });
+      }
+      filter.task = task;
+    }
+
+    const templates = await PromptTemplate.find(filter).sort({ task: 1, name: 1 });
+
+    res.json({ templates });
+  } catch (error) {
+    console.error('Prompt templates fetch error:', error);
+    res.status(500).json({ error: 'Failed to fetch prompt templates' });
+  }
+});
+
+// The instructions each task uses without a template, as a starting point for new ones
+router.get('/built-in', auth, (req, res) => {
+  res.json({ instructions: BUILT_IN_INSTRUCTIONS });
+});
+
+router.get('/:id', auth, async (req, res) => {
+  try {
+    const template = await findAccessible(req.user, req.params.id);
+    if (!template) {
+      return res.status(404).json({ error: 'Prompt template not found' });
+    }
+
+    res.json({ template });
+  } catch (error) {
+    console.error('Prompt template fetch error:', error);
+    res.status(500).json({ error: 'Failed to fetch prompt template' });
+  }
+});
+
+// Every version of the template's prompt, newest first
+router.get('/:id/versions', auth, async (req, res) => {
+  try {
+    const template = await findAccessible(req.user, req.params.id);
+    if (!template) {
+      return res.status(404).json({ error: 'Prompt template not found' });
+    }
+
+    const versions = await PromptTemplateVersion.find({ templateId: template._id }).sort({ version: -1 });
+
+    res.json({ versions });
+  } catch (error) {
+    console.error('Prompt template versions fetch error:', error);
+    res.status(500).json({ error: 'Failed to fetch prompt template versions' });
+  }
+});
+
+// Create a template at version 1
+router.post('/', auth, async (req, res) => {
+  try {
+    const { name, description = '', task, visibility = 'private' } = req.body;
+
+    if (name === undefined) {
+      return res.status(400).json({ error: 'Name is required' });
+    }
+    if (!TEMPLATE_TASKS.includes(task)) {
+      return res.status(400).json({ error: `task must be one of ${TEMPLATE_TASKS.join(', ')}` });
+    }
+    const detailsError = validateDetails({ name, description, visibility });
+    if (detailsError) {
+      return res.status(400).json({ error: detailsError });
+    }
+    const { prompt, error } = validatePrompt(req.body);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    const template = new PromptTemplate({
+      ownerId: req.user._id,
+      name: name.trim(),
+      description,
+      task,
+      visibility,
+      version: 1,
+      ...prompt
+    });
+    await template.save();
+    await saveVersion(template, prompt, req.user);
+
+    res.status(201).json({ template });
+  } catch (error) {
+    console.error('Prompt template create error:', error);
+    res.status(500).json({ error: 'Failed to create prompt template' });
+  }
+});
+
+// Update the details; a changed prompt becomes a new version. isDefault is admin-only.
+router.put('/:id', auth, async (req, res) => {
+  try {
+    const { name, description, visibility, isDefault } = req.body;
+
+    const template = await findAccessible(req.user, req.params.id);
+    if (!template) {
+      return res.status(404).json({ error: 'Prompt template not found' });
+    }
+    if (!canEdit(template, req.user)) {
+      return res.status(403).json({ error: 'Only the owner can edit this template' });
+    }
+
+    const detailsError = validateDetails({ name, description, visibility });
+    if (detailsError) {
+      return res.status(400).json({ error: detailsError });
+    }
+    if (isDefault !== undefined && (typeof isDefault !== 'boolean' || req.user.role !== 'admin')) {
+      return res.status(403).json({ error: 'Only admins choose default templates', code: 'ADMIN_REQUIRED' });
+    }
+    if (isDefault === true && (visibility || template.visibility) !== 'shared') {
+      return res.status(400).json({ error: 'Only shared templates can be a default' });
+    }
+
+    // Fields left out keep their current values
+    const current = {
+      systemPrompt: template.systemPrompt,
+      body: template.body,
+      mode: template.mode,
+      variables: template.variables.map((variable) => variable.toObject())
+    };
+    const { prompt, error } = validatePrompt({ ...current, ...req.body });
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    if (name !== undefined) template.name = name.trim();
+    if (description !== undefined) template.description = description;
+    if (visibility !== undefined) template.visibility = visibility;
+    if (isDefault === true) {
+      await makeDefault(template);
+    } else if (isDefault === false || template.visibility !== 'shared') {
+      template.isDefault = false;
+    }
+
+    const promptChanged = PROMPT_FIELDS.some((field) => JSON.stringify(prompt[field]) !== JSON.stringify(current[field]));
+    if (promptChanged) {
+      template.version += 1;
+      Object.assign(template, prompt);
+      await saveVersion(template, prompt, req.user);
+    }
+    await template.save();
+
+    res.json({ template });
+  } catch (error) {
+    if (error.code === DUPLICATE_KEY_ERROR) {
+      return res.status(409).json({ error: 'The template was changed by another request; reload it', code: 'VERSION_CONFLICT' });
+    }
+    console.error('Prompt template update error:', error);
+    res.status(500).json({ error: 'Failed to update prompt template' });
+  }
+});
+
+// Delete a template and its versions; results keep the name and version they recorded
+router.delete('/:id', auth, async (req, res) => {
+  try {
+    const template = await findAccessible(req.user, req.params.id);
+    if (!template) {
+      return res.status(404).json({ error: 'Prompt template not found' });
+    }
+    if (!canEdit(template, req.user)) {
+      return res.status(403).json({ error: 'Only the owner can delete this template' });
+    }
+
+    await PromptTemplate.deleteOne({ _id: template._id });
+    await PromptTemplateVersion.deleteMany({ templateId: template._id });
+
+    res.json({ message: 'Prompt template deleted' });
+  } catch (error) {
+    console.error('Prompt template delete error:', error);
+    res.status(500).json({ error: 'Failed to delete prompt template' });
+  }
+});
+
+module.exports = router;
@@ -1,14 +1,142 @@
 const express = require('express');
+const multer = require('multer');
+const mongoose = require('mongoose');
 const Session = require('../models/Session');
+const User = require('../models/User');
+const ComponentVersion = require('../models/ComponentVersion');
+const ComponentAnalysis = require('../models/ComponentAnalysis');
+const DesignTokenSet = require('../models/DesignTokenSet');
+const { diffComponentCode } = require('../services/codeDiff');
+const { ExportError, exportSession } = require('../services/export/session');
+const { IMPORT_LIMITS, ImportError, isSupportedUpload, buildImport } = require('../services/componentImport');
+const { validateFiles, validateEntry } = require('../services/componentFiles');
+const { COLLABORATOR_ROLES, publishChatMessage, publishCodeChange } = require('../services/collaboration');
+const { notifySession } = require('../services/collaboration/events');
 const { auth } = require('../middleware/auth');
 const { setSessionData, getSessionData } = require('../config/redis');
 
 const router = express.Router();
 
-// Helper function to ensure session data has proper defaults
-const ensureSessionDefaults = (session) => {
+// Imported files are only parsed, never written to disk
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: IMPORT_LIMITS.fileSize,
+    files: IMPORT_LIMITS.files,
+    fieldSize: IMPORT_LIMITS.sourceSize
+  },
+  fileFilter: (req, file, cb) => {
+    if (!isSupportedUpload(file.originalname)) {
+      return cb(new ImportError(`${file.originalname} is not a .jsx, .tsx, .css or .zip file`, 'IMPORT_UNSUPPORTED_FILE'));
+    }
+    cb(null, true);
+  }
+}).array('files');
+
+const sendImportError = (res, error) => {
+  return res.status(error.status).json({ error: error.message, code: error.code, ...error.details });
+};
+
+// Multipart uploads go through multer; pasted code may also arrive as plain JSON
+const receiveImportFiles = (req, res, next) => {
+  importUpload(req, res, (error) => {
+    if (error instanceof multer.MulterError) {
+      const limitMessages = {
+        LIMIT_FILE_SIZE: `Files must be smaller than ${IMPORT_LIMITS.fileSize / 1024} KB`,
+        LIMIT_FILE_COUNT: `At most ${IMPORT_LIMITS.files} files can be imported at once`,
+        LIMIT_FIELD_VALUE: `Pasted code must be smaller than ${IMPORT_LIMITS.sourceSize / 1024} KB`
+      };
+      const limitMessage = limitMessages[error.code];
+      return sendImportError(res, limitMessage
+        ? new ImportError(limitMessage, 'IMPORT_TOO_LARGE', 413)
+        : new ImportError(error.message, 'IMPORT_INVALID_FILE'));
+    }
+    if (error instanceof ImportError) {
+      return sendImportError(res, error);
+    }
+    next(error);
+  });
+};
+
+const parseTags = (tags) => {
+  if (!tags) {
+    return [];
+  }
+  const list = Array.isArray(tags) ? tags : String(tags).split(',');
+  return list.map(tag => String(tag).trim()).filter(Boolean);
+};
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+const sendVersionConflict = (res, session) => {
+  return res.status(409).json({
+    error: 'Component code was changed by another save',
+    code: 'VERSION_CONFLICT',
+    componentCode: session.componentCode
+  });
+};
+
+// Conditions for a session the user owns or that is shared with them; with `canEdit`, one
+// they only view is left out
+const CODE_FIELDS = ['jsx', 'css', 'tsx'];
+
+// Code sent by a client; returns an error message or null. Fields left out are allowed
+// unless `required`.
+const validateCodeFields = (code, required = []) => {
+  if (!code || typeof code !== 'object' || Array.isArray(code)) {
+    return 'componentCode must be an object';
+  }
+  const invalid = CODE_FIELDS.find(field => (code[field] !== undefined || required.includes(field)) && typeof code[field] !== 'string');
+  return invalid ? `${invalid} must be a string` : null;
+};
+
+const accessibleSession = (sessionId, userId, options) => ({
+  _id: sessionId,
+  isActive: true,
+  ...Session.accessFilter(userId, options)
+});
+
+// The owner and collaborators with their names, for sharing and presence
+const describeMembers = async (session) => {
+  const ids = [session.userId, ...session.collaborators.map(collaborator => collaborator.userId)];
+  const users = await User.find({ _id: { $in: ids } }).select('name email avatar');
+  const byId = new Map(users.map(user => [String(user._id), user]));
+
+  const describeUser = (userId) => {
+    const user = byId.get(String(userId));
+    return {
+      userId,
+      name: user ? user.name : 'Deleted user',
+      email: user ? user.email : null,
+      avatar: user ? user.avatar : null
+    };
+  };
+
+  return {
+    owner: describeUser(session.userId),
+    collaborators: session.collaborators.map(collaborator => ({
+      ...describeUser(collaborator.userId),
+      role: collaborator.role,
+      addedAt: collaborator.addedAt
+    }))
+  };
+};
+
+// Save the collaborators and tell everyone in the session, including whoever lost access
+const saveCollaborators = async (session) => {
+  await session.save();
+  const members = await describeMembers(session);
+  notifySession(session._id, 'collaborators', members);
+  return members;
+};
+
+// Helper function to ensure session data has proper defaults; with `userId`, their role in
+// the session is added
+const ensureSessionDefaults = (session, userId = null) => {
   return {
     ...session.toObject(),
+    collaborators: session.collaborators || [],
+    ...(userId ? { role: session.getAccessRole(userId) } : {}),
     chatHistory: session.chatHistory || [],
     tags: session.tags || [],
     componentCode: session.componentCode || {
@@ -27,21 +155,23 @@ const ensureSessionDefaults = (session) => {
   };
 };
 
-// Get all sessions for current user
+// Get all sessions for current user, their own and those shared with them
 router.get('/', auth, async (req, res) => {
   try {
     const { page = 1, limit = 10, search } = req.query;
     const skip = (page - 1) * limit;
 
-    let query = { userId: req.user._id, isActive: true };
+    let query = { isActive: true, ...Session.accessFilter(req.user._id) };
 
     // Add search functionality
     if (search) {
-      query.$or = [
-        { title: { $regex: search, $options: 'i' } },
-        { description: { $regex: search, $options: 'i' } },
-        { tags: { $in: [new RegExp(search, 'i')] } }
-      ];
+      query.$and = [{
+        $or: [
+          { title: { $regex: search, $options: 'i' } },
+          { description: { $regex: search, $options: 'i' } },
+          { tags: { $in: [new RegExp(search, 'i')] } }
+        ]
+      }];
     }
 
     const sessions = await Session.find(query)
@@ -53,7 +183,7 @@ router.get('/', auth, async (req, res) => {
     const total = await Session.countDocuments(query);
 
     // Ensure all sessions have proper defaults
-    const sessionsWithDefaults = sessions.map(session => ensureSessionDefaults(session));
+    const sessionsWithDefaults = sessions.map(session => ensureSessionDefaults(session, req.user._id));
 
     res.json({
       sessions: sessionsWithDefaults,
@@ -75,11 +205,7 @@ router.get('/:sessionId', auth, async (req, res) => {
   try {
     const { sessionId } = req.params;
 
-    const session = await Session.findOne({
-      _id: sessionId,
-      userId: req.user._id,
-      isActive: true
-    });
+    const session = await Session.findOne(accessibleSession(sessionId, req.user._id));
 
     if (!session) {
       return res.status(404).json({ error: 'Session not found' });
@@ -92,7 +218,7 @@ router.get('/:sessionId', auth, async (req, res) => {
       uiState: session.uiState || {}
     });
 
-    res.json({ session: ensureSessionDefaults(session) });
+    res.json({ session: ensureSessionDefaults(session, req.user._id) });
   } catch (error) {
     console.error('Fetch session error:', error);
     res.status(500).json({ error: 'Failed to fetch session' });
@@ -136,7 +262,7 @@ router.post('/', auth, async (req, res) => {
 
     res.status(201).json({
       message: 'Session created successfully',
-      session: ensureSessionDefaults(session)
+      session: ensureSessionDefaults(session, req.user._id)
     });
   } catch (error) {
     console.error('Create session error:', error);
@@ -144,11 +270,97 @@ router.post('/', auth, async (req, res) => {
   }
 });
 
+// Create a session seeded with imported component code (see services/componentImport)
+router.post('/import', auth, receiveImportFiles, async (req, res) => {
+  try {
+    const { title, description, jsx, css, tsx, entry } = req.body;
+
+    let imported;
+    try {
+      imported = await buildImport({ uploads: req.files || [], pasted: { jsx, css, tsx }, entry });
+    } catch (importError) {
+      if (importError instanceof ImportError) {
+        return sendImportError(res, importError);
+      }
+      throw importError;
+    }
+
+    const componentName = (imported.componentCode.jsx.match(/(?:function|const|class)\s+([A-Z]\w*)/) || [])[1];
+
+    const session = new Session({
+      userId: req.user._id,
+      title: title || componentName || 'Imported component',
+      description: description || '',
+      tags: parseTags(req.body.tags),
+      chatHistory: [],
+      componentCode: {
+        ...imported.componentCode,
+        version: 1,
+        lastModified: new Date()
+      },
+      uiState: {
+        selectedElement: null,
+        properties: {},
+        viewport: {
+          width: 1200,
+          height: 800
+        },
+        theme: 'light'
+      },
+      metadata: {
+        importedFiles: imported.files
+      }
+    });
+
+    await session.save();
+
+    await ComponentVersion.create({
+      sessionId: session._id,
+      version: 1,
+      jsx: session.componentCode.jsx,
+      css: session.componentCode.css,
+      tsx: session.componentCode.tsx,
+      entry: session.componentCode.entry,
+      files: session.componentCode.files,
+      source: 'initial',
+      createdBy: req.user._id
+    });
+
+    res.status(201).json({
+      message: 'Component imported successfully',
+      session: ensureSessionDefaults(session, req.user._id),
+      skipped: imported.skipped
+    });
+  } catch (error) {
+    console.error('Import session error:', error);
+    res.status(500).json({ error: 'Failed to import component' });
+  }
+});
+
 // Update session metadata
 router.put('/:sessionId', auth, async (req, res) => {
   try {
     const { sessionId } = req.params;
-    const { title, description, tags } = req.body;
+    const { title, description, tags, designTokenSetId } = req.body;
+
+    const update = {
+      title,
+      description,
+      tags,
+      lastAccessed: new Date()
+    };
+
+    // null goes back to the user's default token set
+    if (designTokenSetId !== undefined) {
+      if (designTokenSetId !== null) {
+        const tokenSet = mongoose.Types.ObjectId.isValid(designTokenSetId)
+          && await DesignTokenSet.exists({ _id: designTokenSetId, userId: req.user._id });
+        if (!tokenSet) {
+          return res.status(400).json({ error: 'Token set not found' });
+        }
+      }
+      update.designTokenSetId = designTokenSetId;
+    }
 
     const session = await Session.findOneAndUpdate(
       {
@@ -156,12 +368,7 @@ router.put('/:sessionId', auth, async (req, res) => {
         userId: req.user._id,
         isActive: true
       },
-      {
-        title,
-        description,
-        tags,
-        lastAccessed: new Date()
-      },
+      update,
       { new: true, runValidators: true }
     );
 
@@ -169,6 +376,15 @@ router.put('/:sessionId', auth, async (req, res) => {
       return res.status(404).json({ error: 'Session not found' });
     }
 
+    notifySession(sessionId, 'session', {
+      session: {
+        title: session.title,
+        description: session.description,
+        tags: session.tags,
+        designTokenSetId: session.designTokenSetId
+      }
+    });
+
     res.json({
       message: 'Session updated successfully',
       session
@@ -200,6 +416,7 @@ router.delete('/:sessionId', auth, async (req, res) => {
 
     // Clear session data from Redis
     await setSessionData(sessionId, null);
+    notifySession(sessionId, 'deleted');
 
     res.json({ message: 'Session deleted successfully' });
   } catch (error) {
@@ -218,17 +435,15 @@ router.post('/:sessionId/chat', auth, async (req, res) => {
       return res.status(400).json({ error: 'Role and content are required' });
     }
 
-    const session = await Session.findOne({
-      _id: sessionId,
-      userId: req.user._id,
-      isActive: true
-    });
+    const session = await Session.findOne(accessibleSession(sessionId, req.user._id, { canEdit: true }));
 
     if (!session) {
       return res.status(404).json({ error: 'Session not found' });
     }
 
     await session.addChatMessage(role, content, metadata);
+    const chatMessage = session.chatHistory[session.chatHistory.length - 1];
+    publishChatMessage(session, chatMessage, req.user._id);
 
     // Update Redis cache
     await setSessionData(sessionId, {
@@ -239,7 +454,8 @@ router.post('/:sessionId/chat', auth, async (req, res) => {
 
     res.json({
       message: 'Chat message added successfully',
-      messageCount: session.chatHistory.length
+      messageCount: session.chatHistory.length,
+      chatMessage
     });
   } catch (error) {
     console.error('Add chat message error:', error);
@@ -251,19 +467,62 @@ router.post('/:sessionId/chat', auth, async (req, res) => {
 router.put('/:sessionId/code', auth, async (req, res) => {
   try {
     const { sessionId } = req.params;
-    const { jsx, css, tsx } = req.body;
+    const { jsx, css, tsx, messageId, source, baseVersion } = req.body;
 
-    const session = await Session.findOne({
-      _id: sessionId,
-      userId: req.user._id,
-      isActive: true
-    });
+    const invalidCode = validateCodeFields(req.body, ['jsx', 'css']);
+    if (invalidCode) {
+      return res.status(400).json({ error: invalidCode, code: 'INVALID_REQUEST' });
+    }
+    if (baseVersion !== undefined && !Number.isInteger(baseVersion)) {
+      return res.status(400).json({ error: 'baseVersion must be an integer', code: 'INVALID_REQUEST' });
+    }
+
+    // Without files/entry the session keeps its current ones
+    const entry = req.body.entry === undefined ? undefined : validateEntry(req.body.entry);
+    if (entry === null) {
+      return res.status(400).json({ error: 'entry must be a .jsx, .tsx, .js or .ts file name', code: 'INVALID_FILES' });
+    }
+
+    const session = await Session.findOne(accessibleSession(sessionId, req.user._id, { canEdit: true }));
 
     if (!session) {
       return res.status(404).json({ error: 'Session not found' });
     }
 
-    await session.updateComponentCode(jsx, css, tsx);
+    // Reject saves that started from a version that is no longer the head
+    if (baseVersion !== undefined && baseVersion !== session.componentCode.version) {
+      return sendVersionConflict(res, session);
+    }
+
+    if (messageId && !session.chatHistory.id(messageId)) {
+      return res.status(400).json({ error: 'Chat message not found in this session' });
+    }
+
+    let files;
+    if (req.body.files !== undefined) {
+      const checked = validateFiles(req.body.files, entry || session.componentCode.entry);
+      if (checked.error) {
+        return res.status(400).json({ error: checked.error, code: 'INVALID_FILES' });
+      }
+      files = checked.files;
+    }
+
+    try {
+      await session.updateComponentCode(jsx, css, tsx, {
+        source: source === 'ai' ? 'ai' : 'manual',
+        messageId: messageId || null,
+        userId: req.user._id,
+        files,
+        entry
+      });
+    } catch (error) {
+      // Another save created the same version first
+      if (error.code === DUPLICATE_KEY_ERROR) {
+        const latest = await Session.findById(sessionId);
+        return sendVersionConflict(res, latest);
+      }
+      throw error;
+    }
 
     // Update Redis cache
     await setSessionData(sessionId, {
@@ -272,6 +531,8 @@ router.put('/:sessionId/code', auth, async (req, res) => {
       uiState: session.uiState
     });
 
+    await publishCodeChange(session, req.user._id);
+
     res.json({
       message: 'Component code updated successfully',
       componentCode: session.componentCode
@@ -288,11 +549,7 @@ router.put('/:sessionId/ui-state', auth, async (req, res) => {
     const { sessionId } = req.params;
     const uiState = req.body;
 
-    const session = await Session.findOne({
-      _id: sessionId,
-      userId: req.user._id,
-      isActive: true
-    });
+    const session = await Session.findOne(accessibleSession(sessionId, req.user._id, { canEdit: true }));
 
     if (!session) {
       return res.status(404).json({ error: 'Session not found' });
@@ -317,11 +574,326 @@ router.put('/:sessionId/ui-state', auth, async (req, res) => {
   }
 });
 
-// Get session statistics
-router.get('/:sessionId/stats', auth, async (req, res) => {
+// List component versions, newest first
+router.get('/:sessionId/versions', auth, async (req, res) => {
   try {
     const { sessionId } = req.params;
 
+    const session = await Session.findOne(accessibleSession(sessionId, req.user._id)).select('componentCode');
+
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    const versions = await ComponentVersion.find({ sessionId })
+      .sort({ version: -1 })
+      .select('-jsx -css -tsx -files');
+
+    res.json({
+      versions,
+      headVersion: session.componentCode.version
+    });
+  } catch (error) {
+    console.error('List versions error:', error);
+    res.status(500).json({ error: 'Failed to list versions' });
+  }
+});
+
+// Diff two component versions
+router.get('/:sessionId/versions/diff', auth, async (req, res) => {
+  try {
+    const { sessionId } = req.params;
+    const from = parseInt(req.query.from);
+    const to = parseInt(req.query.to);
+
+    if (Number.isNaN(from) || Number.isNaN(to)) {
+      return res.status(400).json({ error: 'Both from and to versions are required' });
+    }
+
+    const session = await Session.exists(accessibleSession(sessionId, req.user._id));
+
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    const [fromVersion, toVersion] = await Promise.all([
+      ComponentVersion.findOne({ sessionId, version: from }),
+      ComponentVersion.findOne({ sessionId, version: to })
+    ]);
+
+    if (!fromVersion || !toVersion) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+
+    res.json({
+      diff: {
+        from,
+        to,
+        files: diffComponentCode(fromVersion, toVersion)
+      }
+    });
+  } catch (error) {
+    console.error('Diff versions error:', error);
+    res.status(500).json({ error: 'Failed to diff versions' });
+  }
+});
+
+// Get a single component version
+router.get('/:sessionId/versions/:version', auth, async (req, res) => {
+  try {
+    const { sessionId, version } = req.params;
+
+    const session = await Session.exists(accessibleSession(sessionId, req.user._id));
+
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    const componentVersion = await ComponentVersion.findOne({ sessionId, version: parseInt(version) });
+
+    if (!componentVersion) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+
+    res.json({ version: componentVersion });
+  } catch (error) {
+    console.error('Get version error:', error);
+    res.status(500).json({ error: 'Failed to get version' });
+  }
+});
+
+// Restore a version as the new head
+router.post('/:sessionId/versions/:version/restore', auth, async (req, res) => {
+  try {
+    const { sessionId, version } = req.params;
+
+    const session = await Session.findOne(accessibleSession(sessionId, req.user._id, { canEdit: true }));
+
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    const componentVersion = await ComponentVersion.findOne({ sessionId, version: parseInt(version) });
+
+    if (!componentVersion) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+
+    try {
+      await session.updateComponentCode(componentVersion.jsx, componentVersion.css, componentVersion.tsx, {
+        source: 'restore',
+        restoredFrom: componentVersion.version,
+        userId: req.user._id,
+        files: componentVersion.files.map(({ path, content }) => ({ path, content })),
+        entry: componentVersion.entry
+      });
+    } catch (error) {
+      // Another save created the same version first
+      if (error.code === DUPLICATE_KEY_ERROR) {
+        const latest = await Session.findById(sessionId);
+        return sendVersionConflict(res, latest);
+      }
+      throw error;
+    }
+
+    // Update Redis cache
+    await setSessionData(sessionId, {
+      chatHistory: session.chatHistory,
+      componentCode: session.componentCode,
+      uiState: session.uiState
+    });
+
+    await publishCodeChange(session, req.user._id);
+
+    res.json({
+      message: `Version ${componentVersion.version} restored successfully`,
+      componentCode: session.componentCode
+    });
+  } catch (error) {
+    console.error('Restore version error:', error);
+    res.status(500).json({ error: 'Failed to restore version' });
+  }
+});
+
+// List stored analyses, oldest version first, for the score history
+router.get('/:sessionId/analyses', auth, async (req, res) => {
+  try {
+    const { sessionId } = req.params;
+
+    const session = await Session.findOne(accessibleSession(sessionId, req.user._id)).select('componentCode');
+
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    const analyses = await ComponentAnalysis.find({ sessionId }).sort({ version: 1 });
+
+    res.json({
+      analyses,
+      headVersion: session.componentCode.version
+    });
+  } catch (error) {
+    console.error('List analyses error:', error);
+    res.status(500).json({ error: 'Failed to list analyses' });
+  }
+});
+
+// Fork a session into a new one, starting from its current code or the code given (e.g. a variation)
+router.post('/:sessionId/fork', auth, async (req, res) => {
+  try {
+    const { sessionId } = req.params;
+    const { title, componentCode } = req.body;
+
+    const invalidCode = componentCode === undefined ? null : validateCodeFields(componentCode);
+    if (invalidCode) {
+      return res.status(400).json({ error: invalidCode, code: 'INVALID_REQUEST' });
+    }
+
+    const session = await Session.findOne(accessibleSession(sessionId, req.user._id));
+
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    const code = componentCode || session.componentCode;
+
+    // Given code without files (e.g. a variation of the entry) keeps the session's other files
+    let files = session.componentCode.files;
+    if (componentCode && componentCode.files !== undefined) {
+      const checked = validateFiles(componentCode.files, session.componentCode.entry);
+      if (checked.error) {
+        return res.status(400).json({ error: checked.error, code: 'INVALID_FILES' });
+      }
+      files = checked.files;
+    }
+
+    const fork = new Session({
+      userId: req.user._id,
+      title: title || `${session.title} (fork)`,
+      description: session.description,
+      tags: session.tags,
+      chatHistory: [],
+      componentCode: {
+        jsx: code.jsx || '',
+        css: code.css || '',
+        tsx: code.tsx || '',
+        entry: session.componentCode.entry,
+        files,
+        version: 1,
+        lastModified: new Date()
+      },
+      uiState: {
+        selectedElement: null,
+        properties: {},
+        viewport: session.uiState ? session.uiState.viewport : { width: 1200, height: 800 },
+        theme: session.uiState ? session.uiState.theme : 'light'
+      },
+      // Token sets aren't shared along with the session
+      designTokenSetId: session.getAccessRole(req.user._id) === 'owner' ? session.designTokenSetId : null,
+      metadata: {
+        forkedFrom: session._id.toString(),
+        forkedFromVersion: session.componentCode.version
+      }
+    });
+
+    await fork.save();
+
+    // Start the fork's history from the code it was created with
+    await ComponentVersion.create({
+      sessionId: fork._id,
+      version: 1,
+      jsx: fork.componentCode.jsx,
+      css: fork.componentCode.css,
+      tsx: fork.componentCode.tsx,
+      entry: fork.componentCode.entry,
+      files: fork.componentCode.files,
+      source: 'initial',
+      createdBy: req.user._id
+    });
+
+    res.status(201).json({
+      message: 'Session forked successfully',
+      session: ensureSessionDefaults(fork, req.user._id)
+    });
+  } catch (error) {
+    console.error('Fork session error:', error);
+    res.status(500).json({ error: 'Failed to fork session' });
+  }
+});
+
+// The session's owner and collaborators
+router.get('/:sessionId/collaborators', auth, async (req, res) => {
+  try {
+    const { sessionId } = req.params;
+
+    const session = await Session.findOne(accessibleSession(sessionId, req.user._id)).select('userId collaborators');
+
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    res.json(await describeMembers(session));
+  } catch (error) {
+    console.error('List collaborators error:', error);
+    res.status(500).json({ error: 'Failed to list collaborators' });
+  }
+});
+
+// Share the session with a user by email, or change the role of someone it is shared with.
+// Only the owner shares.
+router.post('/:sessionId/collaborators', auth, async (req, res) => {
+  try {
+    const { sessionId } = req.params;
+    const { email, role = 'editor' } = req.body;
+
+    if (!email || typeof email !== 'string') {
+      return res.status(400).json({ error: 'Email is required' });
+    }
+    if (!COLLABORATOR_ROLES.includes(role)) {
+      return res.status(400).json({ error: `role must be one of ${COLLABORATOR_ROLES.join(', ')}` });
+    }
+
+    const session = await Session.findOne({
+      _id: sessionId,
+      userId: req.user._id,
+      isActive: true
+    });
+
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    const user = await User.findOne({ email: email.trim().toLowerCase(), isActive: true }).select('_id');
+    if (!user) {
+      return res.status(404).json({ error: 'No user with this email', code: 'USER_NOT_FOUND' });
+    }
+    if (user._id.equals(session.userId)) {
+      return res.status(400).json({ error: 'You already own this session', code: 'ALREADY_OWNER' });
+    }
+
+    const existing = session.collaborators.find(collaborator => collaborator.userId.equals(user._id));
+    if (existing) {
+      existing.role = role;
+    } else {
+      session.collaborators.push({ userId: user._id, role });
+    }
+
+    res.status(existing ? 200 : 201).json(await saveCollaborators(session));
+  } catch (error) {
+    console.error('Add collaborator error:', error);
+    res.status(500).json({ error: 'Failed to share session' });
+  }
+});
+
+router.put('/:sessionId/collaborators/:userId', auth, async (req, res) => {
+  try {
+    const { sessionId, userId } = req.params;
+    const { role } = req.body;
+
+    if (!COLLABORATOR_ROLES.includes(role)) {
+      return res.status(400).json({ error: `role must be one of ${COLLABORATOR_ROLES.join(', ')}` });
+    }
+
     const session = await Session.findOne({
       _id: sessionId,
       userId: req.user._id,
@@ -332,6 +904,76 @@ router.get('/:sessionId/stats', auth, async (req, res) => {
       return res.status(404).json({ error: 'Session not found' });
     }
 
+    const collaborator = session.collaborators.find(entry => String(entry.userId) === userId);
+    if (!collaborator) {
+      return res.status(404).json({ error: 'Collaborator not found' });
+    }
+    collaborator.role = role;
+
+    res.json(await saveCollaborators(session));
+  } catch (error) {
+    console.error('Update collaborator error:', error);
+    res.status(500).json({ error: 'Failed to update collaborator' });
+  }
+});
+
+// Stop sharing with a collaborator; collaborators may also remove themselves
+router.delete('/:sessionId/collaborators/:userId', auth, async (req, res) => {
+  try {
+    const { sessionId, userId } = req.params;
+
+    const session = await Session.findOne(accessibleSession(sessionId, req.user._id));
+
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    if (session.getAccessRole(req.user._id) !== 'owner' && String(req.user._id) !== userId) {
+      return res.status(403).json({ error: 'Only the owner can remove collaborators' });
+    }
+
+    const index = session.collaborators.findIndex(entry => String(entry.userId) === userId);
+    if (index === -1) {
+      return res.status(404).json({ error: 'Collaborator not found' });
+    }
+    session.collaborators.splice(index, 1);
+
+    res.json(await saveCollaborators(session));
+  } catch (error) {
+    console.error('Remove collaborator error:', error);
+    res.status(500).json({ error: 'Failed to remove collaborator' });
+  }
+});
+
+// Export the current component as a project or single file (see services/export)
+router.post('/:sessionId/export', auth, async (req, res) => {
+  try {
+    const result = await exportSession(req.user._id, req.params.sessionId, req.body);
+
+    res.set({
+      'Content-Type': result.contentType,
+      'Content-Disposition': `attachment; filename="${result.filename}"`
+    });
+    res.send(result.content);
+  } catch (error) {
+    if (error instanceof ExportError) {
+      return res.status(error.status).json({ error: error.message, code: error.code, ...error.details });
+    }
+    console.error('Export session error:', error);
+    res.status(500).json({ error: 'Failed to export component' });
+  }
+});
+
+// Get session statistics
+router.get('/:sessionId/stats', auth, async (req, res) => {
+  try {
+    const { sessionId } = req.params;
+
+    const session = await Session.findOne(accessibleSession(sessionId, req.user._id));
+
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
     const stats = {
       messageCount: session.chatHistory.length,
       codeVersion: session.componentCode.version,
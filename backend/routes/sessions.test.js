@@ -0,0 +1,159 @@
+jest.mock('../middleware/auth', () => ({
+  auth: (req, res, next) => {
+    req.user = { _id: require('mongoose').Types.ObjectId.createFromHexString('64b7f0c2a1b2c3d4e5f60718') };
+    next();
+  }
+}));
+jest.mock('../config/redis', () => ({ setSessionData: jest.fn(), getSessionData: jest.fn() }));
+jest.mock('../services/collaboration', () => ({
+  COLLABORATOR_ROLES: ['editor', 'viewer'],
+  publishChatMessage: jest.fn(),
+  publishCodeChange: jest.fn()
+}));
+jest.mock('../services/collaboration/events', () => ({ notifySession: jest.fn() }));
+jest.mock('../services/componentImport', () => {
+  const actual = jest.requireActual('../services/componentImport');
+  return { ...actual, buildImport: jest.fn(actual.buildImport) };
+});
+
+const express = require('express');
+const Session = require('../models/Session');
+const ComponentVersion = require('../models/ComponentVersion');
+const { buildImport } = require('../services/componentImport');
+const sessionRoutes = require('./sessions');
+
+describe('session routes', () => {
+  let server;
+  let baseUrl;
+
+  beforeAll((done) => {
+    const app = express();
+    app.use(express.json());
+    app.use('/api/sessions', sessionRoutes);
+    server = app.listen(0, () => {
+      baseUrl = `http://127.0.0.1:${server.address().port}/api/sessions`;
+      done();
+    });
+  });
+
+  afterAll((done) => {
+    server.close(done);
+  });
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    // Saves are validated as MongoDB would see them, without a database
+    jest.spyOn(Session.prototype, 'save').mockImplementation(async function () {
+      await this.validate();
+      return this;
+    });
+    jest.spyOn(ComponentVersion, 'create').mockResolvedValue({});
+  });
+
+  const request = async (method, path, body) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  describe('POST /import', () => {
+    it('names sessions after the imported component', async () => {
+      const { status, body } = await request('POST', '/import', { jsx: 'const ProfileCard = () => <div />;' });
+
+      expect(status).toBe(201);
+      expect(body.session.title).toBe('ProfileCard');
+    });
+
+    it('falls back to a default title when the component has no name', async () => {
+      buildImport.mockResolvedValueOnce({
+        componentCode: { jsx: 'export default () => <div />;', css: '', tsx: '', entry: 'Component.jsx', files: [] },
+        files: ['Component.jsx'],
+        skipped: []
+      });
+
+      const { status, body } = await request('POST', '/import', { jsx: 'export default () => <div />;' });
+
+      expect(status).toBe(201);
+      expect(body.session.title).toBe('Imported component');
+    });
+  });
+
+  describe('PUT /:sessionId/code', () => {
+    const sessionId = '64b7f0c2a1b2c3d4e5f60719';
+    let session;
+
+    beforeEach(() => {
+      session = {
+        componentCode: { jsx: 'const A = () => null;', css: '', tsx: '', version: 3 },
+        chatHistory: { id: () => null },
+        updateComponentCode: jest.fn(async function (jsx) {
+          this.componentCode = { ...this.componentCode, jsx, version: 4 };
+        })
+      };
+      jest.spyOn(Session, 'findOne').mockResolvedValue(session);
+    });
+
+    it('saves code made from the current version', async () => {
+      const { status, body } = await request('PUT', `/${sessionId}/code`, { jsx: 'const B = () => null;', css: '', baseVersion: 3 });
+
+      expect(status).toBe(200);
+      expect(body.componentCode).toMatchObject({ jsx: 'const B = () => null;', version: 4 });
+    });
+
+    it('rejects code made from an older version', async () => {
+      const { status } = await request('PUT', `/${sessionId}/code`, { jsx: 'const B = () => null;', css: '', baseVersion: 2 });
+
+      expect(status).toBe(409);
+      expect(session.updateComponentCode).not.toHaveBeenCalled();
+    });
+
+    it('rejects base versions that are not integers', async () => {
+      const { status, body } = await request('PUT', `/${sessionId}/code`, { jsx: 'const B = () => null;', css: '', baseVersion: '3' });
+
+      expect(status).toBe(400);
+      expect(body).toEqual({ error: 'baseVersion must be an integer', code: 'INVALID_REQUEST' });
+    });
+
+    it('rejects code fields that are not strings', async () => {
+      expect((await request('PUT', `/${sessionId}/code`, { jsx: 42, css: '' })).body.error).toBe('jsx must be a string');
+      expect((await request('PUT', `/${sessionId}/code`, { jsx: '' })).body.error).toBe('css must be a string');
+      expect((await request('PUT', `/${sessionId}/code`, { jsx: '', css: '', tsx: ['x'] })).status).toBe(400);
+      expect(session.updateComponentCode).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /:sessionId/fork', () => {
+    const sessionId = '64b7f0c2a1b2c3d4e5f60719';
+
+    beforeEach(() => {
+      jest.spyOn(Session, 'findOne').mockResolvedValue(new Session({
+        userId: '64b7f0c2a1b2c3d4e5f60718',
+        title: 'Card',
+        componentCode: { jsx: 'const Card = () => null;', css: '', version: 5 }
+      }));
+    });
+
+    it('forks from the given code', async () => {
+      const { status, body } = await request('POST', `/${sessionId}/fork`, {
+        componentCode: { jsx: 'const Card = () => <b />;', css: 'b {}', files: [{ path: 'utils.js', content: '' }] }
+      });
+
+      expect(status).toBe(201);
+      expect(body.session).toMatchObject({ title: 'Card (fork)', componentCode: { jsx: 'const Card = () => <b />;', css: 'b {}', version: 1 } });
+      expect(body.session.componentCode.files).toEqual([expect.objectContaining({ path: 'utils.js' })]);
+    });
+
+    it('rejects malformed code with a 400', async () => {
+      expect((await request('POST', `/${sessionId}/fork`, { componentCode: { jsx: { code: 'x' } } })).body)
+        .toEqual({ error: 'jsx must be a string', code: 'INVALID_REQUEST' });
+      expect((await request('POST', `/${sessionId}/fork`, { componentCode: 'const A = 1;' })).status).toBe(400);
+      expect((await request('POST', `/${sessionId}/fork`, { componentCode: { jsx: '', files: [{ path: 42 }] } })).body.code)
+        .toBe('INVALID_FILES');
+      expect((await request('POST', `/${sessionId}/fork`, { componentCode: { jsx: '', files: 'utils.js' } })).status).toBe(400);
+      expect(Session.prototype.save).not.toHaveBeenCalled();
+    });
+  });
+});
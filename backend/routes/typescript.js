@@ -0,0 +1,63 @@
+const express = require('express');
+const { auth } = require('../middleware/auth');
+const { convertToTsx, checkTypes } = require('../services/typescript');
+const { getAllowedPackages } = require('../services/packages');
+
+const router = express.Router();
+
+const getPackageNames = async () => (await getAllowedPackages()).map((pkg) => pkg.name);
+
+// Convert JSX to TSX and type-check the result
+router.post('/convert', auth, async (req, res) => {
+  try {
+    const { jsx } = req.body;
+
+    if (typeof jsx !== 'string' || !jsx.trim()) {
+      return res.status(400).json({ error: 'JSX code is required' });
+    }
+
+    let tsx;
+    try {
+      tsx = convertToTsx(jsx);
+    } catch (error) {
+      return res.status(400).json({
+        error: `Could not parse the JSX: ${error.message}`,
+        code: 'JSX_PARSE_ERROR'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        tsx,
+        diagnostics: checkTypes(tsx, { packages: await getPackageNames() })
+      }
+    });
+  } catch (error) {
+    console.error('TSX conversion error:', error);
+    res.status(500).json({ error: 'Failed to convert component' });
+  }
+});
+
+// Type-check TSX; syntax errors are reported as diagnostics too
+router.post('/check', auth, async (req, res) => {
+  try {
+    const { tsx } = req.body;
+
+    if (typeof tsx !== 'string') {
+      return res.status(400).json({ error: 'TSX code is required' });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        diagnostics: checkTypes(tsx, { packages: await getPackageNames() })
+      }
+    });
+  } catch (error) {
+    console.error('Type check error:', error);
+    res.status(500).json({ error: 'Failed to type-check component' });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,70 @@
+const express = require('express');
+const mongoose = require('mongoose');
+const User = require('../models/User');
+const { auth, requireAdmin } = require('../middleware/auth');
+const { clearCache } = require('../config/redis');
+const { PLANS, getQuotaStatus, getUsageReport } = require('../services/usage');
+
+const router = express.Router();
+
+// The user's AI usage over the last `days` days (default 30) and their quota
+router.get('/', auth, async (req, res) => {
+  try {
+    const [report, quota] = await Promise.all([
+      getUsageReport(req.user._id, req.query.days),
+      getQuotaStatus(req.user)
+    ]);
+
+    res.json({
+      success: true,
+      data: { ...report, quota }
+    });
+  } catch (error) {
+    console.error('Get usage error:', error);
+    res.status(500).json({ error: 'Failed to get usage' });
+  }
+});
+
+// AI usage of every user, e.g. to reconcile the provider bill (admin)
+router.get('/all', auth, requireAdmin, async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: await getUsageReport(null, req.query.days)
+    });
+  } catch (error) {
+    console.error('Get all usage error:', error);
+    res.status(500).json({ error: 'Failed to get usage' });
+  }
+});
+
+// Move a user to another plan (admin)
+router.put('/users/:userId/plan', auth, requireAdmin, async (req, res) => {
+  try {
+    const { plan } = req.body;
+
+    if (!PLANS.includes(plan)) {
+      return res.status(400).json({ error: `plan must be one of ${PLANS.join(', ')}` });
+    }
+    if (!mongoose.Types.ObjectId.isValid(req.params.userId)) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const user = await User.findByIdAndUpdate(req.params.userId, { plan }, { new: true });
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    // /api/auth/me serves a cached copy of the user
+    await clearCache(`user:${user._id}`);
+
+    res.json({
+      success: true,
+      data: { userId: user._id, plan: user.plan }
+    });
+  } catch (error) {
+    console.error('Update plan error:', error);
+    res.status(500).json({ error: 'Failed to update plan' });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,29 @@
+// Grant or revoke admin access: node scripts/set-user-role.js <email> <user|admin>
+const mongoose = require('mongoose');
+require('dotenv').config();
+
+const User = require('../models/User');
+
+const [email, role] = process.argv.slice(2);
+
+const run = async () => {
+  if (!email || !['user', 'admin'].includes(role)) {
+    console.error('Usage: node scripts/set-user-role.js <email> <user|admin>');
+    process.exit(1);
+  }
+
+  await mongoose.connect(process.env.MONGODB_URI);
+  const user = await User.findOneAndUpdate({ email: email.toLowerCase() }, { role }, { new: true });
+  await mongoose.disconnect();
+
+  if (!user) {
+    console.error(`No user with email ${email}`);
+    process.exit(1);
+  }
+  console.log(`${user.email} is now ${user.role}`);
+};
+
+run().catch((error) => {
+  console.error('Failed to set role:', error.message);
+  process.exit(1);
+});
@@ -1,3 +1,4 @@
+const http = require('http');
 const express = require('express');
 const mongoose = require('mongoose');
 const cors = require('cors');
@@ -10,9 +11,18 @@ require('dotenv').config();
 const authRoutes = require('./routes/auth');
 const sessionRoutes = require('./routes/sessions');
 const aiRoutes = require('./routes/ai');
+const typescriptRoutes = require('./routes/typescript');
+const packageRoutes = require('./routes/packages');
+const designTokenRoutes = require('./routes/designTokens');
+const promptTemplateRoutes = require('./routes/promptTemplates');
+const usageRoutes = require('./routes/usage');
+const jobRoutes = require('./routes/jobs');
 const { connectRedis } = require('./config/redis');
+const { startJobWorker } = require('./services/jobs/worker');
+const { attachCollaborationServer } = require('./services/collaboration/socket');
 
 const app = express();
+const server = http.createServer(app);
 const PORT = process.env.PORT || 5000;
 
 // Security middleware
@@ -30,7 +40,9 @@ app.use('/api/', limiter);
 // CORS configuration
 app.use(cors({
   origin: process.env.FRONTEND_URL || 'http://localhost:3000',
-  credentials: true
+  credentials: true,
+  // Lets the editor read export filenames
+  exposedHeaders: ['Content-Disposition']
 }));
 
 // Body parsing middleware
@@ -44,6 +56,12 @@ app.use(morgan('combined'));
 app.use('/api/auth', authRoutes);
 app.use('/api/sessions', sessionRoutes);
 app.use('/api/ai', aiRoutes);
+app.use('/api/typescript', typescriptRoutes);
+app.use('/api/packages', packageRoutes);
+app.use('/api/design-tokens', designTokenRoutes);
+app.use('/api/prompt-templates', promptTemplateRoutes);
+app.use('/api/usage', usageRoutes);
+app.use('/api/jobs', jobRoutes);
 
 // Health check endpoint
 app.get('/api/health', (req, res) => {
@@ -73,8 +91,15 @@ mongoose.connect(process.env.MONGODB_URI)
   })
   .then(() => {
     console.log('Connected to Redis');
+    // Run queued AI jobs (see services/jobs)
+    return startJobWorker();
+  })
+  .then(() => {
+    // Live collaboration sockets share the HTTP server (see services/collaboration)
+    attachCollaborationServer(server);
+
     // Start server
-    app.listen(PORT, () => {
+    server.listen(PORT, () => {
       console.log(`Server running on port ${PORT}`);
     });
   })
@@ -0,0 +1,71 @@
+const crypto = require('crypto');
+const { setCache, getCache } = require('../../config/redis');
+const { completeStructured } = require('./structured');
+
+// Model responses are cached under a hash of the whole request: provider, model, task, system
+// prompt and every message. The messages hold the prompt, code, chat history, design tokens and
+// packages, so a change to any of them is a different entry. Keys look like
+// ai_cache:user:<userId>:<task>:<sha256> or, for requests that opted into sharing, ai_cache:shared:<task>:<sha256>.
+
+const CACHE_PREFIX = 'ai_cache';
+const CACHE_TTL = 3600; // 1 hour
+const CACHE_SCOPES = ['user', 'shared'];
+
+// The part of the key after the prefix that says whose entry it is
+const getCacheOwner = (user, scope = 'user') => (scope === 'shared' ? 'shared' : `user:${user._id}`);
+
+const getResponseCacheKey = (owner, { provider, model, task, system, messages, promptTemplate = null }) => {
+  const hash = crypto.createHash('sha256')
+    .update(JSON.stringify({
+      provider,
+      model,
+      task,
+      system: system || '',
+      messages: messages.map(msg => ({ role: msg.role, content: msg.content })),
+      // The same text from another template version is still recorded as that version
+      promptTemplate: promptTemplate ? `${promptTemplate.id}@${promptTemplate.version}` : null
+    }))
+    .digest('hex');
+  return `${CACHE_PREFIX}:${owner}:${task}:${hash}`;
+};
+
+// Scope and task of a cache key, e.g. for listing entries
+const describeCacheKey = (key) => {
+  const parts = key.slice(CACHE_PREFIX.length + 1).split(':');
+  return parts[0] === 'shared'
+    ? { scope: 'shared', task: parts[1] }
+    : { scope: `${parts[0]}:${parts[1]}`, task: parts[2] };
+};
+
+// Metered providers (see services/usage.js) record hits, since those requests make no model call
+const countCacheHit = (provider) => {
+  if (provider.meter) {
+    provider.meter.cacheHits += 1;
+  }
+};
+
+// completeStructured, answered from the cache when the same request was answered before.
+// `owner` comes from getCacheOwner; `cached` tells whether the model was called.
+const completeCached = async (provider, { owner, promptTemplate, ...options }) => {
+  const key = getResponseCacheKey(owner, { provider: provider.name, promptTemplate, ...options });
+  const cached = await getCache(key);
+  if (cached) {
+    countCacheHit(provider);
+    return { data: cached, cached: true };
+  }
+
+  const { data } = await completeStructured(provider, options);
+  await setCache(key, data, CACHE_TTL);
+  return { data, cached: false };
+};
+
+module.exports = {
+  CACHE_PREFIX,
+  CACHE_TTL,
+  CACHE_SCOPES,
+  getCacheOwner,
+  getResponseCacheKey,
+  describeCacheKey,
+  countCacheHit,
+  completeCached
+};
@@ -0,0 +1,96 @@
+jest.mock('../../config/redis', () => ({
+  getCache: jest.fn(),
+  setCache: jest.fn()
+}));
+
+const { getCache, setCache } = require('../../config/redis');
+const {
+  CACHE_TTL,
+  getCacheOwner,
+  getResponseCacheKey,
+  describeCacheKey,
+  completeCached
+} = require('./cache');
+const { componentSchema } = require('./schemas');
+
+const COMPONENT = {
+  jsx: 'function Card() {\n  return <div>Hi</div>;\n}',
+  css: '',
+  explanation: 'A card'
+};
+
+const REQUEST = {
+  provider: 'openai',
+  model: 'gpt-4o-mini',
+  task: 'generate',
+  system: 'You write React components',
+  messages: [{ role: 'user', content: 'A card', timestamp: 1 }]
+};
+
+describe('getResponseCacheKey', () => {
+  const user = { _id: 'u1' };
+
+  it('scopes keys to the user unless the request is shared', () => {
+    const userKey = getResponseCacheKey(getCacheOwner(user), REQUEST);
+    const sharedKey = getResponseCacheKey(getCacheOwner(user, 'shared'), REQUEST);
+
+    expect(userKey).toMatch(/^ai_cache:user:u1:generate:[0-9a-f]{64}$/);
+    expect(sharedKey).toMatch(/^ai_cache:shared:generate:[0-9a-f]{64}$/);
+    expect(describeCacheKey(userKey)).toEqual({ scope: 'user:u1', task: 'generate' });
+    expect(describeCacheKey(sharedKey)).toEqual({ scope: 'shared', task: 'generate' });
+  });
+
+  it('changes with every part of the request, but not with message metadata', () => {
+    const key = (request) => getResponseCacheKey('shared', { ...REQUEST, ...request });
+    const base = key({});
+
+    expect(key({ messages: [{ role: 'user', content: 'A card', timestamp: 2 }] })).toBe(base);
+    [
+      { provider: 'gemini' },
+      { model: 'gpt-4o' },
+      { system: 'You write Vue components' },
+      { messages: [{ role: 'user', content: 'A blue card' }] },
+      { messages: [{ role: 'assistant', content: 'A card' }] },
+      { promptTemplate: { id: 't1', version: 1 } }
+    ].forEach(change => expect(key(change)).not.toBe(base));
+    expect(key({ promptTemplate: { id: 't1', version: 1 } })).not.toBe(key({ promptTemplate: { id: 't1', version: 2 } }));
+  });
+});
+
+describe('completeCached', () => {
+  const createProvider = () => ({
+    name: 'openai',
+    meter: { cacheHits: 0 },
+    complete: jest.fn().mockResolvedValue({ text: JSON.stringify(COMPONENT), model: 'gpt-4o-mini' })
+  });
+  const { model, task, system, messages } = REQUEST;
+  const options = { model, task, system, messages, schema: componentSchema };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('answers repeated requests from the cache and counts the hit', async () => {
+    const provider = createProvider();
+    getCache.mockResolvedValue(COMPONENT);
+
+    const result = await completeCached(provider, { owner: 'user:u1', ...options });
+
+    expect(result).toEqual({ data: COMPONENT, cached: true });
+    expect(getCache).toHaveBeenCalledWith(getResponseCacheKey('user:u1', REQUEST));
+    expect(provider.complete).not.toHaveBeenCalled();
+    expect(provider.meter.cacheHits).toBe(1);
+  });
+
+  it('calls the model on a miss and caches the validated response', async () => {
+    const provider = createProvider();
+    getCache.mockResolvedValue(null);
+
+    const result = await completeCached(provider, { owner: 'user:u1', ...options });
+
+    expect(result.cached).toBe(false);
+    expect(result.data.jsx).toBe(COMPONENT.jsx);
+    expect(setCache).toHaveBeenCalledWith(getResponseCacheKey('user:u1', REQUEST), result.data, CACHE_TTL);
+    expect(provider.meter.cacheHits).toBe(0);
+  });
+});
@@ -0,0 +1,60 @@
+const { createGeminiProvider } = require('./providers/gemini');
+const { createOpenAIProvider } = require('./providers/openai');
+const { createOllamaProvider } = require('./providers/ollama');
+const { createMockProvider } = require('./providers/mock');
+
+const providerFactories = {
+  gemini: createGeminiProvider,
+  openai: createOpenAIProvider,
+  ollama: createOllamaProvider,
+  mock: createMockProvider
+};
+
+// Providers are created lazily and reused across requests
+const providers = {};
+
+const getDefaultProviderName = () => process.env.AI_PROVIDER || 'gemini';
+
+// Providers a request may pick with the `provider` field; defaults to all of them
+const getAllowedProviderNames = () => {
+  const allowed = process.env.AI_ALLOWED_PROVIDERS;
+  if (!allowed) {
+    return Object.keys(providerFactories);
+  }
+  return allowed.split(',').map(name => name.trim()).filter(name => providerFactories[name]);
+};
+
+const hasProvider = (name) => getAllowedProviderNames().includes(name);
+
+const getProvider = (name = getDefaultProviderName()) => {
+  const factory = providerFactories[name];
+  if (!factory) {
+    throw new Error(`Unknown AI provider: ${name}`);
+  }
+
+  if (!providers[name]) {
+    providers[name] = factory();
+  }
+  return providers[name];
+};
+
+// Models a request may pick with the `model` field: the provider's default plus those listed
+// in <PROVIDER>_MODELS, e.g. OPENAI_MODELS=gpt-4o-mini,gpt-4o
+const getAllowedModels = (name) => {
+  const listed = (process.env[`${name.toUpperCase()}_MODELS`] || '')
+    .split(',')
+    .map(model => model.trim())
+    .filter(Boolean);
+  return [...new Set([getProvider(name).model, ...listed])];
+};
+
+const hasModel = (name, model) => getAllowedModels(name).includes(model);
+
+module.exports = {
+  getProvider,
+  hasProvider,
+  hasModel,
+  getDefaultProviderName,
+  getAllowedProviderNames,
+  getAllowedModels
+};
@@ -0,0 +1,55 @@
+const ENV_KEYS = ['AI_PROVIDER', 'AI_ALLOWED_PROVIDERS', 'OPENAI_MODEL', 'OPENAI_MODELS'];
+
+describe('AI provider registry', () => {
+  const savedEnv = {};
+  let ai;
+
+  beforeEach(() => {
+    ENV_KEYS.forEach(key => {
+      savedEnv[key] = process.env[key];
+      delete process.env[key];
+    });
+    // Providers are cached per module, so each test gets a fresh registry
+    jest.isolateModules(() => {
+      ai = require('./index');
+    });
+  });
+
+  afterEach(() => {
+    ENV_KEYS.forEach(key => {
+      if (savedEnv[key] === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = savedEnv[key];
+      }
+    });
+  });
+
+  it('defaults to gemini and allows every provider', () => {
+    expect(ai.getDefaultProviderName()).toBe('gemini');
+    expect(ai.getAllowedProviderNames()).toEqual(['gemini', 'openai', 'ollama', 'mock']);
+  });
+
+  it('limits requests to the configured providers, ignoring unknown names', () => {
+    process.env.AI_ALLOWED_PROVIDERS = 'openai, mock, nonsense';
+
+    expect(ai.getAllowedProviderNames()).toEqual(['openai', 'mock']);
+    expect(ai.hasProvider('mock')).toBe(true);
+    expect(ai.hasProvider('gemini')).toBe(false);
+  });
+
+  it('allows the default model and the listed ones per provider', () => {
+    process.env.OPENAI_MODEL = 'gpt-4o-mini';
+    process.env.OPENAI_MODELS = 'gpt-4o, gpt-4o-mini';
+
+    expect(ai.getAllowedModels('openai')).toEqual(['gpt-4o-mini', 'gpt-4o']);
+    expect(ai.hasModel('openai', 'gpt-4o')).toBe(true);
+    expect(ai.hasModel('openai', 'o1')).toBe(false);
+    expect(ai.hasModel('mock', 'gpt-4o')).toBe(false);
+  });
+
+  it('reuses providers and rejects unknown ones', () => {
+    expect(ai.getProvider('mock')).toBe(ai.getProvider('mock'));
+    expect(() => ai.getProvider('nonsense')).toThrow('Unknown AI provider: nonsense');
+  });
+});
@@ -0,0 +1,75 @@
+// Incremental extraction of string fields from a JSON object that is still being streamed
+
+const ESCAPES = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t'
+};
+
+// Decode a JSON string body starting at `start` (just after the opening quote).
+// Stops at the closing quote or at the end of the buffer, whichever comes first.
+const readJsonString = (buffer, start) => {
+  let value = '';
+  let i = start;
+
+  while (i < buffer.length) {
+    const char = buffer[i];
+
+    if (char === '"') {
+      return { value, complete: true };
+    }
+
+    if (char === '\\') {
+      const next = buffer[i + 1];
+      if (next === undefined) {
+        break;
+      }
+
+      if (next === 'u') {
+        const hex = buffer.slice(i + 2, i + 6);
+        if (hex.length < 4) {
+          break;
+        }
+        value += String.fromCharCode(parseInt(hex, 16));
+        i += 6;
+        continue;
+      }
+
+      value += ESCAPES[next] !== undefined ? ESCAPES[next] : next;
+      i += 2;
+      continue;
+    }
+
+    value += char;
+    i += 1;
+  }
+
+  return { value, complete: false };
+};
+
+// Returns the decoded (possibly partial) value of each requested string field
+// and whether its closing quote has been received yet.
+const extractPartialFields = (buffer, fields) => {
+  const values = {};
+  const complete = {};
+
+  fields.forEach(field => {
+    const match = new RegExp(`"${field}"\\s*:\\s*"`).exec(buffer);
+    if (!match) {
+      return;
+    }
+
+    const result = readJsonString(buffer, match.index + match[0].length);
+    values[field] = result.value;
+    complete[field] = result.complete;
+  });
+
+  return { values, complete };
+};
+
+module.exports = { extractPartialFields };
@@ -0,0 +1,26 @@
+const { extractPartialFields } = require('./partialJson');
+
+describe('extractPartialFields', () => {
+  it('reads fields that have not been closed yet', () => {
+    const buffer = '{"explanation": "A card", "jsx": "function Card() {\\n  return <div';
+
+    expect(extractPartialFields(buffer, ['explanation', 'jsx', 'css'])).toEqual({
+      values: { explanation: 'A card', jsx: 'function Card() {\n  return <div' },
+      complete: { explanation: true, jsx: false }
+    });
+  });
+
+  it('decodes escapes, including unicode ones', () => {
+    const buffer = '{"css": "a::after { content: \\"\\u2192\\" }\\t"}';
+
+    const { values, complete } = extractPartialFields(buffer, ['css']);
+
+    expect(values.css).toBe('a::after { content: "→" }\t');
+    expect(complete.css).toBe(true);
+  });
+
+  it('holds back an escape that is cut off by the end of the buffer', () => {
+    expect(extractPartialFields('{"jsx": "line\\', ['jsx']).values.jsx).toBe('line');
+    expect(extractPartialFields('{"jsx": "arrow \\u21', ['jsx']).values.jsx).toBe('arrow ');
+  });
+});
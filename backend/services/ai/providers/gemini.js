@@ -0,0 +1,99 @@
+const { readSSE } = require('../streams');
+
+const DEFAULT_MODEL = 'gemini-2.0-flash';
+const API_BASE = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+// Gemini uses "model" instead of "assistant" for its own turns
+const toGeminiContents = (messages) => {
+  return messages.map(msg => ({
+    role: msg.role === 'assistant' ? 'model' : 'user',
+    parts: [{ text: msg.content }]
+  }));
+};
+
+const createGeminiProvider = (options = {}) => {
+  const apiKey = options.apiKey || process.env.GEMINI_API_KEY;
+  const defaultModel = options.model || process.env.GEMINI_MODEL || DEFAULT_MODEL;
+
+  const request = async (method, { system, messages, model, temperature, signal }) => {
+    if (!apiKey) {
+      throw new Error('GEMINI_API_KEY is not configured');
+    }
+
+    const payload = { contents: toGeminiContents(messages) };
+
+    if (system) {
+      payload.systemInstruction = { parts: [{ text: system }] };
+    }
+
+    if (temperature !== undefined) {
+      payload.generationConfig = { temperature };
+    }
+
+    const query = method === 'streamGenerateContent' ? `alt=sse&key=${apiKey}` : `key=${apiKey}`;
+    const apiResponse = await fetch(`${API_BASE}/${model}:${method}?${query}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+      signal
+    });
+
+    if (!apiResponse.ok) {
+      const errorData = await apiResponse.json().catch(() => ({}));
+      throw new Error(errorData.error?.message || `HTTP error! status: ${apiResponse.status}`);
+    }
+
+    return apiResponse;
+  };
+
+  const complete = async ({ model = defaultModel, ...options }) => {
+    const apiResponse = await request('generateContent', { model, ...options });
+    const result = await apiResponse.json();
+    const text = result.candidates?.[0]?.content?.parts?.[0]?.text;
+
+    if (!text) {
+      throw new Error('No content received from the API.');
+    }
+
+    return {
+      text,
+      model,
+      usage: {
+        inputTokens: result.usageMetadata?.promptTokenCount || 0,
+        outputTokens: result.usageMetadata?.candidatesTokenCount || 0
+      }
+    };
+  };
+
+  async function* stream({ model = defaultModel, ...options }) {
+    const apiResponse = await request('streamGenerateContent', { model, ...options });
+    let usage = null;
+
+    for await (const data of readSSE(apiResponse)) {
+      const chunk = JSON.parse(data);
+      const delta = chunk.candidates?.[0]?.content?.parts?.[0]?.text;
+
+      if (delta) {
+        yield { delta };
+      }
+      if (chunk.usageMetadata) {
+        usage = {
+          inputTokens: chunk.usageMetadata.promptTokenCount || 0,
+          outputTokens: chunk.usageMetadata.candidatesTokenCount || 0
+        };
+      }
+    }
+
+    yield { done: true, model, usage: usage || { inputTokens: 0, outputTokens: 0 } };
+  }
+
+  return {
+    name: 'gemini',
+    model: defaultModel,
+    isConfigured: () => !!apiKey,
+    complete,
+    stream
+  };
+};
+
+module.exports = { createGeminiProvider };
@@ -0,0 +1,134 @@
+// Deterministic provider for tests and offline development.
+// Responses depend only on the task, so the same request always yields the same output.
+
+const STREAM_CHUNK_SIZE = 40;
+
+const MOCK_JSX = `function MockCard() {
+  const [count, setCount] = useState(0);
+
+  return (
+    <div className="mock-card">
+      <h2 className="mock-card__title">Mock Component</h2>
+      <p className="mock-card__body">Clicked {count} times</p>
+      <button className="mock-card__button" onClick={() => setCount(count + 1)}>
+        Click me
+      </button>
+    </div>
+  );
+}`;
+
+const MOCK_CSS = `.mock-card {
+  padding: 24px;
+  border-radius: 8px;
+  background: #ffffff;
+  color: #111827;
+}
+
+.mock-card__button {
+  padding: 8px 16px;
+  border: none;
+  border-radius: 6px;
+  background: #2563eb;
+  color: #ffffff;
+  cursor: pointer;
+}`;
+
+const MOCK_RESPONSES = {
+  generate: {
+    explanation: 'A simple card with a click counter, generated by the mock provider.',
+    jsx: MOCK_JSX,
+    css: MOCK_CSS,
+    tsx: ''
+  },
+  refine: {
+    explanation: 'Returned the component unchanged (mock provider).',
+    jsx: MOCK_JSX,
+    css: MOCK_CSS,
+    tsx: ''
+  },
+  refineElement: {
+    explanation: 'Replaced the targeted element with a highlighted copy (mock provider).',
+    jsx: '<p className="mock-card__body mock-card__body--highlight">Mock patch</p>',
+    css: `.mock-card__body--highlight {
+  color: #2563eb;
+}`
+  },
+  variations: {
+    variations: [
+      {
+        name: 'Default',
+        jsx: MOCK_JSX,
+        css: MOCK_CSS,
+        description: 'The base mock component.'
+      },
+      {
+        name: 'Dark',
+        jsx: MOCK_JSX,
+        css: MOCK_CSS.replace('background: #ffffff;\n  color: #111827;', 'background: #111827;\n  color: #f9fafb;'),
+        description: 'Same layout on a dark background.'
+      }
+    ]
+  },
+  analyze: {
+    analysis: {
+      codeQuality: 'Mock analysis: code is readable.',
+      performance: 'Mock analysis: no performance concerns.',
+      accessibility: 'Mock analysis: consider adding an aria-live region for the counter.',
+      security: 'Mock analysis: no security concerns.',
+      optimizations: ['Use a functional state update in the click handler'],
+      issues: [
+        {
+          message: 'The counter update is not announced to screen readers',
+          severity: 'low',
+          category: 'accessibility',
+          line: 7
+        }
+      ],
+      overallScore: 80
+    }
+  }
+};
+
+// Tasks answered in plain text rather than JSON
+const MOCK_TEXT = {
+  summarize: 'Mock summary: the user is building a card component with a click counter.'
+};
+
+const createMockProvider = (options = {}) => {
+  const defaultModel = options.model || 'mock-1';
+
+  const complete = async ({ messages, task = 'generate', model = defaultModel }) => {
+    const text = MOCK_TEXT[task] || JSON.stringify(MOCK_RESPONSES[task] || MOCK_RESPONSES.generate, null, 2);
+    const inputLength = messages.reduce((total, msg) => total + msg.content.length, 0);
+
+    return {
+      text,
+      model,
+      usage: {
+        inputTokens: Math.ceil(inputLength / 4),
+        outputTokens: Math.ceil(text.length / 4)
+      }
+    };
+  };
+
+  // Replays the complete() output in fixed-size chunks
+  async function* stream(options) {
+    const { text, model, usage } = await complete(options);
+
+    for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+      yield { delta: text.slice(i, i + STREAM_CHUNK_SIZE) };
+    }
+
+    yield { done: true, model, usage };
+  }
+
+  return {
+    name: 'mock',
+    model: defaultModel,
+    isConfigured: () => true,
+    complete,
+    stream
+  };
+};
+
+module.exports = { createMockProvider };
@@ -0,0 +1,88 @@
+const { readNDJSON } = require('../streams');
+
+const DEFAULT_MODEL = 'llama3.1';
+const DEFAULT_BASE_URL = 'http://localhost:11434';
+
+// Local Ollama-style server; no API key required
+const createOllamaProvider = (options = {}) => {
+  const baseUrl = (options.baseUrl || process.env.OLLAMA_BASE_URL || DEFAULT_BASE_URL).replace(/\/$/, '');
+  const defaultModel = options.model || process.env.OLLAMA_MODEL || DEFAULT_MODEL;
+
+  const request = async ({ system, messages, model, temperature, signal }, streaming) => {
+    const chatMessages = system
+      ? [{ role: 'system', content: system }, ...messages]
+      : messages;
+
+    const payload = {
+      model,
+      stream: streaming,
+      messages: chatMessages.map(msg => ({ role: msg.role, content: msg.content }))
+    };
+
+    if (temperature !== undefined) {
+      payload.options = { temperature };
+    }
+
+    const apiResponse = await fetch(`${baseUrl}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+      signal
+    });
+
+    if (!apiResponse.ok) {
+      const errorData = await apiResponse.json().catch(() => ({}));
+      throw new Error(errorData.error || `HTTP error! status: ${apiResponse.status}`);
+    }
+
+    return apiResponse;
+  };
+
+  const complete = async ({ model = defaultModel, ...options }) => {
+    const apiResponse = await request({ model, ...options }, false);
+    const result = await apiResponse.json();
+    const text = result.message?.content;
+
+    if (!text) {
+      throw new Error('No content received from the API.');
+    }
+
+    return {
+      text,
+      model: result.model || model,
+      usage: {
+        inputTokens: result.prompt_eval_count || 0,
+        outputTokens: result.eval_count || 0
+      }
+    };
+  };
+
+  async function* stream({ model = defaultModel, ...options }) {
+    const apiResponse = await request({ model, ...options }, true);
+    let usage = { inputTokens: 0, outputTokens: 0 };
+
+    for await (const chunk of readNDJSON(apiResponse)) {
+      if (chunk.message?.content) {
+        yield { delta: chunk.message.content };
+      }
+      if (chunk.done) {
+        usage = {
+          inputTokens: chunk.prompt_eval_count || 0,
+          outputTokens: chunk.eval_count || 0
+        };
+      }
+    }
+
+    yield { done: true, model, usage };
+  }
+
+  return {
+    name: 'ollama',
+    model: defaultModel,
+    isConfigured: () => true,
+    complete,
+    stream
+  };
+};
+
+module.exports = { createOllamaProvider };
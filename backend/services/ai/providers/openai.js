@@ -0,0 +1,107 @@
+const { readSSE } = require('../streams');
+
+const DEFAULT_MODEL = 'gpt-4o-mini';
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+// Works with any server exposing the OpenAI chat completions API
+const createOpenAIProvider = (options = {}) => {
+  const apiKey = options.apiKey || process.env.OPENAI_API_KEY;
+  const baseUrl = (options.baseUrl || process.env.OPENAI_BASE_URL || DEFAULT_BASE_URL).replace(/\/$/, '');
+  const defaultModel = options.model || process.env.OPENAI_MODEL || DEFAULT_MODEL;
+
+  const request = async ({ system, messages, model, temperature, signal }, streaming) => {
+    if (!apiKey) {
+      throw new Error('OPENAI_API_KEY is not configured');
+    }
+
+    const chatMessages = system
+      ? [{ role: 'system', content: system }, ...messages]
+      : messages;
+
+    const payload = {
+      model,
+      messages: chatMessages.map(msg => ({ role: msg.role, content: msg.content }))
+    };
+
+    if (temperature !== undefined) {
+      payload.temperature = temperature;
+    }
+
+    if (streaming) {
+      payload.stream = true;
+      payload.stream_options = { include_usage: true };
+    }
+
+    const apiResponse = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${apiKey}`
+      },
+      body: JSON.stringify(payload),
+      signal
+    });
+
+    if (!apiResponse.ok) {
+      const errorData = await apiResponse.json().catch(() => ({}));
+      throw new Error(errorData.error?.message || `HTTP error! status: ${apiResponse.status}`);
+    }
+
+    return apiResponse;
+  };
+
+  const complete = async ({ model = defaultModel, ...options }) => {
+    const apiResponse = await request({ model, ...options }, false);
+    const result = await apiResponse.json();
+    const text = result.choices?.[0]?.message?.content;
+
+    if (!text) {
+      throw new Error('No content received from the API.');
+    }
+
+    return {
+      text,
+      model: result.model || model,
+      usage: {
+        inputTokens: result.usage?.prompt_tokens || 0,
+        outputTokens: result.usage?.completion_tokens || 0
+      }
+    };
+  };
+
+  async function* stream({ model = defaultModel, ...options }) {
+    const apiResponse = await request({ model, ...options }, true);
+    let usage = null;
+
+    for await (const data of readSSE(apiResponse)) {
+      if (data === '[DONE]') {
+        break;
+      }
+
+      const chunk = JSON.parse(data);
+      const delta = chunk.choices?.[0]?.delta?.content;
+
+      if (delta) {
+        yield { delta };
+      }
+      if (chunk.usage) {
+        usage = {
+          inputTokens: chunk.usage.prompt_tokens || 0,
+          outputTokens: chunk.usage.completion_tokens || 0
+        };
+      }
+    }
+
+    yield { done: true, model, usage: usage || { inputTokens: 0, outputTokens: 0 } };
+  }
+
+  return {
+    name: 'openai',
+    model: defaultModel,
+    isConfigured: () => !!apiKey,
+    complete,
+    stream
+  };
+};
+
+module.exports = { createOpenAIProvider };
@@ -0,0 +1,198 @@
+const { isSingleElement } = require('../jsxElements');
+const { FILE_EXTENSIONS, normalizeFilePath } = require('../componentFiles');
+
+// Response shapes expected from the model. They mirror AIComponentResponse,
+// AIVariationResponse and AIAnalysisResponse in frontend/types/index.ts.
+
+const componentSchema = {
+  type: 'object',
+  properties: {
+    jsx: { type: 'string', minLength: 1, code: true },
+    css: { type: 'string' },
+    tsx: { type: 'string', optional: true, default: '' },
+    // The component's other files; null (omitted) keeps the current ones
+    files: {
+      type: 'array',
+      optional: true,
+      default: null,
+      items: {
+        type: 'object',
+        properties: {
+          path: { type: 'string', minLength: 1, filePath: true },
+          content: { type: 'string' }
+        }
+      }
+    },
+    explanation: { type: 'string', minLength: 1 }
+  }
+};
+
+// Refine scoped to one element: the replacement for that element and any CSS to add
+const elementPatchSchema = {
+  type: 'object',
+  properties: {
+    jsx: { type: 'string', minLength: 1, element: true },
+    css: { type: 'string', optional: true, default: '' },
+    explanation: { type: 'string', minLength: 1 }
+  }
+};
+
+const variationSchema = {
+  type: 'object',
+  properties: {
+    variations: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', minLength: 1 },
+          jsx: { type: 'string', minLength: 1, code: true },
+          css: { type: 'string' },
+          description: { type: 'string', optional: true, default: '' }
+        }
+      }
+    }
+  }
+};
+
+const analysisSchema = {
+  type: 'object',
+  properties: {
+    analysis: {
+      type: 'object',
+      properties: {
+        codeQuality: { type: 'string' },
+        performance: { type: 'string' },
+        accessibility: { type: 'string' },
+        security: { type: 'string' },
+        optimizations: { type: 'array', items: { type: 'string' } },
+        issues: {
+          type: 'array',
+          items: {
+            type: 'object',
+            // Older prompts (and some models) return plain strings
+            normalize: (issue) => (typeof issue === 'string' ? { message: issue } : issue),
+            properties: {
+              message: { type: 'string', minLength: 1 },
+              severity: { type: 'string', enum: ['low', 'medium', 'high', 'critical'], optional: true, default: 'medium' },
+              category: { type: 'string', optional: true, default: 'quality' },
+              line: { type: 'number', optional: true, default: null }
+            }
+          }
+        },
+        overallScore: { type: 'number', minimum: 0, maximum: 100 }
+      }
+    }
+  }
+};
+
+// A JSX field must contain a component, not prose or a markdown answer
+const looksLikeComponent = (code) => {
+  const hasFunction = /\bfunction\s+\w+\s*\(|=>/.test(code);
+  const hasElement = /<[A-Za-z][\w.]*[\s/>]|<>/.test(code);
+  return hasFunction && hasElement;
+};
+
+const typeOf = (value) => {
+  if (Array.isArray(value)) return 'array';
+  if (value === null) return 'null';
+  return typeof value;
+};
+
+// Validate `value` against `schema`, returning the normalized value and a list of errors.
+// Optional fields that are missing are filled from their `default`.
+const validate = (input, schema, path = 'response') => {
+  const errors = [];
+  const value = schema.normalize ? schema.normalize(input) : input;
+
+  if (typeOf(value) !== schema.type) {
+    errors.push(`${path} must be of type ${schema.type}, got ${typeOf(value)}`);
+    return { value, errors };
+  }
+
+  if (schema.type === 'string') {
+    if (schema.minLength && value.trim().length < schema.minLength) {
+      errors.push(`${path} must not be empty`);
+    } else if (schema.enum && !schema.enum.includes(value)) {
+      errors.push(`${path} must be one of ${schema.enum.join(', ')}`);
+    } else if (schema.code && !looksLikeComponent(value)) {
+      errors.push(`${path} must contain a React function component that returns JSX`);
+    } else if (schema.element && !isSingleElement(value)) {
+      errors.push(`${path} must be a single JSX element that replaces the target element`);
+    } else if (schema.filePath && !normalizeFilePath(value)) {
+      errors.push(`${path} must be a relative path ending in ${FILE_EXTENSIONS.join(', ')}`);
+    }
+    return { value, errors };
+  }
+
+  if (schema.type === 'number') {
+    if (Number.isNaN(value)) {
+      errors.push(`${path} must be a number`);
+    }
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path} must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path} must be <= ${schema.maximum}`);
+    }
+    return { value, errors };
+  }
+
+  if (schema.type === 'array') {
+    if (schema.minItems && value.length < schema.minItems) {
+      errors.push(`${path} must contain at least ${schema.minItems} item(s)`);
+    }
+    const items = value.map((item, index) => {
+      const result = validate(item, schema.items, `${path}[${index}]`);
+      errors.push(...result.errors);
+      return result.value;
+    });
+    return { value: items, errors };
+  }
+
+  const normalized = { ...value };
+  Object.entries(schema.properties).forEach(([key, propertySchema]) => {
+    const missing = value[key] === undefined || (value[key] === null && propertySchema.optional);
+    if (missing) {
+      if (propertySchema.optional) {
+        normalized[key] = propertySchema.default;
+      } else {
+        errors.push(`${path}.${key} is required`);
+      }
+      return;
+    }
+
+    const result = validate(value[key], propertySchema, `${path}.${key}`);
+    errors.push(...result.errors);
+    normalized[key] = result.value;
+  });
+
+  return { value: normalized, errors };
+};
+
+// Print a schema as a JSON-like outline for repair prompts
+const describeSchema = (schema, indent = '') => {
+  if (schema.type === 'array') {
+    return `[${describeSchema(schema.items, indent)}, ...]${schema.optional ? ' (optional)' : ''}`;
+  }
+  if (schema.type !== 'object') {
+    const type = schema.enum ? schema.enum.map(option => `"${option}"`).join(' | ') : schema.type;
+    return schema.optional ? `${type} (optional)` : type;
+  }
+
+  const nextIndent = `${indent}  `;
+  const lines = Object.entries(schema.properties).map(([key, propertySchema]) => (
+    `${nextIndent}"${key}": ${describeSchema(propertySchema, nextIndent)}`
+  ));
+  return `{\n${lines.join(',\n')}\n${indent}}`;
+};
+
+module.exports = {
+  componentSchema,
+  elementPatchSchema,
+  variationSchema,
+  analysisSchema,
+  validate,
+  describeSchema
+};
@@ -0,0 +1,57 @@
+// Helpers for reading streamed HTTP responses from LLM providers
+
+// Yield complete lines from a fetch response body
+async function* readLines(response) {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for await (const chunk of response.body) {
+    buffer += decoder.decode(chunk, { stream: true });
+
+    let newlineIndex;
+    while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+      yield buffer.slice(0, newlineIndex).replace(/\r$/, '');
+      buffer = buffer.slice(newlineIndex + 1);
+    }
+  }
+
+  buffer += decoder.decode();
+  if (buffer) {
+    yield buffer;
+  }
+}
+
+// Yield the `data:` payload of each server-sent event
+async function* readSSE(response) {
+  let data = [];
+
+  for await (const line of readLines(response)) {
+    if (line === '') {
+      if (data.length > 0) {
+        yield data.join('\n');
+        data = [];
+      }
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice(5).replace(/^ /, ''));
+    }
+  }
+
+  if (data.length > 0) {
+    yield data.join('\n');
+  }
+}
+
+// Yield one parsed object per line of newline-delimited JSON
+async function* readNDJSON(response) {
+  for await (const line of readLines(response)) {
+    if (line.trim()) {
+      yield JSON.parse(line);
+    }
+  }
+}
+
+module.exports = {
+  readLines,
+  readSSE,
+  readNDJSON
+};
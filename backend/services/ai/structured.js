@@ -0,0 +1,118 @@
+const { validate, describeSchema } = require('./schemas');
+
+const DEFAULT_MAX_REPAIRS = 2;
+
+// Raised when the model keeps returning output that does not match the expected schema
+class AIOutputError extends Error {
+  constructor(message, { errors = [], attempts = 0 } = {}) {
+    super(message);
+    this.name = 'AIOutputError';
+    this.code = 'AI_INVALID_OUTPUT';
+    this.status = 502;
+    this.errors = errors;
+    this.attempts = attempts;
+  }
+}
+
+const getMaxRepairs = () => {
+  const configured = parseInt(process.env.AI_MAX_REPAIR_ATTEMPTS);
+  return Number.isNaN(configured) ? DEFAULT_MAX_REPAIRS : configured;
+};
+
+// Pull the JSON object out of a model response, tolerating markdown fences and surrounding prose
+const extractJson = (text) => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = fenced ? fenced[1] : text;
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+
+  if (start === -1 || end <= start) {
+    throw new Error('Response does not contain a JSON object');
+  }
+  return JSON.parse(candidate.slice(start, end + 1));
+};
+
+// Parse and validate a raw model response
+const parseStructured = (text, schema) => {
+  let json;
+  try {
+    json = extractJson(text);
+  } catch (parseError) {
+    return { value: null, errors: [`Response is not valid JSON: ${parseError.message}`] };
+  }
+  return validate(json, schema);
+};
+
+const buildRepairPrompt = (errors, schema) => {
+  return `Your previous response could not be used because it did not match the required format.
+
+Problems found:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Respond again with ONLY a single valid JSON object (no markdown, no commentary) with this shape:
+${describeSchema(schema)}
+
+All code must be placed inside the JSON string fields, with newlines and quotes properly escaped.`;
+};
+
+const addUsage = (total, usage = {}) => ({
+  inputTokens: total.inputTokens + (usage.inputTokens || 0),
+  outputTokens: total.outputTokens + (usage.outputTokens || 0)
+});
+
+// Ask the model to fix a response that failed validation, up to maxRepairs times.
+// `messages` must already end with the failed assistant response.
+const repairStructured = async (provider, { schema, system, messages, errors, task, model, signal, maxRepairs = getMaxRepairs(), usage }) => {
+  let conversation = messages;
+  let lastErrors = errors;
+  let totalUsage = usage || { inputTokens: 0, outputTokens: 0 };
+
+  for (let attempt = 1; attempt <= maxRepairs; attempt++) {
+    conversation = [...conversation, { role: 'user', content: buildRepairPrompt(lastErrors, schema) }];
+
+    const result = await provider.complete({ task, model, system, messages: conversation, signal });
+    totalUsage = addUsage(totalUsage, result.usage);
+
+    const { value, errors: validationErrors } = parseStructured(result.text, schema);
+    if (validationErrors.length === 0) {
+      return { data: value, repairs: attempt, model: result.model, usage: totalUsage };
+    }
+
+    lastErrors = validationErrors;
+    conversation = [...conversation, { role: 'assistant', content: result.text }];
+  }
+
+  throw new AIOutputError('The AI returned output that did not match the expected format', {
+    errors: lastErrors,
+    attempts: maxRepairs + 1
+  });
+};
+
+// Complete a request and return schema-valid JSON, repairing invalid output when needed
+const completeStructured = async (provider, { schema, system, messages, task, model, signal, maxRepairs }) => {
+  const result = await provider.complete({ task, model, system, messages, signal });
+  const { value, errors } = parseStructured(result.text, schema);
+
+  if (errors.length === 0) {
+    return { data: value, repairs: 0, model: result.model, usage: result.usage };
+  }
+
+  return repairStructured(provider, {
+    schema,
+    system,
+    messages: [...messages, { role: 'assistant', content: result.text }],
+    errors,
+    task,
+    model,
+    signal,
+    maxRepairs,
+    usage: result.usage
+  });
+};
+
+module.exports = {
+  AIOutputError,
+  parseStructured,
+  repairStructured,
+  completeStructured
+};
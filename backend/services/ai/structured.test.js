@@ -0,0 +1,101 @@
+const { AIOutputError, parseStructured, completeStructured } = require('./structured');
+const { componentSchema, analysisSchema } = require('./schemas');
+
+const COMPONENT = {
+  jsx: 'function Card() {\n  return <div className="card">Hi</div>;\n}',
+  css: '.card { padding: 8px; }',
+  explanation: 'A card'
+};
+
+// Answers each completion with the next of `responses`, recording what it was asked
+const createProvider = (responses) => {
+  const requests = [];
+  return {
+    requests,
+    complete: async (request) => {
+      requests.push(request);
+      return { text: responses[requests.length - 1], model: 'test-model', usage: { inputTokens: 10, outputTokens: 5 } };
+    }
+  };
+};
+
+describe('parseStructured', () => {
+  it('reads JSON out of markdown fences and fills optional defaults', () => {
+    const { value, errors } = parseStructured(`Here you go:\n\`\`\`json\n${JSON.stringify(COMPONENT)}\n\`\`\``, componentSchema);
+
+    expect(errors).toEqual([]);
+    expect(value).toEqual({ ...COMPONENT, tsx: '', files: null });
+  });
+
+  it('reports every field that does not match the schema', () => {
+    const { errors } = parseStructured(JSON.stringify({ jsx: 'Sorry, I cannot do that', css: 1 }), componentSchema);
+
+    expect(errors).toEqual([
+      'response.jsx must contain a React function component that returns JSX',
+      'response.css must be of type string, got number',
+      'response.explanation is required'
+    ]);
+  });
+
+  it('rejects file paths outside the component', () => {
+    const { errors } = parseStructured(JSON.stringify({ ...COMPONENT, files: [{ path: '../secrets.js', content: '' }] }), componentSchema);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatch(/^response\.files\[0\]\.path must be a relative path/);
+  });
+
+  it('normalizes plain string analysis issues', () => {
+    const { value, errors } = parseStructured(JSON.stringify({
+      analysis: {
+        codeQuality: 'Good',
+        performance: 'Good',
+        accessibility: 'Fair',
+        security: 'Good',
+        optimizations: [],
+        issues: ['Missing alt text'],
+        overallScore: 80
+      }
+    }), analysisSchema);
+
+    expect(errors).toEqual([]);
+    expect(value.analysis.issues).toEqual([{ message: 'Missing alt text', severity: 'medium', category: 'quality', line: null }]);
+  });
+});
+
+describe('completeStructured', () => {
+  const request = { schema: componentSchema, system: 'system', messages: [{ role: 'user', content: 'A card' }], task: 'generate' };
+
+  it('returns valid output without repairs', async () => {
+    const provider = createProvider([JSON.stringify(COMPONENT)]);
+
+    const result = await completeStructured(provider, request);
+
+    expect(result.repairs).toBe(0);
+    expect(result.data.jsx).toBe(COMPONENT.jsx);
+    expect(provider.requests).toHaveLength(1);
+  });
+
+  it('sends the validation errors back and adds up the usage of every attempt', async () => {
+    const provider = createProvider(['not json', JSON.stringify(COMPONENT)]);
+
+    const result = await completeStructured(provider, { ...request, maxRepairs: 2 });
+
+    expect(result.repairs).toBe(1);
+    expect(result.usage).toEqual({ inputTokens: 20, outputTokens: 10 });
+    const repair = provider.requests[1].messages;
+    expect(repair.map(message => message.role)).toEqual(['user', 'assistant', 'user']);
+    expect(repair[1].content).toBe('not json');
+    expect(repair[2].content).toContain('Response is not valid JSON');
+  });
+
+  it('gives up with an AIOutputError once the repairs run out', async () => {
+    const provider = createProvider(['{}', '{}', '{}']);
+
+    const error = await completeStructured(provider, { ...request, maxRepairs: 2 }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(AIOutputError);
+    expect(error.attempts).toBe(3);
+    expect(error.errors).toContain('response.jsx is required');
+    expect(provider.requests).toHaveLength(3);
+  });
+});
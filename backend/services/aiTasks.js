@@ -0,0 +1,387 @@
+const Session = require('../models/Session');
+const ComponentAnalysis = require('../models/ComponentAnalysis');
+const { getCache, setCache } = require('../config/redis');
+const { extractPartialFields } = require('./ai/partialJson');
+const { componentSchema, variationSchema, analysisSchema } = require('./ai/schemas');
+const { parseStructured, repairStructured } = require('./ai/structured');
+const { CACHE_TTL, getResponseCacheKey, countCacheHit, completeCached } = require('./ai/cache');
+const { runStaticChecks, createStaticAnalysis, mergeStaticFindings } = require('./staticChecks');
+const { convertToTsx } = require('./typescript');
+const { getFileTree } = require('./componentFiles');
+const { getAllowedPackages, describePackages } = require('./packages');
+const { getSessionTokenSet, describeTokens } = require('./designTokens');
+const { BUILT_IN_INSTRUCTIONS, resolvePrompt } = require('./promptTemplates');
+const { buildConversation } = require('./conversation');
+
+// Generation, variations and analysis, shared by the /api/ai routes and background jobs
+// (see services/jobs). Each task runs with a context of { user, provider, model, cacheOwner }
+// and resolves with { data, cached }.
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+class AITaskError extends Error {
+  constructor(message, code, status = 400) {
+    super(message);
+    this.name = 'AITaskError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+// Reject requests missing what the task needs, before any model call or queued job
+const checkTaskRequest = (task, body) => {
+  const missing = {
+    generate: !body.prompt && !body.templateId && 'Prompt is required',
+    variations: !body.baseCode && 'Base code is required',
+    analyze: !body.code && !body.sessionId && 'Code is required'
+  }[task];
+
+  if (missing) {
+    throw new AITaskError(missing, 'INVALID_REQUEST');
+  }
+};
+
+const describeFiles = (files) => files.map(file => `--- ${file.path} ---\n${file.content}`).join('\n\n');
+
+// Print a component's files for a prompt; plain strings are a bare JSX entry
+const describeCode = (code) => (typeof code === 'string' ? code : describeFiles(getFileTree(code)));
+
+// Whether there is code to work from; new sessions start with an empty component
+const hasCode = (code) => Boolean(code && (typeof code === 'string' ? code.trim() : code.jsx && code.jsx.trim()));
+
+// The other files of the component after a model response; omitted files stay as they were
+const resolveFiles = (response, currentCode) => {
+  if (response.files) {
+    return response.files;
+  }
+  return currentCode && typeof currentCode === 'object' && currentCode.files ? currentCode.files : [];
+};
+
+const MULTI_FILE_INSTRUCTIONS = `The component may span several files. "jsx" is the entry module with the main component
+and "css" its stylesheet. Put sub-components, hooks and utilities in "files" when that keeps the
+component readable, each with a relative "path" (e.g. "components/Item.jsx", "hooks/useToggle.js").
+The entry imports them with relative imports (e.g. import { useToggle } from './hooks/useToggle')
+and each file exports what it provides. "files" lists every file besides the entry and its
+stylesheet; omit it to keep the current files unchanged.`;
+
+// The TSX is derived from the JSX rather than asked of the model; it stays empty
+// when the JSX does not parse
+const withTypeScript = (code) => {
+  let tsx = '';
+  try {
+    tsx = convertToTsx(code.jsx);
+  } catch (error) {
+    tsx = '';
+  }
+  return { ...code, tsx };
+};
+
+// Component generation prompt; `instructions` come from the prompt template (see services/promptTemplates).
+// Earlier turns of the conversation are sent as chat messages before it (see services/conversation).
+const generateComponentPrompt = (userPrompt, existingCode = null, packages = [], tokenSet = null, instructions = BUILT_IN_INSTRUCTIONS.generate) => {
+  let prompt = `${instructions}
+
+${describePackages(packages)}
+
+${describeTokens(tokenSet)}
+
+${MULTI_FILE_INSTRUCTIONS}
+
+User Request: ${userPrompt || 'Build the component described in the instructions above.'}
+
+`;
+
+  if (hasCode(existingCode)) {
+    prompt += `\nExisting Code:\n${describeCode(existingCode)}\n\nPlease modify/improve the existing code based on the new request.`;
+  }
+
+  prompt += `\n\nPlease provide the response in the following JSON format:
+{
+  "explanation": "Brief explanation of the component and its features",
+  "jsx": "// React JSX code here",
+  "css": "// CSS styles here",
+  "files": [{ "path": "relative/path.jsx", "content": "// other files, if any" }]
+}`;
+
+  return prompt;
+};
+
+// Prefix each line with its number so the model can point issues at lines
+const numberLines = (code) => {
+  return String(code).split('\n').map((line, index) => `${String(index + 1).padStart(4)} | ${line}`).join('\n');
+};
+
+// Generate a component. With onPartial the response is streamed: onPartial gets the fields parsed
+// so far and onStatus hears about repairs. onStart is called once the request is known to be
+// valid, before anything slow, e.g. to open an event stream.
+const runGenerate = async ({ user, provider, model, cacheOwner }, body, { signal, onStart, onPartial, onStatus } = {}) => {
+  checkTaskRequest('generate', body);
+  const { prompt, sessionId, existingCode, chatHistory } = body;
+  const resolved = await resolvePrompt(user, 'generate', body);
+  if (onStart) {
+    onStart();
+  }
+
+  const tokenSet = await getSessionTokenSet(user._id, sessionId);
+  const aiPrompt = generateComponentPrompt(prompt, existingCode, await getAllowedPackages(), tokenSet, resolved.instructions);
+  const messages = await buildConversation(provider, model, {
+    userId: user._id,
+    sessionId,
+    chatHistory,
+    prompt,
+    request: aiPrompt,
+    signal
+  });
+  const toResponse = (data) => ({
+    ...withTypeScript({ ...data, files: resolveFiles(data, existingCode) }),
+    promptTemplate: resolved.promptTemplate
+  });
+
+  // Generate using the selected provider, unless the same request was answered before
+  if (!onPartial) {
+    const { data, cached } = await completeCached(provider, {
+      owner: cacheOwner,
+      promptTemplate: resolved.promptTemplate,
+      schema: componentSchema,
+      task: 'generate',
+      model,
+      system: resolved.system,
+      messages,
+      signal
+    });
+    return { data: toResponse(data), cached };
+  }
+
+  // Streamed requests share cache entries with the others, which send the same request
+  const cacheKey = getResponseCacheKey(cacheOwner, {
+    provider: provider.name,
+    model,
+    task: 'generate',
+    system: resolved.system,
+    messages,
+    promptTemplate: resolved.promptTemplate
+  });
+  const cachedResult = await getCache(cacheKey);
+  if (cachedResult) {
+    countCacheHit(provider);
+    return { data: toResponse(cachedResult), cached: true };
+  }
+
+  const stream = provider.stream({
+    task: 'generate',
+    model,
+    system: resolved.system,
+    messages,
+    signal
+  });
+
+  let text = '';
+  for await (const chunk of stream) {
+    if (!chunk.delta) {
+      continue;
+    }
+
+    text += chunk.delta;
+    onPartial(extractPartialFields(text, ['explanation', 'jsx', 'css']));
+  }
+
+  const draft = parseStructured(text, componentSchema);
+  let generated = draft.value;
+
+  // The streamed draft was unusable; fall back to non-streamed repair requests
+  if (draft.errors.length > 0) {
+    if (onStatus) {
+      onStatus({ stage: 'repairing', errors: draft.errors });
+    }
+    const repaired = await repairStructured(provider, {
+      schema: componentSchema,
+      system: resolved.system,
+      messages: [...messages, { role: 'assistant', content: text }],
+      errors: draft.errors,
+      task: 'generate',
+      model,
+      signal
+    });
+    generated = repaired.data;
+  }
+
+  await setCache(cacheKey, generated, CACHE_TTL);
+  return { data: toResponse(generated), cached: false };
+};
+
+// Variations of a component, e.g. for the editor's gallery
+const runVariations = async ({ user, provider, model, cacheOwner }, body, { signal } = {}) => {
+  checkTaskRequest('variations', body);
+  const { baseCode, count = 3 } = body;
+
+  const resolved = await resolvePrompt(user, 'variations', body);
+  const variationsPrompt = `${resolved.instructions}
+
+Base Component:
+${baseCode.jsx || baseCode}
+
+CSS:
+${baseCode.css || ''}
+
+${describePackages(await getAllowedPackages())}
+
+Please provide ${count} variations in the following JSON format:
+{
+  "variations": [
+    {
+      "name": "Variation 1 Name",
+      "jsx": "// JSX code for variation 1",
+      "css": "// CSS for variation 1",
+      "description": "Brief description of this variation"
+    },
+    // ... more variations
+  ]
+}`;
+
+  const { data, cached } = await completeCached(provider, {
+    owner: cacheOwner,
+    promptTemplate: resolved.promptTemplate,
+    schema: variationSchema,
+    task: 'variations',
+    model,
+    system: resolved.system,
+    messages: [{ role: 'user', content: variationsPrompt }],
+    signal
+  });
+
+  return { data: { ...data, promptTemplate: resolved.promptTemplate }, cached };
+};
+
+// Analyze code, or a session's head version. Session analyses are stored per version, so each
+// version is analyzed only once (a static-only analysis is redone once a provider is available).
+const runAnalyze = async ({ user, provider, model, cacheOwner }, body, { signal } = {}) => {
+  checkTaskRequest('analyze', body);
+  const { sessionId, staticOnly = false } = body;
+  let { code } = body;
+  let version = null;
+
+  // Without a configured provider the static checks are the whole analysis
+  const useModel = !staticOnly && provider.isConfigured();
+
+  if (sessionId) {
+    const session = await Session.findOne({
+      _id: sessionId,
+      isActive: true,
+      ...Session.accessFilter(user._id)
+    }).select('componentCode');
+
+    if (!session) {
+      throw new AITaskError('Session not found', 'SESSION_NOT_FOUND', 404);
+    }
+
+    version = session.componentCode.version;
+    const stored = await ComponentAnalysis.findOne({ sessionId, version });
+    if (stored && (stored.provider !== null || !useModel)) {
+      return {
+        data: {
+          analysis: stored.analysis,
+          version,
+          staticOnly: stored.provider === null,
+          promptTemplate: stored.promptTemplate || null
+        },
+        cached: true
+      };
+    }
+
+    code = session.componentCode;
+  }
+
+  const jsx = typeof code === 'string' ? code : code.jsx || '';
+  const css = code.css || '';
+  const findings = runStaticChecks({ jsx, css });
+  let analysis = createStaticAnalysis(findings);
+  let resolved = null;
+  let cached = false;
+
+  if (useModel) {
+    resolved = await resolvePrompt(user, 'analyze', body);
+    const analyzePrompt = `${resolved.instructions}
+
+Component Code (with line numbers):
+${numberLines(jsx)}
+
+CSS:
+${css}
+${findings.length > 0 ? `
+Automated checks already reported these issues; do not repeat them:
+${findings.map(item => `- ${item.line ? `Line ${item.line}: ` : ''}${item.message}`).join('\n')}
+` : ''}
+Please provide a comprehensive analysis in JSON format:
+{
+  "analysis": {
+    "codeQuality": "Assessment of code quality",
+    "performance": "Performance considerations",
+    "accessibility": "Accessibility improvements",
+    "security": "Security considerations",
+    "optimizations": ["List of suggested optimizations"],
+    "issues": [
+      {
+        "message": "Description of the issue and how to fix it",
+        "severity": "low | medium | high | critical",
+        "category": "quality | performance | accessibility | security",
+        "line": 12
+      }
+    ],
+    "overallScore": 85
+  }
+}
+
+Set "line" to the component line the issue is about, or null if it applies to the whole component.`;
+
+    const response = await completeCached(provider, {
+      owner: cacheOwner,
+      promptTemplate: resolved.promptTemplate,
+      schema: analysisSchema,
+      task: 'analyze',
+      model,
+      system: resolved.system,
+      messages: [{ role: 'user', content: analyzePrompt }],
+      signal
+    });
+
+    analysis = mergeStaticFindings(response.data.analysis, findings);
+    cached = response.cached;
+  }
+
+  if (version !== null) {
+    try {
+      await ComponentAnalysis.findOneAndUpdate(
+        { sessionId, version },
+        {
+          analysis,
+          provider: useModel ? provider.name : null,
+          model: useModel ? model : null,
+          promptTemplate: resolved ? resolved.promptTemplate : null
+        },
+        { upsert: true }
+      );
+    } catch (error) {
+      // A concurrent request already stored this version's analysis
+      if (error.code !== DUPLICATE_KEY_ERROR) {
+        throw error;
+      }
+    }
+  }
+
+  return {
+    data: { analysis, version, staticOnly: !useModel, promptTemplate: resolved ? resolved.promptTemplate : null },
+    cached
+  };
+};
+
+module.exports = {
+  AITaskError,
+  checkTaskRequest,
+  describeCode,
+  resolveFiles,
+  withTypeScript,
+  MULTI_FILE_INSTRUCTIONS,
+  runGenerate,
+  runVariations,
+  runAnalyze
+};
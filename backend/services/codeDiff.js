@@ -0,0 +1,60 @@
+const { diffLines, createTwoFilesPatch } = require('diff');
+
+const { getStylesheetPath } = require('./componentFiles');
+
+const CODE_FILES = [
+  { key: 'jsx', name: 'Component.jsx' },
+  { key: 'css', name: 'styles.css' },
+  { key: 'tsx', name: 'Component.tsx' }
+];
+
+const diffFile = (file, name, before, after, from, to) => {
+  const changes = diffLines(before, after);
+
+  let additions = 0;
+  let deletions = 0;
+  changes.forEach(change => {
+    if (change.added) additions += change.count;
+    if (change.removed) deletions += change.count;
+  });
+
+  return {
+    file,
+    name,
+    additions,
+    deletions,
+    changes: changes.map(change => ({
+      value: change.value,
+      added: !!change.added,
+      removed: !!change.removed
+    })),
+    patch: createTwoFilesPatch(
+      `v${from.version}/${name}`,
+      `v${to.version}/${name}`,
+      before,
+      after
+    )
+  };
+};
+
+// Line diff of every code file between two component versions; files added or
+// removed between them diff against an empty file
+const diffComponentCode = (from, to) => {
+  const entryNames = to.entry
+    ? { jsx: to.entry, css: getStylesheetPath(to.entry), tsx: to.entry.replace(/\.[jt]sx?$/, '.tsx') }
+    : {};
+  const diffs = CODE_FILES.map(({ key, name }) => (
+    diffFile(key, entryNames[key] || name, from[key] || '', to[key] || '', from, to)
+  ));
+
+  const contents = (version) => new Map((version.files || []).map(file => [file.path, file.content]));
+  const before = contents(from);
+  const after = contents(to);
+  const paths = Array.from(new Set([...before.keys(), ...after.keys()])).sort();
+  paths.forEach(path => {
+    diffs.push(diffFile('file', path, before.get(path) || '', after.get(path) || '', from, to));
+  });
+  return diffs;
+};
+
+module.exports = { diffComponentCode };
@@ -0,0 +1,36 @@
+const { diffComponentCode } = require('./codeDiff');
+
+const version = (number, code) => ({ version: number, jsx: '', css: '', tsx: '', files: [], ...code });
+
+describe('diffComponentCode', () => {
+  it('counts added and removed lines per code file', () => {
+    const from = version(1, { jsx: 'a\nb\n', css: '.a {}\n' });
+    const to = version(2, { jsx: 'a\nc\nd\n', css: '.a {}\n' });
+
+    const [jsx, css, tsx] = diffComponentCode(from, to);
+
+    expect(jsx).toMatchObject({ file: 'jsx', name: 'Component.jsx', additions: 2, deletions: 1 });
+    expect(jsx.patch).toContain('--- v1/Component.jsx');
+    expect(jsx.patch).toContain('+++ v2/Component.jsx');
+    expect(css).toMatchObject({ additions: 0, deletions: 0 });
+    expect(tsx).toMatchObject({ additions: 0, deletions: 0 });
+  });
+
+  it('names the code files after the entry', () => {
+    const names = diffComponentCode(version(1), version(2, { entry: 'src/Card.jsx' })).map(diff => diff.name);
+
+    expect(names).toEqual(['src/Card.jsx', 'src/Card.css', 'src/Card.tsx']);
+  });
+
+  it('diffs added and removed files against an empty file', () => {
+    const from = version(1, { files: [{ path: 'old.js', content: 'x\n' }] });
+    const to = version(2, { files: [{ path: 'new.js', content: 'y\nz\n' }] });
+
+    const files = diffComponentCode(from, to).filter(diff => diff.file === 'file');
+
+    expect(files.map(({ name, additions, deletions }) => ({ name, additions, deletions }))).toEqual([
+      { name: 'new.js', additions: 2, deletions: 0 },
+      { name: 'old.js', additions: 0, deletions: 1 }
+    ]);
+  });
+});
@@ -0,0 +1,282 @@
+const crypto = require('crypto');
+const Y = require('yjs');
+const Session = require('../../models/Session');
+const { getRedisClient } = require('../../config/redis');
+const { validateFiles } = require('../componentFiles');
+const { publishSessionEvent } = require('./events');
+
+// While collaborators edit a session together its code lives in a Yjs document, which merges
+// concurrent edits without conflicts. The document is kept in Redis as its list of updates, so
+// any server process can open it: each change is appended and published as a 'doc-update'
+// session event, and the list is merged into one update now and then. A Y.Text per code field
+// holds the code and the 'files' map a Y.Text per extra file, by path (see componentFiles.js);
+// the 'meta' map holds the session version the code is based on. The document
+// is saved to the session as new versions (see socket.js), and code saved some other way is
+// put into it with replaceDocumentCode.
+
+const CODE_FIELDS = ['jsx', 'css', 'tsx'];
+
+const DOC_TTL = 24 * 60 * 60; // documents nobody opened for a day are seeded again
+const LOCK_TTL = 5000;
+const LOCK_RETRY_INTERVAL = 50;
+const DUPLICATE_KEY_ERROR = 11000;
+const MAX_SAVE_ATTEMPTS = 3;
+
+const KEYS = {
+  updates: (sessionId) => `collab_doc:${sessionId}`,
+  lock: (sessionId) => `collab_doc_lock:${sessionId}`
+};
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+const encodeUpdate = (update) => Buffer.from(update).toString('base64');
+const decodeUpdate = (encoded) => new Uint8Array(Buffer.from(encoded, 'base64'));
+
+// Seeding, replacing and merging read the whole list and write it back; the lock keeps two
+// processes from doing so at once. Appending a change needs no lock.
+const withLock = async (sessionId, fn) => {
+  const client = getRedisClient();
+  const key = KEYS.lock(sessionId);
+  const token = crypto.randomUUID();
+  const deadline = Date.now() + LOCK_TTL;
+
+  while (!(await client.set(key, token, { NX: true, PX: LOCK_TTL }))) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for the collaboration document lock');
+    }
+    await sleep(LOCK_RETRY_INTERVAL);
+  }
+  try {
+    return await fn();
+  } finally {
+    if (await client.get(key) === token) {
+      await client.del(key);
+    }
+  }
+};
+
+const readUpdates = async (sessionId) => {
+  const stored = await getRedisClient().lRange(KEYS.updates(sessionId), 0, -1);
+  return stored.map(decodeUpdate);
+};
+
+const storeUpdate = async (sessionId, update) => {
+  const key = KEYS.updates(sessionId);
+  await getRedisClient().multi()
+    .rPush(key, encodeUpdate(update))
+    .expire(key, DOC_TTL)
+    .exec();
+};
+
+const byPath = (a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0);
+
+// Code fields and files as plain values, files by path, for the document and sessions alike
+const pickCode = (componentCode) => ({
+  ...CODE_FIELDS.reduce((code, field) => {
+    code[field] = componentCode[field] || '';
+    return code;
+  }, {}),
+  files: (componentCode.files || []).map(file => ({ path: file.path, content: file.content })).sort(byPath)
+});
+
+const isSameCode = (a, b) => CODE_FIELDS.every(field => a[field] === b[field])
+  && a.files.length === b.files.length
+  && a.files.every((file, index) => file.path === b.files[index].path && file.content === b.files[index].content);
+
+const getDocumentCode = (doc) => pickCode({
+  ...CODE_FIELDS.reduce((code, field) => {
+    code[field] = doc.getText(field).toString();
+    return code;
+  }, {}),
+  files: [...doc.getMap('files').entries()].map(([path, text]) => ({ path, content: text.toString() }))
+});
+
+const getDocumentVersion = (doc) => doc.getMap('meta').get('version') || 0;
+
+const setDocumentVersion = (doc, version, origin = null) => {
+  doc.transact(() => doc.getMap('meta').set('version', version), origin);
+};
+
+// Turn `text` into `value` with a single edit between the unchanged start and end, so
+// concurrent edits outside that range are kept
+const replaceText = (text, value) => {
+  const current = text.toString();
+  if (current === value) {
+    return;
+  }
+
+  const shorter = Math.min(current.length, value.length);
+  let start = 0;
+  while (start < shorter && current[start] === value[start]) {
+    start++;
+  }
+  let end = 0;
+  while (end < shorter - start && current[current.length - 1 - end] === value[value.length - 1 - end]) {
+    end++;
+  }
+
+  if (current.length - start - end > 0) {
+    text.delete(start, current.length - start - end);
+  }
+  if (value.length - start - end > 0) {
+    text.insert(start, value.slice(start, value.length - end));
+  }
+};
+
+// Files keep their Y.Text while their path stays, so edits to them merge like the code's
+const setDocumentFiles = (doc, files = []) => {
+  const map = doc.getMap('files');
+  const paths = new Set(files.map(file => file.path));
+  [...map.keys()].filter(path => !paths.has(path)).forEach(path => map.delete(path));
+  files.forEach((file) => {
+    const text = map.get(file.path);
+    if (text) {
+      replaceText(text, file.content);
+    } else {
+      map.set(file.path, new Y.Text(file.content));
+    }
+  });
+  doc.getMap('meta').set('files', true);
+};
+
+const setDocumentCode = (doc, componentCode, origin = null) => {
+  doc.transact(() => {
+    CODE_FIELDS.forEach(field => replaceText(doc.getText(field), componentCode[field] || ''));
+    setDocumentFiles(doc, componentCode.files);
+    doc.getMap('meta').set('version', componentCode.version);
+  }, origin);
+};
+
+// Store a change to the session's document and send it to every process that has it open.
+// `userId` is whoever made the change, for the version it ends up in.
+const appendDocumentUpdate = async (sessionId, update, userId = null) => {
+  await storeUpdate(sessionId, update);
+  await publishSessionEvent(sessionId, 'doc-update', {
+    update: encodeUpdate(update),
+    userId: userId && String(userId)
+  });
+};
+
+// The session's document, seeded from its head version when there is none yet. Null for
+// sessions that don't exist.
+const loadDocument = async (sessionId) => {
+  let updates = await readUpdates(sessionId);
+
+  if (updates.length === 0) {
+    await withLock(sessionId, async () => {
+      updates = await readUpdates(sessionId);
+      if (updates.length > 0) {
+        return;
+      }
+
+      const session = await Session.findOne({ _id: sessionId, isActive: true }).select('componentCode');
+      if (!session) {
+        return;
+      }
+      const seed = new Y.Doc();
+      setDocumentCode(seed, session.componentCode);
+      updates = [Y.encodeStateAsUpdate(seed)];
+      await storeUpdate(sessionId, updates[0]);
+    });
+  }
+
+  if (updates.length === 0) {
+    return null;
+  }
+  const doc = new Y.Doc();
+  updates.forEach(update => Y.applyUpdate(doc, update));
+  return doc;
+};
+
+// Put code saved outside the document (a generation, a restore, a save over the REST API) into
+// it. Without a document there is nothing to do: the next one is seeded from the session.
+const replaceDocumentCode = (sessionId, componentCode, userId = null) => withLock(sessionId, async () => {
+  const updates = await readUpdates(sessionId);
+  if (updates.length === 0) {
+    return;
+  }
+
+  const doc = new Y.Doc();
+  updates.forEach(update => Y.applyUpdate(doc, update));
+  const before = Y.encodeStateVector(doc);
+  if (getDocumentVersion(doc) < componentCode.version) {
+    setDocumentCode(doc, componentCode);
+  } else if (!doc.getMap('meta').get('files')) {
+    // Documents seeded before files were shared get the session's files, not none
+    doc.transact(() => setDocumentFiles(doc, componentCode.files));
+  } else {
+    return;
+  }
+  await appendDocumentUpdate(sessionId, Y.encodeStateAsUpdate(doc, before), userId);
+});
+
+// Merge the stored updates into one, so the list doesn't grow with every keystroke. Changes
+// appended meanwhile stay after the merged update.
+const compactDocument = (sessionId) => withLock(sessionId, async () => {
+  const client = getRedisClient();
+  const key = KEYS.updates(sessionId);
+  const stored = await client.lRange(key, 0, -1);
+  if (stored.length < 2) {
+    return;
+  }
+
+  const merged = Y.mergeUpdates(stored.map(decodeUpdate));
+  await client.multi()
+    .lTrim(key, stored.length, -1)
+    .lPush(key, encodeUpdate(merged))
+    .expire(key, DOC_TTL)
+    .exec();
+});
+
+// Save the document's code as the session's next version. Resolves with the session, or null
+// when there is nothing to save: the code is the head's already, or the document is based on
+// an older version and waits for the head's code to be put into it.
+const saveDocument = async (sessionId, doc, userId) => {
+  for (let attempt = 1; ; attempt++) {
+    const session = await Session.findOne({ _id: sessionId, isActive: true });
+    if (!session || getDocumentVersion(doc) !== session.componentCode.version) {
+      return null;
+    }
+
+    const code = getDocumentCode(doc);
+    if (isSameCode(code, pickCode(session.componentCode))) {
+      return null;
+    }
+    // Files are checked like those saved over the REST API; invalid ones wait for a fix
+    const checked = validateFiles(code.files, session.componentCode.entry);
+    if (checked.error) {
+      console.warn(`Collaboration document of session ${sessionId} not saved: ${checked.error}`);
+      return null;
+    }
+
+    try {
+      await session.updateComponentCode(code.jsx, code.css, code.tsx, {
+        source: 'manual',
+        files: checked.files,
+        userId: userId || session.userId
+      });
+      return session;
+    } catch (error) {
+      // Another process saved the same version first
+      if (error.code !== DUPLICATE_KEY_ERROR || attempt === MAX_SAVE_ATTEMPTS) {
+        throw error;
+      }
+    }
+  }
+};
+
+module.exports = {
+  CODE_FIELDS,
+  pickCode,
+  isSameCode,
+  encodeUpdate,
+  decodeUpdate,
+  getDocumentCode,
+  getDocumentVersion,
+  setDocumentVersion,
+  appendDocumentUpdate,
+  loadDocument,
+  replaceDocumentCode,
+  compactDocument,
+  saveDocument
+};
@@ -0,0 +1,203 @@
+jest.mock('../../config/redis', () => ({ getRedisClient: jest.fn() }));
+jest.mock('../../models/Session', () => ({ findOne: jest.fn() }));
+jest.mock('./events', () => ({ publishSessionEvent: jest.fn() }));
+
+const Y = require('yjs');
+const { getRedisClient } = require('../../config/redis');
+const Session = require('../../models/Session');
+const { publishSessionEvent } = require('./events');
+const {
+  pickCode,
+  isSameCode,
+  decodeUpdate,
+  getDocumentCode,
+  getDocumentVersion,
+  appendDocumentUpdate,
+  loadDocument,
+  replaceDocumentCode,
+  compactDocument
+} = require('./documents');
+
+// Lists and plain keys in memory, enough for the stored updates and the lock
+const createFakeRedis = () => {
+  const lists = new Map();
+  const values = new Map();
+  const list = (key) => lists.get(key) || lists.set(key, []).get(key);
+
+  const client = {
+    lists,
+    lRange: async (key) => [...list(key)],
+    rPush: async (key, value) => list(key).push(value),
+    lPush: async (key, value) => list(key).unshift(value),
+    // Keeps the items from `start` to `stop` (inclusive; -1 is the last), as Redis does
+    lTrim: async (key, start, stop) => {
+      const items = list(key);
+      lists.set(key, items.slice(start, stop < 0 ? items.length + stop + 1 : stop + 1));
+    },
+    expire: async () => true,
+    set: async (key, value, { NX } = {}) => {
+      if (NX && values.has(key)) {
+        return null;
+      }
+      values.set(key, value);
+      return 'OK';
+    },
+    get: async (key) => values.get(key) || null,
+    del: async (key) => values.delete(key)
+  };
+  client.multi = () => {
+    const commands = [];
+    const transaction = { exec: () => Promise.all(commands.map(run => run())) };
+    ['rPush', 'lPush', 'lTrim', 'expire'].forEach((name) => {
+      transaction[name] = (...args) => {
+        commands.push(() => client[name](...args));
+        return transaction;
+      };
+    });
+    return transaction;
+  };
+  return client;
+};
+
+const headCode = {
+  jsx: 'const Card = () => <div className="card">Hello</div>;',
+  css: '.card { padding: 8px; }',
+  tsx: '',
+  files: [{ path: 'utils.js', content: 'export const noop = () => {};' }],
+  version: 3
+};
+
+describe('collaboration documents', () => {
+  let redis;
+
+  beforeEach(() => {
+    redis = createFakeRedis();
+    getRedisClient.mockReturnValue(redis);
+    publishSessionEvent.mockReset();
+    Session.findOne.mockReset();
+    Session.findOne.mockReturnValue({ select: jest.fn().mockResolvedValue({ componentCode: headCode }) });
+  });
+
+  describe('pickCode', () => {
+    it('fills in missing fields and orders files by path', () => {
+      const code = pickCode({ jsx: 'a', files: [{ path: 'b.js', content: 'b', _id: '1' }, { path: 'a.js', content: 'a' }] });
+
+      expect(code).toEqual({
+        jsx: 'a',
+        css: '',
+        tsx: '',
+        files: [{ path: 'a.js', content: 'a' }, { path: 'b.js', content: 'b' }]
+      });
+      expect(isSameCode(code, pickCode({ ...code, files: [...code.files].reverse() }))).toBe(true);
+      expect(isSameCode(code, pickCode({ ...code, files: code.files.slice(1) }))).toBe(false);
+    });
+  });
+
+  describe('loadDocument', () => {
+    it('seeds the document from the head version once', async () => {
+      const doc = await loadDocument('session-1');
+
+      expect(getDocumentCode(doc)).toEqual(pickCode(headCode));
+      expect(getDocumentVersion(doc)).toBe(3);
+
+      await loadDocument('session-1');
+      expect(Session.findOne).toHaveBeenCalledTimes(1);
+    });
+
+    it('resolves with null for sessions that do not exist', async () => {
+      Session.findOne.mockReturnValue({ select: jest.fn().mockResolvedValue(null) });
+
+      expect(await loadDocument('missing')).toBeNull();
+    });
+  });
+
+  describe('replaceDocumentCode', () => {
+    it('keeps concurrent edits outside the replaced range', async () => {
+      const local = await loadDocument('session-1');
+      // An edit at the start that has not reached the server yet
+      local.getText('jsx').insert(0, '// Card\n');
+
+      await replaceDocumentCode('session-1', {
+        ...headCode,
+        jsx: headCode.jsx.replace('Hello', 'Hello world'),
+        version: 4
+      });
+
+      expect(publishSessionEvent).toHaveBeenCalledWith('session-1', 'doc-update', expect.objectContaining({ update: expect.any(String) }));
+      Y.applyUpdate(local, decodeUpdate(publishSessionEvent.mock.calls[0][2].update));
+      expect(local.getText('jsx').toString()).toBe('// Card\nconst Card = () => <div className="card">Hello world</div>;');
+      expect(getDocumentVersion(local)).toBe(4);
+    });
+
+    it('leaves documents at or past the version alone', async () => {
+      await loadDocument('session-1');
+
+      await replaceDocumentCode('session-1', { ...headCode, jsx: 'const Old = () => null;', version: 3 });
+
+      expect(publishSessionEvent).not.toHaveBeenCalled();
+      expect(getDocumentCode(await loadDocument('session-1')).jsx).toBe(headCode.jsx);
+    });
+
+    it('does nothing without a document', async () => {
+      await replaceDocumentCode('session-2', { ...headCode, version: 4 });
+
+      expect(publishSessionEvent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('compactDocument', () => {
+    // An edit made on a copy of the stored document, appended as another process would
+    const appendEdit = async (edit) => {
+      const doc = await loadDocument('session-1');
+      const before = Y.encodeStateVector(doc);
+      edit(doc);
+      await appendDocumentUpdate('session-1', Y.encodeStateAsUpdate(doc, before));
+    };
+
+    it('merges the stored updates into one', async () => {
+      await appendEdit(doc => doc.getText('css').insert(0, '/* card */\n'));
+      await appendEdit(doc => doc.getText('jsx').insert(0, '// Card\n'));
+      expect(redis.lists.get('collab_doc:session-1')).toHaveLength(3);
+
+      await compactDocument('session-1');
+
+      expect(redis.lists.get('collab_doc:session-1')).toHaveLength(1);
+      const code = getDocumentCode(await loadDocument('session-1'));
+      expect(code.jsx).toBe(`// Card\n${headCode.jsx}`);
+      expect(code.css).toBe(`/* card */\n${headCode.css}`);
+    });
+
+    it('keeps updates appended while it merges', async () => {
+      await appendEdit(doc => doc.getText('jsx').insert(0, '// Card\n'));
+      const late = new Y.Doc();
+      (await redis.lRange('collab_doc:session-1')).forEach(update => Y.applyUpdate(late, decodeUpdate(update)));
+      const before = Y.encodeStateVector(late);
+      late.getText('css').insert(0, '/* late */\n');
+
+      // Another process appends its change after the merge read the list
+      const lRange = redis.lRange;
+      redis.lRange = async (...args) => {
+        const stored = await lRange(...args);
+        redis.lRange = lRange;
+        await appendDocumentUpdate('session-1', Y.encodeStateAsUpdate(late, before));
+        return stored;
+      };
+
+      await compactDocument('session-1');
+
+      expect(redis.lists.get('collab_doc:session-1')).toHaveLength(2);
+      const code = getDocumentCode(await loadDocument('session-1'));
+      expect(code.jsx).toBe(`// Card\n${headCode.jsx}`);
+      expect(code.css).toBe(`/* late */\n${headCode.css}`);
+    });
+
+    it('leaves a single update alone', async () => {
+      await loadDocument('session-1');
+      const stored = redis.lists.get('collab_doc:session-1');
+
+      await compactDocument('session-1');
+
+      expect(redis.lists.get('collab_doc:session-1')).toBe(stored);
+    });
+  });
+});
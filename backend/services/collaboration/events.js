@@ -0,0 +1,65 @@
+const { EventEmitter } = require('events');
+const { getRedisClient, createRedisConnection } = require('../../config/redis');
+
+// Everything collaborators of a session see live goes through one Redis channel per session,
+// so it reaches the sockets of every server process. Events are { event, data }:
+//   'message'        chat message added ({ message, userId })
+//   'code'           new head version saved ({ componentCode, userId, live })
+//   'job'            status of a job queued for the session ({ job, userId })
+//   'partial'        partial output of a generation job ({ jobId, partial })
+//   'session'        title, description or tags changed ({ session })
+//   'collaborators'  collaborators added, changed or removed ({ collaborators })
+//   'deleted'        the session was deleted
+//   'doc-update'     change to the shared code document ({ update }, see documents.js)
+//   'awareness'      cursors and presence ({ update }, see socket.js)
+
+const channel = (sessionId) => `session_events:${sessionId}`;
+const EVENTS_PATTERN = 'session_events:*';
+
+const publishSessionEvent = async (sessionId, event, data = null) => {
+  await getRedisClient().publish(channel(sessionId), JSON.stringify({ event, data }));
+};
+
+// Collaborators should not miss out because a notification failed; the change itself is saved
+const notifySession = (sessionId, event, data) => {
+  publishSessionEvent(String(sessionId), event, data)
+    .catch(error => console.error('Session event error:', error));
+};
+
+// One pattern subscription per process, shared by all session rooms
+const sessionEvents = new EventEmitter();
+sessionEvents.setMaxListeners(0);
+let subscriber = null;
+
+const ensureSubscriber = () => {
+  if (!subscriber) {
+    subscriber = createRedisConnection().then(async (connection) => {
+      await connection.pSubscribe(EVENTS_PATTERN, (message, name) => {
+        try {
+          sessionEvents.emit(name, JSON.parse(message));
+        } catch (error) {
+          console.error('Session event error:', error);
+        }
+      });
+      return connection;
+    }).catch((error) => {
+      subscriber = null;
+      throw error;
+    });
+  }
+  return subscriber;
+};
+
+// Call `listener` with every event of the session; resolves with a function that stops listening
+const subscribeToSession = async (sessionId, listener) => {
+  await ensureSubscriber();
+  const name = channel(sessionId);
+  sessionEvents.on(name, listener);
+  return () => sessionEvents.off(name, listener);
+};
+
+module.exports = {
+  publishSessionEvent,
+  notifySession,
+  subscribeToSession
+};
@@ -0,0 +1,32 @@
+const { notifySession } = require('./events');
+const { replaceDocumentCode } = require('./documents');
+
+// Sessions are shared with collaborators (see models/Session.js), who follow each other's chat,
+// code edits and generations live over a WebSocket (see socket.js)
+
+const COLLABORATOR_ROLES = ['editor', 'viewer'];
+
+const publishChatMessage = (session, message, userId) => {
+  notifySession(session._id, 'message', { message, userId: userId && String(userId) });
+};
+
+// A new head version saved outside the shared document (a generation, a restore, a save over
+// the REST API): the document gets its code and collaborators are told about it
+const publishCodeChange = async (session, userId) => {
+  try {
+    await replaceDocumentCode(String(session._id), session.componentCode, userId);
+  } catch (error) {
+    console.error('Replace collaboration document error:', error);
+  }
+  notifySession(session._id, 'code', {
+    componentCode: session.componentCode,
+    userId: userId && String(userId),
+    live: false
+  });
+};
+
+module.exports = {
+  COLLABORATOR_ROLES,
+  publishChatMessage,
+  publishCodeChange
+};
@@ -0,0 +1,471 @@
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+const { WebSocketServer, WebSocket } = require('ws');
+const Y = require('yjs');
+const awarenessProtocol = require('y-protocols/awareness');
+const encoding = require('lib0/encoding');
+const decoding = require('lib0/decoding');
+const User = require('../../models/User');
+const Session = require('../../models/Session');
+const { setSessionData } = require('../../config/redis');
+const { publishSessionEvent, notifySession, subscribeToSession } = require('./events');
+const {
+  pickCode,
+  isSameCode,
+  encodeUpdate,
+  decodeUpdate,
+  getDocumentCode,
+  setDocumentVersion,
+  appendDocumentUpdate,
+  loadDocument,
+  replaceDocumentCode,
+  compactDocument,
+  saveDocument
+} = require('./documents');
+
+// Collaborators of a session meet in a room over a WebSocket at /ws/sessions/:sessionId, with
+// their JWT as the `token` query parameter (browsers can't set headers on sockets). Each
+// process has a room per session with people connected to it, holding the shared code
+// document (see documents.js) and the awareness states (cursors and who is there, see
+// y-protocols). Session events from every process are passed on to the room's sockets.
+//
+// Messages are JSON. From the server:
+//   { type: 'init', connectionId, role, update, stateVector, awareness }  after connecting
+//   { type: 'update', update }          change to the code document
+//   { type: 'awareness', update }       cursors and presence
+//   { type: 'event', event, data }      other session events (see events.js)
+//   { type: 'error', error, code }
+// From clients, once they have had 'init': { type: 'update', update } (not from viewers) and
+// { type: 'awareness', update }.
+// Updates are base64 Yjs and awareness updates.
+
+const SOCKET_PATH = /^\/ws\/sessions\/([a-f0-9]{24})\/?$/;
+const MAX_MESSAGE_SIZE = 5 * 1024 * 1024;
+const PING_INTERVAL = 30 * 1000;
+// The document is saved as a version once edits have paused this long (ms)
+const SAVE_DELAY = 2000;
+// Stored document updates are merged after this many changes from a room
+const COMPACT_EVERY = 200;
+
+// Close codes the editor tells apart from a dropped connection
+const CLOSE_CODES = {
+  unauthorized: 4401,
+  forbidden: 4403,
+  deleted: 4410
+};
+
+// Update origins: changes from other processes, and the room's own
+const REMOTE = 'remote';
+const SERVER = 'server';
+
+const instanceId = crypto.randomUUID();
+const rooms = new Map();
+
+const send = (connection, message) => {
+  if (connection.ws.readyState === WebSocket.OPEN) {
+    connection.ws.send(JSON.stringify(message));
+  }
+};
+
+const broadcast = (room, message, except = null) => {
+  room.connections.forEach((connection) => {
+    if (connection !== except) {
+      send(connection, message);
+    }
+  });
+};
+
+const sendError = (connection, error, code) => send(connection, { type: 'error', error, code });
+
+const authenticate = async (token) => {
+  if (!token) {
+    return null;
+  }
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET);
+    const user = await User.findById(decoded.userId).select('-password');
+    return user && user.isActive ? user : null;
+  } catch (error) {
+    if (error.name === 'JsonWebTokenError' || error.name === 'TokenExpiredError') {
+      return null;
+    }
+    throw error;
+  }
+};
+
+const saveRoom = async (room) => {
+  clearTimeout(room.saveTimer);
+  room.saveTimer = null;
+
+  if (isSameCode(getDocumentCode(room.doc), room.savedCode)) {
+    return;
+  }
+
+  const session = await saveDocument(room.sessionId, room.doc, room.lastEditor);
+  if (!session) {
+    return;
+  }
+  room.savedCode = pickCode(session.componentCode);
+  setDocumentVersion(room.doc, session.componentCode.version, SERVER);
+
+  await setSessionData(room.sessionId, {
+    chatHistory: session.chatHistory,
+    componentCode: session.componentCode,
+    uiState: session.uiState
+  });
+  notifySession(room.sessionId, 'code', {
+    componentCode: session.componentCode,
+    userId: room.lastEditor,
+    live: true
+  });
+};
+
+const scheduleSave = (room) => {
+  clearTimeout(room.saveTimer);
+  room.saveTimer = setTimeout(() => {
+    saveRoom(room).catch(error => console.error('Save collaboration document error:', error));
+  }, SAVE_DELAY);
+};
+
+// Changes made in this process are stored and published; all are passed on to the sockets
+const onDocumentUpdate = (room, update, origin) => {
+  broadcast(room, { type: 'update', update: encodeUpdate(update) }, origin);
+
+  if (origin !== REMOTE) {
+    const userId = origin && origin.user ? String(origin.user._id) : null;
+    if (userId) {
+      room.lastEditor = userId;
+    }
+    appendDocumentUpdate(room.sessionId, update, userId)
+      .catch(error => console.error('Store collaboration update error:', error));
+
+    room.updateCount++;
+    if (room.updateCount % COMPACT_EVERY === 0) {
+      compactDocument(room.sessionId)
+        .catch(error => console.error('Compact collaboration document error:', error));
+    }
+  }
+  scheduleSave(room);
+};
+
+const onAwarenessUpdate = (room, { added, updated, removed }, origin) => {
+  const changed = added.concat(updated, removed);
+  const update = encodeUpdate(awarenessProtocol.encodeAwarenessUpdate(room.awareness, changed));
+  broadcast(room, { type: 'awareness', update }, origin);
+
+  if (origin !== REMOTE) {
+    publishSessionEvent(room.sessionId, 'awareness', { update, instanceId })
+      .catch(error => console.error('Publish awareness error:', error));
+  }
+};
+
+// Collaborators changed: whoever lost access is disconnected, the others get their new role
+const updateAccess = async (room) => {
+  const session = await Session.findById(room.sessionId).select('userId collaborators isActive');
+  room.connections.forEach((connection) => {
+    const role = session && session.isActive ? session.getAccessRole(connection.user._id) : null;
+    if (!role) {
+      connection.ws.close(CLOSE_CODES.forbidden, 'Session is no longer shared with you');
+    } else {
+      connection.role = role;
+    }
+  });
+};
+
+const handleSessionEvent = (room, { event, data }) => {
+  switch (event) {
+    case 'doc-update':
+      if (data.userId) {
+        room.lastEditor = data.userId;
+      }
+      Y.applyUpdate(room.doc, decodeUpdate(data.update), REMOTE);
+      break;
+    case 'awareness':
+      if (data.instanceId !== instanceId) {
+        awarenessProtocol.applyAwarenessUpdate(room.awareness, decodeUpdate(data.update), REMOTE);
+      }
+      break;
+    case 'code':
+      // Saved by this process or another: the document holds this code already, or gets it
+      // through replaceDocumentCode
+      room.savedCode = pickCode(data.componentCode);
+      broadcast(room, { type: 'event', event, data });
+      break;
+    case 'collaborators':
+      broadcast(room, { type: 'event', event, data });
+      updateAccess(room).catch(error => console.error('Update collaborator access error:', error));
+      break;
+    case 'deleted':
+      broadcast(room, { type: 'event', event, data });
+      room.connections.forEach(connection => connection.ws.close(CLOSE_CODES.deleted, 'Session was deleted'));
+      break;
+    default:
+      broadcast(room, { type: 'event', event, data });
+  }
+};
+
+const openRoom = async (sessionId) => {
+  const room = {
+    sessionId,
+    connections: new Set(),
+    // Awareness client ids by the connection that uses them
+    clientOwners: new Map(),
+    closed: false,
+    doc: null,
+    awareness: null,
+    savedCode: null,
+    lastEditor: null,
+    saveTimer: null,
+    updateCount: 0,
+    unsubscribe: () => {}
+  };
+
+  // Subscribed before the document is read, so no change is missed in between; events that
+  // arrive before it is ready wait
+  const pending = [];
+  room.unsubscribe = await subscribeToSession(sessionId, (message) => {
+    if (!room.awareness) {
+      pending.push(message);
+      return;
+    }
+    try {
+      handleSessionEvent(room, message);
+    } catch (error) {
+      console.error('Session event error:', error);
+    }
+  });
+
+  try {
+    const [doc, session] = await Promise.all([
+      loadDocument(sessionId),
+      Session.findOne({ _id: sessionId, isActive: true }).select('componentCode')
+    ]);
+    if (!doc || !session) {
+      room.unsubscribe();
+      return null;
+    }
+
+    room.doc = doc;
+    room.savedCode = pickCode(session.componentCode);
+    room.awareness = new awarenessProtocol.Awareness(doc);
+    // The server itself isn't a participant
+    room.awareness.setLocalState(null);
+    doc.on('update', (update, origin) => onDocumentUpdate(room, update, origin));
+    room.awareness.on('update', (changes, origin) => onAwarenessUpdate(room, changes, origin));
+    pending.forEach(message => handleSessionEvent(room, message));
+
+    // A version saved while the document expired from this process's view, e.g. by a job
+    await replaceDocumentCode(sessionId, session.componentCode);
+    return room;
+  } catch (error) {
+    room.unsubscribe();
+    throw error;
+  }
+};
+
+// Rooms are opened once per process, however many sockets join at the same time
+const getRoom = (sessionId) => {
+  if (!rooms.has(sessionId)) {
+    const opening = openRoom(sessionId).then((room) => {
+      if (!room) {
+        rooms.delete(sessionId);
+      }
+      return room;
+    }).catch((error) => {
+      rooms.delete(sessionId);
+      throw error;
+    });
+    rooms.set(sessionId, opening);
+  }
+  return rooms.get(sessionId);
+};
+
+// The last one out saves the document and closes the room
+const closeRoom = async (room) => {
+  room.closed = true;
+  rooms.delete(room.sessionId);
+  room.unsubscribe();
+  try {
+    await saveRoom(room);
+    await compactDocument(room.sessionId);
+  } finally {
+    room.awareness.destroy();
+    room.doc.destroy();
+  }
+};
+
+// Awareness states from a client carry the user as the server knows them, so nobody can show
+// up under someone else's name, and only the client's own states are accepted
+const readClientAwareness = (room, connection, update) => {
+  const decoder = decoding.createDecoder(update);
+  const encoder = encoding.createEncoder();
+  const entries = [];
+
+  const count = decoding.readVarUint(decoder);
+  for (let i = 0; i < count; i++) {
+    const clientId = decoding.readVarUint(decoder);
+    const clock = decoding.readVarUint(decoder);
+    const state = JSON.parse(decoding.readVarString(decoder));
+    const owner = room.clientOwners.get(clientId);
+    if (!owner || owner === connection) {
+      entries.push({ clientId, clock, state });
+    }
+  }
+
+  encoding.writeVarUint(encoder, entries.length);
+  entries.forEach(({ clientId, clock, state }) => {
+    room.clientOwners.set(clientId, connection);
+    connection.clientIds.add(clientId);
+    const verified = state && {
+      ...state,
+      user: {
+        ...(state.user || {}),
+        id: String(connection.user._id),
+        name: connection.user.name,
+        avatar: connection.user.avatar,
+        role: connection.role
+      }
+    };
+    encoding.writeVarUint(encoder, clientId);
+    encoding.writeVarUint(encoder, clock);
+    encoding.writeVarString(encoder, JSON.stringify(verified));
+  });
+  return encoding.toUint8Array(encoder);
+};
+
+const handleMessage = (room, connection, raw) => {
+  let message;
+  try {
+    message = JSON.parse(raw);
+  } catch (error) {
+    return sendError(connection, 'Messages must be JSON', 'INVALID_MESSAGE');
+  }
+
+  try {
+    if (message.type === 'update') {
+      if (connection.role === 'viewer') {
+        return sendError(connection, 'Viewers cannot edit the code', 'READ_ONLY');
+      }
+      Y.applyUpdate(room.doc, decodeUpdate(message.update), connection);
+    } else if (message.type === 'awareness') {
+      const update = readClientAwareness(room, connection, decodeUpdate(message.update));
+      awarenessProtocol.applyAwarenessUpdate(room.awareness, update, connection);
+    } else {
+      sendError(connection, `Unknown message type: ${message.type}`, 'INVALID_MESSAGE');
+    }
+  } catch (error) {
+    console.error('Collaboration message error:', error);
+    sendError(connection, 'Invalid update', 'INVALID_UPDATE');
+  }
+};
+
+const leaveRoom = (room, connection) => {
+  room.connections.delete(connection);
+  connection.clientIds.forEach(clientId => room.clientOwners.delete(clientId));
+  awarenessProtocol.removeAwarenessStates(room.awareness, [...connection.clientIds], SERVER);
+
+  if (room.connections.size === 0) {
+    closeRoom(room).catch(error => console.error('Close collaboration room error:', error));
+  }
+};
+
+const joinRoom = async (ws, user, sessionId, role) => {
+  const connection = { id: crypto.randomUUID(), ws, user, role, clientIds: new Set() };
+
+  let room;
+  try {
+    // A room closing as this socket joins is opened again
+    do {
+      room = await getRoom(sessionId);
+    } while (room && room.closed);
+  } catch (error) {
+    console.error('Open collaboration room error:', error);
+    return ws.close(1011, 'Failed to open the session');
+  }
+  if (!room) {
+    return ws.close(CLOSE_CODES.forbidden, 'Session not found');
+  }
+  if (ws.readyState !== WebSocket.OPEN) {
+    if (room.connections.size === 0) {
+      closeRoom(room).catch(error => console.error('Close collaboration room error:', error));
+    }
+    return;
+  }
+
+  room.connections.add(connection);
+  ws.on('message', raw => handleMessage(room, connection, raw));
+  ws.on('close', () => leaveRoom(room, connection));
+
+  const states = [...room.awareness.getStates().keys()];
+  send(connection, {
+    type: 'init',
+    connectionId: connection.id,
+    role,
+    update: encodeUpdate(Y.encodeStateAsUpdate(room.doc)),
+    stateVector: encodeUpdate(Y.encodeStateVector(room.doc)),
+    awareness: states.length > 0
+      ? encodeUpdate(awarenessProtocol.encodeAwarenessUpdate(room.awareness, states))
+      : null
+  });
+};
+
+// Accept collaboration sockets on the HTTP server; other upgrade requests are refused
+const attachCollaborationServer = (server) => {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_SIZE });
+
+  server.on('upgrade', (req, socket, head) => {
+    const url = new URL(req.url, 'http://localhost');
+    const match = url.pathname.match(SOCKET_PATH);
+    if (!match) {
+      socket.write('HTTP/1.1 404 Not Found\r\n\r\n');
+      return socket.destroy();
+    }
+
+    // Refusals are sent as close codes over an accepted socket, which browsers can read
+    wss.handleUpgrade(req, socket, head, async (ws) => {
+      ws.isAlive = true;
+      ws.on('pong', () => {
+        ws.isAlive = true;
+      });
+      ws.on('error', error => console.error('Collaboration socket error:', error));
+
+      try {
+        const user = await authenticate(url.searchParams.get('token'));
+        if (!user) {
+          return ws.close(CLOSE_CODES.unauthorized, 'Invalid token');
+        }
+
+        const sessionId = match[1];
+        const session = await Session.findOne({ _id: sessionId, isActive: true, ...Session.accessFilter(user._id) })
+          .select('userId collaborators');
+        if (!session) {
+          return ws.close(CLOSE_CODES.forbidden, 'Session not found');
+        }
+
+        await joinRoom(ws, user, sessionId, session.getAccessRole(user._id));
+      } catch (error) {
+        console.error('Collaboration socket error:', error);
+        ws.close(1011, 'Failed to join the session');
+      }
+    });
+  });
+
+  // Sockets that stopped answering pings are dropped, which takes them out of their room
+  const ping = setInterval(() => {
+    wss.clients.forEach((ws) => {
+      if (!ws.isAlive) {
+        return ws.terminate();
+      }
+      ws.isAlive = false;
+      ws.ping();
+    });
+  }, PING_INTERVAL);
+  wss.on('close', () => clearInterval(ping));
+
+  return wss;
+};
+
+module.exports = {
+  CLOSE_CODES,
+  attachCollaborationServer
+};
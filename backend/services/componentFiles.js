@@ -0,0 +1,94 @@
+const path = require('path');
+
+// A component is a small virtual file tree. The entry module is componentCode.jsx
+// (with componentCode.css as its stylesheet and componentCode.tsx as its TypeScript
+// version); sub-components, hooks, utils, extra stylesheets and tests live in
+// componentCode.files, with paths relative to the entry.
+
+const DEFAULT_ENTRY = 'Component.jsx';
+
+const FILE_LIMITS = {
+  files: 30,
+  fileSize: 200 * 1024
+};
+
+const FILE_EXTENSIONS = ['.js', '.jsx', '.ts', '.tsx', '.css'];
+
+const PATH_SEGMENT = /^[\w@][\w.@-]*$/;
+
+// Normalized relative POSIX path, or null when the path is unsafe or unsupported
+const normalizeFilePath = (filePath) => {
+  if (typeof filePath !== 'string') {
+    return null;
+  }
+  const normalized = path.posix.normalize(filePath.trim().replace(/\\/g, '/')).replace(/^\.\//, '');
+  const segments = normalized.split('/');
+  if (normalized.startsWith('/') || !segments.every((segment) => PATH_SEGMENT.test(segment))) {
+    return null;
+  }
+  return FILE_EXTENSIONS.includes(path.posix.extname(normalized).toLowerCase()) ? normalized : null;
+};
+
+const getStylesheetPath = (entry = DEFAULT_ENTRY) => entry.replace(/\.[jt]sx?$/, '.css');
+
+// Check files sent by a client or a model; returns { files } or { error }
+const validateFiles = (files, entry = DEFAULT_ENTRY) => {
+  if (!Array.isArray(files)) {
+    return { error: 'files must be an array of { path, content }' };
+  }
+  if (files.length > FILE_LIMITS.files) {
+    return { error: `A component can have at most ${FILE_LIMITS.files} extra files` };
+  }
+
+  const reserved = new Set([entry, getStylesheetPath(entry)]);
+  const seen = new Set();
+  const normalized = [];
+  for (const file of files) {
+    const filePath = normalizeFilePath(file && file.path);
+    if (!filePath) {
+      return { error: `Invalid file path: ${file && file.path}. Use a relative path ending in ${FILE_EXTENSIONS.join(', ')}` };
+    }
+    if (reserved.has(filePath)) {
+      return { error: `${filePath} is the entry module or its stylesheet` };
+    }
+    if (seen.has(filePath)) {
+      return { error: `Duplicate file path: ${filePath}` };
+    }
+    if (typeof file.content !== 'string') {
+      return { error: `${filePath} must have string content` };
+    }
+    if (Buffer.byteLength(file.content) > FILE_LIMITS.fileSize) {
+      return { error: `${filePath} is larger than ${FILE_LIMITS.fileSize / 1024} KB` };
+    }
+    seen.add(filePath);
+    normalized.push({ path: filePath, content: file.content });
+  }
+  return { files: normalized };
+};
+
+const validateEntry = (entry) => {
+  const normalized = normalizeFilePath(entry);
+  return normalized && !normalized.includes('/') && /\.[jt]sx?$/.test(normalized) ? normalized : null;
+};
+
+// Every file of the component, entry first: [{ path, content }]
+const getFileTree = (code) => {
+  const entry = code.entry || DEFAULT_ENTRY;
+  const tree = [{ path: entry, content: code.jsx || '' }];
+  if (code.css) {
+    tree.push({ path: getStylesheetPath(entry), content: code.css });
+  }
+  (code.files || []).forEach((file) => tree.push({ path: file.path, content: file.content }));
+  return tree;
+};
+
+module.exports = {
+  DEFAULT_ENTRY,
+  FILE_LIMITS,
+  FILE_EXTENSIONS,
+  normalizeFilePath,
+  getStylesheetPath,
+  validateFiles,
+  validateEntry,
+  getFileTree
+};
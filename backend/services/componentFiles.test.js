@@ -0,0 +1,56 @@
+const { FILE_LIMITS, normalizeFilePath, validateFiles, validateEntry, getFileTree } = require('./componentFiles');
+
+describe('normalizeFilePath', () => {
+  it('normalizes safe relative paths', () => {
+    expect(normalizeFilePath('./hooks/useToggle.js')).toBe('hooks/useToggle.js');
+    expect(normalizeFilePath('utils\\format.ts')).toBe('utils/format.ts');
+    expect(normalizeFilePath('parts/../Button.jsx')).toBe('Button.jsx');
+    expect(normalizeFilePath('@scope/theme.css')).toBe('@scope/theme.css');
+  });
+
+  it('rejects paths that leave the component or are not sources', () => {
+    ['../secrets.js', 'parts/../../up.js', '/etc/passwd.js', '.env.js', 'hooks/.hidden.js', 'notes.md', 'a b.js', '', null]
+      .forEach(filePath => expect(normalizeFilePath(filePath)).toBeNull());
+  });
+});
+
+describe('validateFiles', () => {
+  it('returns the files with normalized paths', () => {
+    expect(validateFiles([{ path: './Button.jsx', content: 'x' }])).toEqual({ files: [{ path: 'Button.jsx', content: 'x' }] });
+  });
+
+  it('keeps the entry and its stylesheet out of the files', () => {
+    expect(validateFiles([{ path: 'Card.css', content: '' }], 'Card.jsx')).toEqual({ error: 'Card.css is the entry module or its stylesheet' });
+    expect(validateFiles([{ path: 'Component.jsx', content: '' }]).error).toBe('Component.jsx is the entry module or its stylesheet');
+  });
+
+  it('rejects bad paths, duplicates, non-string content and oversized files', () => {
+    expect(validateFiles([{ path: '../x.js', content: '' }]).error).toMatch(/^Invalid file path: \.\.\/x\.js/);
+    expect(validateFiles([{ path: 'a.js', content: '' }, { path: './a.js', content: '' }]).error).toBe('Duplicate file path: a.js');
+    expect(validateFiles([{ path: 'a.js', content: 1 }]).error).toBe('a.js must have string content');
+    expect(validateFiles([{ path: 'a.js', content: 'a'.repeat(FILE_LIMITS.fileSize + 1) }]).error).toBe('a.js is larger than 200 KB');
+    expect(validateFiles('a.js').error).toBe('files must be an array of { path, content }');
+  });
+
+  it('limits how many files a component has', () => {
+    const files = Array.from({ length: FILE_LIMITS.files + 1 }, (_, index) => ({ path: `f${index}.js`, content: '' }));
+
+    expect(validateFiles(files).error).toBe('A component can have at most 30 extra files');
+  });
+});
+
+describe('validateEntry', () => {
+  it('accepts a module at the top of the tree only', () => {
+    expect(validateEntry('Card.tsx')).toBe('Card.tsx');
+    expect(validateEntry('src/Card.jsx')).toBeNull();
+    expect(validateEntry('Card.css')).toBeNull();
+  });
+});
+
+describe('getFileTree', () => {
+  it('lists the entry and its stylesheet before the other files', () => {
+    const tree = getFileTree({ entry: 'Card.jsx', jsx: 'jsx', css: 'css', files: [{ path: 'a.js', content: 'a' }] });
+
+    expect(tree.map(file => file.path)).toEqual(['Card.jsx', 'Card.css', 'a.js']);
+  });
+});
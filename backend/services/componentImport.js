@@ -0,0 +1,267 @@
+const path = require('path');
+const JSZip = require('jszip');
+const postcss = require('postcss');
+const ts = require('typescript');
+const { parse } = require('@babel/parser');
+const { convertToTsx } = require('./typescript');
+const { FILE_EXTENSIONS, normalizeFilePath, validateFiles } = require('./componentFiles');
+
+// Importing existing components: uploaded source files, a zip of them, or pasted code
+// become a session's initial componentCode. One module is the entry; the others are
+// kept as the component's files, relative to it.
+
+const IMPORT_LIMITS = {
+  // Per uploaded file, zip archives included
+  fileSize: 1024 * 1024,
+  files: 10,
+  // Per source file, after unzipping
+  sourceSize: 200 * 1024,
+  // All source files together
+  totalSize: 500 * 1024,
+  zipEntries: 200
+};
+
+const SOURCE_EXTENSIONS = FILE_EXTENSIONS;
+const UPLOAD_EXTENSIONS = [...SOURCE_EXTENSIONS, '.zip'];
+const MODULE_EXTENSIONS = ['.jsx', '.tsx', '.js', '.ts'];
+
+// Files in a zip that belong to tooling rather than the component
+const IGNORED_ENTRY = /(^|\/)(__MACOSX|node_modules|\.[^/]+)(\/|$)|\.(stories|test|spec)\.[jt]sx?$/;
+
+const PARSER_OPTIONS = {
+  sourceType: 'module',
+  plugins: ['jsx', 'typescript']
+};
+
+class ImportError extends Error {
+  constructor(message, code, status = 400, details = {}) {
+    super(message);
+    this.name = 'ImportError';
+    this.code = code;
+    this.status = status;
+    this.details = details;
+  }
+}
+
+const getExtension = filename => path.extname(filename || '').toLowerCase();
+
+const isSupportedUpload = filename => UPLOAD_EXTENSIONS.includes(getExtension(filename));
+
+const tooLarge = (name, limit) => new ImportError(`${name} is larger than ${limit / 1024} KB`, 'IMPORT_TOO_LARGE', 413);
+
+const checkSize = (name, content) => {
+  if (Buffer.byteLength(content) > IMPORT_LIMITS.sourceSize) {
+    throw tooLarge(name, IMPORT_LIMITS.sourceSize);
+  }
+};
+
+// Inflate a zip entry chunk by chunk and stop as soon as it goes past limit bytes (resolving
+// null); the sizes in the zip directory are whatever the archive claims
+const inflateEntry = (entry, limit) => new Promise((resolve, reject) => {
+  const chunks = [];
+  let size = 0;
+  const stream = entry.internalStream('uint8array');
+  stream
+    .on('data', chunk => {
+      size += chunk.length;
+      if (size > limit) {
+        stream.pause();
+        resolve(null);
+        return;
+      }
+      chunks.push(Buffer.from(chunk));
+    })
+    .on('error', reject)
+    .on('end', () => resolve(Buffer.concat(chunks, size)))
+    .resume();
+});
+
+// Source files of a zip, held to the per-file and total limits while they are inflated
+const readZip = async (name, buffer) => {
+  let zip;
+  try {
+    zip = await JSZip.loadAsync(buffer);
+  } catch (error) {
+    throw new ImportError(`${name} is not a valid zip archive`, 'IMPORT_INVALID_FILE');
+  }
+
+  const entries = Object.values(zip.files).filter(entry => !entry.dir);
+  if (entries.length > IMPORT_LIMITS.zipEntries) {
+    throw new ImportError(`${name} has more than ${IMPORT_LIMITS.zipEntries} files`, 'IMPORT_TOO_LARGE', 413);
+  }
+
+  const sources = [];
+  const skipped = [];
+  let totalSize = 0;
+  for (const entry of entries) {
+    if (IGNORED_ENTRY.test(entry.name) || !SOURCE_EXTENSIONS.includes(getExtension(entry.name))) {
+      skipped.push(entry.name);
+      continue;
+    }
+    const remaining = IMPORT_LIMITS.totalSize - totalSize;
+    const content = await inflateEntry(entry, Math.min(IMPORT_LIMITS.sourceSize, remaining));
+    if (!content) {
+      throw remaining < IMPORT_LIMITS.sourceSize
+        ? tooLarge(`The code in ${name}`, IMPORT_LIMITS.totalSize)
+        : tooLarge(entry.name, IMPORT_LIMITS.sourceSize);
+    }
+    totalSize += content.length;
+    sources.push({ name: entry.name, content: content.toString('utf8') });
+  }
+  return { sources, skipped };
+};
+
+const checkSyntax = ({ name, content }) => {
+  try {
+    if (getExtension(name) === '.css') {
+      postcss.parse(content);
+    } else {
+      parse(content, PARSER_OPTIONS);
+    }
+  } catch (error) {
+    // Babel messages end with (line:column); PostCSS reports the line separately
+    const details = error.name === 'CssSyntaxError' ? `line ${error.line}: ${error.reason}` : error.message;
+    throw new ImportError(`${name} could not be parsed: ${details}`, 'IMPORT_PARSE_ERROR');
+  }
+};
+
+// TSX without its types, for the JSX tab and the preview
+const stripTypes = tsx => {
+  return ts.transpileModule(tsx, {
+    compilerOptions: {
+      jsx: ts.JsxEmit.Preserve,
+      target: ts.ScriptTarget.ESNext,
+      module: ts.ModuleKind.ESNext,
+      removeComments: false
+    }
+  }).outputText.trim();
+};
+
+// Components are .jsx/.tsx modules; plain .js/.ts files are assumed to be hooks and utils
+const pickEntry = (sources, requested) => {
+  const components = sources.filter(source => ['.jsx', '.tsx'].includes(getExtension(source.name)));
+  if (requested) {
+    const entry = sources.find(source => source.name === requested || path.posix.basename(source.name) === requested);
+    if (!entry || !MODULE_EXTENSIONS.includes(getExtension(entry.name))) {
+      throw new ImportError(`Entry ${requested} is not one of the imported modules`, 'IMPORT_NO_COMPONENT');
+    }
+    return entry;
+  }
+
+  const candidates = components.length > 0
+    ? components
+    : sources.filter(source => MODULE_EXTENSIONS.includes(getExtension(source.name)));
+  // A .jsx file and its .tsx twin are one component
+  const distinct = candidates.filter(source => !(getExtension(source.name) === '.tsx'
+    && candidates.some(other => other.name === source.name.replace(/\.tsx$/, '.jsx'))));
+  if (distinct.length > 1) {
+    throw new ImportError(
+      `Several components were imported (${distinct.map(source => source.name).join(', ')}); choose the entry`,
+      'IMPORT_MULTIPLE_COMPONENTS',
+      400,
+      { candidates: distinct.map(source => source.name) }
+    );
+  }
+  return distinct[0];
+};
+
+// Build componentCode from uploaded files ({ originalname, buffer }) and pasted code.
+// Returns { componentCode: { jsx, css, tsx, entry, files }, files, skipped }; throws ImportError.
+const buildImport = async ({ uploads = [], pasted = {}, entry: requestedEntry }) => {
+  let sources = [];
+  const skipped = [];
+
+  for (const upload of uploads) {
+    const name = path.basename(upload.originalname);
+    if (!isSupportedUpload(name)) {
+      throw new ImportError(`${name} is not a supported file (${UPLOAD_EXTENSIONS.join(', ')})`, 'IMPORT_UNSUPPORTED_FILE');
+    }
+    if (getExtension(name) === '.zip') {
+      const zipped = await readZip(name, upload.buffer);
+      sources.push(...zipped.sources);
+      skipped.push(...zipped.skipped);
+    } else {
+      sources.push({ name, content: upload.buffer.toString('utf8') });
+    }
+  }
+
+  ['jsx', 'tsx', 'css'].forEach(type => {
+    if (typeof pasted[type] === 'string' && pasted[type].trim()) {
+      sources.push({ name: `Component.${type}`, content: pasted[type] });
+    }
+  });
+
+  sources = sources.filter(source => source.content.trim());
+  if (!sources.some(source => MODULE_EXTENSIONS.includes(getExtension(source.name)))) {
+    throw new ImportError('A .jsx or .tsx component is required', 'IMPORT_NO_COMPONENT');
+  }
+
+  sources.forEach(source => checkSize(source.name, source.content));
+  const totalSize = sources.reduce((total, source) => total + Buffer.byteLength(source.content), 0);
+  if (totalSize > IMPORT_LIMITS.totalSize) {
+    throw new ImportError(`Imported code is larger than ${IMPORT_LIMITS.totalSize / 1024} KB`, 'IMPORT_TOO_LARGE', 413);
+  }
+  sources.forEach(checkSyntax);
+
+  const entrySource = pickEntry(sources, requestedEntry);
+  const entryDir = path.posix.dirname(entrySource.name);
+  const baseName = path.posix.basename(entrySource.name).replace(/\.[jt]sx?$/, '');
+  const sibling = extension => path.posix.join(entryDir, `${baseName}${extension}`);
+
+  const isTypeScript = getExtension(entrySource.name) === '.tsx' || getExtension(entrySource.name) === '.ts';
+  const jsx = isTypeScript ? stripTypes(entrySource.content) : entrySource.content.trim();
+
+  // Same lookup as the preview: the component is the first capitalized declaration
+  if (!/(?:function|const|class)\s+[A-Z]\w*/.test(jsx)) {
+    throw new ImportError('No component found; expected a capitalized function, const or class', 'IMPORT_NO_COMPONENT');
+  }
+
+  const stylesheet = sources.find(source => source.name === sibling('.css'));
+  const tsxTwin = isTypeScript ? entrySource : sources.find(source => source.name === sibling('.tsx'));
+  let tsx = tsxTwin ? tsxTwin.content.trim() : '';
+  if (!tsx) {
+    try {
+      tsx = convertToTsx(jsx);
+    } catch (error) {
+      tsx = '';
+    }
+  }
+
+  const entry = `${baseName}${isTypeScript ? getExtension(entrySource.name).replace('t', 'j') : getExtension(entrySource.name)}`;
+  const files = [];
+  sources.forEach(source => {
+    if (source === entrySource || source === stylesheet || source === tsxTwin) {
+      return;
+    }
+    const filePath = normalizeFilePath(path.posix.relative(entryDir, source.name));
+    if (!filePath || filePath.startsWith('..')) {
+      skipped.push(source.name);
+      return;
+    }
+    files.push({ path: filePath, content: source.content });
+  });
+
+  const checked = validateFiles(files, entry);
+  if (checked.error) {
+    throw new ImportError(checked.error, 'IMPORT_INVALID_FILE');
+  }
+
+  return {
+    componentCode: {
+      jsx,
+      css: stylesheet ? stylesheet.content.trim() : '',
+      tsx,
+      entry,
+      files: checked.files
+    },
+    files: sources.map(source => source.name),
+    skipped
+  };
+};
+
+module.exports = {
+  IMPORT_LIMITS,
+  ImportError,
+  isSupportedUpload,
+  buildImport
+};
@@ -0,0 +1,93 @@
+const JSZip = require('jszip');
+const { IMPORT_LIMITS, ImportError, buildImport } = require('./componentImport');
+
+const CARD = 'import { useToggle } from \'./hooks/useToggle\';\n\nfunction Card() {\n  const [open, toggle] = useToggle();\n  return <div className="card" onClick={toggle}>{open ? \'Open\' : \'Closed\'}</div>;\n}';
+const HOOK = 'export const useToggle = () => useState(false);\n';
+
+const upload = (originalname, content) => ({ originalname, buffer: Buffer.from(content) });
+
+const zipUpload = async (name, entries) => {
+  const zip = new JSZip();
+  Object.keys(entries).forEach(path => zip.file(path, entries[path]));
+  const buffer = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+  return { originalname: name, buffer };
+};
+
+describe('buildImport', () => {
+  it('uses the component as the entry and keeps the other modules as its files', async () => {
+    const zipped = await zipUpload('card.zip', {
+      'src/Card.jsx': CARD,
+      'src/Card.css': '.card { padding: 8px; }\n',
+      'src/hooks/useToggle.js': HOOK,
+      'src/Card.test.jsx': 'test()',
+      '__MACOSX/src/._Card.jsx': 'junk',
+      'README.md': '# Card'
+    });
+
+    const { componentCode, skipped } = await buildImport({ uploads: [zipped] });
+
+    expect(componentCode).toMatchObject({
+      jsx: CARD,
+      css: '.card { padding: 8px; }',
+      entry: 'Card.jsx',
+      files: [{ path: 'hooks/useToggle.js', content: HOOK }]
+    });
+    expect(componentCode.tsx).toContain('function Card()');
+    expect(skipped.sort()).toEqual(['README.md', '__MACOSX/src/._Card.jsx', 'src/Card.test.jsx']);
+  });
+
+  it('strips the types from a TSX entry and keeps the TSX', async () => {
+    const tsx = 'function Badge({ label }: { label: string }) {\n  return <span>{label}</span>;\n}';
+
+    const { componentCode } = await buildImport({ pasted: { tsx } });
+
+    expect(componentCode.jsx).toBe('function Badge({ label }) {\n    return <span>{label}</span>;\n}');
+    expect(componentCode.tsx).toBe(tsx);
+    expect(componentCode.entry).toBe('Component.jsx');
+  });
+
+  it('asks for the entry when several components are imported', async () => {
+    const uploads = [upload('Card.jsx', CARD), upload('List.jsx', 'const List = () => <ul />;')];
+
+    const error = await buildImport({ uploads }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ImportError);
+    expect(error.code).toBe('IMPORT_MULTIPLE_COMPONENTS');
+    expect(error.details.candidates).toEqual(['Card.jsx', 'List.jsx']);
+
+    const { componentCode } = await buildImport({ uploads, entry: 'List.jsx' });
+    expect(componentCode.files).toEqual([{ path: 'Card.jsx', content: CARD }]);
+  });
+
+  it('reports where code does not parse', async () => {
+    const error = await buildImport({ uploads: [upload('Card.jsx', 'function Card() {\n  return <div>;\n}')] }).catch(caught => caught);
+
+    expect(error.code).toBe('IMPORT_PARSE_ERROR');
+    expect(error.message).toMatch(/^Card\.jsx could not be parsed: .*\(2:/);
+  });
+
+  it('stops inflating a zip entry once it passes the source size limit', async () => {
+    const zipped = await zipUpload('bomb.zip', {
+      'Card.jsx': CARD,
+      'huge.js': `// ${'a'.repeat(IMPORT_LIMITS.sourceSize)}`
+    });
+
+    const error = await buildImport({ uploads: [zipped] }).catch(caught => caught);
+
+    expect(error).toMatchObject({ code: 'IMPORT_TOO_LARGE', status: 413, message: 'huge.js is larger than 200 KB' });
+  });
+
+  it('holds all the entries of a zip to the total size limit', async () => {
+    const filler = `// ${'b'.repeat(IMPORT_LIMITS.sourceSize - 1024)}`;
+    const zipped = await zipUpload('many.zip', {
+      'Card.jsx': CARD,
+      'one.js': filler,
+      'two.js': filler,
+      'three.js': filler
+    });
+
+    const error = await buildImport({ uploads: [zipped] }).catch(caught => caught);
+
+    expect(error).toMatchObject({ code: 'IMPORT_TOO_LARGE', message: 'The code in many.zip is larger than 500 KB' });
+  });
+});
@@ -0,0 +1,144 @@
+const mongoose = require('mongoose');
+const Session = require('../models/Session');
+
+// A session's chat history reaches the model as native user/assistant turns ahead of the
+// current request. When the turns not yet summarized outgrow the token budget, the oldest
+// are rolled into the session's running summary, which opens the conversation instead.
+
+const DEFAULT_HISTORY_TOKENS = 4000;
+const SUMMARY_MAX_CHARS = 4000;
+
+const SUMMARY_INSTRUCTIONS = `You keep the running summary of a conversation between a user and an assistant that
+builds a React component together. Merge the previous summary and the new turns into one summary that
+keeps every decision still in effect: requested features, layout and styling choices, names, data
+shapes, constraints, and approaches the user rejected. Drop small talk and anything later reversed.
+Write plain text, at most 300 words, without code.`;
+
+const getHistoryBudget = () => {
+  const configured = parseInt(process.env.AI_HISTORY_TOKEN_BUDGET);
+  return Number.isNaN(configured) ? DEFAULT_HISTORY_TOKENS : configured;
+};
+
+// Rough count for budgeting, about four characters per token
+const estimateTokens = (text) => Math.ceil(String(text || '').length / 4);
+
+const countTokens = (turns) => turns.reduce((total, msg) => total + estimateTokens(msg.content), 0);
+
+// Index of the first turn kept verbatim: the newest that fit in half the budget, so the
+// summary isn't rewritten on every request
+const findKeptStart = (turns, budget) => {
+  let start = turns.length;
+  let tokens = 0;
+  while (start > 0 && tokens + estimateTokens(turns[start - 1].content) <= budget / 2) {
+    start -= 1;
+    tokens += estimateTokens(turns[start].content);
+  }
+  return start;
+};
+
+const summarizeTurns = async (provider, model, previousSummary, turns, signal) => {
+  const transcript = turns.map(msg => `${msg.role}: ${msg.content}`).join('\n\n');
+  const { text } = await provider.complete({
+    task: 'summarize',
+    model,
+    signal,
+    system: SUMMARY_INSTRUCTIONS,
+    messages: [{
+      role: 'user',
+      content: `Previous summary:\n${previousSummary || '(none)'}\n\nNew turns:\n${transcript}`
+    }]
+  });
+  return text.trim().slice(0, SUMMARY_MAX_CHARS);
+};
+
+// Merge adjacent turns of the same role; some providers require user and assistant to alternate
+const toChatTurns = (messages) => {
+  const turns = messages.reduce((merged, msg) => {
+    const last = merged[merged.length - 1];
+    if (last && last.role === msg.role) {
+      last.content += `\n\n${msg.content}`;
+    } else {
+      merged.push({ role: msg.role, content: msg.content });
+    }
+    return merged;
+  }, []);
+
+  while (turns.length > 0 && turns[0].role === 'assistant') {
+    turns.shift();
+  }
+  return turns;
+};
+
+// Fit the session's history into the budget, summarizing what doesn't fit. A failed summary
+// drops those turns for this request and leaves the stored summary as it was.
+const condenseHistory = async (provider, model, session, history, signal) => {
+  const budget = getHistoryBudget();
+  const stored = session.conversationSummary || {};
+  let summary = stored.content || '';
+  const covered = Math.min(stored.messageCount || 0, history.length);
+  let turns = history.slice(covered);
+
+  if (countTokens(turns) <= budget) {
+    return { summary, turns };
+  }
+
+  const keptStart = findKeptStart(turns, budget);
+  try {
+    summary = await summarizeTurns(provider, model, summary, turns.slice(0, keptStart), signal);
+    // Conditional, so a concurrent request that summarized first isn't overwritten. Sessions
+    // created before summaries were kept have no conversationSummary stored at all.
+    const { modifiedCount } = await Session.updateOne(
+      {
+        _id: session._id,
+        'conversationSummary.messageCount': stored.messageCount ? stored.messageCount : { $in: [0, null] }
+      },
+      { $set: { conversationSummary: { content: summary, messageCount: covered + keptStart, updatedAt: new Date() } } }
+    );
+    if (modifiedCount === 0) {
+      console.warn(`Conversation summary of session ${session._id} not saved; it was updated meanwhile`);
+    }
+  } catch (error) {
+    console.error('Conversation summary error:', error);
+  }
+  turns = turns.slice(keptStart);
+
+  return { summary, turns };
+};
+
+// Chat messages for a request: the summary and earlier turns of the session, then `request`
+// (the full prompt for this request) as the last user turn. `prompt` is what the user typed;
+// the editor saves it to the chat before generating, so that copy is left out of the history.
+// Without a session, `chatHistory` from the client is used, trimmed to the budget.
+const buildConversation = async (provider, model, { userId, sessionId, chatHistory = [], prompt = '', request, signal }) => {
+  let session = null;
+  if (sessionId && mongoose.Types.ObjectId.isValid(sessionId)) {
+    session = await Session.findOne({ _id: sessionId, isActive: true, ...Session.accessFilter(userId) })
+      .select('chatHistory conversationSummary');
+  }
+
+  let history = (session ? session.chatHistory : Array.isArray(chatHistory) ? chatHistory : [])
+    .filter(msg => msg && (msg.role === 'user' || msg.role === 'assistant') && typeof msg.content === 'string')
+    .map(msg => ({ role: msg.role, content: msg.content }));
+
+  const last = history[history.length - 1];
+  if (last && last.role === 'user' && (!prompt || last.content === prompt.trim())) {
+    history = history.slice(0, -1);
+  }
+
+  let summary = '';
+  let turns = history;
+  if (session) {
+    ({ summary, turns } = await condenseHistory(provider, model, session, history, signal));
+  } else if (countTokens(turns) > getHistoryBudget()) {
+    turns = turns.slice(findKeptStart(turns, getHistoryBudget() * 2));
+  }
+
+  const messages = summary
+    ? [{ role: 'user', content: `Summary of our earlier conversation:\n${summary}` }, ...turns]
+    : turns;
+  return toChatTurns([...messages, { role: 'user', content: request }]);
+};
+
+module.exports = {
+  buildConversation
+};
@@ -0,0 +1,158 @@
+jest.mock('../models/Session', () => ({
+  findOne: jest.fn(),
+  updateOne: jest.fn(),
+  accessFilter: jest.fn(() => ({}))
+}));
+
+const mongoose = require('mongoose');
+const Session = require('../models/Session');
+const { buildConversation } = require('./conversation');
+
+const provider = { complete: jest.fn() };
+
+const turn = (role, content) => ({ role, content });
+
+// A message of about `tokens` tokens
+const sized = (role, tokens, label) => turn(role, `${label} `.padEnd(tokens * 4, '.'));
+
+const withSession = (session) => {
+  Session.findOne.mockReturnValue({ select: jest.fn().mockResolvedValue(session) });
+};
+
+describe('buildConversation', () => {
+  const sessionId = new mongoose.Types.ObjectId().toString();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    Session.updateOne.mockResolvedValue({ modifiedCount: 1 });
+    process.env.AI_HISTORY_TOKEN_BUDGET = '100';
+  });
+
+  afterAll(() => {
+    delete process.env.AI_HISTORY_TOKEN_BUDGET;
+  });
+
+  it('sends the history as alternating turns, leaving out the prompt the editor just saved', async () => {
+    withSession({
+      chatHistory: [
+        turn('assistant', 'Welcome'),
+        turn('user', 'A card'),
+        turn('assistant', 'Here is a card'),
+        turn('assistant', 'Also added a shadow'),
+        turn('system', 'ignored'),
+        turn('user', 'Make it blue')
+      ],
+      conversationSummary: {}
+    });
+
+    const messages = await buildConversation(provider, 'model', { userId: 'u1', sessionId, prompt: 'Make it blue', request: 'FULL PROMPT' });
+
+    expect(messages).toEqual([
+      turn('user', 'A card'),
+      turn('assistant', 'Here is a card\n\nAlso added a shadow'),
+      turn('user', 'FULL PROMPT')
+    ]);
+    expect(provider.complete).not.toHaveBeenCalled();
+  });
+
+  it('rolls the oldest turns into the summary once the history outgrows the budget', async () => {
+    const session = {
+      _id: sessionId,
+      chatHistory: [
+        sized('user', 30, 'first'),
+        sized('assistant', 30, 'second'),
+        sized('user', 30, 'third'),
+        sized('assistant', 30, 'fourth')
+      ],
+      conversationSummary: { content: 'Earlier: a card', messageCount: 0 }
+    };
+    withSession(session);
+    provider.complete.mockResolvedValue({ text: ' A blue card with two sections ' });
+
+    const messages = await buildConversation(provider, 'model', { userId: 'u1', sessionId, request: 'Add a footer' });
+
+    // The newest turns that fit in half the budget stay verbatim
+    expect(messages.map(message => message.content.split(' ')[0])).toEqual(['Summary', 'fourth', 'Add']);
+    expect(messages[0]).toEqual(turn('user', 'Summary of our earlier conversation:\nA blue card with two sections'));
+    expect(provider.complete.mock.calls[0][0].messages[0].content).toMatch(/^Previous summary:\nEarlier: a card\n\nNew turns:\nuser: first/);
+    expect(Session.updateOne).toHaveBeenCalledWith(
+      { _id: sessionId, 'conversationSummary.messageCount': { $in: [0, null] } },
+      { $set: { conversationSummary: expect.objectContaining({ content: 'A blue card with two sections', messageCount: 3 }) } }
+    );
+  });
+
+  it('saves the first summary of sessions stored without one', async () => {
+    // Sessions created before summaries were kept: nothing stored, not even a default
+    withSession({
+      _id: sessionId,
+      chatHistory: [sized('user', 60, 'old'), sized('assistant', 60, 'older'), sized('user', 10, 'recent'), sized('assistant', 10, 'done')]
+    });
+    provider.complete.mockResolvedValue({ text: 'A card' });
+
+    const messages = await buildConversation(provider, 'model', { userId: 'u1', sessionId, request: 'Next' });
+
+    expect(messages.map(message => message.content.split(' ')[0])).toEqual(['Summary', 'done', 'Next']);
+    expect(Session.updateOne).toHaveBeenCalledWith(
+      { _id: sessionId, 'conversationSummary.messageCount': { $in: [0, null] } },
+      { $set: { conversationSummary: expect.objectContaining({ content: 'A card', messageCount: 2 }) } }
+    );
+  });
+
+  it('leaves a summary saved meanwhile by another request alone', async () => {
+    withSession({
+      _id: sessionId,
+      chatHistory: [sized('user', 10, 'summarized'), sized('assistant', 90, 'old'), sized('user', 60, 'older'), sized('assistant', 10, 'done')],
+      conversationSummary: { content: 'A card', messageCount: 1 }
+    });
+    provider.complete.mockResolvedValue({ text: 'A blue card' });
+    Session.updateOne.mockResolvedValue({ modifiedCount: 0 });
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await buildConversation(provider, 'model', { userId: 'u1', sessionId, request: 'Next' });
+
+    expect(Session.updateOne.mock.calls[0][0]).toEqual({ _id: sessionId, 'conversationSummary.messageCount': 1 });
+    expect(console.warn).toHaveBeenCalledWith(expect.stringMatching('not saved'));
+    console.warn.mockRestore();
+  });
+
+  it('starts after the turns the stored summary already covers', async () => {
+    withSession({
+      chatHistory: [sized('user', 90, 'old'), turn('assistant', 'old reply'), turn('user', 'Recent'), turn('assistant', 'Sure')],
+      conversationSummary: { content: 'A card', messageCount: 2 }
+    });
+
+    const messages = await buildConversation(provider, 'model', { userId: 'u1', sessionId, request: 'Next' });
+
+    expect(messages).toEqual([
+      turn('user', 'Summary of our earlier conversation:\nA card\n\nRecent'),
+      turn('assistant', 'Sure'),
+      turn('user', 'Next')
+    ]);
+    expect(provider.complete).not.toHaveBeenCalled();
+  });
+
+  it('drops the turns that did not fit when summarizing fails', async () => {
+    withSession({
+      _id: sessionId,
+      chatHistory: [sized('user', 60, 'old'), sized('assistant', 40, 'middle'), sized('user', 40, 'latest'), sized('assistant', 5, 'reply')],
+      conversationSummary: {}
+    });
+    provider.complete.mockRejectedValue(new Error('provider down'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const messages = await buildConversation(provider, 'model', { userId: 'u1', sessionId, request: 'Next' });
+
+    expect(messages.map(message => message.content.split(' ')[0])).toEqual(['latest', 'reply', 'Next']);
+    expect(Session.updateOne).not.toHaveBeenCalled();
+    console.error.mockRestore();
+  });
+
+  it('trims client-sent history without a session', async () => {
+    const chatHistory = [sized('user', 90, 'old'), sized('assistant', 90, 'older'), sized('user', 10, 'recent'), sized('assistant', 10, 'done')];
+
+    const messages = await buildConversation(provider, 'model', { userId: 'u1', chatHistory, request: 'Next' });
+
+    expect(Session.findOne).not.toHaveBeenCalled();
+    expect(messages.map(message => message.content.split(' ')[0])).toEqual(['recent', 'done', 'Next']);
+  });
+});
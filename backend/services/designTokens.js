@@ -0,0 +1,132 @@
+const mongoose = require('mongoose');
+const Session = require('../models/Session');
+const DesignTokenSet = require('../models/DesignTokenSet');
+
+// Design tokens reach generated components as CSS variables (var(--color-primary)).
+// Prompts list them, and the preview and exports define them for light and dark mode.
+
+const TOKEN_GROUPS = ['color', 'typography', 'radius', 'spacing', 'shadow', 'other'];
+const MAX_TOKENS = 200;
+
+const TOKEN_NAME = /^[a-z][a-z0-9-]*$/;
+// Values end up inside a CSS declaration, so nothing that could close it
+const UNSAFE_VALUE = /[;{}<>]|\/\*/;
+
+const validateValue = (name, value, label) => {
+  if (typeof value !== 'string' || !value.trim() || value.length > 200) {
+    return `${name}: ${label} must be a non-empty string of at most 200 characters`;
+  }
+  if (UNSAFE_VALUE.test(value)) {
+    return `${name}: ${label} cannot contain ; { } < > or comments`;
+  }
+  return null;
+};
+
+// Check tokens sent by a client; returns { tokens } or { error }
+const validateTokens = (tokens) => {
+  if (!Array.isArray(tokens)) {
+    return { error: 'tokens must be an array of { name, group, value, darkValue }' };
+  }
+  if (tokens.length > MAX_TOKENS) {
+    return { error: `A token set can have at most ${MAX_TOKENS} tokens` };
+  }
+
+  const seen = new Set();
+  const normalized = [];
+  for (const token of tokens) {
+    const name = token && typeof token.name === 'string' ? token.name.trim().replace(/^--/, '') : '';
+    if (!TOKEN_NAME.test(name)) {
+      return { error: `Invalid token name: ${token && token.name}. Use lowercase letters, digits and dashes` };
+    }
+    if (seen.has(name)) {
+      return { error: `Duplicate token: ${name}` };
+    }
+    const group = token.group || 'other';
+    if (!TOKEN_GROUPS.includes(group)) {
+      return { error: `${name}: group must be one of ${TOKEN_GROUPS.join(', ')}` };
+    }
+    const darkValue = token.darkValue === undefined || token.darkValue === '' ? null : token.darkValue;
+    const valueError = validateValue(name, token.value, 'value')
+      || (darkValue !== null ? validateValue(name, darkValue, 'darkValue') : null);
+    if (valueError) {
+      return { error: valueError };
+    }
+
+    seen.add(name);
+    normalized.push({ name, group, value: token.value.trim(), darkValue: darkValue && darkValue.trim() });
+  }
+  return { tokens: normalized };
+};
+
+// The session's token set, else its owner's default; without a session, the user's default.
+// Null when there is neither.
+const getSessionTokenSet = async (userId, sessionId = null) => {
+  let ownerId = userId;
+  if (sessionId && mongoose.Types.ObjectId.isValid(sessionId)) {
+    const session = await Session.findOne({ _id: sessionId, isActive: true, ...Session.accessFilter(userId) })
+      .select('userId designTokenSetId');
+    // Token sets belong to the owner of a shared session
+    if (session) {
+      ownerId = session.userId;
+    }
+    if (session && session.designTokenSetId) {
+      const selected = await DesignTokenSet.findOne({ _id: session.designTokenSetId, userId: ownerId });
+      if (selected) {
+        return selected;
+      }
+    }
+  }
+  return DesignTokenSet.findOne({ userId: ownerId, isDefault: true });
+};
+
+// The token set as prompt instructions; empty without tokens
+const describeTokens = (tokenSet) => {
+  if (!tokenSet || tokenSet.tokens.length === 0) {
+    return '';
+  }
+
+  const lines = TOKEN_GROUPS
+    .map((group) => {
+      const tokens = tokenSet.tokens.filter((token) => token.group === group);
+      if (tokens.length === 0) {
+        return null;
+      }
+      const list = tokens
+        .map((token) => `  --${token.name}: ${token.value}${token.darkValue ? ` (dark: ${token.darkValue})` : ''}`)
+        .join('\n');
+      return `${group}:\n${list}`;
+    })
+    .filter(Boolean)
+    .join('\n');
+
+  return `DESIGN TOKENS ("${tokenSet.name}"):
+Style the component with these CSS variables, e.g. color: var(--${tokenSet.tokens[0].name}), instead of
+inventing colors, fonts, radii or spacing. They are already defined; do not redefine them. Dark mode
+switches their values automatically, so don't add separate dark styles for them.
+${lines}`;
+};
+
+const declarations = (tokens, dark) => tokens
+  .map((token) => `  --${token.name}: ${dark && token.darkValue ? token.darkValue : token.value};`)
+  .join('\n');
+
+// CSS defining the tokens: light values on :root, dark values under [data-theme="dark"]
+const toCSSVariables = (tokens) => {
+  if (tokens.length === 0) {
+    return '';
+  }
+  let css = `:root {\n${declarations(tokens, false)}\n}\n`;
+  const darkTokens = tokens.filter((token) => token.darkValue);
+  if (darkTokens.length > 0) {
+    css += `\n[data-theme="dark"] {\n${declarations(darkTokens, true)}\n}\n`;
+  }
+  return css;
+};
+
+module.exports = {
+  TOKEN_GROUPS,
+  validateTokens,
+  getSessionTokenSet,
+  describeTokens,
+  toCSSVariables
+};
@@ -0,0 +1,102 @@
+jest.mock('../models/Session', () => ({ findOne: jest.fn(), accessFilter: jest.fn(() => ({})) }));
+jest.mock('../models/DesignTokenSet', () => ({ findOne: jest.fn() }));
+
+const Session = require('../models/Session');
+const DesignTokenSet = require('../models/DesignTokenSet');
+const { validateTokens, getSessionTokenSet, describeTokens, toCSSVariables } = require('./designTokens');
+
+const SESSION_ID = '64b7f0c2a1b2c3d4e5f60718';
+
+describe('designTokens', () => {
+  describe('validateTokens', () => {
+    it('normalizes names, groups and dark values', () => {
+      const { tokens } = validateTokens([
+        { name: '--color-primary', group: 'color', value: ' #2563eb ', darkValue: '#60a5fa' },
+        { name: 'radius-md', value: '8px', darkValue: '' }
+      ]);
+
+      expect(tokens).toEqual([
+        { name: 'color-primary', group: 'color', value: '#2563eb', darkValue: '#60a5fa' },
+        { name: 'radius-md', group: 'other', value: '8px', darkValue: null }
+      ]);
+    });
+
+    it('rejects invalid names, duplicates and unknown groups', () => {
+      expect(validateTokens([{ name: 'Primary', value: 'red' }]).error).toMatch('Invalid token name: Primary');
+      expect(validateTokens([{ name: 'a', value: 'red' }, { name: '--a', value: 'blue' }]).error).toBe('Duplicate token: a');
+      expect(validateTokens([{ name: 'a', group: 'motion', value: '1s' }]).error).toMatch('a: group must be one of');
+      expect(validateTokens({}).error).toMatch('tokens must be an array');
+    });
+
+    it('rejects values that could break out of the declaration', () => {
+      expect(validateTokens([{ name: 'a', value: 'red; } body { display: none' }]).error)
+        .toBe('a: value cannot contain ; { } < > or comments');
+      expect(validateTokens([{ name: 'a', value: 'red', darkValue: 'blue /* x' }]).error)
+        .toBe('a: darkValue cannot contain ; { } < > or comments');
+      expect(validateTokens([{ name: 'a', value: ' ' }]).error).toMatch('a: value must be a non-empty string');
+    });
+  });
+
+  describe('toCSSVariables', () => {
+    it('defines dark values only for the tokens that have one', () => {
+      const css = toCSSVariables([
+        { name: 'color-primary', value: '#2563eb', darkValue: '#60a5fa' },
+        { name: 'radius-md', value: '8px', darkValue: null }
+      ]);
+
+      expect(css).toBe(':root {\n  --color-primary: #2563eb;\n  --radius-md: 8px;\n}\n'
+        + '\n[data-theme="dark"] {\n  --color-primary: #60a5fa;\n}\n');
+      expect(toCSSVariables([])).toBe('');
+    });
+  });
+
+  describe('describeTokens', () => {
+    it('lists the tokens by group for the prompt', () => {
+      const description = describeTokens({
+        name: 'Brand',
+        tokens: [
+          { name: 'radius-md', group: 'radius', value: '8px' },
+          { name: 'color-primary', group: 'color', value: '#2563eb', darkValue: '#60a5fa' }
+        ]
+      });
+
+      expect(description).toMatch('DESIGN TOKENS ("Brand")');
+      expect(description).toMatch('color:\n  --color-primary: #2563eb (dark: #60a5fa)\nradius:\n  --radius-md: 8px');
+      expect(describeTokens({ name: 'Empty', tokens: [] })).toBe('');
+      expect(describeTokens(null)).toBe('');
+    });
+  });
+
+  describe('getSessionTokenSet', () => {
+    beforeEach(() => {
+      Session.findOne.mockReset();
+      DesignTokenSet.findOne.mockReset();
+    });
+
+    const findsSession = (session) => Session.findOne.mockReturnValue({ select: jest.fn().mockResolvedValue(session) });
+
+    it('uses the set picked for the session, from its owner', async () => {
+      findsSession({ userId: 'owner', designTokenSetId: 'set-1' });
+      DesignTokenSet.findOne.mockResolvedValue({ name: 'Picked' });
+
+      expect(await getSessionTokenSet('collaborator', SESSION_ID)).toEqual({ name: 'Picked' });
+      expect(DesignTokenSet.findOne).toHaveBeenCalledWith({ _id: 'set-1', userId: 'owner' });
+    });
+
+    it("falls back to the owner's default set", async () => {
+      findsSession({ userId: 'owner', designTokenSetId: null });
+      DesignTokenSet.findOne.mockResolvedValue({ name: 'Default' });
+
+      expect(await getSessionTokenSet('collaborator', SESSION_ID)).toEqual({ name: 'Default' });
+      expect(DesignTokenSet.findOne).toHaveBeenCalledWith({ userId: 'owner', isDefault: true });
+    });
+
+    it("uses the user's default set without a valid session", async () => {
+      DesignTokenSet.findOne.mockResolvedValue(null);
+
+      expect(await getSessionTokenSet('user-1', 'not-an-id')).toBeNull();
+      expect(Session.findOne).not.toHaveBeenCalled();
+      expect(DesignTokenSet.findOne).toHaveBeenCalledWith({ userId: 'user-1', isDefault: true });
+    });
+  });
+});
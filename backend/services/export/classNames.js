@@ -0,0 +1,100 @@
+const { parse } = require('@babel/parser');
+
+const PARSER_OPTIONS = {
+  sourceType: 'module',
+  plugins: ['jsx', 'typescript']
+};
+
+const SKIPPED_KEYS = new Set(['loc', 'start', 'end', 'extra', 'range', 'leadingComments', 'trailingComments', 'innerComments']);
+
+const isNode = (value) => value !== null && typeof value === 'object' && typeof value.type === 'string';
+
+const walk = (node, callback) => {
+  callback(node);
+  Object.keys(node).forEach((key) => {
+    if (SKIPPED_KEYS.has(key)) {
+      return;
+    }
+    const value = node[key];
+    if (Array.isArray(value)) {
+      value.forEach((item) => isNode(item) && walk(item, callback));
+    } else if (isNode(value)) {
+      walk(value, callback);
+    }
+  });
+};
+
+const CLASS_TOKEN = /[^\s]+/g;
+
+// Rewrite the class names used in className attributes, including string literals and
+// template literals inside className expressions. `mapClass(name)` returns
+// { text } to substitute plain class names, { expression } to substitute a JS
+// expression (e.g. a CSS Modules lookup), or null to leave the class alone.
+const rewriteClassNames = (source, mapClass) => {
+  const ast = parse(source, PARSER_OPTIONS);
+  const edits = [];
+
+  // Class list as template literal content, e.g. "a b" -> "${styles.a} b"
+  const toTemplate = (text) => text.replace(CLASS_TOKEN, (name) => {
+    const mapped = mapClass(name);
+    if (!mapped) return name;
+    return mapped.expression ? `\${${mapped.expression}}` : mapped.text;
+  });
+
+  const toText = (text) => text.replace(CLASS_TOKEN, (name) => {
+    const mapped = mapClass(name);
+    return mapped ? mapped.text : name;
+  });
+
+  const usesExpressions = (text) => (text.match(CLASS_TOKEN) || []).some((name) => {
+    const mapped = mapClass(name);
+    return mapped && mapped.expression;
+  });
+
+  // Replacement for a string literal holding a class list
+  const rewriteString = (node, isAttributeValue) => {
+    const value = node.value;
+    if (!usesExpressions(value)) {
+      const quote = source[node.start];
+      return `${quote}${toText(value)}${quote}`;
+    }
+
+    const names = value.trim().split(/\s+/);
+    const single = names.length === 1 ? mapClass(names[0]) : null;
+    const expression = single && single.expression ? single.expression : `\`${toTemplate(value.trim())}\``;
+    return isAttributeValue ? `{${expression}}` : expression;
+  };
+
+  walk(ast.program, (node) => {
+    if (node.type !== 'JSXAttribute' || !['className', 'class'].includes(node.name.name) || !node.value) {
+      return;
+    }
+
+    if (node.value.type === 'StringLiteral') {
+      edits.push({ start: node.value.start, end: node.value.end, text: rewriteString(node.value, true) });
+      return;
+    }
+
+    // Strings compared against (variant === 'primary') are values, not class lists
+    const compared = new Set();
+    walk(node.value, (inner) => {
+      if (inner.type === 'BinaryExpression') {
+        compared.add(inner.left);
+        compared.add(inner.right);
+      } else if (inner.type === 'StringLiteral' && !compared.has(inner)) {
+        edits.push({ start: inner.start, end: inner.end, text: rewriteString(inner, false) });
+      } else if (inner.type === 'TemplateLiteral') {
+        inner.quasis.forEach((quasi) => {
+          const raw = source.slice(quasi.start, quasi.end);
+          edits.push({ start: quasi.start, end: quasi.end, text: toTemplate(raw) });
+        });
+      }
+    });
+  });
+
+  return edits
+    .sort((a, b) => b.start - a.start)
+    .reduce((result, { start, end, text }) => result.slice(0, start) + text + result.slice(end), source);
+};
+
+module.exports = { rewriteClassNames };
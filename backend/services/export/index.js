@@ -0,0 +1,201 @@
+const JSZip = require('jszip');
+const postcss = require('postcss');
+const { rewriteClassNames } = require('./classNames');
+const { toTailwind } = require('./tailwind');
+const templates = require('./templates');
+const { getReactImport } = require('../reactImports');
+const { getFileTree } = require('../componentFiles');
+const { getPackageDependencies } = require('../packages');
+const { toCSSVariables } = require('../designTokens');
+
+const EXPORT_FORMATS = ['zip', 'jsx', 'tsx', 'css'];
+const EXPORT_TARGETS = ['component', 'vite', 'nextjs'];
+const EXPORT_STYLINGS = ['css', 'css-modules', 'tailwind'];
+// Design tokens as CSS variables, next to the component in project exports
+const TOKENS_STYLESHEET = 'tokens.css';
+
+const DEFAULT_OPTIONS = {
+  format: 'zip',
+  target: 'component',
+  styling: 'css',
+  includeDependencies: true,
+  includeReadme: true,
+  includeStory: false
+};
+
+// Fill in defaults and check every option; returns { options } or { error }
+const normalizeExportOptions = (input = {}) => {
+  const options = { ...DEFAULT_OPTIONS };
+  Object.keys(DEFAULT_OPTIONS).forEach((key) => {
+    if (input[key] !== undefined) {
+      options[key] = input[key];
+    }
+  });
+
+  const checks = [
+    [EXPORT_FORMATS.includes(options.format), `format must be one of: ${EXPORT_FORMATS.join(', ')}`],
+    [EXPORT_TARGETS.includes(options.target), `target must be one of: ${EXPORT_TARGETS.join(', ')}`],
+    [EXPORT_STYLINGS.includes(options.styling), `styling must be one of: ${EXPORT_STYLINGS.join(', ')}`],
+    [['includeDependencies', 'includeReadme', 'includeStory'].every(key => typeof options[key] === 'boolean'), 'include options must be booleans']
+  ];
+  const failed = checks.find(([ok]) => !ok);
+  return failed ? { error: failed[1] } : { options };
+};
+
+// Same lookup as the preview (frontend/lib/preview/compile.ts): the first capitalized declaration
+const getComponentName = (jsx) => {
+  const match = jsx.match(/(?:function|const|class)\s+([A-Z]\w*)/);
+  return match ? match[1] : 'Component';
+};
+
+const slugify = (text) => {
+  const slug = String(text || '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return slug || 'component';
+};
+
+const getCSSClassNames = (css) => {
+  const names = new Set();
+  postcss.parse(css).walkRules((rule) => {
+    (rule.selector.match(/\.-?[_a-zA-Z][\w-]*/g) || []).forEach((name) => names.add(name.slice(1)));
+  });
+  return names;
+};
+
+// Apply the styling option to the component source and CSS
+const applyStyling = (source, css, styling) => {
+  if (styling === 'tailwind') {
+    return toTailwind({ jsx: source, css });
+  }
+  if (styling === 'css-modules') {
+    const classNames = getCSSClassNames(css);
+    const rewritten = rewriteClassNames(source, (name) => {
+      if (!classNames.has(name)) {
+        return null;
+      }
+      return { expression: /^[A-Za-z_$][\w$]*$/.test(name) ? `styles.${name}` : `styles['${name}']` };
+    });
+    return { jsx: rewritten, css };
+  }
+  return { jsx: source, css };
+};
+
+const getStylesheetName = (componentName, styling) => {
+  return styling === 'css-modules' ? `${componentName}.module.css` : `${componentName}.css`;
+};
+
+// Turn generated code (no imports, no exports) into a module that drops into a project
+const toModule = (source, componentName, { css, tokenCss, styling, clientComponent }) => {
+  const header = [];
+  if (clientComponent && !/^\s*['"]use client['"]/.test(source)) {
+    header.push("'use client';", '');
+  }
+  const reactImport = getReactImport(source);
+  if (reactImport) {
+    header.push(reactImport);
+  }
+  if (tokenCss) {
+    header.push(`import './${TOKENS_STYLESHEET}';`);
+  }
+  if (css) {
+    const stylesheet = getStylesheetName(componentName, styling);
+    header.push(styling === 'css-modules' ? `import styles from './${stylesheet}';` : `import './${stylesheet}';`);
+  }
+
+  let body = source.trim();
+  if (!/export\s+default\b/.test(body)) {
+    body += `\n\nexport default ${componentName};`;
+  }
+  return `${header.length > 0 ? `${header.join('\n')}\n\n` : ''}${body}\n`;
+};
+
+// Build the export for a component. Returns { filename, contentType, content }, where
+// content is a Buffer for zip archives and a string for single files.
+// `packages` is the allow-list; the ones the component imports become dependencies.
+// `tokens` are the session's design tokens: prepended to a CSS export, tokens.css in a project.
+const buildExport = async (code, options, { title = 'Component', packages = [], tokens = [] } = {}) => {
+  const componentName = getComponentName(code.jsx || '');
+  const clientComponent = options.target === 'nextjs';
+  const styled = applyStyling(code.jsx || '', code.css || '', options.styling);
+  const tokenCss = toCSSVariables(tokens);
+  const moduleOptions = { css: styled.css, styling: options.styling, clientComponent };
+
+  if (options.format === 'css') {
+    const content = [tokenCss.trim(), styled.css].filter(Boolean).join('\n\n');
+    return { filename: getStylesheetName(componentName, options.styling), contentType: 'text/css', content };
+  }
+  if (options.format === 'jsx' || options.format === 'tsx') {
+    const source = options.format === 'tsx' ? applyStyling(code.tsx, code.css || '', options.styling).jsx : styled.jsx;
+    return {
+      filename: `${componentName}.${options.format}`,
+      contentType: 'text/javascript',
+      content: toModule(source, componentName, moduleOptions)
+    };
+  }
+
+  const slug = slugify(title);
+  const files = {};
+  const componentDir = { component: '', vite: 'src/components/', nextjs: 'components/' }[options.target];
+
+  const projectModuleOptions = { ...moduleOptions, tokenCss };
+  files[`${componentDir}${componentName}.jsx`] = toModule(styled.jsx, componentName, projectModuleOptions);
+  if (styled.css) {
+    files[`${componentDir}${getStylesheetName(componentName, options.styling)}`] = styled.css;
+  }
+  if (tokenCss) {
+    files[`${componentDir}${TOKENS_STYLESHEET}`] = tokenCss;
+  }
+  if (code.tsx && options.target === 'component') {
+    const typed = applyStyling(code.tsx, code.css || '', options.styling);
+    files[`${componentName}.tsx`] = toModule(typed.jsx, componentName, projectModuleOptions);
+  }
+  // The rest of the file tree keeps its paths relative to the entry
+  (code.files || []).forEach((file) => {
+    files[`${componentDir}${file.path}`] = file.content;
+  });
+  if (options.includeStory) {
+    files[`${componentDir}${componentName}.stories.jsx`] = templates.story(componentName);
+  }
+
+  if (options.target === 'vite') {
+    files['index.html'] = templates.viteIndexHtml(title);
+    files['vite.config.js'] = templates.viteConfig;
+    files['src/main.jsx'] = templates.viteMain(componentName, options);
+    if (options.styling === 'tailwind') {
+      files['src/index.css'] = templates.tailwindDirectives;
+      files['tailwind.config.js'] = templates.tailwindConfig(['./index.html', './src/**/*.{js,jsx,ts,tsx}']);
+      files['postcss.config.js'] = templates.postcssConfig;
+    }
+    if (options.includeStory) {
+      files['.storybook/main.js'] = templates.storybookMain;
+    }
+  }
+
+  if (options.target === 'nextjs') {
+    files[`app/${slug}/page.jsx`] = templates.nextPage(componentName, title);
+  }
+
+  // A Vite project isn't runnable without its package.json
+  if (options.includeDependencies || options.target === 'vite') {
+    files['package.json'] = templates.packageJson(slug, options, getPackageDependencies(getFileTree(code), packages));
+  }
+  if (options.includeReadme) {
+    files['README.md'] = templates.readme(title, componentName, options, Object.keys(files));
+  }
+
+  const zip = new JSZip();
+  Object.keys(files).forEach((path) => zip.file(path, files[path]));
+
+  return {
+    filename: `${slug}-${options.target}.zip`,
+    contentType: 'application/zip',
+    content: await zip.generateAsync({ type: 'nodebuffer' })
+  };
+};
+
+module.exports = {
+  EXPORT_FORMATS,
+  EXPORT_TARGETS,
+  EXPORT_STYLINGS,
+  normalizeExportOptions,
+  buildExport
+};
@@ -0,0 +1,52 @@
+const JSZip = require('jszip');
+const { normalizeExportOptions, buildExport } = require('./index');
+
+const CODE = {
+  jsx: 'function PricingCard() {\n  return <div className="card price-tag">$9</div>;\n}',
+  css: '.card { padding: 8px; }\n.price-tag { color: green; }\n',
+  tsx: ''
+};
+
+const exportWith = (options, context) => buildExport(CODE, normalizeExportOptions(options).options, context);
+
+describe('normalizeExportOptions', () => {
+  it('fills in defaults and rejects unknown values', () => {
+    expect(normalizeExportOptions({ styling: 'tailwind' }).options).toMatchObject({ format: 'zip', target: 'component', styling: 'tailwind' });
+    expect(normalizeExportOptions({ target: 'remix' })).toEqual({ error: 'target must be one of: component, vite, nextjs' });
+    expect(normalizeExportOptions({ includeStory: 'yes' })).toEqual({ error: 'include options must be booleans' });
+  });
+});
+
+describe('buildExport', () => {
+  it('turns the code into a module importing its stylesheet', async () => {
+    const { filename, content } = await exportWith({ format: 'jsx' });
+
+    expect(filename).toBe('PricingCard.jsx');
+    expect(content).toMatch(/^import React from 'react';\nimport '\.\/PricingCard\.css';\n\nfunction PricingCard/);
+    expect(content).toMatch(/export default PricingCard;\n$/);
+  });
+
+  it('looks classes up on the CSS module', async () => {
+    const { content } = await exportWith({ format: 'jsx', styling: 'css-modules' });
+
+    expect(content).toContain("import styles from './PricingCard.module.css';");
+    expect(content).toContain("className={`${styles.card} ${styles['price-tag']}`}");
+  });
+
+  it('builds a Vite project with Tailwind set up', async () => {
+    const { filename, content } = await exportWith({ target: 'vite', styling: 'tailwind' }, { title: 'Pricing Card' });
+    const zip = await JSZip.loadAsync(content);
+
+    expect(filename).toBe('pricing-card-vite.zip');
+    expect(Object.keys(zip.files)).toEqual(expect.arrayContaining([
+      'src/components/PricingCard.jsx',
+      'src/index.css',
+      'tailwind.config.js',
+      'postcss.config.js',
+      'package.json'
+    ]));
+    expect(zip.files['src/components/PricingCard.css']).toBeUndefined();
+    const component = await zip.file('src/components/PricingCard.jsx').async('string');
+    expect(component).toContain('className="p-[8px] text-[green]"');
+  });
+});
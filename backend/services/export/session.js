@@ -0,0 +1,58 @@
+const Session = require('../../models/Session');
+const { normalizeExportOptions, buildExport } = require('./index');
+const { getAllowedPackages } = require('../packages');
+const { getSessionTokenSet } = require('../designTokens');
+
+class ExportError extends Error {
+  constructor(message, code, status = 400, details = {}) {
+    super(message);
+    this.name = 'ExportError';
+    this.code = code;
+    this.status = status;
+    this.details = details;
+  }
+}
+
+// Export the current component of a session the user can open; `input` holds the export
+// options (see normalizeExportOptions). Resolves with buildExport's { filename, contentType, content }.
+const exportSession = async (userId, sessionId, input) => {
+  const { options, error } = normalizeExportOptions(input);
+  if (error) {
+    throw new ExportError(`Invalid export options: ${error}`, 'INVALID_EXPORT_OPTIONS');
+  }
+
+  const session = await Session.findOne({
+    _id: sessionId,
+    isActive: true,
+    ...Session.accessFilter(userId)
+  }).select('title componentCode');
+
+  if (!session) {
+    throw new ExportError('Session not found', 'SESSION_NOT_FOUND', 404);
+  }
+
+  const tokenSet = await getSessionTokenSet(userId, sessionId);
+  const code = session.componentCode;
+  if (!code.jsx || (options.format === 'tsx' && !code.tsx)) {
+    throw new ExportError(`No ${options.format === 'tsx' ? 'TSX' : 'component'} code to export`, 'EXPORT_EMPTY');
+  }
+
+  try {
+    return await buildExport(code, options, {
+      title: session.title,
+      packages: await getAllowedPackages(),
+      tokens: tokenSet ? tokenSet.tokens : []
+    });
+  } catch (exportError) {
+    // Styling conversions parse the code, so broken JSX or CSS can't be exported with them
+    if (exportError.code === 'BABEL_PARSER_SYNTAX_ERROR' || exportError.name === 'CssSyntaxError') {
+      throw new ExportError('Component code could not be parsed', 'EXPORT_PARSE_ERROR', 400, { details: exportError.message });
+    }
+    throw exportError;
+  }
+};
+
+module.exports = {
+  ExportError,
+  exportSession
+};
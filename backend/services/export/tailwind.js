@@ -0,0 +1,205 @@
+const postcss = require('postcss');
+const { rewriteClassNames } = require('./classNames');
+
+// Convert plain-class CSS rules into Tailwind utilities on the elements using them.
+// Anything without a utility equivalent (compound selectors, max-width media
+// queries, !important, quoted values) stays in the returned CSS.
+
+const BREAKPOINTS = { 640: 'sm', 768: 'md', 1024: 'lg', 1280: 'xl', 1536: '2xl' };
+
+const PSEUDO_VARIANTS = {
+  hover: 'hover',
+  focus: 'focus',
+  'focus-visible': 'focus-visible',
+  active: 'active',
+  disabled: 'disabled',
+  'first-child': 'first',
+  'last-child': 'last'
+};
+
+const SIMPLE_SELECTOR = /^\.(-?[_a-zA-Z][\w-]*)(?::([a-z-]+))?$/;
+const MIN_WIDTH_QUERY = /^\(\s*min-width\s*:\s*(\d+)px\s*\)$/;
+
+const KEYWORD_UTILITIES = {
+  display: { flex: 'flex', grid: 'grid', block: 'block', 'inline-block': 'inline-block', 'inline-flex': 'inline-flex', inline: 'inline', none: 'hidden' },
+  'flex-direction': { row: 'flex-row', column: 'flex-col', 'row-reverse': 'flex-row-reverse', 'column-reverse': 'flex-col-reverse' },
+  'flex-wrap': { wrap: 'flex-wrap', nowrap: 'flex-nowrap' },
+  'align-items': { center: 'items-center', 'flex-start': 'items-start', start: 'items-start', 'flex-end': 'items-end', end: 'items-end', stretch: 'items-stretch', baseline: 'items-baseline' },
+  'justify-content': { center: 'justify-center', 'flex-start': 'justify-start', start: 'justify-start', 'flex-end': 'justify-end', end: 'justify-end', 'space-between': 'justify-between', 'space-around': 'justify-around', 'space-evenly': 'justify-evenly' },
+  'text-align': { left: 'text-left', center: 'text-center', right: 'text-right', justify: 'text-justify' },
+  position: { static: 'static', relative: 'relative', absolute: 'absolute', fixed: 'fixed', sticky: 'sticky' },
+  cursor: { pointer: 'cursor-pointer', default: 'cursor-default', 'not-allowed': 'cursor-not-allowed' },
+  overflow: { hidden: 'overflow-hidden', auto: 'overflow-auto', scroll: 'overflow-scroll', visible: 'overflow-visible' },
+  'font-weight': { 400: 'font-normal', normal: 'font-normal', 500: 'font-medium', 600: 'font-semibold', 700: 'font-bold', bold: 'font-bold' },
+  'font-style': { italic: 'italic', normal: 'not-italic' },
+  'text-decoration': { none: 'no-underline', underline: 'underline', 'line-through': 'line-through' },
+  'text-transform': { uppercase: 'uppercase', lowercase: 'lowercase', capitalize: 'capitalize', none: 'normal-case' },
+  'box-sizing': { 'border-box': 'box-border', 'content-box': 'box-content' },
+  'white-space': { nowrap: 'whitespace-nowrap', normal: 'whitespace-normal', pre: 'whitespace-pre', 'pre-wrap': 'whitespace-pre-wrap' }
+};
+
+// Properties with an arbitrary-value utility, e.g. gap: 12px -> gap-[12px]
+const VALUE_PREFIXES = {
+  width: 'w',
+  height: 'h',
+  'min-width': 'min-w',
+  'max-width': 'max-w',
+  'min-height': 'min-h',
+  'max-height': 'max-h',
+  gap: 'gap',
+  'row-gap': 'gap-y',
+  'column-gap': 'gap-x',
+  'padding-top': 'pt',
+  'padding-right': 'pr',
+  'padding-bottom': 'pb',
+  'padding-left': 'pl',
+  'margin-top': 'mt',
+  'margin-right': 'mr',
+  'margin-bottom': 'mb',
+  'margin-left': 'ml',
+  top: 'top',
+  right: 'right',
+  bottom: 'bottom',
+  left: 'left',
+  'z-index': 'z',
+  'font-size': 'text',
+  'line-height': 'leading',
+  'letter-spacing': 'tracking',
+  color: 'text',
+  'background-color': 'bg',
+  'border-radius': 'rounded',
+  'border-color': 'border',
+  'border-width': 'border',
+  opacity: 'opacity',
+  'box-shadow': 'shadow',
+  flex: 'flex',
+  'grid-template-columns': 'grid-cols'
+};
+
+// Spaces become underscores inside arbitrary values
+const arbitrary = (value) => value.trim().replace(/\s+/g, '_');
+
+// padding: 8px 16px -> py-[8px] px-[16px]
+const expandBox = (prefix, value) => {
+  const parts = value.trim().split(/\s+/);
+  if (parts.length > 4) {
+    return null;
+  }
+  const [top, right = top, bottom = top, left = right] = parts;
+  if (top === bottom && left === right) {
+    return top === left ? [`${prefix}-[${top}]`] : [`${prefix}y-[${top}]`, `${prefix}x-[${right}]`];
+  }
+  return [`${prefix}t-[${top}]`, `${prefix}r-[${right}]`, `${prefix}b-[${bottom}]`, `${prefix}l-[${left}]`];
+};
+
+const isSingleValue = (value) => !/\s/.test(value.trim()) || /^(rgb|hsl)a?\([^)]*\)$/.test(value.trim());
+
+// Utilities for one declaration, or null when it has to stay in CSS
+const toUtilities = (declaration) => {
+  const prop = declaration.prop.toLowerCase();
+  const value = declaration.value.trim();
+
+  if (declaration.important || /['"\\_]/.test(value)) {
+    return null;
+  }
+
+  const keywords = KEYWORD_UTILITIES[prop];
+  if (keywords && keywords[value]) {
+    return [keywords[value]];
+  }
+
+  // var() and url() are ambiguous to Tailwind's type inference, so use an arbitrary property
+  const plain = !/(var|url)\(/.test(value);
+
+  if (plain && (prop === 'padding' || prop === 'margin')) {
+    return expandBox(prop[0], value);
+  }
+  if (plain && prop === 'background' && isSingleValue(value)) {
+    return [`bg-[${value}]`];
+  }
+  if (plain && VALUE_PREFIXES[prop]) {
+    return [`${VALUE_PREFIXES[prop]}-[${arbitrary(value)}]`];
+  }
+  return [`[${prop}:${arbitrary(value)}]`];
+};
+
+// Variant prefix for a rule (breakpoint + pseudo-class) per selector, or null if it can't be expressed
+const getRuleTargets = (rule) => {
+  let breakpoint = '';
+  if (rule.parent.type === 'atrule') {
+    const match = rule.parent.name === 'media' && rule.parent.params.match(MIN_WIDTH_QUERY);
+    if (!match || !BREAKPOINTS[match[1]] || rule.parent.parent.type !== 'root') {
+      return null;
+    }
+    breakpoint = `${BREAKPOINTS[match[1]]}:`;
+  } else if (rule.parent.type !== 'root') {
+    return null;
+  }
+
+  const targets = [];
+  for (const selector of rule.selectors) {
+    const match = selector.trim().match(SIMPLE_SELECTOR);
+    if (!match || (match[2] && !PSEUDO_VARIANTS[match[2]])) {
+      return null;
+    }
+    targets.push({ className: match[1], variant: breakpoint + (match[2] ? `${PSEUDO_VARIANTS[match[2]]}:` : '') });
+  }
+  return targets;
+};
+
+const toTailwind = ({ jsx, css }) => {
+  const root = postcss.parse(css || '');
+  // className -> Map of "variant|property" -> utilities, so later rules override earlier ones
+  const utilities = new Map();
+
+  root.walkRules((rule) => {
+    const targets = getRuleTargets(rule);
+    if (!targets) {
+      return;
+    }
+
+    rule.each((node) => {
+      if (node.type !== 'decl') {
+        return;
+      }
+      const converted = toUtilities(node);
+      if (!converted) {
+        return;
+      }
+
+      targets.forEach(({ className, variant }) => {
+        if (!utilities.has(className)) {
+          utilities.set(className, new Map());
+        }
+        utilities.get(className).set(`${variant}|${node.prop.toLowerCase()}`, converted.map((utility) => variant + utility));
+      });
+      node.remove();
+    });
+
+    if (rule.nodes.length === 0) {
+      rule.remove();
+    }
+  });
+  root.walkAtRules('media', (atRule) => {
+    if (atRule.nodes && atRule.nodes.length === 0) {
+      atRule.remove();
+    }
+  });
+
+  const leftover = root.toString().trim();
+  // Classes still targeted by leftover CSS keep their name next to the utilities
+  const referenced = new Set((leftover.match(/\.-?[_a-zA-Z][\w-]*/g) || []).map((name) => name.slice(1)));
+
+  const rewritten = rewriteClassNames(jsx, (name) => {
+    const classUtilities = utilities.get(name);
+    if (!classUtilities) {
+      return null;
+    }
+    const list = [].concat(...classUtilities.values()).join(' ');
+    return { text: referenced.has(name) ? `${name} ${list}` : list };
+  });
+
+  return { jsx: rewritten, css: leftover ? `${leftover}\n` : '' };
+};
+
+module.exports = { toTailwind };
@@ -0,0 +1,48 @@
+const { toTailwind } = require('./tailwind');
+
+describe('toTailwind', () => {
+  it('moves simple rules onto the elements as utilities', () => {
+    const result = toTailwind({
+      jsx: 'function Card() {\n  return <div className="card"><h2 className="title big">Hi</h2></div>;\n}',
+      css: `.card { display: flex; padding: 8px 16px; background: #fff; }
+.title { font-weight: 700; color: #111; }`
+    });
+
+    expect(result.jsx).toContain('className="flex py-[8px] px-[16px] bg-[#fff]"');
+    expect(result.jsx).toContain('className="font-bold text-[#111] big"');
+    expect(result.css).toBe('');
+  });
+
+  it('prefixes hover and min-width breakpoint rules with variants', () => {
+    const { jsx } = toTailwind({
+      jsx: '<button className="button">Go</button>',
+      css: `.button { color: red; }
+.button:hover { color: blue; }
+@media (min-width: 768px) { .button { font-size: 18px; } }`
+    });
+
+    expect(jsx).toBe('<button className="text-[red] hover:text-[blue] md:text-[18px]">Go</button>');
+  });
+
+  it('keeps what Tailwind cannot express, along with the class name it targets', () => {
+    const { jsx, css } = toTailwind({
+      jsx: '<ul className="list"><li className="item">A</li></ul>',
+      css: `.list { gap: 4px; }
+.list > .item { color: red; }
+.item { margin: 0 !important; font-family: "Inter"; }`
+    });
+
+    expect(jsx).toBe('<ul className="list gap-[4px]"><li className="item">A</li></ul>');
+    expect(css).toContain('.list > .item { color: red; }');
+    expect(css).toContain('.item { margin: 0 !important; font-family: "Inter"; }');
+  });
+
+  it('rewrites classes inside className expressions but not compared values', () => {
+    const { jsx } = toTailwind({
+      jsx: '<a className={variant === \'card\' ? \'card\' : `plain ${extra}`}>A</a>',
+      css: '.card { display: block; }'
+    });
+
+    expect(jsx).toBe('<a className={variant === \'card\' ? \'block\' : `plain ${extra}`}>A</a>');
+  });
+});
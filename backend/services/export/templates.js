@@ -0,0 +1,188 @@
+// Scaffolding files for the export targets
+
+const VERSIONS = {
+  react: '^18.2.0',
+  'react-dom': '^18.2.0',
+  next: '^14.0.0',
+  vite: '^5.0.0',
+  '@vitejs/plugin-react': '^4.2.0',
+  tailwindcss: '^3.4.0',
+  postcss: '^8.4.38',
+  autoprefixer: '^10.4.19',
+  storybook: '^8.0.0',
+  '@storybook/react': '^8.0.0',
+  '@storybook/react-vite': '^8.0.0'
+};
+
+const pick = (names) => names.reduce((result, name) => ({ ...result, [name]: VERSIONS[name] }), {});
+
+// packageDependencies: allow-listed packages the component imports, at their preview versions
+const packageJson = (name, { target, styling, includeStory }, packageDependencies = {}) => {
+  const scripts = {};
+  const dependencies = { ...pick(['react', 'react-dom']), ...packageDependencies };
+  const devDependencies = {};
+
+  if (target === 'vite') {
+    Object.assign(scripts, { dev: 'vite', build: 'vite build', preview: 'vite preview' });
+    Object.assign(devDependencies, pick(['vite', '@vitejs/plugin-react']));
+  }
+  if (target === 'nextjs') {
+    Object.assign(scripts, { dev: 'next dev', build: 'next build', start: 'next start' });
+    Object.assign(dependencies, pick(['next']));
+  }
+  if (styling === 'tailwind') {
+    Object.assign(devDependencies, pick(['tailwindcss', 'postcss', 'autoprefixer']));
+  }
+  if (includeStory) {
+    scripts.storybook = 'storybook dev -p 6006';
+    Object.assign(devDependencies, pick(['storybook', '@storybook/react', '@storybook/react-vite']));
+  }
+
+  const pkg = { name, version: '0.1.0', private: true };
+  if (target === 'vite') {
+    pkg.type = 'module';
+  }
+  if (Object.keys(scripts).length > 0) {
+    pkg.scripts = scripts;
+  }
+  pkg.dependencies = dependencies;
+  if (Object.keys(devDependencies).length > 0) {
+    pkg.devDependencies = devDependencies;
+  }
+  return `${JSON.stringify(pkg, null, 2)}\n`;
+};
+
+const viteIndexHtml = (title) => `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${title.replace(/</g, '&lt;')}</title>
+  </head>
+  <body>
+    <div id="root"></div>
+    <script type="module" src="/src/main.jsx"></script>
+  </body>
+</html>
+`;
+
+const viteConfig = `import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+
+export default defineConfig({
+  plugins: [react()]
+});
+`;
+
+const viteMain = (componentName, { styling }) => `import React from 'react';
+import ReactDOM from 'react-dom/client';
+import ${componentName} from './components/${componentName}';
+${styling === 'tailwind' ? "import './index.css';\n" : ''}
+ReactDOM.createRoot(document.getElementById('root')).render(
+  <React.StrictMode>
+    <${componentName} />
+  </React.StrictMode>
+);
+`;
+
+const tailwindDirectives = `@tailwind base;
+@tailwind components;
+@tailwind utilities;
+`;
+
+const tailwindConfig = (content) => `/** @type {import('tailwindcss').Config} */
+export default {
+  content: ${JSON.stringify(content)},
+  theme: {
+    extend: {}
+  },
+  plugins: []
+};
+`;
+
+const postcssConfig = `export default {
+  plugins: {
+    tailwindcss: {},
+    autoprefixer: {}
+  }
+};
+`;
+
+const storybookMain = `export default {
+  stories: ['../src/**/*.stories.@(js|jsx)'],
+  framework: {
+    name: '@storybook/react-vite',
+    options: {}
+  }
+};
+`;
+
+const story = (componentName) => `import ${componentName} from './${componentName}';
+
+export default {
+  title: 'Components/${componentName}',
+  component: ${componentName}
+};
+
+export const Default = {};
+`;
+
+const nextPage = (componentName, title) => `import ${componentName} from '../../components/${componentName}';
+
+export const metadata = {
+  title: ${JSON.stringify(title)}
+};
+
+export default function Page() {
+  return <${componentName} />;
+}
+`;
+
+const readme = (title, componentName, { target, styling, includeStory }, files) => {
+  const usage = {
+    component: `Copy the files into your project and render \`<${componentName} />\`.`,
+    vite: 'Run `npm install` and then `npm run dev`.',
+    nextjs: `Copy \`components/\` and \`app/\` into a Next.js (App Router) project; the page renders \`<${componentName} />\`.`
+  }[target];
+
+  const notes = [];
+  if (styling === 'css-modules') {
+    notes.push('Styles are a CSS Module; class names are scoped to the component.');
+  }
+  if (styling === 'tailwind') {
+    notes.push('Styles were converted to Tailwind utilities. Rules without a utility equivalent are kept in the CSS file.');
+    if (target !== 'vite') {
+      notes.push('Add the component folder to the `content` paths of your Tailwind config.');
+    }
+  }
+  if (includeStory) {
+    notes.push(target === 'vite'
+      ? 'Run `npm run storybook` to open the story.'
+      : 'The story file needs a Storybook setup in the project it is copied into.');
+  }
+
+  return `# ${title}
+
+Exported from Component Generator.
+
+## Files
+${files.map(file => `- ${file}`).join('\n')}
+
+## Usage
+${usage}
+${notes.length > 0 ? `\n## Notes\n${notes.map(note => `- ${note}`).join('\n')}\n` : ''}`;
+};
+
+module.exports = {
+  packageJson,
+  viteIndexHtml,
+  viteConfig,
+  viteMain,
+  tailwindDirectives,
+  tailwindConfig,
+  postcssConfig,
+  storybookMain,
+  story,
+  nextPage,
+  readme
+};
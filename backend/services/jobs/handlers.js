@@ -0,0 +1,242 @@
+const mongoose = require('mongoose');
+const User = require('../../models/User');
+const Session = require('../../models/Session');
+const { setSessionData } = require('../../config/redis');
+const { getProvider } = require('../ai');
+const { getCacheOwner } = require('../ai/cache');
+const { AIOutputError } = require('../ai/structured');
+const { PromptTemplateError } = require('../promptTemplates');
+const { AITaskError, checkTaskRequest, runGenerate, runVariations, runAnalyze } = require('../aiTasks');
+const { normalizeExportOptions } = require('../export');
+const { ExportError, exportSession } = require('../export/session');
+const { createMeter, meterProvider, recordUsage } = require('../usage');
+const { notifySession } = require('../collaboration/events');
+const { publishChatMessage, publishCodeChange } = require('../collaboration');
+const { saveJobFile } = require('./queue');
+
+// What each job type does. `validate` runs before the job is queued and returns an error
+// message or null; `run` resolves with the job's result. Jobs that `editSession` can only be
+// queued by those who may edit the session. AI jobs run with a task context
+// (see services/aiTasks.js) and their model calls are recorded like those of the AI routes.
+
+const DUPLICATE_KEY_ERROR = 11000;
+const MAX_SAVE_ATTEMPTS = 3;
+// Partial output is published at most this often (ms); the finished result follows anyway
+const PARTIAL_INTERVAL = 250;
+
+// Errors in the request itself and model output that stayed invalid through the repair
+// attempt fail the job at once; provider outages and timeouts are retried
+const isRetryable = (error) => !(
+  error instanceof AITaskError
+  || error instanceof PromptTemplateError
+  || error instanceof ExportError
+  || error instanceof AIOutputError
+);
+
+const checkRequest = (task, payload) => {
+  try {
+    checkTaskRequest(task, payload);
+    return null;
+  } catch (error) {
+    return error.message;
+  }
+};
+
+const findSession = (job) => Session.findOne({
+  _id: job.sessionId,
+  isActive: true,
+  ...Session.accessFilter(job.userId, { canEdit: true })
+});
+
+const cacheSession = (session) => setSessionData(String(session._id), {
+  chatHistory: session.chatHistory,
+  componentCode: session.componentCode,
+  uiState: session.uiState
+});
+
+// Save a generated component as the session's next version. A save made while the job ran
+// takes that version first; the result then goes on top of it.
+const saveVersion = async (session, data, messageId, userId) => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await session.updateComponentCode(data.jsx || '', data.css || '', data.tsx || '', {
+        source: 'ai',
+        messageId,
+        files: data.files,
+        userId
+      });
+      return session;
+    } catch (error) {
+      if (error.code !== DUPLICATE_KEY_ERROR || attempt === MAX_SAVE_ATTEMPTS) {
+        throw error;
+      }
+      session = await Session.findById(session._id);
+    }
+  }
+};
+
+// The reply an earlier attempt of the job left in the session, if any
+const findReply = (session, job) => session.chatHistory.find(message => (
+  message.role === 'assistant' && message.metadata && message.metadata.get('jobId') === job.id
+));
+
+// Results are attached to the session as the assistant's reply, so they are there even when
+// nobody waited for the job. It is posted last, and once per job however often it is retried.
+const replyInSession = async (job, content, metadata, messageId) => {
+  const session = job.sessionId ? await findSession(job) : null;
+  if (!session || findReply(session, job)) {
+    return session;
+  }
+  await session.addChatMessage('assistant', content, { ...metadata, jobId: job.id }, messageId);
+  publishChatMessage(session, session.chatHistory[session.chatHistory.length - 1], job.userId);
+  return session;
+};
+
+const generateHandler = {
+  ai: true,
+  editSession: true,
+  validate: (payload) => checkRequest('generate', payload),
+  run: async (job, context, { signal, setProgress, publish }) => {
+    await setProgress('generating');
+    let lastPartial = 0;
+    const { data, cached } = await runGenerate(context, job.payload, {
+      signal,
+      onPartial: (partial) => {
+        if (Date.now() - lastPartial >= PARTIAL_INTERVAL) {
+          lastPartial = Date.now();
+          publish('partial', partial);
+          if (job.sessionId) {
+            notifySession(job.sessionId, 'partial', { jobId: job.id, partial });
+          }
+        }
+      },
+      onStatus: ({ stage }) => setProgress(stage)
+    });
+    signal.throwIfAborted();
+
+    let session = job.sessionId ? await findSession(job) : null;
+    if (!session) {
+      return { ...data, cached };
+    }
+    // An attempt that got as far as replying saved its version before
+    const reply = findReply(session, job);
+    if (reply) {
+      return { ...data, cached, messageId: reply._id, version: session.componentCode.version };
+    }
+
+    // The version is saved first with the id its reply message will have
+    await setProgress('saving');
+    const messageId = new mongoose.Types.ObjectId();
+    session = await saveVersion(session, data, messageId, job.userId);
+    const { templateId, variables } = job.payload;
+    session = await replyInSession(job, data.explanation || 'Generated the component.', {
+      ...(templateId ? { templateId, templateVariables: variables || {} } : {}),
+      ...(data.promptTemplate ? { promptTemplate: data.promptTemplate } : {})
+    }, messageId) || session;
+    await cacheSession(session);
+    await publishCodeChange(session, job.userId);
+    return { ...data, cached, messageId, version: session.componentCode.version };
+  }
+};
+
+const variationsHandler = {
+  ai: true,
+  editSession: true,
+  validate: (payload) => checkRequest('variations', payload),
+  run: async (job, context, { signal, setProgress }) => {
+    await setProgress('generating');
+    const { data, cached } = await runVariations(context, job.payload, { signal });
+    signal.throwIfAborted();
+
+    const names = data.variations.map(variation => variation.name).join(', ');
+    const session = await replyInSession(job, `Generated ${data.variations.length} variations: ${names}`, {
+      variations: data.variations,
+      ...(data.promptTemplate ? { promptTemplate: data.promptTemplate } : {})
+    });
+    if (session) {
+      await cacheSession(session);
+    }
+    return { ...data, cached };
+  }
+};
+
+// Session analyses are stored by runAnalyze itself
+const analyzeHandler = {
+  ai: true,
+  editSession: false,
+  validate: (payload) => checkRequest('analyze', payload),
+  run: async (job, context, { signal, setProgress }) => {
+    await setProgress('analyzing');
+    const { data, cached } = await runAnalyze(context, job.payload, { signal });
+    return { ...data, cached };
+  }
+};
+
+const exportHandler = {
+  ai: false,
+  editSession: false,
+  validate: (payload) => {
+    if (!payload.sessionId) {
+      return 'sessionId is required';
+    }
+    const { error } = normalizeExportOptions(payload.options);
+    return error ? `Invalid export options: ${error}` : null;
+  },
+  run: async (job, context, { setProgress }) => {
+    await setProgress('exporting');
+    const file = await exportSession(job.userId, job.sessionId, job.payload.options);
+    return saveJobFile(job.id, file);
+  }
+};
+
+const JOB_HANDLERS = {
+  generate: generateHandler,
+  variations: variationsHandler,
+  analyze: analyzeHandler,
+  export: exportHandler
+};
+
+// Run one attempt of a job; `hooks` are { signal, setProgress, publish } from the worker
+const runJobHandler = async (job, hooks) => {
+  const handler = JOB_HANDLERS[job.type];
+  if (!handler.ai) {
+    return handler.run(job, null, hooks);
+  }
+
+  const user = await User.findById(job.userId).select('-password');
+  if (!user || !user.isActive) {
+    throw new AITaskError('The user who queued the job no longer exists', 'USER_NOT_FOUND', 404);
+  }
+
+  const meter = createMeter();
+  const provider = getProvider(job.provider);
+  const model = job.model || provider.model;
+  let succeeded = false;
+  try {
+    const result = await handler.run(job, {
+      user,
+      provider: meterProvider(provider, meter),
+      model,
+      cacheOwner: getCacheOwner(user, job.cacheScope)
+    }, hooks);
+    succeeded = true;
+    return result;
+  } finally {
+    // Awaited, so the usage is recorded before the job's quota reservation is released
+    await recordUsage({
+      userId: user._id,
+      sessionId: job.sessionId,
+      endpoint: `jobs/${job.type}`,
+      provider: provider.name,
+      model,
+      meter,
+      succeeded
+    }).catch(error => console.error('Record AI usage error:', error));
+  }
+};
+
+module.exports = {
+  JOB_HANDLERS,
+  isRetryable,
+  runJobHandler
+};
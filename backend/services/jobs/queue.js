@@ -0,0 +1,335 @@
+const crypto = require('crypto');
+const { EventEmitter } = require('events');
+const { getRedisClient, createRedisConnection } = require('../../config/redis');
+const { notifySession } = require('../collaboration/events');
+const { releaseQuota } = require('../usage');
+
+// Long-running AI work runs as jobs outside the request that asked for it. A job is a Redis
+// hash; its id waits in the queue list until a worker moves it to the processing list, so the
+// job of a worker that died is still found there and queued again (see worker.js). Retries
+// wait in a sorted set until they are due. Status, progress and partial output are published
+// on a channel per job for clients that follow along. AI jobs hold the quota reservation of the
+// request that queued them until they finish (see services/usage.js).
+
+const JOB_TYPES = ['generate', 'variations', 'analyze', 'export'];
+const JOB_STATUSES = ['queued', 'running', 'succeeded', 'failed', 'cancelled'];
+const FINISHED_STATUSES = ['succeeded', 'failed', 'cancelled'];
+
+const JOB_TTL = 24 * 60 * 60; // finished jobs and their files are kept for a day
+const MAX_LISTED_JOBS = 50;
+
+const KEYS = {
+  queue: 'ai_jobs:queue',
+  processing: 'ai_jobs:processing',
+  delayed: 'ai_jobs:delayed',
+  job: (id) => `ai_job:${id}`,
+  file: (id) => `ai_job_file:${id}`,
+  user: (userId) => `ai_jobs:user:${userId}`,
+  events: (id) => `ai_job_events:${id}`
+};
+const EVENTS_PATTERN = 'ai_job_events:*';
+
+const getMaxAttempts = () => parseInt(process.env.JOB_MAX_ATTEMPTS) || 3;
+
+// Hash fields are strings; these hold JSON
+const JSON_FIELDS = ['payload', 'progress', 'result', 'error'];
+
+const toHash = (fields) => Object.keys(fields).reduce((hash, key) => {
+  const value = fields[key];
+  if (JSON_FIELDS.includes(key)) {
+    hash[key] = JSON.stringify(value === undefined ? null : value);
+  } else {
+    hash[key] = value === null || value === undefined ? '' : String(value);
+  }
+  return hash;
+}, {});
+
+const parseJob = (hash) => {
+  if (!hash || !hash.id) {
+    return null;
+  }
+
+  const job = {
+    id: hash.id,
+    type: hash.type,
+    status: hash.status,
+    userId: hash.userId,
+    sessionId: hash.sessionId || null,
+    provider: hash.provider || null,
+    model: hash.model || null,
+    cacheScope: hash.cacheScope || 'user',
+    quotaReservation: hash.quotaReservation || null,
+    attempts: parseInt(hash.attempts) || 0,
+    maxAttempts: parseInt(hash.maxAttempts) || getMaxAttempts(),
+    cancelRequested: hash.cancelRequested === '1',
+    heartbeatAt: parseInt(hash.heartbeatAt) || 0,
+    createdAt: hash.createdAt || null,
+    startedAt: hash.startedAt || null,
+    finishedAt: hash.finishedAt || null
+  };
+  JSON_FIELDS.forEach((key) => {
+    job[key] = hash[key] ? JSON.parse(hash[key]) : null;
+  });
+  return job;
+};
+
+// What clients see of a job; the request payload can be large and stays on the server
+const describeJob = ({ payload, userId, heartbeatAt, provider, model, cacheScope, quotaReservation, ...job }) => job;
+
+const isFinished = (job) => FINISHED_STATUSES.includes(job.status);
+
+// Channel events are { event, data }: 'status' with the job, 'progress', 'partial' output
+// of a generation, and 'cancel' for the worker running the job
+const publishJobEvent = async (id, event, data = null) => {
+  await getRedisClient().publish(KEYS.events(id), JSON.stringify({ event, data }));
+};
+
+// Status changes go to the job's followers and, for session jobs, to the session's collaborators
+const publishStatus = async (job) => {
+  const described = describeJob(job);
+  await publishJobEvent(job.id, 'status', described);
+  if (job.sessionId) {
+    notifySession(job.sessionId, 'job', { job: described, userId: job.userId });
+  }
+};
+
+const getJob = async (id) => parseJob(await getRedisClient().hGetAll(KEYS.job(id)));
+
+// The user's job, or null for unknown ids and other users' jobs
+const getUserJob = async (userId, id) => {
+  if (typeof id !== 'string' || !/^[a-f0-9-]{36}$/.test(id)) {
+    return null;
+  }
+  const job = await getJob(id);
+  return job && job.userId === String(userId) ? job : null;
+};
+
+const updateJob = async (id, fields) => {
+  await getRedisClient().hSet(KEYS.job(id), toHash(fields));
+  const job = await getJob(id);
+  if (job) {
+    await publishStatus(job);
+  }
+  return job;
+};
+
+const enqueueJob = async ({ type, userId, sessionId = null, provider = null, model = null, cacheScope = 'user', quotaReservation = null, payload }) => {
+  const client = getRedisClient();
+  const id = crypto.randomUUID();
+  const now = new Date();
+
+  await client.multi()
+    .hSet(KEYS.job(id), toHash({
+      id,
+      type,
+      status: 'queued',
+      userId: String(userId),
+      sessionId,
+      provider,
+      model,
+      cacheScope,
+      quotaReservation,
+      payload,
+      progress: { stage: 'queued' },
+      result: null,
+      error: null,
+      attempts: 0,
+      maxAttempts: getMaxAttempts(),
+      heartbeatAt: now.getTime(),
+      createdAt: now.toISOString()
+    }))
+    // The user's index forgets jobs once they have expired
+    .zRemRangeByScore(KEYS.user(userId), 0, now.getTime() - JOB_TTL * 1000)
+    .zAdd(KEYS.user(userId), { score: now.getTime(), value: id })
+    .expire(KEYS.user(userId), JOB_TTL)
+    .lPush(KEYS.queue, id)
+    .exec();
+
+  const job = await getJob(id);
+  await publishStatus(job);
+  return job;
+};
+
+// The user's most recent jobs, newest first; `sessionId` and `active` narrow the list
+const listJobs = async (userId, { sessionId, active = false } = {}) => {
+  const client = getRedisClient();
+  const ids = await client.zRange(KEYS.user(userId), 0, MAX_LISTED_JOBS - 1, { REV: true });
+  const jobs = await Promise.all(ids.map(getJob));
+
+  return jobs.filter(job => job
+    && (!sessionId || job.sessionId === sessionId)
+    && (!active || !isFinished(job)));
+};
+
+// Next job id for a worker, moved to the processing list; null after `timeout` seconds.
+// Blocks the connection, so each worker has its own.
+const takeJob = (connection, timeout) => connection.blMove(KEYS.queue, KEYS.processing, 'RIGHT', 'LEFT', timeout);
+
+const releaseJob = (id) => getRedisClient().lRem(KEYS.processing, 0, id);
+
+const finishJob = async (id, status, { result = null, error = null } = {}) => {
+  const client = getRedisClient();
+  await client.multi()
+    .hSet(KEYS.job(id), toHash({
+      status,
+      result,
+      error,
+      progress: { stage: status },
+      finishedAt: new Date().toISOString()
+    }))
+    .expire(KEYS.job(id), JOB_TTL)
+    .lRem(KEYS.processing, 0, id)
+    .exec();
+
+  const job = await getJob(id);
+  if (job) {
+    await releaseQuota(job.quotaReservation && { id: job.quotaReservation, userId: job.userId });
+    await publishStatus(job);
+  }
+  return job;
+};
+
+// Back to the queue after `delayMs`, keeping the error of the failed attempt
+const retryJob = async (id, delayMs, error) => {
+  const client = getRedisClient();
+  await client.multi()
+    .hSet(KEYS.job(id), toHash({ status: 'queued', error, progress: { stage: 'retrying' } }))
+    .zAdd(KEYS.delayed, { score: Date.now() + delayMs, value: id })
+    .lRem(KEYS.processing, 0, id)
+    .exec();
+
+  const job = await getJob(id);
+  await publishStatus(job);
+  return job;
+};
+
+// Queue the retries that are due; each is moved by whichever process removes it first
+const promoteDueJobs = async () => {
+  const client = getRedisClient();
+  const due = await client.zRangeByScore(KEYS.delayed, 0, Date.now());
+  for (const id of due) {
+    if (await client.zRem(KEYS.delayed, id)) {
+      await client.lPush(KEYS.queue, id);
+    }
+  }
+  return due.length;
+};
+
+// Put a job taken by a worker that stopped back in the queue, ahead of the others, or fail it
+// once it has used its attempts
+const recoverJob = async (id) => {
+  const client = getRedisClient();
+  if (!(await client.lRem(KEYS.processing, 0, id))) {
+    return null;
+  }
+
+  const job = await getJob(id);
+  if (!job || isFinished(job)) {
+    return job;
+  }
+  if (job.cancelRequested) {
+    return finishJob(id, 'cancelled');
+  }
+  if (job.attempts >= job.maxAttempts) {
+    return finishJob(id, 'failed', {
+      error: { message: 'The worker running the job stopped', code: 'JOB_WORKER_LOST' }
+    });
+  }
+
+  await client.hSet(KEYS.job(id), toHash({ status: 'queued', progress: { stage: 'queued' }, heartbeatAt: Date.now() }));
+  await client.rPush(KEYS.queue, id);
+  return getJob(id);
+};
+
+const listProcessingJobs = () => getRedisClient().lRange(KEYS.processing, 0, -1);
+
+// Queued jobs are simply taken off the queue; running ones are asked to stop, and the worker
+// running them marks them cancelled
+const cancelJob = async (id) => {
+  const client = getRedisClient();
+  const removed = await client.lRem(KEYS.queue, 0, id) + await client.zRem(KEYS.delayed, id);
+  if (removed) {
+    return finishJob(id, 'cancelled');
+  }
+
+  const job = await updateJob(id, { cancelRequested: 1 });
+  await publishJobEvent(id, 'cancel');
+  return job;
+};
+
+// Export files are stored next to the job until it expires
+const saveJobFile = async (id, { filename, contentType, content }) => {
+  const data = Buffer.isBuffer(content) ? content : Buffer.from(content);
+  await getRedisClient().setEx(KEYS.file(id), JOB_TTL, JSON.stringify({
+    filename,
+    contentType,
+    content: data.toString('base64')
+  }));
+  return { filename, contentType, size: data.length };
+};
+
+const getJobFile = async (id) => {
+  const stored = await getRedisClient().get(KEYS.file(id));
+  if (!stored) {
+    return null;
+  }
+  const file = JSON.parse(stored);
+  return { ...file, content: Buffer.from(file.content, 'base64') };
+};
+
+// One pattern subscription per process, shared by everyone following a job
+const jobEvents = new EventEmitter();
+jobEvents.setMaxListeners(0);
+let subscriber = null;
+
+const ensureSubscriber = () => {
+  if (!subscriber) {
+    subscriber = createRedisConnection().then(async (connection) => {
+      await connection.pSubscribe(EVENTS_PATTERN, (message, channel) => {
+        try {
+          jobEvents.emit(channel, JSON.parse(message));
+        } catch (error) {
+          console.error('Job event error:', error);
+        }
+      });
+      return connection;
+    }).catch((error) => {
+      subscriber = null;
+      throw error;
+    });
+  }
+  return subscriber;
+};
+
+// Call `listener` with every event of the job; resolves with a function that stops listening
+const subscribeToJob = async (id, listener) => {
+  await ensureSubscriber();
+  const channel = KEYS.events(id);
+  jobEvents.on(channel, listener);
+  return () => jobEvents.off(channel, listener);
+};
+
+module.exports = {
+  JOB_TYPES,
+  JOB_STATUSES,
+  FINISHED_STATUSES,
+  isFinished,
+  describeJob,
+  publishJobEvent,
+  getJob,
+  getUserJob,
+  updateJob,
+  enqueueJob,
+  listJobs,
+  takeJob,
+  releaseJob,
+  finishJob,
+  retryJob,
+  promoteDueJobs,
+  recoverJob,
+  listProcessingJobs,
+  cancelJob,
+  saveJobFile,
+  getJobFile,
+  subscribeToJob
+};
@@ -0,0 +1,149 @@
+jest.mock('../../config/redis', () => ({ getRedisClient: jest.fn(), createRedisConnection: jest.fn() }));
+jest.mock('../collaboration/events', () => ({ notifySession: jest.fn() }));
+jest.mock('../usage', () => ({ releaseQuota: jest.fn() }));
+
+const { getRedisClient } = require('../../config/redis');
+const { releaseQuota } = require('../usage');
+const queue = require('./queue');
+
+// Just enough of a Redis client for the queue: hashes, lists and sorted sets in memory
+const createFakeRedis = () => {
+  const hashes = new Map();
+  const lists = new Map();
+  const sortedSets = new Map();
+  const list = (key) => lists.get(key) || lists.set(key, []).get(key);
+  const sortedSet = (key) => sortedSets.get(key) || sortedSets.set(key, new Map()).get(key);
+
+  const client = {
+    lists,
+    sortedSets,
+    hSet: async (key, fields) => {
+      hashes.set(key, { ...(hashes.get(key) || {}), ...fields });
+    },
+    hGetAll: async (key) => ({ ...(hashes.get(key) || {}) }),
+    expire: async () => true,
+    publish: jest.fn(async () => 0),
+    lPush: async (key, value) => list(key).unshift(value),
+    rPush: async (key, value) => list(key).push(value),
+    lRange: async (key) => [...list(key)],
+    lRem: async (key, count, value) => {
+      const before = list(key).length;
+      lists.set(key, list(key).filter((item) => item !== value));
+      return before - list(key).length;
+    },
+    zAdd: async (key, { score, value }) => {
+      sortedSet(key).set(value, score);
+    },
+    zRem: async (key, value) => (sortedSet(key).delete(value) ? 1 : 0),
+    zRemRangeByScore: async (key, min, max) => {
+      sortedSet(key).forEach((score, value) => {
+        if (score >= min && score <= max) {
+          sortedSet(key).delete(value);
+        }
+      });
+    },
+    zRangeByScore: async (key, min, max) => [...sortedSet(key)]
+      .filter(([, score]) => score >= min && score <= max)
+      .map(([value]) => value),
+    zRange: async (key) => [...sortedSet(key)].sort((a, b) => b[1] - a[1]).map(([value]) => value)
+  };
+
+  // Commands queued on a transaction run in order on exec
+  client.multi = () => {
+    const commands = [];
+    const transaction = { exec: () => commands.reduce((done, run) => done.then(run), Promise.resolve()) };
+    ['hSet', 'expire', 'lPush', 'lRem', 'zAdd', 'zRem', 'zRemRangeByScore'].forEach((name) => {
+      transaction[name] = (...args) => {
+        commands.push(() => client[name](...args));
+        return transaction;
+      };
+    });
+    return transaction;
+  };
+
+  return client;
+};
+
+describe('job queue', () => {
+  let redis;
+  const originalMaxAttempts = process.env.JOB_MAX_ATTEMPTS;
+
+  beforeEach(() => {
+    redis = createFakeRedis();
+    getRedisClient.mockReturnValue(redis);
+    releaseQuota.mockReset();
+    process.env.JOB_MAX_ATTEMPTS = '2';
+  });
+
+  afterEach(() => {
+    if (originalMaxAttempts === undefined) {
+      delete process.env.JOB_MAX_ATTEMPTS;
+    } else {
+      process.env.JOB_MAX_ATTEMPTS = originalMaxAttempts;
+    }
+  });
+
+  // A queued job as a worker sees it once it has taken it
+  const takeNewJob = async (fields = {}) => {
+    const job = await queue.enqueueJob({ type: 'generate', userId: 'user-1', payload: { prompt: 'A button' }, ...fields });
+    await redis.lRem('ai_jobs:queue', 0, job.id);
+    await redis.lPush('ai_jobs:processing', job.id);
+    await redis.hSet(`ai_job:${job.id}`, { status: 'running', attempts: '1' });
+    return job;
+  };
+
+  it('queues new jobs and keeps the payload from clients', async () => {
+    const job = await queue.enqueueJob({ type: 'generate', userId: 'user-1', payload: { prompt: 'A button' } });
+
+    expect(job).toMatchObject({ status: 'queued', attempts: 0, maxAttempts: 2, payload: { prompt: 'A button' } });
+    expect(redis.lists.get('ai_jobs:queue')).toEqual([job.id]);
+    expect(queue.describeJob(job)).not.toHaveProperty('payload');
+    expect(await queue.getUserJob('user-2', job.id)).toBeNull();
+    expect(await queue.getUserJob('user-1', job.id)).toMatchObject({ id: job.id });
+  });
+
+  it('delays retries until they are due', async () => {
+    const job = await takeNewJob();
+    const retried = await queue.retryJob(job.id, 60000, { message: 'Rate limited' });
+
+    expect(retried).toMatchObject({ status: 'queued', error: { message: 'Rate limited' }, progress: { stage: 'retrying' } });
+    expect(redis.lists.get('ai_jobs:processing')).toEqual([]);
+    expect(await queue.promoteDueJobs()).toBe(0);
+
+    redis.sortedSets.get('ai_jobs:delayed').set(job.id, Date.now() - 1);
+    expect(await queue.promoteDueJobs()).toBe(1);
+    expect(redis.lists.get('ai_jobs:queue')).toEqual([job.id]);
+  });
+
+  it('queues the jobs of a stopped worker again ahead of the others', async () => {
+    const job = await takeNewJob();
+    await redis.lPush('ai_jobs:queue', 'other-job');
+
+    const recovered = await queue.recoverJob(job.id);
+
+    expect(recovered).toMatchObject({ status: 'queued', progress: { stage: 'queued' } });
+    expect(redis.lists.get('ai_jobs:queue')).toEqual(['other-job', job.id]);
+    expect(await queue.recoverJob(job.id)).toBeNull();
+  });
+
+  it('fails recovered jobs that have used their attempts and releases their quota', async () => {
+    const job = await takeNewJob({ quotaReservation: 'reservation-1' });
+    await redis.hSet(`ai_job:${job.id}`, { attempts: '2' });
+
+    const recovered = await queue.recoverJob(job.id);
+
+    expect(recovered).toMatchObject({ status: 'failed', error: { code: 'JOB_WORKER_LOST' } });
+    expect(releaseQuota).toHaveBeenCalledWith({ id: 'reservation-1', userId: 'user-1' });
+  });
+
+  it('cancels queued jobs at once and asks running ones to stop', async () => {
+    const queued = await queue.enqueueJob({ type: 'analyze', userId: 'user-1', payload: {} });
+    expect(await queue.cancelJob(queued.id)).toMatchObject({ status: 'cancelled' });
+    expect(redis.lists.get('ai_jobs:queue')).toEqual([]);
+
+    const running = await takeNewJob();
+    expect(await queue.cancelJob(running.id)).toMatchObject({ status: 'running', cancelRequested: true });
+    expect(redis.publish).toHaveBeenCalledWith(`ai_job_events:${running.id}`, JSON.stringify({ event: 'cancel', data: null }));
+    expect(await queue.recoverJob(running.id)).toMatchObject({ status: 'cancelled' });
+  });
+});
@@ -0,0 +1,173 @@
+const { createRedisConnection } = require('../../config/redis');
+const {
+  getJob,
+  updateJob,
+  publishJobEvent,
+  takeJob,
+  releaseJob,
+  finishJob,
+  retryJob,
+  promoteDueJobs,
+  recoverJob,
+  listProcessingJobs,
+  subscribeToJob,
+  isFinished
+} = require('./queue');
+const { isRetryable, runJobHandler } = require('./handlers');
+
+// Each process runs JOB_CONCURRENCY worker loops (0 leaves the jobs to other processes).
+// Running jobs send a heartbeat; jobs in the processing list without one for STALE_AFTER
+// belonged to a worker that stopped and are queued again by any process's sweep.
+
+const DEFAULT_CONCURRENCY = 2;
+const TAKE_TIMEOUT = 5; // seconds a worker waits for a job before checking again
+const HEARTBEAT_INTERVAL = 10 * 1000;
+const SWEEP_INTERVAL = 5 * 1000;
+const STALE_AFTER = 60 * 1000;
+const RETRY_DELAY = 5 * 1000; // doubled after each failed attempt
+
+// Jobs this process is running, by id, with the controller that cancels them
+const running = new Map();
+// Stale jobs seen by the last sweep; a job is recovered when two sweeps in a row find it stale,
+// so a worker that has only just taken it has time to send its first heartbeat
+let stalled = new Set();
+
+const getConcurrency = () => {
+  const configured = parseInt(process.env.JOB_CONCURRENCY);
+  return Number.isNaN(configured) ? DEFAULT_CONCURRENCY : Math.max(configured, 0);
+};
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+const describeError = (error) => ({
+  message: error.message,
+  code: error.code || null,
+  ...(error.errors ? { validationErrors: error.errors } : {}),
+  ...(error.details && error.details.details ? { details: error.details.details } : {})
+});
+
+const runJob = async (id) => {
+  const job = await getJob(id);
+  if (!job || isFinished(job)) {
+    await releaseJob(id);
+    return;
+  }
+  if (job.cancelRequested) {
+    await finishJob(id, 'cancelled');
+    return;
+  }
+
+  const controller = new AbortController();
+  running.set(id, controller);
+  const attempt = job.attempts + 1;
+  await updateJob(id, {
+    status: 'running',
+    attempts: attempt,
+    progress: { stage: 'starting' },
+    heartbeatAt: Date.now(),
+    startedAt: new Date().toISOString()
+  });
+
+  // Cancellation arrives on the job's channel; the heartbeat also checks the flag, in case
+  // it was set before this worker subscribed
+  const unsubscribe = await subscribeToJob(id, ({ event }) => {
+    if (event === 'cancel') {
+      controller.abort();
+    }
+  });
+  const heartbeat = setInterval(async () => {
+    try {
+      const current = await getJob(id);
+      if (current && current.cancelRequested) {
+        controller.abort();
+      }
+      await updateJob(id, { heartbeatAt: Date.now() });
+    } catch (error) {
+      console.error('Job heartbeat error:', error);
+    }
+  }, HEARTBEAT_INTERVAL);
+
+  try {
+    const result = await runJobHandler({ ...job, attempts: attempt }, {
+      signal: controller.signal,
+      setProgress: (stage) => updateJob(id, { progress: { stage } })
+        .catch(error => console.error('Job progress error:', error)),
+      publish: (event, data) => publishJobEvent(id, event, data)
+        .catch(error => console.error('Job event error:', error))
+    });
+    await finishJob(id, 'succeeded', { result });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      await finishJob(id, 'cancelled');
+    } else if (isRetryable(error) && attempt < job.maxAttempts) {
+      console.error(`Job ${id} attempt ${attempt} failed, retrying:`, error);
+      await retryJob(id, RETRY_DELAY * 2 ** (attempt - 1), describeError(error));
+    } else {
+      console.error(`Job ${id} failed:`, error);
+      await finishJob(id, 'failed', { error: describeError(error) });
+    }
+  } finally {
+    clearInterval(heartbeat);
+    unsubscribe();
+    running.delete(id);
+  }
+};
+
+const workLoop = async (connection) => {
+  for (;;) {
+    try {
+      const id = await takeJob(connection, TAKE_TIMEOUT);
+      if (id) {
+        await runJob(id);
+      }
+    } catch (error) {
+      console.error('Job worker error:', error);
+      await sleep(TAKE_TIMEOUT * 1000);
+    }
+  }
+};
+
+// Queue due retries and recover the jobs of stopped workers
+const sweep = async () => {
+  try {
+    await promoteDueJobs();
+
+    const now = Date.now();
+    const seen = new Set();
+    for (const id of await listProcessingJobs()) {
+      if (running.has(id)) {
+        continue;
+      }
+      const job = await getJob(id);
+      if (!job || isFinished(job) || now - job.heartbeatAt > STALE_AFTER) {
+        if (stalled.has(id)) {
+          await recoverJob(id);
+        } else {
+          seen.add(id);
+        }
+      }
+    }
+    stalled = seen;
+  } catch (error) {
+    console.error('Job sweep error:', error);
+  }
+};
+
+const startJobWorker = async () => {
+  const concurrency = getConcurrency();
+  setInterval(sweep, SWEEP_INTERVAL).unref();
+  if (concurrency === 0) {
+    console.log('Job worker disabled (JOB_CONCURRENCY=0)');
+    return;
+  }
+
+  // Blocking takes tie up a connection each
+  for (let slot = 0; slot < concurrency; slot++) {
+    workLoop(await createRedisConnection());
+  }
+  console.log(`Job worker started with ${concurrency} slot(s)`);
+};
+
+module.exports = {
+  startJobWorker
+};
@@ -0,0 +1,120 @@
+const { parse, parseExpression } = require('@babel/parser');
+
+// Element IDs are path-based: "App:0.2.1" is the second child of the third child of
+// App's first root element. Keep in sync with frontend/lib/preview/elements.ts.
+
+const PARSER_OPTIONS = {
+  sourceType: 'module',
+  plugins: ['jsx', 'typescript']
+};
+
+const SKIPPED_KEYS = new Set(['loc', 'start', 'end', 'extra', 'range', 'leadingComments', 'trailingComments', 'innerComments']);
+
+const isNode = (value) => value !== null && typeof value === 'object' && typeof value.type === 'string';
+
+const getElementName = (element) => {
+  const print = (name) => {
+    if (name.type === 'JSXIdentifier') return name.name;
+    if (name.type === 'JSXMemberExpression') return `${print(name.object)}.${name.property.name}`;
+    if (name.type === 'JSXNamespacedName') return `${name.namespace.name}:${name.name.name}`;
+    return 'unknown';
+  };
+  return print(element.openingElement.name);
+};
+
+// Name of the top-level declaration a statement introduces, used to scope element IDs
+const getScopeName = (statement) => {
+  if (statement.type === 'ExportDefaultDeclaration' || statement.type === 'ExportNamedDeclaration') {
+    return statement.declaration ? getScopeName(statement.declaration) : 'default';
+  }
+  if ((statement.type === 'FunctionDeclaration' || statement.type === 'ClassDeclaration') && statement.id) {
+    return statement.id.name;
+  }
+  if (statement.type === 'VariableDeclaration') {
+    const declarator = statement.declarations[0];
+    if (declarator && declarator.id.type === 'Identifier') {
+      return declarator.id.name;
+    }
+  }
+  return 'default';
+};
+
+// List every JSX element with its ID, tag name and source range. Throws on unparseable source.
+const indexElements = (source) => {
+  const ast = parse(source, PARSER_OPTIONS);
+  const elements = [];
+
+  const visit = (node, parentId, counters) => {
+    if (node.type === 'JSXElement') {
+      const index = counters[parentId] || 0;
+      counters[parentId] = index + 1;
+      const id = parentId.includes(':') ? `${parentId}.${index}` : `${parentId}:${index}`;
+      elements.push({ id, name: getElementName(node), start: node.start, end: node.end });
+
+      node.openingElement.attributes.forEach((attribute) => visit(attribute, id, counters));
+      node.children.forEach((child) => visit(child, id, counters));
+      return;
+    }
+
+    Object.keys(node).forEach((key) => {
+      if (SKIPPED_KEYS.has(key)) {
+        return;
+      }
+      const value = node[key];
+      if (Array.isArray(value)) {
+        value.forEach((item) => isNode(item) && visit(item, parentId, counters));
+      } else if (isNode(value)) {
+        visit(value, parentId, counters);
+      }
+    });
+  };
+
+  const scopeCounts = {};
+  ast.program.body.forEach((statement) => {
+    // A repeated top-level name (rare) gets a suffix so IDs stay unique
+    const name = getScopeName(statement);
+    const seen = scopeCounts[name] || 0;
+    scopeCounts[name] = seen + 1;
+    visit(statement, seen ? `${name}~${seen}` : name, {});
+  });
+
+  return elements;
+};
+
+// Locate an element and return it with its source text, or null if the ID doesn't exist
+const findElement = (source, id) => {
+  let elements;
+  try {
+    elements = indexElements(source);
+  } catch (error) {
+    return null;
+  }
+  const element = elements.find((item) => item.id === id);
+  return element ? { ...element, code: source.slice(element.start, element.end) } : null;
+};
+
+// True when `code` is exactly one JSX element (or fragment), as a patch must be
+const isSingleElement = (code) => {
+  try {
+    const expression = parseExpression(code.trim(), PARSER_OPTIONS);
+    return expression.type === 'JSXElement' || expression.type === 'JSXFragment';
+  } catch (error) {
+    return false;
+  }
+};
+
+// Swap the element's source range for `replacement`, leaving everything else untouched
+const replaceElement = (source, id, replacement) => {
+  const element = findElement(source, id);
+  if (!element) {
+    return null;
+  }
+  return source.slice(0, element.start) + replacement.trim() + source.slice(element.end);
+};
+
+module.exports = {
+  indexElements,
+  findElement,
+  isSingleElement,
+  replaceElement
+};
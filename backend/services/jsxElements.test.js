@@ -0,0 +1,66 @@
+const { indexElements, findElement, isSingleElement, replaceElement } = require('./jsxElements');
+
+const SOURCE = `function Badge({ label }) {
+  return <span className="badge">{label}</span>;
+}
+
+export default function App() {
+  return (
+    <div>
+      <h1>Title</h1>
+      <ul>
+        {items.map((item) => <li key={item}>{item}</li>)}
+      </ul>
+      <Badge label={<b>New</b>} />
+    </div>
+  );
+}`;
+
+describe('indexElements', () => {
+  it('gives each element a path ID scoped to its top-level declaration', () => {
+    expect(indexElements(SOURCE).map(({ id, name }) => `${id} ${name}`)).toEqual([
+      'Badge:0 span',
+      'App:0 div',
+      'App:0.0 h1',
+      'App:0.1 ul',
+      'App:0.1.0 li',
+      'App:0.2 Badge',
+      'App:0.2.0 b'
+    ]);
+  });
+
+  it('suffixes repeated top-level names so IDs stay unique', () => {
+    const ids = indexElements('render(<i />);\nrender(<b />);').map(element => element.id);
+
+    expect(ids).toEqual(['default:0', 'default~1:0']);
+  });
+});
+
+describe('findElement', () => {
+  it('returns the element with its source text', () => {
+    expect(findElement(SOURCE, 'App:0.0')).toMatchObject({ name: 'h1', code: '<h1>Title</h1>' });
+  });
+
+  it('returns null for unknown IDs and unparseable source', () => {
+    expect(findElement(SOURCE, 'App:0.9')).toBeNull();
+    expect(findElement('function App() { return <div>; }', 'App:0')).toBeNull();
+  });
+});
+
+describe('isSingleElement', () => {
+  it('accepts one element or fragment only', () => {
+    expect(isSingleElement('  <h1 className="title">Hi</h1>\n')).toBe(true);
+    expect(isSingleElement('<><b /><i /></>')).toBe(true);
+    expect(isSingleElement('<b /><i />')).toBe(false);
+    expect(isSingleElement('Here is the element: <b />')).toBe(false);
+  });
+});
+
+describe('replaceElement', () => {
+  it('swaps only the element source', () => {
+    const replaced = replaceElement(SOURCE, 'App:0.0', '\n<h2>Heading</h2>\n');
+
+    expect(replaced).toBe(SOURCE.replace('<h1>Title</h1>', '<h2>Heading</h2>'));
+    expect(replaceElement(SOURCE, 'Missing:0', '<b />')).toBeNull();
+  });
+});
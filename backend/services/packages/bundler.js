@@ -0,0 +1,147 @@
+const fs = require('fs/promises');
+const path = require('path');
+const { execFile } = require('child_process');
+const { promisify } = require('util');
+const esbuild = require('esbuild');
+const mongoose = require('mongoose');
+
+const execFileAsync = promisify(execFile);
+
+// Packages are installed on the local disk of the process that builds them; their bundles are
+// stored in GridFS, keyed by name@version, so every server process can serve them and previews
+// never fetch code from a CDN
+const CACHE_DIR = process.env.PACKAGE_CACHE_DIR || path.join(__dirname, '..', '..', '.package-cache');
+const BUNDLE_BUCKET = 'packageBundles';
+
+const INSTALL_TIMEOUT_MS = 120000;
+const MAX_BUNDLE_SIZE = 2 * 1024 * 1024;
+
+// Provided by the preview frame, never bundled
+const PEER_MODULES = ['react', 'react-dom', 'react-dom/client', 'react/jsx-runtime'];
+
+class PackageBuildError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'PackageBuildError';
+  }
+}
+
+// Scoped names contain a slash; keep each package@version in one flat directory
+const getCacheName = (name, version) => `${name.replace('/', '__')}@${version}`;
+
+const getBundleName = (name, version) => `${name}@${version}`;
+
+const getBucket = () => new mongoose.mongo.GridFSBucket(mongoose.connection.db, { bucketName: BUNDLE_BUCKET });
+
+const findBundleFiles = (name, version) => getBucket()
+  .find({ filename: getBundleName(name, version) })
+  .sort({ uploadDate: -1 })
+  .toArray();
+
+// A rebuilt bundle replaces the old one only once it is stored, so the package is never without one
+const saveBundle = async (name, version, code) => {
+  const bucket = getBucket();
+  const upload = bucket.openUploadStream(getBundleName(name, version), {
+    contentType: 'application/javascript',
+    metadata: { name, version }
+  });
+  await new Promise((resolve, reject) => {
+    upload.once('finish', resolve);
+    upload.once('error', reject);
+    upload.end(code);
+  });
+
+  const previous = (await findBundleFiles(name, version)).filter(file => !file._id.equals(upload.id));
+  await Promise.all(previous.map(file => bucket.delete(file._id)));
+};
+
+const installPackage = async (name, version) => {
+  const prefix = path.join(CACHE_DIR, 'installs', getCacheName(name, version));
+  await fs.mkdir(prefix, { recursive: true });
+  try {
+    // Lifecycle scripts are skipped: allow-listed packages are trusted to be code, not installers
+    await execFileAsync('npm', [
+      'install',
+      `${name}@${version}`,
+      '--prefix', prefix,
+      '--ignore-scripts',
+      '--no-audit',
+      '--no-fund',
+      '--omit=dev',
+      '--omit=peer'
+    ], { timeout: INSTALL_TIMEOUT_MS });
+  } catch (error) {
+    const output = (error.stderr || error.message || '').trim().split('\n').slice(-3).join(' ');
+    throw new PackageBuildError(`npm install ${name}@${version} failed: ${output}`);
+  }
+  return prefix;
+};
+
+// Bundle an installed package into one CommonJS module for the preview's require()
+const bundlePackage = async (name, version, installDir) => {
+  let result;
+  try {
+    result = await esbuild.build({
+      stdin: {
+        contents: `module.exports = require(${JSON.stringify(name)});`,
+        resolveDir: installDir,
+        loader: 'js'
+      },
+      bundle: true,
+      format: 'cjs',
+      platform: 'browser',
+      target: 'es2018',
+      minify: true,
+      write: false,
+      external: PEER_MODULES,
+      define: { 'process.env.NODE_ENV': '"production"' },
+      logLevel: 'silent'
+    });
+  } catch (error) {
+    const first = error.errors && error.errors[0];
+    throw new PackageBuildError(`Bundling ${name} failed: ${first ? first.text : error.message}`);
+  }
+
+  const code = result.outputFiles[0].text;
+  const size = Buffer.byteLength(code);
+  if (size > MAX_BUNDLE_SIZE) {
+    throw new PackageBuildError(`${name} bundles to ${Math.round(size / 1024)} KB; the limit is ${MAX_BUNDLE_SIZE / 1024} KB`);
+  }
+
+  await saveBundle(name, version, code);
+  return { size };
+};
+
+const buildBundle = async (name, version) => {
+  const installDir = await installPackage(name, version);
+  return bundlePackage(name, version, installDir);
+};
+
+// The bundle's code, or null when it has not been built
+const readBundle = async (name, version) => {
+  const [file] = await findBundleFiles(name, version);
+  if (!file) {
+    return null;
+  }
+
+  const chunks = [];
+  for await (const chunk of getBucket().openDownloadStream(file._id)) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+const removeBundle = async (name, version) => {
+  const bucket = getBucket();
+  const files = await findBundleFiles(name, version);
+  await Promise.all(files.map(file => bucket.delete(file._id)));
+  await fs.rm(path.join(CACHE_DIR, 'installs', getCacheName(name, version)), { recursive: true, force: true });
+};
+
+module.exports = {
+  PEER_MODULES,
+  PackageBuildError,
+  buildBundle,
+  readBundle,
+  removeBundle
+};
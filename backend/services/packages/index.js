@@ -0,0 +1,133 @@
+const PreviewPackage = require('../../models/PreviewPackage');
+const { setCache, getCache, clearCache } = require('../../config/redis');
+const { buildBundle, removeBundle } = require('./bundler');
+
+// The allow-list of npm packages generated components may import
+
+const CACHE_KEY = 'preview_packages:allowed';
+
+const PACKAGE_NAME = /^(@[a-z0-9-~][a-z0-9-._~]*\/)?[a-z0-9-~][a-z0-9-._~]*$/;
+// Exact versions only; ranges would let the preview and exports drift apart
+const PACKAGE_VERSION = /^\d+\.\d+\.\d+(-[0-9A-Za-z.-]+)?$/;
+
+// Never allow-listed: always provided by the preview and every export
+const BUILT_IN_PACKAGES = ['react', 'react-dom'];
+
+const validatePackageName = (name) => {
+  if (typeof name !== 'string' || name.length > 214 || !PACKAGE_NAME.test(name)) {
+    return 'name must be a valid npm package name';
+  }
+  if (BUILT_IN_PACKAGES.includes(name)) {
+    return `${name} is always available and cannot be allow-listed`;
+  }
+  return null;
+};
+
+const validatePackageVersion = (version) => {
+  return typeof version === 'string' && PACKAGE_VERSION.test(version)
+    ? null
+    : 'version must be an exact version such as 3.6.0';
+};
+
+// Enabled packages with a built bundle: [{ _id, name, version, description }]
+const getAllowedPackages = async () => {
+  const cached = await getCache(CACHE_KEY);
+  if (cached) {
+    return cached;
+  }
+
+  const packages = await PreviewPackage.find({ enabled: true, status: 'ready' })
+    .select('name version description')
+    .sort({ name: 1 })
+    .lean();
+  await setCache(CACHE_KEY, packages, 300);
+  return packages;
+};
+
+const invalidateAllowedPackages = () => clearCache(CACHE_KEY);
+
+// The allow-list as prompt instructions
+const describePackages = (packages) => {
+  if (packages.length === 0) {
+    return 'No npm packages are available; use React only.';
+  }
+  const list = packages
+    .map((pkg) => `- ${pkg.name}@${pkg.version}${pkg.description ? `: ${pkg.description}` : ''}`)
+    .join('\n');
+  return `These npm packages are installed and may be imported by their exact names; no other packages are available:\n${list}`;
+};
+
+// Package names a source imports, e.g. "date-fns" for `import { format } from 'date-fns/format'`
+const findPackageImports = (source) => {
+  const names = new Set();
+  const pattern = /(?:import\s+(?:[^'";]*?\s*from\s*)?|export\s+[^'";]*?\s*from\s*|require\s*\(\s*)['"]([^'"]+)['"]/g;
+  let match;
+  while ((match = pattern.exec(source)) !== null) {
+    const specifier = match[1];
+    if (specifier.startsWith('.') || specifier.startsWith('/')) {
+      continue;
+    }
+    const parts = specifier.split('/');
+    const name = specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+    if (!BUILT_IN_PACKAGES.includes(name)) {
+      names.add(name);
+    }
+  }
+  return [...names];
+};
+
+// Allow-listed packages imported anywhere in a file tree, as package.json dependencies
+const getPackageDependencies = (files, packages) => {
+  const imported = new Set();
+  files.forEach((file) => findPackageImports(file.content).forEach((name) => imported.add(name)));
+  return packages
+    .filter((pkg) => imported.has(pkg.name))
+    .reduce((dependencies, pkg) => ({ ...dependencies, [pkg.name]: pkg.version }), {});
+};
+
+// Builds run one at a time in the background; installs are heavy
+let buildQueue = Promise.resolve();
+
+const runBuild = async (packageId) => {
+  const pkg = await PreviewPackage.findById(packageId);
+  if (!pkg) {
+    return;
+  }
+
+  pkg.status = 'building';
+  pkg.error = null;
+  await pkg.save();
+
+  try {
+    const { size } = await buildBundle(pkg.name, pkg.version);
+    pkg.status = 'ready';
+    pkg.bundleSize = size;
+    pkg.builtAt = new Date();
+  } catch (error) {
+    console.error(`Package build error (${pkg.name}@${pkg.version}):`, error);
+    pkg.status = 'failed';
+    pkg.error = error.message;
+  }
+  await pkg.save();
+  await invalidateAllowedPackages();
+};
+
+// Queue a bundle build; resolves once it has finished (successfully or not)
+const queuePackageBuild = (packageId) => {
+  buildQueue = buildQueue.then(() => runBuild(packageId)).catch((error) => {
+    console.error('Package build queue error:', error);
+  });
+  return buildQueue;
+};
+
+module.exports = {
+  validatePackageName,
+  validatePackageVersion,
+  getAllowedPackages,
+  invalidateAllowedPackages,
+  describePackages,
+  findPackageImports,
+  getPackageDependencies,
+  queuePackageBuild,
+  removeBundle
+};
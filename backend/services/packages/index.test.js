@@ -0,0 +1,85 @@
+jest.mock('../../models/PreviewPackage', () => ({ find: jest.fn() }));
+jest.mock('../../config/redis', () => ({ getCache: jest.fn(), setCache: jest.fn(), clearCache: jest.fn() }));
+jest.mock('./bundler', () => ({ buildBundle: jest.fn(), removeBundle: jest.fn() }));
+
+const PreviewPackage = require('../../models/PreviewPackage');
+const { getCache, setCache } = require('../../config/redis');
+const {
+  validatePackageName,
+  validatePackageVersion,
+  getAllowedPackages,
+  describePackages,
+  findPackageImports,
+  getPackageDependencies
+} = require('./index');
+
+describe('preview packages', () => {
+  describe('validation', () => {
+    it('accepts npm names and exact versions only', () => {
+      expect(validatePackageName('date-fns')).toBeNull();
+      expect(validatePackageName('@headlessui/react')).toBeNull();
+      expect(validatePackageName('Lodash')).toBe('name must be a valid npm package name');
+      expect(validatePackageName('react')).toBe('react is always available and cannot be allow-listed');
+
+      expect(validatePackageVersion('3.6.0')).toBeNull();
+      expect(validatePackageVersion('1.0.0-beta.2')).toBeNull();
+      expect(validatePackageVersion('^3.6.0')).toMatch('exact version');
+    });
+  });
+
+  describe('findPackageImports', () => {
+    it('finds the packages imported, required and re-exported, without subpaths', () => {
+      const source = [
+        "import React, { useState } from 'react';",
+        "import { format } from 'date-fns/format';",
+        "import { Dialog } from '@headlessui/react';",
+        "import 'animate.css';",
+        "export { clsx } from 'clsx';",
+        "const confetti = require('canvas-confetti');",
+        "import { helper } from './utils';"
+      ].join('\n');
+
+      expect(findPackageImports(source)).toEqual(['date-fns', '@headlessui/react', 'animate.css', 'clsx', 'canvas-confetti']);
+    });
+  });
+
+  describe('getPackageDependencies', () => {
+    it('lists the allow-listed packages imported in any file', () => {
+      const packages = [
+        { name: 'date-fns', version: '3.6.0' },
+        { name: 'clsx', version: '2.1.1' },
+        { name: 'zod', version: '3.23.8' }
+      ];
+      const files = [
+        { path: 'Component.jsx', content: "import { format } from 'date-fns';" },
+        { path: 'utils.js', content: "import clsx from 'clsx';\nimport _ from 'lodash';" }
+      ];
+
+      expect(getPackageDependencies(files, packages)).toEqual({ 'date-fns': '3.6.0', clsx: '2.1.1' });
+    });
+  });
+
+  describe('describePackages', () => {
+    it('lists the packages for the prompt', () => {
+      expect(describePackages([{ name: 'clsx', version: '2.1.1', description: 'Class names' }]))
+        .toMatch('- clsx@2.1.1: Class names');
+      expect(describePackages([])).toBe('No npm packages are available; use React only.');
+    });
+  });
+
+  describe('getAllowedPackages', () => {
+    it('reads ready packages once and caches them', async () => {
+      const packages = [{ name: 'clsx', version: '2.1.1' }];
+      const lean = jest.fn().mockResolvedValue(packages);
+      PreviewPackage.find.mockReturnValue({ select: () => ({ sort: () => ({ lean }) }) });
+      getCache.mockResolvedValueOnce(null).mockResolvedValueOnce(packages);
+
+      expect(await getAllowedPackages()).toEqual(packages);
+      expect(PreviewPackage.find).toHaveBeenCalledWith({ enabled: true, status: 'ready' });
+      expect(setCache).toHaveBeenCalledWith('preview_packages:allowed', packages, 300);
+
+      expect(await getAllowedPackages()).toEqual(packages);
+      expect(PreviewPackage.find).toHaveBeenCalledTimes(1);
+    });
+  });
+});
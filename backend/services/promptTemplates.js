@@ -0,0 +1,173 @@
+const mongoose = require('mongoose');
+const PromptTemplate = require('../models/PromptTemplate');
+const PromptTemplateVersion = require('../models/PromptTemplateVersion');
+
+// Prompt templates tune the AI tasks without a deploy: a template's body is added to the
+// task's built-in instructions (or replaces them) and its system prompt is sent as the
+// system message. The context (code, packages, tokens) and the JSON format stay fixed.
+
+const TEMPLATE_TASKS = ['generate', 'refine', 'variations', 'analyze'];
+const MAX_TEMPLATE_LENGTH = 20000;
+const MAX_VARIABLES = 20;
+
+const VARIABLE_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const PLACEHOLDER = /\{\{\s*([^{}]*?)\s*\}\}/g;
+
+const BUILT_IN_INSTRUCTIONS = {
+  generate: `You are an expert React developer. Generate a complete React component based on the user's request.
+
+IMPORTANT REQUIREMENTS:
+1. Generate a React functional component
+2. Use React hooks and, where they help, the npm packages listed below - nothing else
+3. Include all CSS styles in a separate CSS block
+4. Make the component self-contained and preview-friendly
+5. Use semantic HTML elements and modern design principles
+6. Make the component responsive and accessible
+7. Use inline styles or CSS classes for styling
+8. Do NOT import React, and do not export the main component; React hooks are available globally
+9. The component should work in a browser environment with React 18`,
+  refine: `You are an expert React developer. Please refine/modify the existing React component based on the user's request.`,
+  variations: `You are an expert React developer. Generate different variations of the following React component. Each variation should have a different style, layout, or approach while maintaining the same core functionality.`,
+  analyze: `You are an expert React developer and code reviewer. Analyze the following React component code and provide feedback on:
+
+1. Code quality and best practices
+2. Performance considerations
+3. Accessibility improvements
+4. Security considerations
+5. Suggested optimizations
+6. Potential bugs or issues`
+};
+
+class PromptTemplateError extends Error {
+  constructor(message, code, status = 400) {
+    super(message);
+    this.name = 'PromptTemplateError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+const findPlaceholders = (text) => {
+  const names = [];
+  let match;
+  PLACEHOLDER.lastIndex = 0;
+  while ((match = PLACEHOLDER.exec(text)) !== null) {
+    names.push(match[1]);
+  }
+  return names;
+};
+
+// Check a template's prompt fields; returns { prompt } or { error }
+const validatePrompt = ({ systemPrompt = '', body = '', mode = 'append', variables = [] }) => {
+  if (typeof systemPrompt !== 'string' || typeof body !== 'string') {
+    return { error: 'systemPrompt and body must be strings' };
+  }
+  if (systemPrompt.length + body.length > MAX_TEMPLATE_LENGTH) {
+    return { error: `A template can have at most ${MAX_TEMPLATE_LENGTH} characters` };
+  }
+  if (!['append', 'replace'].includes(mode)) {
+    return { error: 'mode must be append or replace' };
+  }
+  if (mode === 'replace' && !body.trim()) {
+    return { error: 'A template that replaces the built-in instructions needs a body' };
+  }
+  if (!Array.isArray(variables) || variables.length > MAX_VARIABLES) {
+    return { error: `variables must be an array of at most ${MAX_VARIABLES} { name, label, defaultValue, required }` };
+  }
+
+  const normalized = [];
+  for (const variable of variables) {
+    const name = variable && typeof variable.name === 'string' ? variable.name.trim() : '';
+    if (!VARIABLE_NAME.test(name)) {
+      return { error: `Invalid variable name: ${variable && variable.name}. Use letters, digits and underscores` };
+    }
+    if (normalized.some((existing) => existing.name === name)) {
+      return { error: `Duplicate variable: ${name}` };
+    }
+    normalized.push({
+      name,
+      label: typeof variable.label === 'string' ? variable.label.trim() : '',
+      defaultValue: typeof variable.defaultValue === 'string' ? variable.defaultValue : '',
+      required: variable.required === true
+    });
+  }
+
+  const undeclared = findPlaceholders(`${systemPrompt}\n${body}`)
+    .find((name) => !normalized.some((variable) => variable.name === name));
+  if (undeclared !== undefined) {
+    return { error: `{{${undeclared}}} is not a declared variable` };
+  }
+
+  return { prompt: { systemPrompt, body, mode, variables: normalized } };
+};
+
+// Fill in {{name}} placeholders; missing required values are a 400
+const renderPrompt = (text, variables, values = {}) => {
+  return text.replace(PLACEHOLDER, (placeholder, name) => {
+    const variable = variables.find((candidate) => candidate.name === name);
+    const value = typeof values[name] === 'string' && values[name].trim() ? values[name] : variable.defaultValue;
+    if (variable.required && !value.trim()) {
+      throw new PromptTemplateError(`Template variable "${variable.label || name}" is required`, 'TEMPLATE_VARIABLE_MISSING');
+    }
+    return value;
+  });
+};
+
+// The template and its prompt at `version` (default: the head)
+const loadTemplate = async (user, task, templateId, version) => {
+  if (!mongoose.Types.ObjectId.isValid(templateId)) {
+    throw new PromptTemplateError('Prompt template not found', 'TEMPLATE_NOT_FOUND', 404);
+  }
+  const template = await PromptTemplate.findOne({
+    _id: templateId,
+    $or: [{ ownerId: user._id }, { visibility: 'shared' }]
+  });
+  if (!template) {
+    throw new PromptTemplateError('Prompt template not found', 'TEMPLATE_NOT_FOUND', 404);
+  }
+  if (template.task !== task) {
+    throw new PromptTemplateError(`"${template.name}" is a ${template.task} template, not ${task}`, 'TEMPLATE_TASK_MISMATCH');
+  }
+
+  if (version === undefined || version === null || Number(version) === template.version) {
+    return { template, prompt: template };
+  }
+  const snapshot = await PromptTemplateVersion.findOne({ templateId: template._id, version: Number(version) });
+  if (!snapshot) {
+    throw new PromptTemplateError(`Version ${version} of "${template.name}" not found`, 'TEMPLATE_VERSION_NOT_FOUND', 404);
+  }
+  return { template, prompt: snapshot };
+};
+
+// The prompt for an AI task: the picked template, else the task's default template, else
+// the built-in instructions. `promptTemplate` identifies the template version for the result.
+const resolvePrompt = async (user, task, { templateId, templateVersion, variables = {} } = {}) => {
+  let loaded = null;
+  if (templateId) {
+    loaded = await loadTemplate(user, task, templateId, templateVersion);
+  } else {
+    const template = await PromptTemplate.findOne({ task, visibility: 'shared', isDefault: true });
+    loaded = template ? { template, prompt: template } : null;
+  }
+
+  if (!loaded) {
+    return { promptTemplate: null, system: '', instructions: BUILT_IN_INSTRUCTIONS[task] };
+  }
+
+  const { template, prompt } = loaded;
+  const values = variables && typeof variables === 'object' ? variables : {};
+  const body = renderPrompt(prompt.body, prompt.variables, values).trim();
+  return {
+    promptTemplate: { id: template._id.toString(), name: template.name, version: prompt.version },
+    system: renderPrompt(prompt.systemPrompt, prompt.variables, values).trim(),
+    instructions: prompt.mode === 'replace' ? body : [BUILT_IN_INSTRUCTIONS[task], body].filter(Boolean).join('\n\n')
+  };
+};
+
+module.exports = {
+  TEMPLATE_TASKS,
+  BUILT_IN_INSTRUCTIONS,
+  PromptTemplateError,
+  validatePrompt,
+  resolvePrompt
+};
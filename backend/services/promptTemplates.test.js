@@ -0,0 +1,105 @@
+jest.mock('../models/PromptTemplate', () => ({ findOne: jest.fn() }));
+jest.mock('../models/PromptTemplateVersion', () => ({ findOne: jest.fn() }));
+
+const PromptTemplate = require('../models/PromptTemplate');
+const PromptTemplateVersion = require('../models/PromptTemplateVersion');
+const { BUILT_IN_INSTRUCTIONS, PromptTemplateError, validatePrompt, resolvePrompt } = require('./promptTemplates');
+
+const TEMPLATE_ID = '64b7f0c2a1b2c3d4e5f60718';
+const user = { _id: 'user-1' };
+
+const template = {
+  _id: TEMPLATE_ID,
+  name: 'Brand voice',
+  task: 'generate',
+  version: 2,
+  mode: 'append',
+  systemPrompt: 'You write for {{ brand }}.',
+  body: 'Use the {{tone}} tone.',
+  variables: [
+    { name: 'brand', label: 'Brand', defaultValue: '', required: true },
+    { name: 'tone', label: 'Tone', defaultValue: 'friendly', required: false }
+  ]
+};
+
+describe('promptTemplates', () => {
+  describe('validatePrompt', () => {
+    it('normalizes variables', () => {
+      const { prompt } = validatePrompt({ body: 'For {{ audience }}', variables: [{ name: ' audience ', required: 'yes' }] });
+
+      expect(prompt).toEqual({
+        systemPrompt: '',
+        body: 'For {{ audience }}',
+        mode: 'append',
+        variables: [{ name: 'audience', label: '', defaultValue: '', required: false }]
+      });
+    });
+
+    it('rejects undeclared placeholders, bad names and empty replacements', () => {
+      expect(validatePrompt({ body: 'For {{audience}}' }).error).toBe('{{audience}} is not a declared variable');
+      expect(validatePrompt({ variables: [{ name: '1st' }] }).error).toMatch('Invalid variable name: 1st');
+      expect(validatePrompt({ variables: [{ name: 'a' }, { name: 'a' }] }).error).toBe('Duplicate variable: a');
+      expect(validatePrompt({ mode: 'replace', body: ' ' }).error).toMatch('needs a body');
+      expect(validatePrompt({ mode: 'prepend' }).error).toBe('mode must be append or replace');
+    });
+  });
+
+  describe('resolvePrompt', () => {
+    beforeEach(() => {
+      PromptTemplate.findOne.mockReset();
+      PromptTemplateVersion.findOne.mockReset();
+    });
+
+    it('uses the built-in instructions without a template', async () => {
+      PromptTemplate.findOne.mockResolvedValue(null);
+
+      expect(await resolvePrompt(user, 'analyze')).toEqual({
+        promptTemplate: null,
+        system: '',
+        instructions: BUILT_IN_INSTRUCTIONS.analyze
+      });
+      expect(PromptTemplate.findOne).toHaveBeenCalledWith({ task: 'analyze', visibility: 'shared', isDefault: true });
+    });
+
+    it('fills in variables and appends the body to the built-in instructions', async () => {
+      PromptTemplate.findOne.mockResolvedValue(template);
+
+      const resolved = await resolvePrompt(user, 'generate', { templateId: TEMPLATE_ID, variables: { brand: 'Acme' } });
+
+      expect(resolved).toEqual({
+        promptTemplate: { id: TEMPLATE_ID, name: 'Brand voice', version: 2 },
+        system: 'You write for Acme.',
+        instructions: `${BUILT_IN_INSTRUCTIONS.generate}\n\nUse the friendly tone.`
+      });
+    });
+
+    it('uses an earlier version when asked for one', async () => {
+      PromptTemplate.findOne.mockResolvedValue(template);
+      PromptTemplateVersion.findOne.mockResolvedValue({ ...template, version: 1, mode: 'replace', body: 'Only {{tone}}.' });
+
+      const resolved = await resolvePrompt(user, 'generate', {
+        templateId: TEMPLATE_ID,
+        templateVersion: '1',
+        variables: { brand: 'Acme', tone: 'formal' }
+      });
+
+      expect(PromptTemplateVersion.findOne).toHaveBeenCalledWith({ templateId: TEMPLATE_ID, version: 1 });
+      expect(resolved.promptTemplate.version).toBe(1);
+      expect(resolved.instructions).toBe('Only formal.');
+    });
+
+    it('rejects missing required values, other tasks and unknown templates', async () => {
+      PromptTemplate.findOne.mockResolvedValue(template);
+      await expect(resolvePrompt(user, 'generate', { templateId: TEMPLATE_ID }))
+        .rejects.toMatchObject({ code: 'TEMPLATE_VARIABLE_MISSING', status: 400 });
+      await expect(resolvePrompt(user, 'refine', { templateId: TEMPLATE_ID }))
+        .rejects.toMatchObject({ code: 'TEMPLATE_TASK_MISMATCH' });
+
+      PromptTemplateVersion.findOne.mockResolvedValue(null);
+      await expect(resolvePrompt(user, 'generate', { templateId: TEMPLATE_ID, templateVersion: 5 }))
+        .rejects.toMatchObject({ code: 'TEMPLATE_VERSION_NOT_FOUND', status: 404 });
+
+      await expect(resolvePrompt(user, 'generate', { templateId: 'nope' })).rejects.toThrow(PromptTemplateError);
+    });
+  });
+});
@@ -0,0 +1,18 @@
+// Generated components call hooks as globals (the preview provides them), so code
+// leaving the preview needs an explicit React import
+
+const REACT_HOOKS = [
+  'useState', 'useEffect', 'useRef', 'useMemo', 'useCallback', 'useContext', 'useReducer',
+  'useLayoutEffect', 'useId', 'useTransition', 'useDeferredValue', 'useImperativeHandle'
+];
+
+// Import line for the hooks the source uses, or null if it already imports React
+const getReactImport = (source) => {
+  if (/from\s+['"]react['"]/.test(source)) {
+    return null;
+  }
+  const hooks = REACT_HOOKS.filter(hook => new RegExp(`(^|[^.\\w])${hook}\\s*[(<]`).test(source));
+  return hooks.length > 0 ? `import React, { ${hooks.join(', ')} } from 'react';` : "import React from 'react';";
+};
+
+module.exports = { getReactImport };
@@ -0,0 +1,458 @@
+const { parse } = require('@babel/parser');
+const postcss = require('postcss');
+
+// Deterministic accessibility and lint checks over a component's JSX and CSS.
+// They need no AI provider, so every analysis has reproducible findings.
+
+const PARSER_OPTIONS = {
+  sourceType: 'module',
+  plugins: ['jsx', 'typescript']
+};
+
+const SKIPPED_KEYS = new Set(['loc', 'start', 'end', 'extra', 'range', 'leadingComments', 'trailingComments', 'innerComments']);
+
+// Score lost per finding when no model score is available
+const SEVERITY_PENALTIES = { low: 2, medium: 5, high: 10, critical: 25 };
+
+const INTERACTIVE_ELEMENTS = new Set(['a', 'button', 'input', 'select', 'textarea', 'summary', 'option', 'label', 'details']);
+const FORM_CONTROLS = new Set(['input', 'select', 'textarea']);
+// Input types that are labelled by their value or are not shown at all
+const SELF_LABELLED_INPUT_TYPES = new Set(['hidden', 'submit', 'button', 'reset', 'image']);
+const KEY_HANDLERS = ['onKeyDown', 'onKeyUp', 'onKeyPress'];
+const FUNCTION_TYPES = new Set(['FunctionDeclaration', 'FunctionExpression', 'ArrowFunctionExpression', 'ObjectMethod', 'ClassMethod']);
+const LOOP_TYPES = new Set(['ForStatement', 'ForInStatement', 'ForOfStatement', 'WhileStatement', 'DoWhileStatement']);
+const HOOK_NAME = /^use[A-Z0-9]/;
+
+// WCAG AA minimum contrast for normal and large (24px and up) text
+const MIN_CONTRAST = 4.5;
+const MIN_CONTRAST_LARGE_TEXT = 3;
+const LARGE_TEXT_PX = 24;
+
+const NAMED_COLORS = {
+  black: [0, 0, 0],
+  white: [255, 255, 255],
+  gray: [128, 128, 128],
+  grey: [128, 128, 128],
+  silver: [192, 192, 192],
+  lightgray: [211, 211, 211],
+  lightgrey: [211, 211, 211],
+  darkgray: [169, 169, 169],
+  darkgrey: [169, 169, 169],
+  red: [255, 0, 0],
+  green: [0, 128, 0],
+  blue: [0, 0, 255],
+  navy: [0, 0, 128],
+  yellow: [255, 255, 0],
+  orange: [255, 165, 0],
+  purple: [128, 0, 128]
+};
+
+const isNode = (value) => value !== null && typeof value === 'object' && typeof value.type === 'string';
+
+// `line` is in the JSX unless `file` says otherwise
+const finding = (rule, severity, category, message, line = null, file = 'jsx') => ({ rule, severity, category, message, line, file });
+
+// Solid RGB color, or null for anything we can't compare (variables, gradients, transparency)
+const parseColor = (value) => {
+  const text = String(value).trim().toLowerCase().replace(/\s*!important$/, '');
+  if (NAMED_COLORS[text]) {
+    return NAMED_COLORS[text];
+  }
+
+  const hexMatch = text.match(/^#([0-9a-f]{3,8})$/);
+  if (hexMatch) {
+    let hex = hexMatch[1];
+    if (hex.length === 3 || hex.length === 4) {
+      hex = hex.split('').map((digit) => digit + digit).join('');
+    }
+    if ((hex.length !== 6 && hex.length !== 8) || (hex.length === 8 && hex.slice(6) !== 'ff')) {
+      return null;
+    }
+    return [0, 2, 4].map((offset) => parseInt(hex.slice(offset, offset + 2), 16));
+  }
+
+  const rgbMatch = text.match(/^rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)(?:\s*[,/]\s*([\d.]+)(%?))?\s*\)$/);
+  if (rgbMatch) {
+    if (rgbMatch[4] !== undefined && parseFloat(rgbMatch[4]) < (rgbMatch[5] ? 100 : 1)) {
+      return null;
+    }
+    return [1, 2, 3].map((index) => Number(rgbMatch[index]));
+  }
+
+  return null;
+};
+
+const relativeLuminance = (rgb) => {
+  const [r, g, b] = rgb.map((channel) => {
+    const value = channel / 255;
+    return value <= 0.03928 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+const contrastRatio = (first, second) => {
+  const [lighter, darker] = [relativeLuminance(first), relativeLuminance(second)].sort((a, b) => b - a);
+  return (lighter + 0.05) / (darker + 0.05);
+};
+
+// Finding for a text/background pair below the WCAG minimum, or null
+const checkContrast = ({ color, background, fontSize }, describe, line = null, file = 'jsx') => {
+  const foreground = color && parseColor(color);
+  const backdrop = background && parseColor(background);
+  if (!foreground || !backdrop) {
+    return null;
+  }
+
+  const minimum = parseFloat(fontSize) >= LARGE_TEXT_PX && /px$/.test(String(fontSize).trim())
+    ? MIN_CONTRAST_LARGE_TEXT
+    : MIN_CONTRAST;
+  const ratio = contrastRatio(foreground, backdrop);
+  if (ratio >= minimum) {
+    return null;
+  }
+
+  return finding(
+    'color-contrast',
+    ratio < MIN_CONTRAST_LARGE_TEXT ? 'high' : 'medium',
+    'accessibility',
+    `${describe}: text ${color} on ${background} has a contrast ratio of ${ratio.toFixed(2)}:1, below the WCAG AA minimum of ${minimum}:1`,
+    line,
+    file
+  );
+};
+
+const getElementName = (element) => {
+  const name = element.openingElement.name;
+  return name.type === 'JSXIdentifier' ? name.name : null;
+};
+
+const getAttribute = (element, name) => {
+  return element.openingElement.attributes.find(
+    (attribute) => attribute.type === 'JSXAttribute' && attribute.name.name === name
+  ) || null;
+};
+
+const hasSpreadProps = (element) => {
+  return element.openingElement.attributes.some((attribute) => attribute.type === 'JSXSpreadAttribute');
+};
+
+// Literal value of an attribute; true for a bare attribute, undefined when it is computed
+const getStaticValue = (attribute) => {
+  if (!attribute.value) {
+    return true;
+  }
+  const value = attribute.value.type === 'JSXExpressionContainer' ? attribute.value.expression : attribute.value;
+  if (value.type === 'StringLiteral' || value.type === 'NumericLiteral') {
+    return value.value;
+  }
+  if (value.type === 'TemplateLiteral' && value.expressions.length === 0) {
+    return value.quasis[0].value.cooked;
+  }
+  return undefined;
+};
+
+// Literal entries of a style={{ ... }} object, keyed by property name
+const getInlineStyle = (element) => {
+  const attribute = getAttribute(element, 'style');
+  const expression = attribute && attribute.value && attribute.value.type === 'JSXExpressionContainer'
+    ? attribute.value.expression
+    : null;
+  if (!expression || expression.type !== 'ObjectExpression') {
+    return {};
+  }
+
+  const style = {};
+  expression.properties.forEach((property) => {
+    if (property.type !== 'ObjectProperty' || property.computed) {
+      return;
+    }
+    const key = property.key.type === 'Identifier' ? property.key.name : property.key.value;
+    if (property.value.type === 'StringLiteral' || property.value.type === 'NumericLiteral') {
+      style[key] = property.value.value;
+    }
+  });
+  return style;
+};
+
+// Name of the function at ancestors[index], looking through wrappers like memo() and forwardRef()
+const getFunctionName = (ancestors, index) => {
+  const fn = ancestors[index].node;
+  if (fn.id) {
+    return fn.id.name;
+  }
+  if (fn.key && fn.key.type === 'Identifier') {
+    return fn.key.name;
+  }
+
+  let parentIndex = index - 1;
+  while (parentIndex >= 0 && ancestors[parentIndex].node.type === 'CallExpression' && ancestors[parentIndex].key === 'arguments') {
+    parentIndex -= 1;
+  }
+  const parent = ancestors[parentIndex];
+  if (!parent) {
+    return null;
+  }
+  if (parent.node.type === 'VariableDeclarator' && parent.node.id.type === 'Identifier') {
+    return parent.node.id.name;
+  }
+  if (parent.node.type === 'ExportDefaultDeclaration') {
+    return 'default';
+  }
+  return null;
+};
+
+// Why a hook call breaks the rules of hooks, or null when it is called correctly
+const getHookViolation = (ancestors) => {
+  for (let index = ancestors.length - 1; index >= 0; index -= 1) {
+    const { node, key } = ancestors[index];
+
+    if (FUNCTION_TYPES.has(node.type)) {
+      const name = getFunctionName(ancestors, index);
+      if (name === 'default' || (name && (/^[A-Z]/.test(name) || HOOK_NAME.test(name)))) {
+        return null;
+      }
+      return name
+        ? `is called inside "${name}", which is neither a component nor a custom hook`
+        : 'is called inside a callback; hooks must be called at the top level of a component';
+    }
+    if ((node.type === 'IfStatement' || node.type === 'ConditionalExpression') && key !== 'test') {
+      return 'is called conditionally; hooks must run in the same order on every render';
+    }
+    if ((node.type === 'LogicalExpression' && key === 'right') || (node.type === 'SwitchCase' && key === 'consequent')) {
+      return 'is called conditionally; hooks must run in the same order on every render';
+    }
+    if (LOOP_TYPES.has(node.type) && key !== 'init' && key !== 'right') {
+      return 'is called inside a loop; hooks must run in the same order on every render';
+    }
+  }
+  return 'is called outside of a component';
+};
+
+const getHookName = (call) => {
+  const { callee } = call;
+  if (callee.type === 'Identifier' && HOOK_NAME.test(callee.name)) {
+    return callee.name;
+  }
+  if (callee.type === 'MemberExpression' && !callee.computed && HOOK_NAME.test(callee.property.name)) {
+    return callee.property.name;
+  }
+  return null;
+};
+
+const checkElement = (element, ancestors, labelTargets) => {
+  const name = getElementName(element);
+  if (!name || !/^[a-z]/.test(name) || hasSpreadProps(element)) {
+    return [];
+  }
+
+  const findings = [];
+  const line = element.loc.start.line;
+
+  if (name === 'img' && !getAttribute(element, 'alt')) {
+    findings.push(finding(
+      'img-alt',
+      'high',
+      'accessibility',
+      '<img> has no alt text; describe the image, or use alt="" if it is decorative',
+      line
+    ));
+  }
+
+  if (FORM_CONTROLS.has(name)) {
+    const typeAttribute = getAttribute(element, 'type');
+    const type = typeAttribute ? getStaticValue(typeAttribute) : 'text';
+    const idAttribute = getAttribute(element, 'id');
+    const id = idAttribute ? getStaticValue(idAttribute) : null;
+    const labelled = ['aria-label', 'aria-labelledby', 'title'].some((attribute) => getAttribute(element, attribute))
+      || ancestors.some(({ node }) => node.type === 'JSXElement' && getElementName(node) === 'label')
+      || (id !== null && (id === undefined || labelTargets.has(id)));
+
+    if (!labelled && !SELF_LABELLED_INPUT_TYPES.has(type)) {
+      findings.push(finding(
+        'input-label',
+        'high',
+        'accessibility',
+        `<${name}> has no label; wrap it in a <label>, point a <label htmlFor> at its id, or add aria-label`,
+        line
+      ));
+    }
+  }
+
+  // Links without an href are not focusable and announce themselves as links, not actions
+  if (name === 'a' && getAttribute(element, 'onClick') && !getAttribute(element, 'href')) {
+    findings.push(finding(
+      'anchor-has-href',
+      'medium',
+      'accessibility',
+      '<a> has a click handler but no href; use a <button> for actions, or give the link an href',
+      line
+    ));
+  }
+
+  if (!INTERACTIVE_ELEMENTS.has(name) && getAttribute(element, 'onClick')) {
+    const hasRole = !!getAttribute(element, 'role');
+    const keyboardAccessible = !!getAttribute(element, 'tabIndex')
+      && KEY_HANDLERS.some((handler) => getAttribute(element, handler));
+
+    if (!hasRole || !keyboardAccessible) {
+      findings.push(finding(
+        'click-events-have-role',
+        hasRole ? 'low' : 'medium',
+        'accessibility',
+        hasRole
+          ? `<${name}> has a click handler but can't be reached by keyboard; add tabIndex={0} and an onKeyDown handler`
+          : `<${name}> has a click handler but is not a button; use a <button>, or add role="button", tabIndex={0} and an onKeyDown handler`,
+        line
+      ));
+    }
+  }
+
+  const style = getInlineStyle(element);
+  const contrast = checkContrast(
+    { color: style.color, background: style.backgroundColor || style.background, fontSize: style.fontSize },
+    `Inline style on <${name}>`,
+    line
+  );
+  if (contrast) {
+    findings.push(contrast);
+  }
+
+  return findings;
+};
+
+const checkJSX = (source) => {
+  let ast;
+  try {
+    ast = parse(source, PARSER_OPTIONS);
+  } catch (error) {
+    return [finding(
+      'syntax-error',
+      'critical',
+      'quality',
+      `The component does not parse: ${error.message}`,
+      error.loc ? error.loc.line : null
+    )];
+  }
+
+  const elements = [];
+  const hookCalls = [];
+  const labelTargets = new Set();
+  const ancestors = [];
+
+  const visit = (node) => {
+    if (node.type === 'JSXElement') {
+      elements.push({ element: node, ancestors: ancestors.slice() });
+      const htmlFor = getElementName(node) === 'label' && getAttribute(node, 'htmlFor');
+      if (htmlFor) {
+        labelTargets.add(getStaticValue(htmlFor));
+      }
+    }
+    if (node.type === 'CallExpression' && getHookName(node)) {
+      hookCalls.push({ call: node, ancestors: ancestors.slice() });
+    }
+
+    Object.keys(node).forEach((key) => {
+      if (SKIPPED_KEYS.has(key)) {
+        return;
+      }
+      const value = node[key];
+      ancestors.push({ node, key });
+      if (Array.isArray(value)) {
+        value.forEach((item) => isNode(item) && visit(item));
+      } else if (isNode(value)) {
+        visit(value);
+      }
+      ancestors.pop();
+    });
+  };
+  visit(ast.program);
+
+  const findings = [];
+  elements.forEach(({ element, ancestors: elementAncestors }) => {
+    findings.push(...checkElement(element, elementAncestors, labelTargets));
+  });
+  hookCalls.forEach(({ call, ancestors: callAncestors }) => {
+    const violation = getHookViolation(callAncestors);
+    if (violation) {
+      findings.push(finding('rules-of-hooks', 'high', 'quality', `${getHookName(call)} ${violation}`, call.loc.start.line));
+    }
+  });
+
+  return findings.sort((a, b) => a.line - b.line);
+};
+
+// CSS findings point at a line in the CSS (file 'css'): the rule's color declaration
+const checkCSS = (source) => {
+  let root;
+  try {
+    root = postcss.parse(source);
+  } catch (error) {
+    return [finding('css-syntax-error', 'high', 'quality', `CSS does not parse: ${error.reason || error.message}`, error.line || null, 'css')];
+  }
+
+  const findings = [];
+  root.walkRules((rule) => {
+    const declarations = {};
+    rule.each((node) => {
+      if (node.type === 'decl') {
+        declarations[node.prop.toLowerCase()] = node;
+      }
+    });
+
+    const value = (prop) => declarations[prop] && declarations[prop].value;
+    const background = declarations['background-color'] || declarations.background;
+    const anchor = declarations.color || background;
+    const contrast = checkContrast(
+      {
+        color: value('color'),
+        background: background && background.value,
+        fontSize: value('font-size')
+      },
+      `"${rule.selector}"`,
+      anchor ? anchor.source.start.line : rule.source.start.line,
+      'css'
+    );
+    if (contrast) {
+      findings.push(contrast);
+    }
+  });
+  return findings;
+};
+
+const runStaticChecks = ({ jsx = '', css = '' }) => [...checkJSX(jsx), ...checkCSS(css)];
+
+const scoreFindings = (findings) => {
+  const penalty = findings.reduce((total, { severity }) => total + SEVERITY_PENALTIES[severity], 0);
+  return Math.max(0, 100 - penalty);
+};
+
+const summarizeFindings = (findings, category, label) => {
+  const count = findings.filter((item) => item.category === category).length;
+  return count > 0
+    ? `Static checks found ${count} ${label} issue${count === 1 ? '' : 's'}.`
+    : `Static checks found no ${label} issues.`;
+};
+
+// Analysis built from static findings alone, for when no AI provider is available
+const createStaticAnalysis = (findings) => ({
+  codeQuality: summarizeFindings(findings, 'quality', 'code quality'),
+  performance: 'Not covered by static checks.',
+  accessibility: summarizeFindings(findings, 'accessibility', 'accessibility'),
+  security: 'Not covered by static checks.',
+  optimizations: [],
+  issues: findings,
+  overallScore: scoreFindings(findings)
+});
+
+// Static findings are listed first, and cap the model's score
+const mergeStaticFindings = (analysis, findings) => ({
+  ...analysis,
+  issues: [...findings, ...analysis.issues.map((issue) => ({ ...issue, rule: null, file: 'jsx' }))],
+  overallScore: Math.min(analysis.overallScore, scoreFindings(findings))
+});
+
+module.exports = {
+  runStaticChecks,
+  createStaticAnalysis,
+  mergeStaticFindings
+};
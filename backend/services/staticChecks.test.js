@@ -0,0 +1,111 @@
+const { runStaticChecks, createStaticAnalysis, mergeStaticFindings } = require('./staticChecks');
+
+const rules = (findings) => findings.map(({ rule, line, file }) => `${file}:${line} ${rule}`);
+
+describe('runStaticChecks', () => {
+  it('flags inaccessible elements on their line', () => {
+    const jsx = `function Card({ onOpen }) {
+  return (
+    <div onClick={onOpen}>
+      <img src="/logo.png" />
+      <input type="text" />
+      <a onClick={onOpen}>Open</a>
+    </div>
+  );
+}`;
+
+    expect(rules(runStaticChecks({ jsx }))).toEqual([
+      'jsx:3 click-events-have-role',
+      'jsx:4 img-alt',
+      'jsx:5 input-label',
+      'jsx:6 anchor-has-href'
+    ]);
+  });
+
+  it('accepts labelled controls and accessible click targets', () => {
+    const jsx = `function Form({ onOpen }) {
+  return (
+    <form>
+      <label htmlFor="email">Email</label>
+      <input id="email" />
+      <label>Name <input /></label>
+      <input type="submit" />
+      <img src="/divider.png" alt="" />
+      <a href="#more" onClick={onOpen}>More</a>
+      <div role="button" tabIndex={0} onClick={onOpen} onKeyDown={onOpen}>Open</div>
+    </form>
+  );
+}`;
+
+    expect(runStaticChecks({ jsx })).toEqual([]);
+  });
+
+  it('flags hooks called conditionally, in loops or outside components', () => {
+    const jsx = `function Card({ open, items }) {
+  if (open) {
+    useEffect(() => {});
+  }
+  items.forEach(() => useState(0));
+  const [value] = useState(0);
+  return <div>{value}</div>;
+}
+function helper() {
+  return useMemo(() => 1, []);
+}`;
+
+    expect(runStaticChecks({ jsx }).map(({ line, message }) => `${line} ${message}`)).toEqual([
+      '3 useEffect is called conditionally; hooks must run in the same order on every render',
+      '5 useState is called inside a callback; hooks must be called at the top level of a component',
+      '10 useMemo is called inside "helper", which is neither a component nor a custom hook'
+    ]);
+  });
+
+  it('checks contrast in inline styles and in the CSS, pointing at the CSS line', () => {
+    const jsx = `function Card() {
+  return <p style={{ color: '#999', backgroundColor: '#fff' }}>Faint</p>;
+}`;
+    const css = `.card {
+  padding: 8px;
+  color: #777;
+  background: white;
+}
+.title {
+  color: #aaa;
+  background-color: #fff;
+  font-size: 32px;
+}`;
+
+    const findings = runStaticChecks({ jsx, css });
+
+    expect(rules(findings)).toEqual(['jsx:2 color-contrast', 'css:3 color-contrast', 'css:7 color-contrast']);
+    expect(findings[1].message).toContain('".card": text #777 on white has a contrast ratio of 4.48:1');
+    expect(findings[2].message).toContain('below the WCAG AA minimum of 3:1');
+  });
+
+  it('reports code that does not parse', () => {
+    const [jsxFinding, cssFinding] = runStaticChecks({ jsx: 'function Card() {\n  return <div>;\n}', css: '.card {\n  color: red;\n' });
+
+    expect(jsxFinding).toMatchObject({ rule: 'syntax-error', severity: 'critical', line: 2, file: 'jsx' });
+    expect(cssFinding).toMatchObject({ rule: 'css-syntax-error', line: 1, file: 'css' });
+  });
+});
+
+describe('static analysis', () => {
+  const findings = runStaticChecks({ jsx: 'function Logo() {\n  return <img src="/logo.png" />;\n}' });
+
+  it('scores findings by severity when no model is available', () => {
+    const analysis = createStaticAnalysis(findings);
+
+    expect(analysis.overallScore).toBe(90);
+    expect(analysis.accessibility).toBe('Static checks found 1 accessibility issue.');
+    expect(analysis.codeQuality).toBe('Static checks found no code quality issues.');
+  });
+
+  it('lists static findings first and caps the model score', () => {
+    const merged = mergeStaticFindings({ overallScore: 95, issues: [{ message: 'Use a constant', severity: 'low' }] }, findings);
+
+    expect(merged.overallScore).toBe(90);
+    expect(merged.issues.map(issue => issue.rule)).toEqual(['img-alt', null]);
+    expect(merged.issues[1].file).toBe('jsx');
+  });
+});
@@ -0,0 +1,84 @@
+const path = require('path');
+const ts = require('typescript');
+
+// Type-check a TSX component with the compiler. The file is virtual but lives next
+// to this module, so `react` resolves to the @types/react installed for the backend.
+const FILE_NAME = path.join(__dirname, '__component__.tsx');
+// Allow-listed preview packages have no typings installed here; they are declared as untyped modules
+const PACKAGES_FILE_NAME = path.join(__dirname, '__packages__.d.ts');
+
+const COMPILER_OPTIONS = {
+  strict: true,
+  noEmit: true,
+  jsx: ts.JsxEmit.ReactJSX,
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Node10,
+  esModuleInterop: true,
+  allowSyntheticDefaultImports: true,
+  skipLibCheck: true,
+  lib: ['lib.es2020.d.ts', 'lib.dom.d.ts'],
+  types: []
+};
+
+// Parsed lib and @types files are the same for every check
+const sourceFileCache = new Map();
+
+const createHost = (tsx, declarations) => {
+  const host = ts.createCompilerHost(COMPILER_OPTIONS);
+  const { getSourceFile, fileExists, readFile } = host;
+  const virtualFiles = { [FILE_NAME]: tsx, [PACKAGES_FILE_NAME]: declarations };
+
+  host.getSourceFile = (fileName, languageVersion, ...rest) => {
+    if (fileName === FILE_NAME) {
+      return ts.createSourceFile(fileName, tsx, languageVersion, true, ts.ScriptKind.TSX);
+    }
+    if (fileName === PACKAGES_FILE_NAME) {
+      return ts.createSourceFile(fileName, declarations, languageVersion, true, ts.ScriptKind.TS);
+    }
+    if (!sourceFileCache.has(fileName)) {
+      sourceFileCache.set(fileName, getSourceFile.call(host, fileName, languageVersion, ...rest));
+    }
+    return sourceFileCache.get(fileName);
+  };
+  host.fileExists = (fileName) => fileName in virtualFiles || fileExists.call(host, fileName);
+  host.readFile = (fileName) => (fileName in virtualFiles ? virtualFiles[fileName] : readFile.call(host, fileName));
+  return host;
+};
+
+const SEVERITIES = {
+  [ts.DiagnosticCategory.Error]: 'error',
+  [ts.DiagnosticCategory.Warning]: 'warning',
+  [ts.DiagnosticCategory.Suggestion]: 'info',
+  [ts.DiagnosticCategory.Message]: 'info'
+};
+
+// Returns [{ line, column, endLine, endColumn, message, code, severity }], 1-based positions.
+// `packages` are the names of allow-listed npm packages the code may import.
+const checkTypes = (tsx, { packages = [] } = {}) => {
+  const declarations = packages.map((name) => `declare module ${JSON.stringify(name)};`).join('\n');
+  const program = ts.createProgram([FILE_NAME, PACKAGES_FILE_NAME], COMPILER_OPTIONS, createHost(tsx, declarations));
+  const sourceFile = program.getSourceFile(FILE_NAME);
+  const diagnostics = [
+    ...program.getSyntacticDiagnostics(sourceFile),
+    ...program.getSemanticDiagnostics(sourceFile)
+  ];
+
+  return diagnostics.map((diagnostic) => {
+    const start = diagnostic.start || 0;
+    const end = start + (diagnostic.length || 0);
+    const from = sourceFile.getLineAndCharacterOfPosition(start);
+    const to = sourceFile.getLineAndCharacterOfPosition(end);
+    return {
+      line: from.line + 1,
+      column: from.character + 1,
+      endLine: to.line + 1,
+      endColumn: to.character + 1,
+      message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+      code: diagnostic.code,
+      severity: SEVERITIES[diagnostic.category] || 'error'
+    };
+  });
+};
+
+module.exports = { checkTypes };
@@ -0,0 +1,661 @@
+const { parse } = require('@babel/parser');
+const { getReactImport } = require('../reactImports');
+
+// JSX -> TSX conversion. Types are inferred from how values are used: a Props
+// interface per component, useState/useRef type arguments where TypeScript can't
+// infer them (null, [], {}), and event parameters of handlers wired to elements.
+
+const PARSER_OPTIONS = {
+  sourceType: 'module',
+  plugins: ['jsx', 'typescript']
+};
+
+const SKIPPED_KEYS = new Set(['loc', 'start', 'end', 'extra', 'range', 'leadingComments', 'trailingComments', 'innerComments']);
+const FUNCTION_TYPES = new Set(['FunctionDeclaration', 'FunctionExpression', 'ArrowFunctionExpression', 'ObjectMethod', 'ClassMethod']);
+
+// Limits how far aliases (const x = props.y) are followed
+const MAX_DEPTH = 4;
+
+const ARRAY_CALLBACK_METHODS = new Set(['map', 'filter', 'forEach', 'find', 'findIndex', 'some', 'every', 'flatMap']);
+const ARRAY_METHODS = new Set(['reduce', 'join', 'sort', 'reverse', 'flat', 'push', 'splice']);
+// Methods returning an array of the same elements, so chained calls describe them too
+const ARRAY_PRESERVING_METHODS = new Set(['filter', 'sort', 'reverse']);
+const STRING_METHODS = new Set(['toUpperCase', 'toLowerCase', 'trim', 'split', 'charAt', 'startsWith', 'endsWith', 'replace', 'substring', 'localeCompare', 'padStart', 'padEnd']);
+// Methods strings and arrays share tell us nothing
+const AMBIGUOUS_MEMBERS = new Set(['length', 'includes', 'slice', 'indexOf', 'concat', 'toString', 'at']);
+
+const BOOLEAN_ATTRIBUTES = new Set(['disabled', 'checked', 'hidden', 'required', 'readOnly', 'multiple', 'autoFocus', 'open', 'selected']);
+const NUMBER_ATTRIBUTES = new Set(['tabIndex', 'rows', 'cols', 'maxLength', 'minLength', 'colSpan', 'rowSpan']);
+
+const HTML_ELEMENT_TYPES = {
+  a: 'HTMLAnchorElement',
+  audio: 'HTMLAudioElement',
+  button: 'HTMLButtonElement',
+  canvas: 'HTMLCanvasElement',
+  div: 'HTMLDivElement',
+  form: 'HTMLFormElement',
+  h1: 'HTMLHeadingElement',
+  h2: 'HTMLHeadingElement',
+  h3: 'HTMLHeadingElement',
+  h4: 'HTMLHeadingElement',
+  h5: 'HTMLHeadingElement',
+  h6: 'HTMLHeadingElement',
+  img: 'HTMLImageElement',
+  input: 'HTMLInputElement',
+  label: 'HTMLLabelElement',
+  li: 'HTMLLIElement',
+  ol: 'HTMLOListElement',
+  p: 'HTMLParagraphElement',
+  select: 'HTMLSelectElement',
+  span: 'HTMLSpanElement',
+  table: 'HTMLTableElement',
+  td: 'HTMLTableCellElement',
+  th: 'HTMLTableCellElement',
+  textarea: 'HTMLTextAreaElement',
+  tr: 'HTMLTableRowElement',
+  ul: 'HTMLUListElement',
+  video: 'HTMLVideoElement'
+};
+
+const isNode = (value) => value !== null && typeof value === 'object' && typeof value.type === 'string';
+
+// Visit every node with the chain of { node, key } leading to it
+const walk = (node, visitor, ancestors = []) => {
+  visitor(node, ancestors);
+  Object.keys(node).forEach((key) => {
+    const value = node[key];
+    if (SKIPPED_KEYS.has(key) || (!Array.isArray(value) && !isNode(value))) {
+      return;
+    }
+    ancestors.push({ node, key });
+    (Array.isArray(value) ? value : [value]).forEach((item) => isNode(item) && walk(item, visitor, ancestors));
+    ancestors.pop();
+  });
+};
+
+// Inferred types. `nullable` and `optional` are flags on any of them.
+const UNKNOWN = { kind: 'unknown' };
+const TRUTHY = { kind: 'truthy' };
+const primitive = (...names) => ({ kind: 'primitive', names });
+const named = (name) => ({ kind: 'named', name });
+const fn = (params) => ({ kind: 'function', params });
+const array = (element) => ({ kind: 'array', element });
+const object = (members) => ({ kind: 'object', members });
+
+const REACT_NODE = 'React.ReactNode';
+const isHandlerType = (type) => type.kind === 'named' && /Handler</.test(type.name);
+
+const RANKS = { unknown: 0, truthy: 1, named: 2, primitive: 3, array: 4, object: 4, function: 5 };
+
+const mergeTypes = (a, b) => {
+  let merged;
+  if (a.kind === 'unknown' || (a.kind === 'truthy' && b.kind !== 'unknown')) {
+    merged = b;
+  } else if (b.kind === 'unknown' || b.kind === 'truthy') {
+    merged = a;
+  } else if (a.kind === 'array' && b.kind === 'array') {
+    merged = array(mergeTypes(a.element, b.element));
+  } else if (a.kind === 'object' && b.kind === 'object') {
+    const members = { ...a.members };
+    Object.keys(b.members).forEach((key) => {
+      members[key] = members[key] ? mergeTypes(members[key], b.members[key]) : b.members[key];
+    });
+    merged = object(members);
+  } else if (a.kind === 'primitive' && b.kind === 'primitive') {
+    // A loose type only says what is accepted, so a narrower usage wins
+    if (a.loose && b.names.every((name) => a.names.includes(name))) {
+      merged = b;
+    } else if (b.loose && a.names.every((name) => b.names.includes(name))) {
+      merged = a;
+    } else {
+      merged = primitive(...a.names, ...b.names.filter((name) => !a.names.includes(name)));
+    }
+  } else if (isHandlerType(a) || isHandlerType(b)) {
+    // A handler type is a more precise function type
+    merged = isHandlerType(a) ? a : b;
+  } else if (a.kind === 'named' && b.kind === 'named') {
+    merged = a.name === REACT_NODE ? b : a;
+  } else if (a.kind === 'named' && a.name === REACT_NODE) {
+    merged = b;
+  } else if (b.kind === 'named' && b.name === REACT_NODE) {
+    merged = a;
+  } else {
+    merged = RANKS[b.kind] > RANKS[a.kind] ? b : a;
+  }
+
+  const flags = {};
+  if (a.nullable || b.nullable) flags.nullable = true;
+  if (a.optional || b.optional) flags.optional = true;
+  return Object.keys(flags).length > 0 ? { ...merged, ...flags } : merged;
+};
+
+const printKey = (key) => (/^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key));
+
+const printType = (type, indent = '') => {
+  let text;
+  switch (type.kind) {
+    case 'primitive':
+      text = type.names.join(' | ');
+      break;
+    case 'named':
+      text = type.name;
+      break;
+    case 'truthy':
+      text = 'boolean';
+      break;
+    case 'function': {
+      const params = type.params.length === 1
+        ? [`value: ${printType(type.params[0], indent)}`]
+        : type.params.map((param, index) => `arg${index + 1}: ${printType(param, indent)}`);
+      text = `(${params.join(', ')}) => void`;
+      break;
+    }
+    case 'array': {
+      const element = printType(type.element, indent);
+      text = /^[\w.]+$/.test(element) ? `${element}[]` : `Array<${element}>`;
+      break;
+    }
+    case 'object': {
+      const keys = Object.keys(type.members);
+      text = keys.length === 0
+        ? 'Record<string, unknown>'
+        : `{\n${keys.map((key) => `${indent}  ${printMember(key, type.members[key], `${indent}  `)}`).join('\n')}\n${indent}}`;
+      break;
+    }
+    default:
+      return 'unknown';
+  }
+  return type.nullable ? `${text} | null` : text;
+};
+
+const printMember = (key, type, indent) => `${printKey(key)}${type.optional ? '?' : ''}: ${printType(type, indent)};`;
+
+// Type of a literal, e.g. a default value or an argument passed to a state setter
+const literalType = (node) => {
+  switch (node.type) {
+    case 'StringLiteral':
+    case 'TemplateLiteral':
+      return primitive('string');
+    case 'NumericLiteral':
+      return primitive('number');
+    case 'BooleanLiteral':
+      return primitive('boolean');
+    case 'NullLiteral':
+      return { ...UNKNOWN, nullable: true };
+    case 'UnaryExpression':
+      return node.operator === '-' || node.operator === '+' ? primitive('number') : node.operator === '!' ? primitive('boolean') : UNKNOWN;
+    case 'ArrayExpression':
+      return array(node.elements.reduce(
+        (element, item) => (item && item.type !== 'SpreadElement' ? mergeTypes(element, literalType(item)) : element),
+        UNKNOWN
+      ));
+    case 'ObjectExpression': {
+      const members = {};
+      node.properties.forEach((property) => {
+        if (property.type === 'ObjectProperty' && !property.computed) {
+          members[property.key.name || property.key.value] = literalType(property.value);
+        }
+      });
+      return object(members);
+    }
+    case 'ArrowFunctionExpression':
+    case 'FunctionExpression':
+      return fn(node.params.map(() => UNKNOWN));
+    case 'NewExpression':
+      return node.callee.type === 'Identifier' && node.callee.name === 'Date' ? named('Date') : UNKNOWN;
+    case 'CallExpression': {
+      const { callee } = node;
+      const isDateNow = callee.type === 'MemberExpression' && callee.object.name === 'Date' && callee.property.name === 'now';
+      return isDateNow || (callee.type === 'Identifier' && ['Number', 'parseInt', 'parseFloat'].includes(callee.name))
+        ? primitive('number')
+        : callee.type === 'Identifier' && callee.name === 'String' ? primitive('string') : UNKNOWN;
+    }
+    default:
+      return UNKNOWN;
+  }
+};
+
+const getEventType = (attribute) => {
+  if (/^on(Click|DoubleClick|ContextMenu|Mouse)/.test(attribute)) return 'MouseEvent';
+  if (attribute === 'onChange') return 'ChangeEvent';
+  if (/^on(Submit|Input|Reset)$/.test(attribute)) return 'FormEvent';
+  if (/^onKey/.test(attribute)) return 'KeyboardEvent';
+  if (/^on(Focus|Blur)$/.test(attribute)) return 'FocusEvent';
+  if (/^on(Drag|Drop)/.test(attribute)) return 'DragEvent';
+  if (/^onTouch/.test(attribute)) return 'TouchEvent';
+  if (/^onPointer/.test(attribute)) return 'PointerEvent';
+  if (attribute === 'onWheel') return 'WheelEvent';
+  if (attribute === 'onScroll') return 'UIEvent';
+  return 'SyntheticEvent';
+};
+
+const getElementType = (tag) => HTML_ELEMENT_TYPES[tag] || 'HTMLElement';
+
+const getHandlerType = (event, element) => {
+  return event === 'SyntheticEvent' ? `React.ReactEventHandler<${element}>` : `React.${event.replace(/Event$/, 'EventHandler')}<${element}>`;
+};
+
+const getHostTag = (openingElement) => {
+  const { name } = openingElement;
+  return name.type === 'JSXIdentifier' && /^[a-z]/.test(name.name) ? name.name : null;
+};
+
+// Type of a value passed as a JSX attribute: what a host element accepts, or what a component
+// from the same file declares for that prop (see getComponentProp in convertToTsx)
+const attributeType = (attribute, openingElement, getComponentProp) => {
+  const tag = getHostTag(openingElement);
+  const name = attribute.name.name;
+  if (name === 'key') return { ...primitive('string', 'number'), loose: true };
+  if (name === 'ref') return UNKNOWN;
+  if (!tag) {
+    const component = openingElement.name.type === 'JSXIdentifier' ? openingElement.name.name : null;
+    // Whether the prop is optional there says nothing about the value passed
+    const { optional, ...type } = component ? getComponentProp(component, name) : UNKNOWN;
+    return type;
+  }
+  if (/^on[A-Z]/.test(name)) return named(getHandlerType(getEventType(name), getElementType(tag)));
+  if (name === 'style') return named('React.CSSProperties');
+  if (name === 'children') return named(REACT_NODE);
+  if (BOOLEAN_ATTRIBUTES.has(name)) return primitive('boolean');
+  if (NUMBER_ATTRIBUTES.has(name)) return primitive('number');
+  return primitive('string');
+};
+
+// Whether an identifier reads a binding, rather than naming a property or declaring one
+const isReference = (ancestors) => {
+  const { node: parent, key } = ancestors[ancestors.length - 1] || {};
+  if (!parent) return false;
+  const grandparent = ancestors.length > 1 ? ancestors[ancestors.length - 2].node : null;
+
+  if ((parent.type === 'MemberExpression' || parent.type === 'OptionalMemberExpression') && key === 'property' && !parent.computed) return false;
+  if (parent.type === 'ObjectProperty' && key === 'key' && !parent.computed) return false;
+  if (parent.type === 'ObjectProperty' && key === 'value' && grandparent && grandparent.type === 'ObjectPattern') return false;
+  if (parent.type === 'VariableDeclarator' && key === 'id') return false;
+  if (parent.type === 'AssignmentPattern' && key === 'left') return false;
+  if (['ArrayPattern', 'RestElement', 'ObjectMethod', 'ClassMethod'].includes(parent.type)) return false;
+  if (FUNCTION_TYPES.has(parent.type) && (key === 'params' || key === 'id')) return false;
+  return true;
+};
+
+// Nearest enclosing function body, where a local alias would be used
+const getScope = (ancestors, fallback) => {
+  for (let index = ancestors.length - 1; index >= 0; index -= 1) {
+    if (FUNCTION_TYPES.has(ancestors[index].node.type)) {
+      return ancestors[index].node.body;
+    }
+  }
+  return fallback;
+};
+
+const createInference = (root, getComponentProp = () => UNKNOWN) => {
+  // Object type for a destructuring pattern, e.g. a component's ({ title, items = [] })
+  const inferPattern = (pattern, scope, depth) => {
+    const members = {};
+    pattern.properties.forEach((property) => {
+      if (property.type !== 'ObjectProperty' || property.computed) {
+        return;
+      }
+      const key = property.key.name || property.key.value;
+      let value = property.value;
+      let type = UNKNOWN;
+
+      if (value.type === 'AssignmentPattern') {
+        type = { ...literalType(value.right), optional: true };
+        value = value.left;
+      }
+      if (value.type === 'Identifier') {
+        type = mergeTypes(type, inferBinding(scope, value.name, depth));
+      } else if (value.type === 'ObjectPattern') {
+        type = mergeTypes(type, inferPattern(value, scope, depth));
+      }
+      // Literal defaults like null say nothing about the type once usage is known
+      members[key] = type.kind === 'unknown' && type.nullable ? { ...UNKNOWN, optional: type.optional } : type;
+    });
+    return object(members);
+  };
+
+  // Element type from an array method callback, e.g. items.map((item) => item.name)
+  const inferCallbackElement = (callback, depth) => {
+    if (!callback || !FUNCTION_TYPES.has(callback.type) || callback.params.length === 0) {
+      return UNKNOWN;
+    }
+    const param = callback.params[0];
+    if (param.type === 'Identifier') return inferBinding(callback.body, param.name, depth + 1);
+    if (param.type === 'ObjectPattern') return inferPattern(param, callback.body, depth + 1);
+    return UNKNOWN;
+  };
+
+  // What using `node` (an identifier or member expression) at this position says about its type
+  const inferUsage = (node, ancestors, depth) => {
+    const { node: parent, key } = ancestors[ancestors.length - 1] || {};
+    if (!parent) return UNKNOWN;
+    const rest = ancestors.slice(0, -1);
+    const grandparent = rest.length > 0 ? rest[rest.length - 1].node : null;
+
+    switch (parent.type) {
+      case 'MemberExpression':
+      case 'OptionalMemberExpression': {
+        if (key !== 'object') return UNKNOWN;
+        const nullable = parent.type === 'OptionalMemberExpression' ? { nullable: true } : {};
+        if (parent.computed) {
+          return parent.property.type === 'NumericLiteral' ? { ...array(inferUsage(parent, rest, depth)), ...nullable } : UNKNOWN;
+        }
+        const property = parent.property.name;
+        const isCall = grandparent && /CallExpression$/.test(grandparent.type) && grandparent.callee === parent;
+        if ((ARRAY_CALLBACK_METHODS.has(property) || ARRAY_METHODS.has(property)) && isCall) {
+          let type = array(ARRAY_CALLBACK_METHODS.has(property) ? inferCallbackElement(grandparent.arguments[0], depth) : UNKNOWN);
+          if (ARRAY_PRESERVING_METHODS.has(property)) {
+            const chained = inferUsage(grandparent, rest.slice(0, -1), depth);
+            type = chained.kind === 'array' ? mergeTypes(type, chained) : type;
+          }
+          return { ...type, ...nullable };
+        }
+        if (ARRAY_METHODS.has(property)) return { ...array(UNKNOWN), ...nullable };
+        if (STRING_METHODS.has(property)) return { ...primitive('string'), ...nullable };
+        if (property === 'toFixed') return { ...primitive('number'), ...nullable };
+        if (AMBIGUOUS_MEMBERS.has(property)) return UNKNOWN;
+        return { ...object({ [property]: inferUsage(parent, rest, depth) }), ...nullable };
+      }
+      case 'CallExpression':
+      case 'OptionalCallExpression':
+        return key === 'callee' ? fn(parent.arguments.map(literalType)) : UNKNOWN;
+      case 'JSXExpressionContainer':
+        if (grandparent && (grandparent.type === 'JSXElement' || grandparent.type === 'JSXFragment')) return named(REACT_NODE);
+        if (grandparent && grandparent.type === 'JSXAttribute') return attributeType(grandparent, rest[rest.length - 2].node, getComponentProp);
+        return UNKNOWN;
+      case 'BinaryExpression': {
+        const other = key === 'left' ? parent.right : parent.left;
+        if (['-', '*', '/', '%', '**', '<', '>', '<=', '>='].includes(parent.operator)) return primitive('number');
+        if (parent.operator === '+') {
+          if (other.type === 'StringLiteral' || other.type === 'TemplateLiteral') return primitive('string');
+          return other.type === 'NumericLiteral' ? primitive('number') : UNKNOWN;
+        }
+        if (['===', '!==', '==', '!='].includes(parent.operator)) return literalType(other);
+        return UNKNOWN;
+      }
+      case 'LogicalExpression':
+        return key === 'left' ? TRUTHY : inferUsage(parent, rest, depth);
+      case 'ConditionalExpression':
+        return key === 'test' ? TRUTHY : inferUsage(parent, rest, depth);
+      case 'IfStatement':
+      case 'WhileStatement':
+        return key === 'test' ? TRUTHY : UNKNOWN;
+      case 'UnaryExpression':
+        return parent.operator === '!' ? TRUTHY : parent.operator === '-' ? primitive('number') : UNKNOWN;
+      case 'UpdateExpression':
+        return primitive('number');
+      case 'AssignmentExpression':
+        return ['-=', '*=', '/='].includes(parent.operator) ? primitive('number') : UNKNOWN;
+      case 'SpreadElement':
+        return grandparent && grandparent.type === 'ObjectExpression' ? object({}) : array(UNKNOWN);
+      case 'VariableDeclarator': {
+        if (key !== 'init' || depth >= MAX_DEPTH) return UNKNOWN;
+        const scope = getScope(rest, root);
+        if (parent.id.type === 'ObjectPattern') return inferPattern(parent.id, scope, depth + 1);
+        if (parent.id.type === 'Identifier') return inferBinding(scope, parent.id.name, depth + 1);
+        return UNKNOWN;
+      }
+      case 'ForOfStatement': {
+        const declaration = parent.left.type === 'VariableDeclaration' ? parent.left.declarations[0].id : null;
+        return key === 'right' && declaration && declaration.type === 'Identifier'
+          ? array(inferBinding(parent.body, declaration.name, depth + 1))
+          : UNKNOWN;
+      }
+      default:
+        return UNKNOWN;
+    }
+  };
+
+  // Type of the binding `name` from every use of it inside `scope`
+  const inferBinding = (scope, name, depth = 0) => {
+    let type = UNKNOWN;
+    walk(scope, (node, ancestors) => {
+      if (node.type === 'Identifier' && node.name === name && isReference(ancestors)) {
+        type = mergeTypes(type, inferUsage(node, ancestors.slice(), depth));
+      }
+    });
+    return type;
+  };
+
+  return { inferBinding, inferPattern };
+};
+
+const isHookCall = (node, hook) => {
+  if (!node || node.type !== 'CallExpression') return false;
+  const { callee } = node;
+  return (callee.type === 'Identifier' && callee.name === hook)
+    || (callee.type === 'MemberExpression' && !callee.computed && callee.property.name === hook);
+};
+
+// Top-level components: capitalized function declarations and arrow/function constants
+const getComponents = (ast) => {
+  const components = [];
+  ast.program.body.forEach((statement) => {
+    const declaration = /^Export/.test(statement.type) && statement.declaration ? statement.declaration : statement;
+    if (declaration.type === 'FunctionDeclaration' && declaration.id && /^[A-Z]/.test(declaration.id.name)) {
+      components.push({ name: declaration.id.name, fn: declaration, statement });
+    }
+    if (declaration.type === 'VariableDeclaration') {
+      declaration.declarations.forEach((declarator) => {
+        const { id, init } = declarator;
+        if (id.type === 'Identifier' && /^[A-Z]/.test(id.name) && init
+          && (init.type === 'ArrowFunctionExpression' || init.type === 'FunctionExpression')) {
+          components.push({ name: id.name, fn: init, statement });
+        }
+      });
+    }
+  });
+  return components;
+};
+
+const convertToTsx = (jsx) => {
+  const ast = parse(jsx, PARSER_OPTIONS);
+  const components = getComponents(ast);
+
+  // Props passed on to another component of the file take the type that component infers for them
+  const propsTypes = {};
+  const getComponentProp = (componentName, prop) => {
+    const propsType = getPropsType(componentName);
+    return propsType && propsType.members[prop] ? propsType.members[prop] : UNKNOWN;
+  };
+  const { inferBinding, inferPattern } = createInference(ast.program, getComponentProp);
+
+  // Inferred props of a component, or null. Null while it is being inferred too, which ends
+  // the cycle of components that render each other (or themselves).
+  const getPropsType = (componentName) => {
+    if (componentName in propsTypes) {
+      return propsTypes[componentName];
+    }
+    propsTypes[componentName] = null;
+    const component = components.find((candidate) => candidate.name === componentName);
+    const param = component && component.fn.params[0];
+    const pattern = param && (param.type === 'AssignmentPattern' ? param.left : param);
+    if (!pattern || pattern.typeAnnotation) {
+      return null;
+    }
+
+    let propsType = null;
+    if (pattern.type === 'ObjectPattern') {
+      propsType = inferPattern(pattern, component.fn.body, 0);
+    } else if (pattern.type === 'Identifier') {
+      const inferred = inferBinding(component.fn.body, pattern.name);
+      propsType = inferred.kind === 'object' ? inferred : null;
+    }
+    propsTypes[componentName] = propsType;
+    return propsType;
+  };
+  const edits = [];
+  const insert = (position, text) => edits.push({ start: position, end: position, text });
+
+  // Annotate a parameter, adding the parentheses a lone arrow parameter needs
+  const annotateParam = (owner, param, annotation) => {
+    const target = param.type === 'AssignmentPattern' ? param.left : param;
+    const bare = owner.type === 'ArrowFunctionExpression' && owner.params.length === 1
+      && !jsx.slice(owner.start, param.start).includes('(');
+    if (bare) {
+      insert(param.start, '(');
+    }
+    insert(target.end, `: ${annotation}${bare ? ')' : ''}`);
+  };
+
+  const getIndent = (position) => {
+    const lineStart = jsx.lastIndexOf('\n', position - 1) + 1;
+    return jsx.slice(lineStart, position).match(/^[ \t]*/)[0];
+  };
+
+  components.forEach((component) => {
+    const { name, fn: componentFn, statement } = component;
+    const body = componentFn.body;
+
+    // Props interface
+    const param = componentFn.params[0];
+    const propsType = getPropsType(name);
+    if (propsType && Object.keys(propsType.members).length > 0) {
+      const interfaceName = `${name}Props`;
+      const members = Object.keys(propsType.members).map((key) => `  ${printMember(key, propsType.members[key], '  ')}`);
+      insert(statement.start, `interface ${interfaceName} {\n${members.join('\n')}\n}\n\n`);
+      annotateParam(componentFn, param, interfaceName);
+    }
+
+    // Handlers wired to host elements, directly or through an inline arrow
+    const handlerUses = {};
+    const addHandlerUse = (handler, attribute, tag) => {
+      handlerUses[handler] = handlerUses[handler] || [];
+      handlerUses[handler].push({ event: getEventType(attribute), element: getElementType(tag) });
+    };
+    const refTargets = {};
+
+    walk(body, (node, ancestors) => {
+      if (node.type !== 'JSXAttribute' || !node.value || node.value.type !== 'JSXExpressionContainer') {
+        return;
+      }
+      const tag = getHostTag(ancestors[ancestors.length - 1].node);
+      const attribute = node.name.name;
+      const expression = node.value.expression;
+      if (!tag) {
+        return;
+      }
+
+      if (attribute === 'ref' && expression.type === 'Identifier') {
+        refTargets[expression.name] = getElementType(tag);
+      }
+      if (!/^on[A-Z]/.test(attribute)) {
+        return;
+      }
+      if (expression.type === 'Identifier') {
+        addHandlerUse(expression.name, attribute, tag);
+      } else if (FUNCTION_TYPES.has(expression.type) && expression.params[0] && expression.params[0].type === 'Identifier') {
+        const eventName = expression.params[0].name;
+        walk(expression.body, (inner) => {
+          if (inner.type === 'CallExpression' && inner.callee.type === 'Identifier'
+            && inner.arguments[0] && inner.arguments[0].type === 'Identifier' && inner.arguments[0].name === eventName) {
+            addHandlerUse(inner.callee.name, attribute, tag);
+          }
+        });
+      }
+    });
+
+    const typeHandler = (handlerName, handlerFn) => {
+      const uses = handlerUses[handlerName];
+      const eventParam = handlerFn.params[0];
+      if (!uses || !eventParam || eventParam.type !== 'Identifier' || eventParam.typeAnnotation) {
+        return;
+      }
+      const element = uses.every((use) => use.element === uses[0].element) ? uses[0].element : 'HTMLElement';
+      annotateParam(handlerFn, eventParam, `React.${uses[0].event}<${element}>`);
+    };
+
+    (body.type === 'BlockStatement' ? body.body : []).forEach((statementInBody) => {
+      if (statementInBody.type === 'FunctionDeclaration' && statementInBody.id) {
+        typeHandler(statementInBody.id.name, statementInBody);
+        return;
+      }
+      if (statementInBody.type !== 'VariableDeclaration') {
+        return;
+      }
+
+      statementInBody.declarations.forEach(({ id, init }) => {
+        if (!init) {
+          return;
+        }
+        if (id.type === 'Identifier' && FUNCTION_TYPES.has(init.type)) {
+          typeHandler(id.name, init);
+        }
+
+        // useState only needs a type argument when the initial value doesn't pin the type down
+        if (isHookCall(init, 'useState') && !init.typeParameters && id.type === 'ArrayPattern' && id.elements[0] && id.elements[0].type === 'Identifier') {
+          const initial = init.arguments[0];
+          const empty = !initial
+            || (initial.type === 'Identifier' && initial.name === 'undefined')
+            || initial.type === 'NullLiteral'
+            || (initial.type === 'ArrayExpression' && initial.elements.length === 0)
+            || (initial.type === 'ObjectExpression' && initial.properties.length === 0);
+          if (!empty) {
+            return;
+          }
+
+          let stateType = inferBinding(body, id.elements[0].name);
+          const setter = id.elements[1];
+          if (setter && setter.type === 'Identifier') {
+            walk(body, (node) => {
+              if (node.type === 'CallExpression' && node.callee.type === 'Identifier' && node.callee.name === setter.name
+                && node.arguments[0] && !FUNCTION_TYPES.has(node.arguments[0].type) && node.arguments[0].type !== 'NullLiteral') {
+                stateType = mergeTypes(stateType, literalType(node.arguments[0]));
+              }
+            });
+          }
+          if (initial && initial.type === 'ArrayExpression') stateType = mergeTypes(array(UNKNOWN), stateType);
+          if (initial && initial.type === 'ObjectExpression') {
+            // Starting from {}, every member is missing until it is set
+            const members = {};
+            Object.keys(stateType.members || {}).forEach((key) => {
+              members[key] = { ...stateType.members[key], optional: true };
+            });
+            stateType = object(members);
+          }
+
+          const { nullable, optional, ...bare } = stateType;
+          let printed = printType(bare, getIndent(statementInBody.start));
+          if (initial && initial.type === 'NullLiteral' && printed !== 'unknown') printed += ' | null';
+          if ((!initial || initial.type === 'Identifier') && printed !== 'unknown') printed += ' | undefined';
+          insert(init.callee.end, `<${printed}>`);
+        }
+
+        // useRef(null) attached to an element, or holding a timer
+        if (isHookCall(init, 'useRef') && !init.typeParameters && id.type === 'Identifier'
+          && (!init.arguments[0] || init.arguments[0].type === 'NullLiteral')) {
+          let refType = refTargets[id.name] || null;
+          if (!refType) {
+            walk(body, (node) => {
+              const { left, right } = node;
+              if (node.type === 'AssignmentExpression' && left.type === 'MemberExpression' && left.object.name === id.name
+                && left.property.name === 'current' && right.type === 'CallExpression' && right.callee.type === 'Identifier'
+                && ['setTimeout', 'setInterval'].includes(right.callee.name)) {
+                refType = `ReturnType<typeof ${right.callee.name}> | null`;
+              }
+            });
+          }
+          if (refType) {
+            insert(init.callee.end, `<${refType}>`);
+          }
+        }
+      });
+    });
+  });
+
+  let tsx = edits
+    .sort((a, b) => b.start - a.start)
+    .reduce((result, { start, end, text }) => result.slice(0, start) + text + result.slice(end), jsx)
+    .trim();
+
+  const reactImport = getReactImport(tsx);
+  if (reactImport) {
+    tsx = `${reactImport}\n\n${tsx}`;
+  }
+  if (components.length > 0 && !/export\s+default\b/.test(tsx)) {
+    tsx += `\n\nexport default ${components[0].name};`;
+  }
+  return `${tsx}\n`;
+};
+
+module.exports = { convertToTsx };
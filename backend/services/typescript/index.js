@@ -0,0 +1,4 @@
+const { convertToTsx } = require('./convert');
+const { checkTypes } = require('./check');
+
+module.exports = { convertToTsx, checkTypes };
@@ -0,0 +1,77 @@
+const { convertToTsx, checkTypes } = require('./index');
+
+// The compiler loads the React typings on first use
+jest.setTimeout(30000);
+
+const LIST = `function Card({ label, onSelect }) {
+  return <button onClick={onSelect}>{label}</button>;
+}
+
+function List({ items, title = 'Items' }) {
+  const [selected, setSelected] = useState(null);
+  const inputRef = useRef(null);
+  const handleChange = (event) => setSelected(event.target.value);
+  return (
+    <div>
+      <h2>{title}</h2>
+      <input ref={inputRef} onChange={handleChange} />
+      {items.map((item) => <Card key={item.id} label={item.name} onSelect={() => setSelected(item.id)} />)}
+      {selected}
+    </div>
+  );
+}`;
+
+describe('convertToTsx', () => {
+  const tsx = convertToTsx(LIST);
+
+  it('infers props from how they are used, including by components in the same file', () => {
+    expect(tsx).toContain(`interface CardProps {
+  label: React.ReactNode;
+  onSelect: React.MouseEventHandler<HTMLButtonElement>;
+}`);
+    expect(tsx).toContain(`interface ListProps {
+  items: Array<{
+    id: string | number;
+    name: React.ReactNode;
+  }>;
+  title?: string;
+}`);
+    expect(tsx).toContain('function List({ items, title = \'Items\' }: ListProps) {');
+  });
+
+  it('types state, refs and event handlers', () => {
+    expect(tsx).toContain('useState<React.ReactNode | null>(null)');
+    expect(tsx).toContain('useRef<HTMLInputElement>(null)');
+    expect(tsx).toContain('(event: React.ChangeEvent<HTMLInputElement>) =>');
+  });
+
+  it('adds the React import and a default export', () => {
+    expect(tsx.startsWith("import React, { useState, useRef } from 'react';\n")).toBe(true);
+    expect(tsx.endsWith('export default Card;\n')).toBe(true);
+  });
+
+  it('produces code that type-checks', () => {
+    expect(checkTypes(tsx)).toEqual([]);
+  });
+});
+
+describe('checkTypes', () => {
+  it('reports errors with 1-based positions', () => {
+    expect(checkTypes('const count: number = "one";\n')).toEqual([{
+      line: 1,
+      column: 7,
+      endLine: 1,
+      endColumn: 12,
+      message: "Type 'string' is not assignable to type 'number'.",
+      code: 2322,
+      severity: 'error'
+    }]);
+  });
+
+  it('treats allow-listed packages as untyped modules', () => {
+    const source = "import confetti from 'canvas-confetti';\n\nconfetti();\n";
+
+    expect(checkTypes(source).map(diagnostic => diagnostic.code)).toEqual([2307]);
+    expect(checkTypes(source, { packages: ['canvas-confetti'] })).toEqual([]);
+  });
+});
@@ -0,0 +1,321 @@
+const crypto = require('crypto');
+const mongoose = require('mongoose');
+const { getRedisClient } = require('../config/redis');
+const UsageRecord = require('../models/UsageRecord');
+const Session = require('../models/Session');
+const User = require('../models/User');
+
+// AI calls are metered per request (see models/UsageRecord.js) and limited per plan.
+// Cache hits are recorded but count against neither quota. A request reserves its share of the
+// quota before it starts and gives it back once its usage is recorded, so requests running at
+// the same time cannot all pass the check.
+
+const PLANS = ['free', 'pro', 'team'];
+
+// null means unlimited; override with AI_PLAN_QUOTAS, e.g. {"free":{"requestsPerDay":20}}
+const DEFAULT_PLAN_QUOTAS = {
+  free: { requestsPerDay: 100, tokensPerMonth: 500000 },
+  pro: { requestsPerDay: 1000, tokensPerMonth: 10000000 },
+  team: { requestsPerDay: null, tokensPerMonth: null }
+};
+
+// USD per million tokens; override or extend with AI_MODEL_PRICES, e.g. {"my-model":{"input":1,"output":2}}
+const DEFAULT_MODEL_PRICES = {
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 }
+};
+
+// Models without a price are charged like the most expensive default rather than for free;
+// give them a price in AI_MODEL_PRICES (zero for local models)
+const UNPRICED_MODEL_PRICE = { input: 2.5, output: 10 };
+
+// Each request still running counts as one request and this many tokens. Reservations of
+// processes that stopped expire after RESERVATION_TTL (ms); queued jobs hold theirs too.
+const RESERVED_TOKENS = 8000;
+const RESERVATION_TTL = 60 * 60 * 1000;
+const reservationsKey = (userId) => `ai_quota:reserved:${userId}`;
+
+const MAX_REPORT_DAYS = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// JSON from an environment variable merged over the defaults, key by key
+const withOverrides = (name, defaults) => {
+  if (!process.env[name]) {
+    return defaults;
+  }
+  try {
+    const overrides = JSON.parse(process.env[name]);
+    return Object.keys({ ...defaults, ...overrides }).reduce((merged, key) => {
+      merged[key] = { ...defaults[key], ...overrides[key] };
+      return merged;
+    }, {});
+  } catch (error) {
+    console.error(`Invalid ${name}, using the defaults:`, error.message);
+    return defaults;
+  }
+};
+
+const getPlanQuotas = () => withOverrides('AI_PLAN_QUOTAS', DEFAULT_PLAN_QUOTAS);
+const getModelPrices = () => withOverrides('AI_MODEL_PRICES', DEFAULT_MODEL_PRICES);
+
+const warnedModels = new Set();
+
+const estimateCost = (model, inputTokens, outputTokens) => {
+  let price = getModelPrices()[model];
+  if (!price) {
+    if (!warnedModels.has(model)) {
+      warnedModels.add(model);
+      console.warn(`No price for AI model ${model} in AI_MODEL_PRICES; charging ${JSON.stringify(UNPRICED_MODEL_PRICE)}`);
+    }
+    price = UNPRICED_MODEL_PRICE;
+  }
+  return ((inputTokens * (price.input || 0)) + (outputTokens * (price.output || 0))) / 1e6;
+};
+
+// Quotas reset at midnight UTC and on the first of the month
+const startOfDay = (date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+const startOfMonth = (date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+
+const toObjectId = (id) => new mongoose.Types.ObjectId(String(id));
+
+// The user's limits and consumption; `exceeded` names the first limit reached, else null.
+// `pending` requests are still running and count as RESERVED_TOKENS each.
+const getQuotaStatus = async (user, pending = 0) => {
+  const plan = PLANS.includes(user.plan) ? user.plan : 'free';
+  const limits = getPlanQuotas()[plan] || DEFAULT_PLAN_QUOTAS.free;
+  const now = new Date();
+  const dayStart = startOfDay(now);
+  const monthStart = startOfMonth(now);
+
+  const [totals] = await UsageRecord.aggregate([
+    { $match: { userId: toObjectId(user._id), cached: false, createdAt: { $gte: monthStart } } },
+    {
+      $group: {
+        _id: null,
+        tokensThisMonth: { $sum: { $add: ['$inputTokens', '$outputTokens'] } },
+        requestsToday: { $sum: { $cond: [{ $gte: ['$createdAt', dayStart] }, 1, 0] } }
+      }
+    }
+  ]);
+  const used = {
+    requestsToday: totals ? totals.requestsToday : 0,
+    tokensThisMonth: totals ? totals.tokensThisMonth : 0
+  };
+  const resets = {
+    requestsPerDay: new Date(dayStart.getTime() + DAY_MS),
+    tokensPerMonth: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1))
+  };
+
+  let exceeded = null;
+  if (limits.requestsPerDay !== null && used.requestsToday + pending >= limits.requestsPerDay) {
+    exceeded = 'requestsPerDay';
+  } else if (limits.tokensPerMonth !== null && used.tokensThisMonth + pending * RESERVED_TOKENS >= limits.tokensPerMonth) {
+    exceeded = 'tokensPerMonth';
+  }
+
+  return { plan, limits, used, pending, resets, exceeded };
+};
+
+// Reserve one request of the user's quota. Resolves with { id, userId, quota }, where the quota
+// counts the other reservations as pending; release the reservation whether it was exceeded or
+// not. Reserving before reading the recorded usage, and releasing only after recording it,
+// means a request is always counted in one or the other.
+const reserveQuota = async (user) => {
+  const id = crypto.randomUUID();
+  const key = reservationsKey(user._id);
+  const now = Date.now();
+  const [, , count] = await getRedisClient().multi()
+    .zRemRangeByScore(key, 0, now)
+    .zAdd(key, { score: now + RESERVATION_TTL, value: id })
+    .zCard(key)
+    .pExpire(key, RESERVATION_TTL)
+    .exec();
+
+  const quota = await getQuotaStatus(user, count - 1);
+  return { id, userId: String(user._id), quota };
+};
+
+const releaseQuota = async (reservation) => {
+  if (reservation) {
+    await getRedisClient().zRem(reservationsKey(reservation.userId), reservation.id);
+  }
+};
+
+const createMeter = () => ({
+  calls: 0,
+  cacheHits: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  latencyMs: 0
+});
+
+const addUsage = (meter, usage) => {
+  if (usage) {
+    meter.inputTokens += usage.inputTokens || 0;
+    meter.outputTokens += usage.outputTokens || 0;
+  }
+};
+
+// The provider with every complete() and stream() call counted in `meter`
+const meterProvider = (provider, meter) => {
+  const complete = async (options) => {
+    const started = Date.now();
+    meter.calls += 1;
+    try {
+      const result = await provider.complete(options);
+      addUsage(meter, result.usage);
+      return result;
+    } finally {
+      meter.latencyMs += Date.now() - started;
+    }
+  };
+
+  async function* stream(options) {
+    const started = Date.now();
+    meter.calls += 1;
+    try {
+      for await (const chunk of provider.stream(options)) {
+        if (chunk.done) {
+          addUsage(meter, chunk.usage);
+        }
+        yield chunk;
+      }
+    } finally {
+      meter.latencyMs += Date.now() - started;
+    }
+  }
+
+  return { ...provider, meter, complete, stream };
+};
+
+// Store what a request used; requests that neither called the model nor hit the cache are skipped
+const recordUsage = async ({ userId, sessionId, endpoint, provider, model, meter, succeeded }) => {
+  if (meter.calls === 0 && meter.cacheHits === 0) {
+    return null;
+  }
+
+  return UsageRecord.create({
+    userId,
+    sessionId: sessionId && mongoose.Types.ObjectId.isValid(sessionId) ? sessionId : null,
+    endpoint,
+    provider,
+    model,
+    calls: meter.calls,
+    cached: meter.calls === 0,
+    inputTokens: meter.inputTokens,
+    outputTokens: meter.outputTokens,
+    latencyMs: meter.latencyMs,
+    costUsd: estimateCost(model, meter.inputTokens, meter.outputTokens),
+    succeeded
+  });
+};
+
+const usageTotals = {
+  requests: { $sum: 1 },
+  cacheHits: { $sum: { $cond: ['$cached', 1, 0] } },
+  failures: { $sum: { $cond: ['$succeeded', 0, 1] } },
+  inputTokens: { $sum: '$inputTokens' },
+  outputTokens: { $sum: '$outputTokens' },
+  costUsd: { $sum: '$costUsd' },
+  avgLatencyMs: { $avg: { $cond: ['$cached', null, '$latencyMs'] } }
+};
+
+const EMPTY_TOTALS = { requests: 0, cacheHits: 0, failures: 0, inputTokens: 0, outputTokens: 0, costUsd: 0, avgLatencyMs: null };
+
+const withoutId = ({ _id, ...totals }) => ({ ...totals, avgLatencyMs: totals.avgLatencyMs === null ? null : Math.round(totals.avgLatencyMs) });
+
+const getReportStart = (days) => {
+  const span = Math.min(Math.max(parseInt(days) || 30, 1), MAX_REPORT_DAYS);
+  return { days: span, since: new Date(startOfDay(new Date()).getTime() - (span - 1) * DAY_MS) };
+};
+
+// Consumption over the last `days` days, by day, model and session; all users when userId is null
+const getUsageReport = async (userId, days) => {
+  const { days: span, since } = getReportStart(days);
+  const match = { createdAt: { $gte: since } };
+  const facets = {};
+  if (userId) {
+    match.userId = toObjectId(userId);
+  } else {
+    facets.byUser = [
+      { $group: { _id: '$userId', ...usageTotals } },
+      { $sort: { costUsd: -1, requests: -1 } },
+      { $limit: 50 }
+    ];
+  }
+
+  const [result] = await UsageRecord.aggregate([
+    { $match: match },
+    {
+      $facet: {
+        ...facets,
+        totals: [{ $group: { _id: null, ...usageTotals } }],
+        daily: [
+          { $group: { _id: { $dateToString: { format: '%Y-%m-%d', date: '$createdAt' } }, ...usageTotals } },
+          { $sort: { _id: 1 } }
+        ],
+        byModel: [
+          { $group: { _id: { provider: '$provider', model: '$model' }, ...usageTotals } },
+          { $sort: { costUsd: -1, requests: -1 } }
+        ],
+        bySession: [
+          { $match: { sessionId: { $ne: null } } },
+          { $group: { _id: '$sessionId', ...usageTotals } },
+          { $sort: { costUsd: -1, requests: -1 } },
+          { $limit: 10 }
+        ]
+      }
+    }
+  ]);
+
+  // Days without usage are listed with zeros, so charts have no gaps
+  const daily = [];
+  for (let day = 0; day < span; day++) {
+    const date = new Date(since.getTime() + day * DAY_MS).toISOString().slice(0, 10);
+    const found = result.daily.find(entry => entry._id === date);
+    daily.push({ date, ...(found ? withoutId(found) : EMPTY_TOTALS) });
+  }
+
+  const sessions = await Session.find({ _id: { $in: result.bySession.map(entry => entry._id) }, isActive: true }).select('title');
+  const users = result.byUser
+    ? await User.find({ _id: { $in: result.byUser.map(entry => entry._id) } }).select('name email plan')
+    : [];
+
+  return {
+    days: span,
+    since,
+    totals: result.totals[0] ? withoutId(result.totals[0]) : EMPTY_TOTALS,
+    daily,
+    byModel: result.byModel.map(entry => ({ ...entry._id, ...withoutId(entry) })),
+    bySession: result.bySession.map(entry => {
+      const session = sessions.find(candidate => candidate._id.equals(entry._id));
+      return { sessionId: entry._id, title: session ? session.title : null, ...withoutId(entry) };
+    }),
+    ...(userId ? {} : {
+      byUser: result.byUser.map(entry => {
+        const user = users.find(candidate => candidate._id.equals(entry._id));
+        return {
+          userId: entry._id,
+          name: user ? user.name : null,
+          email: user ? user.email : null,
+          plan: user ? user.plan : null,
+          ...withoutId(entry)
+        };
+      })
+    })
+  };
+};
+
+module.exports = {
+  PLANS,
+  getQuotaStatus,
+  reserveQuota,
+  releaseQuota,
+  createMeter,
+  meterProvider,
+  recordUsage,
+  getUsageReport
+};
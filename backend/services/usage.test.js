@@ -0,0 +1,167 @@
+jest.mock('../config/redis', () => ({ getRedisClient: jest.fn() }));
+jest.mock('../models/UsageRecord', () => ({ aggregate: jest.fn(), create: jest.fn(async (record) => record) }));
+jest.mock('../models/Session', () => ({}));
+jest.mock('../models/User', () => ({}));
+
+const { getRedisClient } = require('../config/redis');
+const UsageRecord = require('../models/UsageRecord');
+const { reserveQuota, releaseQuota, createMeter, meterProvider, recordUsage } = require('./usage');
+
+const USER_ID = '64b7f0c2a1b2c3d4e5f60718';
+
+// Reservations of one user, in a sorted set kept in memory
+const createFakeRedis = () => {
+  const reservations = new Map();
+  const client = {
+    reservations,
+    zRem: jest.fn(async (key, id) => (reservations.delete(id) ? 1 : 0))
+  };
+  client.multi = () => {
+    const commands = [];
+    const transaction = {
+      zRemRangeByScore: (key, min, max) => {
+        commands.push(() => reservations.forEach((score, id) => score <= max && reservations.delete(id)));
+        return transaction;
+      },
+      zAdd: (key, { score, value }) => {
+        commands.push(() => reservations.set(value, score));
+        return transaction;
+      },
+      zCard: () => {
+        commands.push(() => reservations.size);
+        return transaction;
+      },
+      pExpire: () => {
+        commands.push(() => true);
+        return transaction;
+      },
+      exec: async () => commands.map(run => run())
+    };
+    return transaction;
+  };
+  return client;
+};
+
+describe('usage', () => {
+  let redis;
+  const originalQuotas = process.env.AI_PLAN_QUOTAS;
+  const originalPrices = process.env.AI_MODEL_PRICES;
+
+  beforeEach(() => {
+    redis = createFakeRedis();
+    getRedisClient.mockReturnValue(redis);
+    UsageRecord.aggregate.mockReset();
+    process.env.AI_PLAN_QUOTAS = JSON.stringify({ free: { requestsPerDay: 3 } });
+    delete process.env.AI_MODEL_PRICES;
+  });
+
+  afterEach(() => {
+    [['AI_PLAN_QUOTAS', originalQuotas], ['AI_MODEL_PRICES', originalPrices]].forEach(([name, value]) => {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    });
+  });
+
+  describe('reserveQuota', () => {
+    it('counts the reservations of requests still running against the quota', async () => {
+      UsageRecord.aggregate.mockResolvedValue([{ requestsToday: 1, tokensThisMonth: 1000 }]);
+      const user = { _id: USER_ID, plan: 'free' };
+
+      const first = await reserveQuota(user);
+      expect(first.quota).toMatchObject({ plan: 'free', pending: 0, exceeded: null });
+      expect(first.quota.limits).toEqual({ requestsPerDay: 3, tokensPerMonth: 500000 });
+
+      const second = await reserveQuota(user);
+      expect(second.quota).toMatchObject({ pending: 1, exceeded: null });
+
+      const third = await reserveQuota(user);
+      expect(third.quota).toMatchObject({ pending: 2, exceeded: 'requestsPerDay' });
+
+      await releaseQuota(third);
+      await releaseQuota(second);
+      expect(redis.reservations.size).toBe(1);
+      expect((await reserveQuota(user)).quota).toMatchObject({ pending: 1, exceeded: null });
+    });
+
+    it('treats unknown plans as free and checks the monthly tokens', async () => {
+      UsageRecord.aggregate.mockResolvedValue([{ requestsToday: 0, tokensThisMonth: 500000 }]);
+
+      const { quota } = await reserveQuota({ _id: USER_ID, plan: 'enterprise' });
+
+      expect(quota).toMatchObject({ plan: 'free', exceeded: 'tokensPerMonth' });
+    });
+
+    it('ignores releasing no reservation', async () => {
+      await releaseQuota(null);
+      expect(redis.zRem).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('meterProvider', () => {
+    it('counts calls and tokens of completions and streams', async () => {
+      const provider = {
+        name: 'fake',
+        complete: jest.fn().mockResolvedValue({ text: '{}', usage: { inputTokens: 10, outputTokens: 5 } }),
+        stream: async function* () {
+          yield { text: '{' };
+          yield { text: '}', done: true, usage: { inputTokens: 20, outputTokens: 7 } };
+        }
+      };
+      const meter = createMeter();
+      const metered = meterProvider(provider, meter);
+
+      await metered.complete({ prompt: 'A' });
+      const chunks = [];
+      for await (const chunk of metered.stream({ prompt: 'B' })) {
+        chunks.push(chunk.text);
+      }
+
+      expect(chunks).toEqual(['{', '}']);
+      expect(meter).toMatchObject({ calls: 2, inputTokens: 30, outputTokens: 12 });
+      expect(metered.name).toBe('fake');
+    });
+
+    it('counts calls that fail', async () => {
+      const meter = createMeter();
+      const metered = meterProvider({ complete: jest.fn().mockRejectedValue(new Error('Timeout')) }, meter);
+
+      await expect(metered.complete({})).rejects.toThrow('Timeout');
+      expect(meter).toMatchObject({ calls: 1, inputTokens: 0 });
+    });
+  });
+
+  describe('recordUsage', () => {
+    const record = (meter, model = 'gpt-4o') => recordUsage({
+      userId: USER_ID,
+      sessionId: 'not-an-id',
+      endpoint: 'generate',
+      provider: 'openai',
+      model,
+      meter: { ...createMeter(), ...meter },
+      succeeded: true
+    });
+
+    it('prices tokens by model', async () => {
+      const usage = await record({ calls: 1, inputTokens: 1e6, outputTokens: 1e5 });
+
+      expect(usage).toMatchObject({ sessionId: null, cached: false, costUsd: 3.5 });
+    });
+
+    it('charges unpriced models like the most expensive default unless given a price', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      expect((await record({ calls: 1, inputTokens: 1e6 }, 'local-model')).costUsd).toBe(2.5);
+
+      process.env.AI_MODEL_PRICES = JSON.stringify({ 'local-model': { input: 0, output: 0 } });
+      expect((await record({ calls: 1, inputTokens: 1e6 }, 'local-model')).costUsd).toBe(0);
+      console.warn.mockRestore();
+    });
+
+    it('records cache hits as cached and skips requests that did nothing', async () => {
+      expect(await record({ cacheHits: 1 })).toMatchObject({ cached: true, costUsd: 0 });
+      expect(await record({})).toBeNull();
+    });
+  });
+});
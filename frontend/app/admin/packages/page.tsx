@@ -0,0 +1,268 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { clsx } from 'clsx';
+import { useAuth } from '@/hooks/useAuth';
+import { PreviewPackage } from '@/types';
+import apiClient from '@/lib/api';
+import { getErrorMessage } from '@/lib/errors';
+import { clearPreviewPackages } from '@/lib/preview/packages';
+import { Button } from '@/components/ui/Button';
+import { Card, CardHeader, CardBody } from '@/components/ui/Card';
+import { Input } from '@/components/ui/Input';
+import { ArrowLeft, Package, Plus, RefreshCw, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+// Packages still building are polled until they settle
+const BUILD_POLL_INTERVAL = 3000;
+
+const statusStyles: Record<PreviewPackage['status'], string> = {
+  pending: 'text-gray-600 dark:text-gray-300',
+  building: 'text-primary-600 dark:text-primary-400',
+  ready: 'text-success-600 dark:text-success-400',
+  failed: 'text-error-600 dark:text-error-400',
+};
+
+const formatSize = (bytes: number | null) => (bytes === null ? '' : `${(bytes / 1024).toFixed(1)} KB`);
+
+export default function PackagesPage() {
+  const { user, isAuthenticated } = useAuth();
+  const router = useRouter();
+  const [packages, setPackages] = useState<PreviewPackage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [adding, setAdding] = useState(false);
+  const [newPackage, setNewPackage] = useState({ name: '', version: '', description: '' });
+
+  const isAdmin = user?.role === 'admin';
+
+  const loadPackages = useCallback(async () => {
+    try {
+      setPackages(await apiClient.getPackages());
+      // Editors opened after this pick up the changes
+      clearPreviewPackages();
+    } catch (error) {
+      toast.error('Failed to load packages');
+      console.error('Load packages error:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      router.push('/');
+      return;
+    }
+    if (user && !isAdmin) {
+      router.push('/dashboard');
+      return;
+    }
+    loadPackages();
+  }, [isAuthenticated, user, isAdmin, router, loadPackages]);
+
+  const building = packages.some((pkg) => pkg.status === 'pending' || pkg.status === 'building');
+  useEffect(() => {
+    if (!building) {
+      return;
+    }
+    const timer = setInterval(loadPackages, BUILD_POLL_INTERVAL);
+    return () => clearInterval(timer);
+  }, [building, loadPackages]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setAdding(true);
+      await apiClient.createPackage({
+        name: newPackage.name.trim(),
+        version: newPackage.version.trim(),
+        description: newPackage.description.trim(),
+      });
+      toast.success(`Building ${newPackage.name.trim()}`);
+      setNewPackage({ name: '', version: '', description: '' });
+      await loadPackages();
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to add package'));
+      console.error('Add package error:', error);
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleUpdate = async (pkg: PreviewPackage, data: { version?: string; enabled?: boolean }) => {
+    try {
+      await apiClient.updatePackage(pkg._id, data);
+      await loadPackages();
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to update package'));
+      console.error('Update package error:', error);
+    }
+  };
+
+  const handleChangeVersion = (pkg: PreviewPackage) => {
+    const version = window.prompt(`New exact version for ${pkg.name}`, pkg.version);
+    if (version && version.trim() !== pkg.version) {
+      handleUpdate(pkg, { version: version.trim() });
+    }
+  };
+
+  const handleRebuild = async (pkg: PreviewPackage) => {
+    try {
+      await apiClient.rebuildPackage(pkg._id);
+      await loadPackages();
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to rebuild package'));
+      console.error('Rebuild package error:', error);
+    }
+  };
+
+  const handleDelete = async (pkg: PreviewPackage) => {
+    if (!confirm(`Remove ${pkg.name} from the allow-list? Components that import it will stop previewing.`)) {
+      return;
+    }
+    try {
+      await apiClient.deletePackage(pkg._id);
+      toast.success(`${pkg.name} removed`);
+      await loadPackages();
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to remove package'));
+      console.error('Delete package error:', error);
+    }
+  };
+
+  if (!isAuthenticated || !isAdmin) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <header className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center space-x-4 py-6">
+            <Button variant="ghost" size="sm" onClick={() => router.push('/dashboard')} leftIcon={<ArrowLeft className="h-4 w-4" />}>
+              Dashboard
+            </Button>
+            <Package className="h-6 w-6 text-primary-600" />
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Preview Packages</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <Card>
+          <CardHeader>
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Add a package</h2>
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              Generated components may import allow-listed packages. Each one is installed and bundled on the server,
+              and exports list it in package.json at this version.
+            </p>
+          </CardHeader>
+          <CardBody>
+            <form onSubmit={handleAdd} className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-end">
+              <Input
+                label="Name"
+                placeholder="date-fns"
+                value={newPackage.name}
+                onChange={(e) => setNewPackage({ ...newPackage, name: e.target.value })}
+              />
+              <Input
+                label="Exact version"
+                placeholder="3.6.0"
+                value={newPackage.version}
+                onChange={(e) => setNewPackage({ ...newPackage, version: e.target.value })}
+              />
+              <Input
+                label="Description for the model"
+                placeholder="Date formatting and arithmetic"
+                value={newPackage.description}
+                onChange={(e) => setNewPackage({ ...newPackage, description: e.target.value })}
+              />
+              <Button
+                type="submit"
+                loading={adding}
+                disabled={adding || !newPackage.name.trim() || !newPackage.version.trim()}
+                leftIcon={<Plus className="h-4 w-4" />}
+              >
+                Add
+              </Button>
+            </form>
+          </CardBody>
+        </Card>
+
+        <Card>
+          <CardBody className="p-0">
+            {loading ? (
+              <p className="p-6 text-sm text-gray-500">Loading packages...</p>
+            ) : packages.length === 0 ? (
+              <p className="p-6 text-sm text-gray-500">No packages yet. Components can only use React.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs uppercase text-gray-500 border-b border-gray-200 dark:border-gray-700">
+                    <th className="px-4 py-2">Package</th>
+                    <th className="px-4 py-2">Status</th>
+                    <th className="px-4 py-2">Bundle</th>
+                    <th className="px-4 py-2">Enabled</th>
+                    <th className="px-4 py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {packages.map((pkg) => (
+                    <tr key={pkg._id} className="border-b border-gray-100 dark:border-gray-800 align-top">
+                      <td className="px-4 py-3">
+                        <button
+                          type="button"
+                          className="font-mono text-gray-900 dark:text-white hover:underline"
+                          onClick={() => handleChangeVersion(pkg)}
+                          title="Change version"
+                        >
+                          {pkg.name}@{pkg.version}
+                        </button>
+                        {pkg.description && <p className="text-xs text-gray-500">{pkg.description}</p>}
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className={clsx('font-medium', statusStyles[pkg.status])}>{pkg.status}</span>
+                        {pkg.error && <p className="text-xs text-error-600 dark:text-error-400 max-w-xs break-words">{pkg.error}</p>}
+                      </td>
+                      <td className="px-4 py-3 text-gray-600 dark:text-gray-300">{formatSize(pkg.bundleSize)}</td>
+                      <td className="px-4 py-3">
+                        <input
+                          type="checkbox"
+                          checked={pkg.enabled}
+                          onChange={(e) => handleUpdate(pkg, { enabled: e.target.checked })}
+                          aria-label={`Enable ${pkg.name}`}
+                        />
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex justify-end space-x-2">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleRebuild(pkg)}
+                            disabled={pkg.status === 'building'}
+                            leftIcon={<RefreshCw className="h-4 w-4" />}
+                          >
+                            Rebuild
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDelete(pkg)}
+                            leftIcon={<Trash2 className="h-4 w-4" />}
+                          >
+                            Remove
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </CardBody>
+        </Card>
+      </main>
+    </div>
+  );
+}
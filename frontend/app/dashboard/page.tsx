@@ -8,6 +8,7 @@ import apiClient from '@/lib/api';
 import { Button } from '@/components/ui/Button';
 import { Card, CardHeader, CardBody } from '@/components/ui/Card';
 import { Input } from '@/components/ui/Input';
+import { ImportSessionDialog } from '@/components/dashboard/ImportSessionDialog';
 import { 
   Plus, 
   Search, 
@@ -18,7 +19,13 @@ import {
   Eye,
   Sparkles,
   Code,
-  Zap
+  Zap,
+  Upload,
+  Package,
+  Palette,
+  FileText,
+  BarChart3,
+  Users
 } from 'lucide-react';
 import toast from 'react-hot-toast';
 
@@ -29,6 +36,7 @@ export default function DashboardPage() {
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
   const [newSessionData, setNewSessionData] = useState({
     title: '',
     description: '',
@@ -136,6 +144,36 @@ export default function DashboardPage() {
               <span className="text-sm text-gray-600 dark:text-gray-300">
                 Welcome, {user?.name}
               </span>
+              {user?.role === 'admin' && (
+                <Button
+                  variant="outline"
+                  onClick={() => router.push('/admin/packages')}
+                  leftIcon={<Package className="h-4 w-4" />}
+                >
+                  Packages
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                onClick={() => router.push('/tokens')}
+                leftIcon={<Palette className="h-4 w-4" />}
+              >
+                Design Tokens
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => router.push('/templates')}
+                leftIcon={<FileText className="h-4 w-4" />}
+              >
+                Templates
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => router.push('/usage')}
+                leftIcon={<BarChart3 className="h-4 w-4" />}
+              >
+                Usage
+              </Button>
               <Button
                 variant="outline"
                 onClick={() => router.push('/profile')}
@@ -161,12 +199,21 @@ export default function DashboardPage() {
               />
             </div>
           </form>
-          <Button
-            onClick={() => setShowCreateModal(true)}
-            leftIcon={<Plus className="h-4 w-4" />}
-          >
-            New Session
-          </Button>
+          <div className="flex space-x-3">
+            <Button
+              variant="outline"
+              onClick={() => setShowImportModal(true)}
+              leftIcon={<Upload className="h-4 w-4" />}
+            >
+              Import
+            </Button>
+            <Button
+              onClick={() => setShowCreateModal(true)}
+              leftIcon={<Plus className="h-4 w-4" />}
+            >
+              New Session
+            </Button>
+          </div>
         </div>
 
         {/* Sessions Grid */}
@@ -213,6 +260,12 @@ export default function DashboardPage() {
                       <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">
                         {session.title}
                       </h3>
+                      {session.role && session.role !== 'owner' && (
+                        <span className="badge-secondary inline-flex items-center mb-1">
+                          <Users className="h-3 w-3 mr-1" />
+                          Shared with you ({session.role})
+                        </span>
+                      )}
                       {session.description && (
                         <p className="text-sm text-gray-600 dark:text-gray-300 line-clamp-2">
                           {session.description}
@@ -226,12 +279,15 @@ export default function DashboardPage() {
                         onClick={() => router.push(`/editor/${session._id}`)}
                         leftIcon={<Eye className="h-4 w-4" />}
                       />
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => handleDeleteSession(session._id)}
-                        leftIcon={<Trash2 className="h-4 w-4" />}
-                      />
+                      {/* Only the owner can delete a session */}
+                      {(!session.role || session.role === 'owner') && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDeleteSession(session._id)}
+                          leftIcon={<Trash2 className="h-4 w-4" />}
+                        />
+                      )}
                     </div>
                   </div>
                 </CardHeader>
@@ -319,6 +375,13 @@ export default function DashboardPage() {
           </Card>
         </div>
       )}
+
+      {showImportModal && (
+        <ImportSessionDialog
+          onClose={() => setShowImportModal(false)}
+          onImported={(session) => router.push(`/editor/${session._id}`)}
+        />
+      )}
     </div>
   );
 } 
\ No newline at end of file
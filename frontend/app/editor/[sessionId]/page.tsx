@@ -1,26 +1,71 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { useAuth } from '@/hooks/useAuth';
-import { Session, ChatMessage, ComponentCode } from '@/types';
+import { useAutoSave } from '@/hooks/useAutoSave';
+import { useSessionCollaboration } from '@/hooks/useSessionCollaboration';
+import { useCodeFixes } from '@/hooks/useCodeFixes';
+import { useVariations } from '@/hooks/useVariations';
+import { useTypeCheck } from '@/hooks/useTypeCheck';
+import { Session, ChatMessage, ComponentCode, ComponentFile, AIStreamPartial, AIAnalysisIssue, UIState, DesignTokenSet, PromptTemplate, Job, GenerateJobResult } from '@/types';
 import apiClient from '@/lib/api';
+import { getErrorMessage } from '@/lib/errors';
+import { waitForJob, isJobFinished, getJobError, describeJobStage } from '@/lib/jobs';
 import { Button } from '@/components/ui/Button';
 import { Card, CardHeader, CardBody } from '@/components/ui/Card';
 import { Input } from '@/components/ui/Input';
 import { Textarea } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Input';
+import { VersionTimeline } from '@/components/editor/VersionTimeline';
+import { CodeEditor, CodePosition } from '@/components/editor/CodeEditor';
+import { ComponentPreview } from '@/components/editor/ComponentPreview';
+import { PreviewConsole, PreviewConsoleEntry } from '@/components/editor/PreviewConsole';
+import { PropertyPanel } from '@/components/editor/PropertyPanel';
+import { VariationsGallery } from '@/components/editor/VariationsGallery';
+import { AnalysisPanel } from '@/components/editor/AnalysisPanel';
+import { ExportButton } from '@/components/editor/ExportButton';
+import { TypeDiagnosticsPanel } from '@/components/editor/TypeDiagnosticsPanel';
+import { FilesPanel } from '@/components/editor/FilesPanel';
+import { TemplatePicker, hasRequiredValues } from '@/components/editor/TemplatePicker';
+import { ShareDialog } from '@/components/editor/ShareDialog';
+import { PresenceBar } from '@/components/editor/PresenceBar';
+import { GenerationProgress } from '@/components/editor/GenerationProgress';
+import { SaveStatusLabel, SaveConflictBanner } from '@/components/editor/SaveStatus';
+import { PreviewCompileError } from '@/lib/preview/compile';
+import { PreviewFrameMessage } from '@/lib/preview/protocol';
+import { findElement } from '@/lib/preview/elements';
+import {
+  PropertyValue,
+  applyPropertyEdit,
+  buildPropertyControls,
+  getElementProperties
+} from '@/lib/preview/properties';
 import { 
   Send, 
   Code, 
   Eye, 
-  Download, 
   Copy,
   ArrowLeft,
   Save,
-  Sparkles
+  Sparkles,
+  History,
+  MousePointerClick,
+  Layers,
+  Activity,
+  FileCode,
+  FolderTree,
+  Sun,
+  Moon,
+  Share2
 } from 'lucide-react';
 import toast from 'react-hot-toast';
 
+const MAX_CONSOLE_ENTRIES = 200;
+const UI_STATE_SAVE_DELAY = 800;
+// Chat prompts can reference an element by ID, e.g. "make @App:0.2 bold"
+const ELEMENT_REFERENCE = /@([A-Za-z_$][\w$]*(?:~\d+)?:\d+(?:\.\d+)*)/;
+
 export default function EditorPage() {
   const { sessionId } = useParams();
   const { user, isAuthenticated } = useAuth();
@@ -28,8 +73,12 @@ export default function EditorPage() {
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
   const [generating, setGenerating] = useState(false);
+  const [streaming, setStreaming] = useState<AIStreamPartial | null>(null);
+  const [generateJob, setGenerateJob] = useState<Job<GenerateJobResult> | null>(null);
+  // Aborted when the page goes away; the jobs themselves keep running on the server
+  const jobFollowRef = useRef<AbortController | null>(null);
   const [prompt, setPrompt] = useState('');
-  const [activeTab, setActiveTab] = useState<'preview' | 'jsx' | 'css' | 'tsx'>('preview');
+  const [activeTab, setActiveTab] = useState<'preview' | 'jsx' | 'css' | 'tsx' | 'files' | 'variations' | 'analysis' | 'history'>('preview');
   const [componentCode, setComponentCode] = useState<ComponentCode>({
     jsx: '',
     css: '',
@@ -37,6 +86,91 @@ export default function EditorPage() {
     version: 1,
     lastModified: new Date().toISOString()
   });
+  const [consoleEntries, setConsoleEntries] = useState<PreviewConsoleEntry[]>([]);
+  const [goTo, setGoTo] = useState<CodePosition | null>(null);
+  const consoleIdRef = useRef(0);
+  const [selectMode, setSelectMode] = useState(false);
+  const [selectedElement, setSelectedElement] = useState<string | null>(null);
+  const [elementProperties, setElementProperties] = useState<Record<string, any>>({});
+  const [computedStyles, setComputedStyles] = useState<Record<string, string>>({});
+  const uiStateTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [tsxGoTo, setTsxGoTo] = useState<CodePosition | null>(null);
+  const [cssGoTo, setCssGoTo] = useState<CodePosition | null>(null);
+  const [tokenSets, setTokenSets] = useState<DesignTokenSet[]>([]);
+  const [theme, setTheme] = useState<UIState['theme']>('light');
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [templateId, setTemplateId] = useState('');
+  const [templateValues, setTemplateValues] = useState<Record<string, string>>({});
+  const [showShare, setShowShare] = useState(false);
+
+  // Viewers follow along; chatting, generating and editing are left to the owner and editors
+  const canEdit = session?.role !== 'viewer';
+
+  const handleAutoSaved = useCallback((saved: ComponentCode) => {
+    // Keep local text (it may have changed since the save started); adopt the new version
+    setComponentCode((current) => ({
+      ...current,
+      version: saved.version,
+      lastModified: saved.lastModified
+    }));
+  }, []);
+
+  const autoSave = useAutoSave({
+    sessionId: sessionId as string,
+    baseVersion: componentCode.version,
+    onSaved: handleAutoSaved
+  });
+
+  const {
+    variations,
+    setVariations,
+    generatingVariations,
+    followVariationsJob,
+    generateVariations,
+    adoptVariation,
+    forkVariation
+  } = useVariations({
+    sessionId: sessionId as string,
+    session,
+    componentCode,
+    flush: autoSave.flush,
+    getSignal: () => jobFollowRef.current?.signal,
+    setSession,
+    onAdopted: async (newCode) => {
+      setComponentCode(newCode);
+      await loadSession();
+      setActiveTab('preview');
+    }
+  });
+
+  const {
+    collaboration,
+    status: collaborationStatus,
+    peers,
+    members,
+    setMembers,
+    remoteGeneration,
+    describeMember
+  } = useSessionCollaboration({
+    sessionId: sessionId as string,
+    userId: user?._id,
+    enabled: Boolean(session),
+    file: activeTab,
+    setSession,
+    setComponentCode,
+    onVariations: setVariations
+  });
+
+  const { fixing, fixError, applyFix } = useCodeFixes({
+    sessionId: sessionId as string,
+    componentCode,
+    flush: autoSave.flush,
+    getBaseVersion: autoSave.getBaseVersion,
+    onFixed: async (newCode) => {
+      setComponentCode(newCode);
+      await loadSession();
+    }
+  });
 
   useEffect(() => {
     if (!isAuthenticated) {
@@ -46,13 +180,58 @@ export default function EditorPage() {
     loadSession();
   }, [isAuthenticated, sessionId, router]);
 
+  // Without token sets the preview and generation simply use no tokens
+  useEffect(() => {
+    if (!isAuthenticated) {
+      return;
+    }
+    apiClient.getDesignTokenSets()
+      .then(setTokenSets)
+      .catch((error) => console.error('Load design tokens error:', error));
+    apiClient.getPromptTemplates('generate')
+      .then(setTemplates)
+      .catch((error) => console.error('Load prompt templates error:', error));
+  }, [isAuthenticated]);
+
+  // Jobs started before the page was (re)opened are still running; follow this session's
+  useEffect(() => {
+    if (!isAuthenticated) {
+      return;
+    }
+    const controller = new AbortController();
+    jobFollowRef.current = controller;
+    apiClient.getJobs({ sessionId: sessionId as string, active: true })
+      .then((jobs) => {
+        const generation = jobs.find((job) => job.type === 'generate');
+        const variationsJob = jobs.find((job) => job.type === 'variations');
+        if (generation) {
+          setGenerating(true);
+          followGenerateJob(generation)
+            .catch((error) => console.error('Follow generation error:', error))
+            .finally(() => setGenerating(false));
+        }
+        if (variationsJob) {
+          followVariationsJob(variationsJob).catch((error) => console.error('Follow variations error:', error));
+        }
+      })
+      .catch((error) => console.error('Load jobs error:', error));
+    return () => controller.abort();
+  }, [isAuthenticated, sessionId]);
+
   const loadSession = async () => {
     try {
       setLoading(true);
       const sessionData = await apiClient.getSession(sessionId as string);
       setSession(sessionData);
-      setComponentCode(sessionData.componentCode);
-    } catch (error: any) {
+      // While collaborating, the shared document has the latest code text
+      setComponentCode(collaboration ? { ...sessionData.componentCode, ...collaboration.getCode() } : sessionData.componentCode);
+      // Variations jobs reply in the chat, so the latest ones are there after a reload
+      const variationsMessage = [...sessionData.chatHistory].reverse().find((message) => Array.isArray(message.metadata?.variations));
+      setVariations((current) => (current.length > 0 || !variationsMessage ? current : variationsMessage.metadata!.variations));
+      setSelectedElement(sessionData.uiState?.selectedElement || null);
+      setElementProperties(sessionData.uiState?.properties || {});
+      setTheme(sessionData.uiState?.theme === 'dark' ? 'dark' : 'light');
+    } catch (error) {
       toast.error('Failed to load session');
       console.error('Load session error:', error);
       router.push('/dashboard');
@@ -62,277 +241,391 @@ export default function EditorPage() {
   };
 
   const handleGenerate = async () => {
-    if (!prompt.trim()) {
+    // A referenced or selected element scopes the request to that element
+    const reference = prompt.match(ELEMENT_REFERENCE);
+    const targetElementId = reference ? reference[1] : chatTarget?.id;
+    // Templates apply to whole-component generation and can stand in for the prompt
+    const template = targetElementId ? undefined : selectedTemplate;
+
+    if (!prompt.trim() && !template) {
       toast.error('Please enter a prompt');
       return;
     }
+    if (!hasRequiredValues(template, templateValues)) {
+      toast.error('Fill in the template fields marked with *');
+      return;
+    }
+    if (targetElementId && !findElement(componentCode.jsx, targetElementId)) {
+      toast.error(`Element ${targetElementId} not found in the component`);
+      return;
+    }
+    const metadata = targetElementId
+      ? { targetElementId }
+      : template ? { templateId: template._id, templateVariables: templateValues } : undefined;
 
     try {
       setGenerating(true);
+
+      // Save pending manual edits so the AI works from them
+      await autoSave.flush();
       
       // Add user message to chat
       const userMessage: Omit<ChatMessage, '_id' | 'timestamp'> = {
         role: 'user',
-        content: prompt,
+        content: prompt.trim() || `Template: ${template!.name}`,
+        metadata,
       };
       
       await apiClient.addChatMessage(sessionId as string, userMessage);
 
-      // Generate component
-      const response = await apiClient.generateComponent({
-        prompt,
-        sessionId: sessionId as string,
-        existingCode: componentCode,
-        chatHistory: session?.chatHistory || []
-      });
+      // Targeted requests return a small patch, so they run right away and are saved here.
+      // Whole components are generated by a job, which saves the result to the session itself.
+      if (targetElementId) {
+        const baseVersion = autoSave.getBaseVersion();
+        const response = await apiClient.refineComponent({
+          prompt,
+          currentCode: componentCode,
+          sessionId: sessionId as string,
+          targetElementId
+        });
 
-      console.log('Generated component response:', response);
+        // Add AI response to chat
+        const aiMessage: Omit<ChatMessage, '_id' | 'timestamp'> = {
+          role: 'assistant',
+          content: response.explanation,
+          metadata,
+        };
 
-      // Update component code
-      const newCode = {
-        ...componentCode,
-        jsx: response.jsx || '',
-        css: response.css || '',
-        tsx: response.tsx || '',
-        version: componentCode.version + 1,
-        lastModified: new Date().toISOString()
-      };
+        const savedMessage = await apiClient.addChatMessage(sessionId as string, aiMessage);
 
-      console.log('Updated component code:', newCode);
-      setComponentCode(newCode);
-      await apiClient.updateComponentCode(sessionId as string, newCode);
+        // Save the new version, linked to the message that produced it. The patch was made for
+        // this version, so a save made meanwhile fails with a conflict instead of being overwritten.
+        const newCode = await apiClient.updateComponentCode(sessionId as string, {
+          jsx: response.jsx || '',
+          css: response.css || '',
+          tsx: response.tsx || '',
+          files: response.files,
+          messageId: savedMessage._id,
+          source: 'ai',
+          baseVersion
+        });
+        setComponentCode(newCode);
 
-      // Add AI response to chat
-      const aiMessage: Omit<ChatMessage, '_id' | 'timestamp'> = {
-        role: 'assistant',
-        content: response.explanation,
-      };
-      
-      await apiClient.addChatMessage(sessionId as string, aiMessage);
+        // Reload session to get updated chat history
+        await loadSession();
+      } else {
+        const job = await apiClient.createJob<GenerateJobResult>({
+          type: 'generate',
+          prompt,
+          sessionId: sessionId as string,
+          existingCode: componentCode,
+          ...(template ? { templateId: template._id, variables: templateValues } : {})
+        });
+        const finished = await followGenerateJob(job);
+        if (!finished) {
+          return;
+        }
+        if (finished.status === 'cancelled') {
+          toast('Generation stopped');
+          return;
+        }
+        if (finished.status === 'failed') {
+          throw new Error(getJobError(finished));
+        }
+      }
 
-      // Reload session to get updated chat history
-      await loadSession();
-      
       setPrompt('');
       toast.success('Component generated successfully!');
-    } catch (error: any) {
-      toast.error('Failed to generate component');
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to generate component'));
       console.error('Generate error:', error);
     } finally {
       setGenerating(false);
+      setStreaming(null);
     }
   };
 
-  const handleCopyCode = async (type: 'jsx' | 'css' | 'tsx') => {
-    const code = componentCode[type];
-    if (!code) {
-      toast.error('No code to copy');
-      return;
+  // Show a generation job's progress, refreshing the preview as soon as the code is complete,
+  // then reload the session with its result. Null when the page stopped following the job.
+  const followGenerateJob = async (job: Job<GenerateJobResult>) => {
+    let previewUpdated = false;
+    setGenerateJob(job);
+    try {
+      const finished = await waitForJob(job, {
+        signal: jobFollowRef.current?.signal,
+        onStatus: setGenerateJob,
+        onPartial: (partial) => {
+          setStreaming(partial);
+          if (!previewUpdated && partial.complete.jsx && partial.complete.css) {
+            previewUpdated = true;
+            setComponentCode((current) => ({
+              ...current,
+              jsx: partial.values.jsx || '',
+              css: partial.values.css || ''
+            }));
+          }
+        }
+      });
+      if (!isJobFinished(finished)) {
+        return null;
+      }
+
+      await loadSession();
+      return finished;
+    } finally {
+      setGenerateJob(null);
+      setStreaming(null);
     }
+  };
 
+  const handleStopGeneration = async () => {
+    if (!generateJob) {
+      return;
+    }
     try {
-      await navigator.clipboard.writeText(code);
-      toast.success(`${type.toUpperCase()} code copied to clipboard!`);
+      setGenerateJob(await apiClient.cancelJob(generateJob.id));
     } catch (error) {
-      toast.error('Failed to copy code');
+      toast.error(getErrorMessage(error, 'Failed to stop generation'));
+      console.error('Stop generation error:', error);
     }
   };
 
-  const handleDownload = async () => {
-    try {
-      const JSZip = (await import('jszip')).default;
-      const zip = new JSZip();
+  const handleCodeChange = (type: 'jsx' | 'css' | 'tsx', value: string) => {
+    // Shared code is saved by the server as it changes, for everyone editing it
+    if (collaboration) {
+      collaboration.setText(type, value);
+      return;
+    }
+    const updated = { ...componentCode, [type]: value };
+    setComponentCode(updated);
+    autoSave.schedule({ jsx: updated.jsx, css: updated.css, tsx: updated.tsx, files: updated.files });
+  };
 
-      // Add JSX file
-      if (componentCode.jsx) {
-        zip.file('Component.jsx', componentCode.jsx);
-      }
+  const handleFilesChange = (files: ComponentFile[]) => {
+    // Shared files are saved by the server with the code, never over the REST API as well
+    if (collaboration) {
+      collaboration.setFiles(files);
+      return;
+    }
+    const updated = { ...componentCode, files };
+    setComponentCode(updated);
+    autoSave.schedule({ jsx: updated.jsx, css: updated.css, tsx: updated.tsx, files });
+  };
 
-      // Add CSS file
-      if (componentCode.css) {
-        zip.file('styles.css', componentCode.css);
-      }
+  const { typeDiagnostics, checkingTypes, converting, convertToTsx } = useTypeCheck({
+    jsx: componentCode.jsx,
+    tsx: componentCode.tsx,
+    enabled: activeTab === 'tsx',
+    onConverted: (tsx) => handleCodeChange('tsx', tsx)
+  });
 
-      // Add TSX file
-      if (componentCode.tsx) {
-        zip.file('Component.tsx', componentCode.tsx);
-      }
+  const handleLoadLatest = () => {
+    if (autoSave.conflict) {
+      setComponentCode(autoSave.conflict);
+    }
+    autoSave.discard();
+  };
 
-      // Add README
-      const readme = `# Generated Component
+  const handleKeepMine = () => {
+    autoSave.overwrite({ jsx: componentCode.jsx, css: componentCode.css, tsx: componentCode.tsx, files: componentCode.files });
+  };
 
-This component was generated using AI.
+  const handleRestore = (restored: ComponentCode) => {
+    autoSave.discard();
+    setComponentCode(restored);
+  };
 
-## Files:
-- Component.jsx: React component
-- styles.css: Component styles
-- Component.tsx: TypeScript version (if available)
+  const addConsoleEntry = (entry: Omit<PreviewConsoleEntry, 'id' | 'timestamp'>) => {
+    consoleIdRef.current += 1;
+    const next = { ...entry, id: consoleIdRef.current, timestamp: Date.now() };
+    setConsoleEntries((entries) => [...entries, next].slice(-MAX_CONSOLE_ENTRIES));
+  };
 
-## Usage:
-Import the component and styles into your React project.
-`;
+  // Selection changes and property edits are saved together once the user pauses
+  const saveUIState = useCallback((uiState: Partial<UIState>) => {
+    if (!canEdit) {
+      return;
+    }
+    if (uiStateTimerRef.current) {
+      clearTimeout(uiStateTimerRef.current);
+    }
+    uiStateTimerRef.current = setTimeout(async () => {
+      uiStateTimerRef.current = null;
+      try {
+        await apiClient.updateUIState(sessionId as string, uiState);
+      } catch (error) {
+        console.error('Update UI state error:', error);
+      }
+    }, UI_STATE_SAVE_DELAY);
+  }, [sessionId, canEdit]);
 
-      zip.file('README.md', readme);
+  useEffect(() => () => {
+    if (uiStateTimerRef.current) {
+      clearTimeout(uiStateTimerRef.current);
+    }
+  }, []);
 
-      const blob = await zip.generateAsync({ type: 'blob' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `component-${session?.title || 'generated'}.zip`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+  // The session's token set, else the user's default; generation uses the same one
+  const activeTokenSet = useMemo(() => {
+    const selected = session?.designTokenSetId
+      ? tokenSets.find((tokenSet) => tokenSet._id === session.designTokenSetId)
+      : undefined;
+    return selected || tokenSets.find((tokenSet) => tokenSet.isDefault) || null;
+  }, [session?.designTokenSetId, tokenSets]);
 
-      toast.success('Component downloaded successfully!');
+  const handleTokenSetChange = async (tokenSetId: string) => {
+    try {
+      const updated = await apiClient.updateSession(sessionId as string, { designTokenSetId: tokenSetId || null });
+      setSession((current) => current ? { ...current, designTokenSetId: updated.designTokenSetId } : current);
     } catch (error) {
-      toast.error('Failed to download component');
-      console.error('Download error:', error);
+      toast.error(getErrorMessage(error, 'Failed to change design tokens'));
+      console.error('Change token set error:', error);
     }
   };
 
-  const renderPreview = () => {
-    if (!componentCode.jsx) {
-      return (
-        <div className="flex items-center justify-center h-full text-gray-500">
-          <div className="text-center">
-            <Code className="h-12 w-12 mx-auto mb-4 text-gray-400" />
-            <p>No component to preview</p>
-            <p className="text-sm">Generate a component using the chat below</p>
-          </div>
-        </div>
-      );
-    }
-
-    // Clean and prepare the JSX code
-    let jsxCode = componentCode.jsx.trim();
-    
-    // Remove any import statements and export statements
-    jsxCode = jsxCode.replace(/import\s+.*?from\s+['"][^'"]*['"];?\s*/g, '');
-    jsxCode = jsxCode.replace(/export\s+(default\s+)?/g, '');
-    
-    // Extract component name
-    const componentMatch = jsxCode.match(/(?:function|const)\s+(\w+)/);
-    const componentName = componentMatch ? componentMatch[1] : 'App';
-    
-    // Ensure the component is properly defined
-    if (!jsxCode.includes('return')) {
-      jsxCode = `function ${componentName}() {
-  return (
-    <div style={{ padding: '20px', fontFamily: 'Arial, sans-serif' }}>
-      <h1>Generated Component</h1>
-      <p>This is a placeholder component. Please check the generated code.</p>
-    </div>
-  );
-}`;
+  // Saved right away rather than through saveUIState, which keeps only the latest pending change
+  const handleToggleTheme = async () => {
+    const next = theme === 'dark' ? 'light' : 'dark';
+    setTheme(next);
+    if (!canEdit) {
+      return;
+    }
+    try {
+      await apiClient.updateUIState(sessionId as string, { theme: next });
+    } catch (error) {
+      console.error('Update UI state error:', error);
     }
+  };
 
-    // Add error boundary
-    const errorBoundary = `
-      class ErrorBoundary extends React.Component {
-        constructor(props) {
-          super(props);
-          this.state = { hasError: false, error: null };
-        }
-        
-        static getDerivedStateFromError(error) {
-          return { hasError: true, error };
-        }
-        
-        componentDidCatch(error, errorInfo) {
-          console.error('Component Error:', error, errorInfo);
-        }
-        
-        render() {
-          if (this.state.hasError) {
-            return (
-              <div style={{ padding: '20px', color: 'red', border: '1px solid red', borderRadius: '4px' }}>
-                <h3>Component Error</h3>
-                <p>{this.state.error?.message || 'Something went wrong'}</p>
-                <button onClick={() => this.setState({ hasError: false })}>Try Again</button>
-              </div>
-            );
-          }
-          return this.props.children;
-        }
+  const handlePreviewMessage = useCallback((message: PreviewFrameMessage) => {
+    if (message.type === 'element-selected') {
+      if (!message.element.elementId) {
+        return;
       }
-    `;
-
-    const htmlContent = `
-      <!DOCTYPE html>
-      <html>
-        <head>
-          <meta charset="utf-8">
-          <meta name="viewport" content="width=device-width, initial-scale=1">
-          <title>Component Preview</title>
-          <style>
-            * { box-sizing: border-box; }
-            body { 
-              margin: 0; 
-              padding: 20px; 
-              font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; 
-              background: #f5f5f5;
-            }
-            #root { 
-              background: white; 
-              border-radius: 8px; 
-              box-shadow: 0 2px 10px rgba(0,0,0,0.1);
-              overflow: hidden;
-            }
-            ${componentCode.css}
-          </style>
-        </head>
-        <body>
-          <div id="root"></div>
-          <script crossorigin src="https://unpkg.com/react@18/umd/react.development.js"></script>
-          <script crossorigin src="https://unpkg.com/react-dom@18/umd/react-dom.development.js"></script>
-          <script src="https://unpkg.com/@babel/standalone/babel.min.js"></script>
-          <script type="text/babel" data-type="module">
-            const { useState, useEffect } = React;
-            
-            ${errorBoundary}
-            
-            ${jsxCode}
-            
-            // Render the component with error boundary
-            const root = ReactDOM.createRoot(document.getElementById('root'));
-            root.render(
-              React.createElement(ErrorBoundary, null,
-                React.createElement(${componentName})
-              )
-            );
-          </script>
-        </body>
-      </html>
-    `;
+      setSelectedElement(message.element.elementId);
+      setComputedStyles(message.element.styles);
+      setElementProperties({});
+      saveUIState({ selectedElement: message.element.elementId, properties: {} });
+    } else if (message.type === 'console') {
+      addConsoleEntry({
+        level: message.level,
+        error: null,
+        message: message.args.join(' '),
+        stack: null,
+        line: null,
+        column: null
+      });
+    } else if (message.type === 'error') {
+      addConsoleEntry({
+        level: 'error',
+        error: { kind: message.kind, message: message.message, line: message.line, column: message.column },
+        message: message.message,
+        stack: message.stack,
+        line: message.line,
+        column: message.column
+      });
+    }
+  }, [saveUIState]);
 
-    return (
-      <div className="relative w-full h-full">
-        <iframe
-          srcDoc={htmlContent}
-          className="w-full h-full border-0 rounded-lg"
-          title="Component Preview"
-          sandbox="allow-scripts allow-same-origin"
-          onError={(e) => {
-            console.error('Preview iframe error:', e);
-          }}
-        />
-        <div className="absolute top-2 right-2">
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={() => {
-              const iframe = document.querySelector('iframe');
-              if (iframe) {
-                iframe.src = iframe.src;
-              }
-            }}
-          >
-            Refresh Preview
-          </Button>
-        </div>
-      </div>
-    );
+  // Every compile starts a fresh console; output from the previous code no longer applies
+  const handlePreviewCompile = useCallback((error: PreviewCompileError | null) => {
+    setConsoleEntries([]);
+    if (error) {
+      addConsoleEntry({
+        level: 'error',
+        error: { kind: 'compile', message: error.message, line: error.line, column: error.column },
+        message: error.message,
+        stack: null,
+        line: error.line,
+        column: error.column
+      });
+    }
+  }, []);
+
+  // Forget the last jump so returning to the JSX or CSS tab doesn't move the cursor again
+  useEffect(() => {
+    if (activeTab !== 'jsx') {
+      setGoTo(null);
+    }
+    if (activeTab !== 'css') {
+      setCssGoTo(null);
+    }
+  }, [activeTab]);
+
+  const selectedProperties = useMemo(
+    () => (selectedElement ? getElementProperties(componentCode.jsx, selectedElement) : null),
+    [componentCode.jsx, selectedElement]
+  );
+
+  // The selected element, if it still exists, is what chat prompts apply to
+  const selectedTemplate = templates.find((candidate) => candidate._id === templateId);
+
+  const handleTemplateChange = (nextTemplateId: string) => {
+    setTemplateId(nextTemplateId);
+    setTemplateValues({});
+  };
+
+  const chatTarget = selectedElement && selectedProperties
+    ? { id: selectedElement, tagName: selectedProperties.tagName }
+    : null;
+
+  // Edits are written into the JSX source, so they are saved as a new version by auto-save
+  const handlePropertyChange = (key: string, value: PropertyValue) => {
+    if (!selectedElement || !canEdit) {
+      return;
+    }
+
+    const jsx = applyPropertyEdit(componentCode.jsx, selectedElement, key, value);
+    if (jsx !== componentCode.jsx) {
+      handleCodeChange('jsx', jsx);
+    }
+
+    // Stored as { style: {...}, props: {...}, text } since map keys can't contain dots
+    const [group, name] = key.split('.');
+    const properties = name
+      ? { ...elementProperties, [group]: { ...(elementProperties[group] || {}), [name]: value } }
+      : { ...elementProperties, [group]: value };
+    setElementProperties(properties);
+    saveUIState({ selectedElement, properties });
+  };
+
+  const handleCloseProperties = () => {
+    setSelectedElement(null);
+    setElementProperties({});
+    setSelectMode(false);
+    saveUIState({ selectedElement: null, properties: {} });
+  };
+
+  const handleJumpToLine = (line: number, column: number | null) => {
+    setActiveTab('jsx');
+    setGoTo({ line, column });
+  };
+
+  const handleJumpToIssue = (issue: AIAnalysisIssue) => {
+    if (issue.line === null) {
+      return;
+    }
+    if (issue.file === 'css') {
+      setActiveTab('css');
+      setCssGoTo({ line: issue.line });
+    } else {
+      handleJumpToLine(issue.line, null);
+    }
+  };
+
+  const handleCopyCode = async (type: 'jsx' | 'css' | 'tsx') => {
+    const code = componentCode[type];
+    if (!code) {
+      toast.error('No code to copy');
+      return;
+    }
+
+    try {
+      await navigator.clipboard.writeText(code);
+      toast.success(`${type.toUpperCase()} code copied to clipboard!`);
+    } catch (error) {
+      toast.error('Failed to copy code');
+    }
   };
 
   if (!isAuthenticated) {
@@ -375,13 +668,35 @@ Import the component and styles into your React project.
               </div>
             </div>
             <div className="flex items-center space-x-2">
+              <PresenceBar peers={peers} status={collaborationStatus} />
+              <SaveStatusLabel status={autoSave.status} />
+              {/* The token set belongs to the owner's account */}
+              {tokenSets.length > 0 && session?.role === 'owner' && (
+                <div className="w-48">
+                  <Select
+                    aria-label="Design tokens"
+                    title="Design tokens used for generation and the preview"
+                    value={session?.designTokenSetId || ''}
+                    onChange={(e) => handleTokenSetChange(e.target.value)}
+                    options={[
+                      { value: '', label: 'Default tokens' },
+                      ...tokenSets.map((tokenSet) => ({ value: tokenSet._id, label: tokenSet.name })),
+                    ]}
+                  />
+                </div>
+              )}
               <Button
                 variant="outline"
-                onClick={handleDownload}
-                leftIcon={<Download className="h-4 w-4" />}
+                onClick={() => setShowShare(true)}
+                leftIcon={<Share2 className="h-4 w-4" />}
               >
-                Download
+                Share
               </Button>
+              <ExportButton
+                sessionId={sessionId as string}
+                hasTsx={!!componentCode.tsx}
+                onBeforeOpen={autoSave.flush}
+              />
             </div>
           </div>
         </div>
@@ -401,6 +716,14 @@ Import the component and styles into your React project.
               <CardBody className="flex-1 flex flex-col">
                 {/* Chat Messages */}
                 <div className="flex-1 overflow-y-auto mb-4 space-y-4">
+                  {session?.conversationSummary?.content && (
+                    <details className="text-xs text-gray-500 dark:text-gray-400">
+                      <summary className="cursor-pointer">
+                        The AI remembers the first {session.conversationSummary.messageCount} messages as a summary
+                      </summary>
+                      <p className="mt-1 whitespace-pre-wrap">{session.conversationSummary.content}</p>
+                    </details>
+                  )}
                   {session?.chatHistory.map((message, index) => (
                     <div
                       key={index}
@@ -410,13 +733,31 @@ Import the component and styles into your React project.
                           : 'bg-gray-50 dark:bg-gray-800/50 border border-gray-200 dark:border-gray-700 mr-8'
                       }`}
                     >
+                      {message.metadata?.targetElementId && (
+                        <span className="badge-secondary font-mono mb-1 inline-block">
+                          @{message.metadata.targetElementId}
+                        </span>
+                      )}
+                      {message.metadata?.promptTemplate && (
+                        <span className="badge-secondary mb-1 inline-block">
+                          {message.metadata.promptTemplate.name} v{message.metadata.promptTemplate.version}
+                        </span>
+                      )}
                       <p className="text-sm text-gray-900 dark:text-white">
                         {message.content}
                       </p>
                     </div>
                   ))}
                   {generating && (
+                    <GenerationProgress job={generateJob} streaming={streaming} onStop={handleStopGeneration} />
+                  )}
+                  {remoteGeneration && (
                     <div className="bg-gray-50 dark:bg-gray-800/50 border border-gray-200 dark:border-gray-700 rounded-lg p-3 mr-8">
+                      {remoteGeneration.partial?.values.explanation && (
+                        <p className="text-sm text-gray-900 dark:text-white mb-2">
+                          {remoteGeneration.partial.values.explanation}
+                        </p>
+                      )}
                       <div className="flex items-center space-x-2">
                         <div className="loading-dots">
                           <div></div>
@@ -424,7 +765,7 @@ Import the component and styles into your React project.
                           <div></div>
                         </div>
                         <span className="text-sm text-gray-600 dark:text-gray-300">
-                          Generating component...
+                          {describeMember(remoteGeneration.userId)} is generating: {describeJobStage(remoteGeneration.job)}...
                         </span>
                       </div>
                     </div>
@@ -433,8 +774,33 @@ Import the component and styles into your React project.
 
                 {/* Input */}
                 <div className="space-y-2">
+                  {chatTarget && (
+                    <div className="flex items-center justify-between px-3 py-1.5 rounded-lg bg-primary-50 dark:bg-primary-900/20 border border-primary-200 dark:border-primary-700">
+                      <span className="text-xs text-primary-800 dark:text-primary-200">
+                        Editing only <span className="font-mono">&lt;{chatTarget.tagName}&gt; @{chatTarget.id}</span>
+                      </span>
+                      <button
+                        type="button"
+                        className="text-xs text-primary-700 dark:text-primary-300 underline"
+                        onClick={handleCloseProperties}
+                      >
+                        Whole component
+                      </button>
+                    </div>
+                  )}
+                  {!chatTarget && templates.length > 0 && (
+                    <TemplatePicker
+                      templates={templates}
+                      templateId={templateId}
+                      values={templateValues}
+                      onTemplateChange={handleTemplateChange}
+                      onValuesChange={setTemplateValues}
+                      disabled={generating || !canEdit}
+                    />
+                  )}
                   <Textarea
-                    placeholder="Describe the component you want to create..."
+                    placeholder={!canEdit ? 'You can view this session but not change it' : selectedTemplate && !chatTarget ? 'Anything to add to the template (optional)...' : 'Describe the component you want to create...'}
+                    disabled={!canEdit}
                     value={prompt}
                     onChange={(e) => setPrompt(e.target.value)}
                     rows={3}
@@ -447,11 +813,11 @@ Import the component and styles into your React project.
                   <Button
                     onClick={handleGenerate}
                     loading={generating}
-                    disabled={generating || !prompt.trim()}
+                    disabled={generating || !canEdit || (!prompt.trim() && (!selectedTemplate || Boolean(chatTarget)))}
                     className="w-full"
                     leftIcon={<Sparkles className="h-4 w-4" />}
                   >
-                    Generate Component
+                    {chatTarget ? 'Update Element' : 'Generate Component'}
                   </Button>
                 </div>
               </CardBody>
@@ -496,8 +862,72 @@ Import the component and styles into your React project.
                     >
                       TSX
                     </Button>
+                    <Button
+                      variant={activeTab === 'files' ? 'primary' : 'ghost'}
+                      size="sm"
+                      onClick={() => setActiveTab('files')}
+                      leftIcon={<FolderTree className="h-4 w-4" />}
+                    >
+                      Files{componentCode.files && componentCode.files.length > 0 ? ` (${componentCode.files.length})` : ''}
+                    </Button>
+                    <Button
+                      variant={activeTab === 'variations' ? 'primary' : 'ghost'}
+                      size="sm"
+                      onClick={() => setActiveTab('variations')}
+                      leftIcon={<Layers className="h-4 w-4" />}
+                    >
+                      Variations
+                    </Button>
+                    <Button
+                      variant={activeTab === 'analysis' ? 'primary' : 'ghost'}
+                      size="sm"
+                      onClick={() => setActiveTab('analysis')}
+                      leftIcon={<Activity className="h-4 w-4" />}
+                    >
+                      Analysis
+                    </Button>
+                    <Button
+                      variant={activeTab === 'history' ? 'primary' : 'ghost'}
+                      size="sm"
+                      onClick={() => setActiveTab('history')}
+                      leftIcon={<History className="h-4 w-4" />}
+                    >
+                      History
+                    </Button>
                   </div>
-                  {activeTab !== 'preview' && (
+                  {activeTab === 'preview' && componentCode.jsx && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleToggleTheme}
+                      leftIcon={theme === 'dark' ? <Moon className="h-4 w-4" /> : <Sun className="h-4 w-4" />}
+                    >
+                      {theme === 'dark' ? 'Dark' : 'Light'}
+                    </Button>
+                  )}
+                  {activeTab === 'preview' && componentCode.jsx && (
+                    <Button
+                      variant={selectMode ? 'primary' : 'outline'}
+                      size="sm"
+                      onClick={() => setSelectMode((current) => !current)}
+                      leftIcon={<MousePointerClick className="h-4 w-4" />}
+                    >
+                      {selectMode ? 'Selecting' : 'Select element'}
+                    </Button>
+                  )}
+                  {activeTab === 'tsx' && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={convertToTsx}
+                      loading={converting}
+                      disabled={converting || generating || fixing || !canEdit || !componentCode.jsx}
+                      leftIcon={<FileCode className="h-4 w-4" />}
+                    >
+                      Convert from JSX
+                    </Button>
+                  )}
+                  {activeTab !== 'preview' && activeTab !== 'files' && activeTab !== 'variations' && activeTab !== 'analysis' && activeTab !== 'history' && (
                     <Button
                       variant="outline"
                       size="sm"
@@ -511,17 +941,101 @@ Import the component and styles into your React project.
               </CardHeader>
               <CardBody className="flex-1 p-0">
                 {activeTab === 'preview' ? (
-                  <div className="h-full bg-white dark:bg-gray-900">
-                    {renderPreview()}
+                  <div className="h-full flex flex-col bg-white dark:bg-gray-900">
+                    <div className="flex-1 min-h-0 flex">
+                      <div className="flex-1 min-w-0">
+                        <ComponentPreview
+                          jsx={componentCode.jsx}
+                          css={componentCode.css}
+                          files={componentCode.files}
+                          tokens={activeTokenSet?.tokens}
+                          theme={theme}
+                          selectMode={selectMode}
+                          highlightedElement={selectedProperties ? selectedElement : null}
+                          onMessage={handlePreviewMessage}
+                          onCompile={handlePreviewCompile}
+                        />
+                      </div>
+                      {selectedElement && selectedProperties && (
+                        <PropertyPanel
+                          elementId={selectedElement}
+                          tagName={selectedProperties.tagName}
+                          controls={buildPropertyControls(selectedProperties, computedStyles)}
+                          onChange={handlePropertyChange}
+                          onClose={handleCloseProperties}
+                        />
+                      )}
+                    </div>
+                    <PreviewConsole
+                      entries={consoleEntries}
+                      fixing={fixing}
+                      onClear={() => setConsoleEntries([])}
+                      onJumpToLine={handleJumpToLine}
+                      onFix={fixError}
+                    />
                   </div>
+                ) : activeTab === 'variations' ? (
+                  <VariationsGallery
+                    variations={variations}
+                    generating={generatingVariations}
+                    disabled={generating || fixing || !canEdit || !componentCode.jsx}
+                    onGenerate={generateVariations}
+                    onAdopt={adoptVariation}
+                    onFork={forkVariation}
+                  />
+                ) : activeTab === 'analysis' ? (
+                  <AnalysisPanel
+                    sessionId={sessionId as string}
+                    headVersion={componentCode.version}
+                    disabled={generating || fixing || !componentCode.jsx}
+                    onApplyFix={applyFix}
+                    onJumpToIssue={handleJumpToIssue}
+                  />
+                ) : activeTab === 'history' ? (
+                  <VersionTimeline
+                    sessionId={sessionId as string}
+                    headVersion={componentCode.version}
+                    chatHistory={session?.chatHistory || []}
+                    onRestore={handleRestore}
+                    readOnly={!canEdit}
+                  />
                 ) : (
-                  <div className="h-full">
-                    <textarea
-                      className="w-full h-full p-4 font-mono text-sm bg-gray-50 dark:bg-gray-800 text-gray-900 dark:text-white border-0 resize-none focus:outline-none"
-                      value={componentCode[activeTab] || ''}
-                      readOnly
-                      placeholder={`No ${activeTab.toUpperCase()} code available`}
-                    />
+                  <div className="h-full flex flex-col">
+                    {autoSave.conflict && (
+                      <SaveConflictBanner
+                        conflict={autoSave.conflict}
+                        onLoadLatest={handleLoadLatest}
+                        onKeepMine={handleKeepMine}
+                      />
+                    )}
+                    <div className="flex-1 min-h-0">
+                      {activeTab === 'files' ? (
+                        <FilesPanel
+                          files={componentCode.files || []}
+                          entry={componentCode.entry || 'Component.jsx'}
+                          readOnly={generating || fixing || !canEdit}
+                          onChange={handleFilesChange}
+                        />
+                      ) : (
+                        <CodeEditor
+                          value={componentCode[activeTab] || ''}
+                          language={activeTab}
+                          onChange={(value) => handleCodeChange(activeTab, value)}
+                          readOnly={generating || fixing || converting || !canEdit}
+                          placeholder={`No ${activeTab.toUpperCase()} code yet`}
+                          collaboration={collaboration && { text: collaboration.getText(activeTab), awareness: collaboration.awareness }}
+                          goTo={activeTab === 'jsx' ? goTo : activeTab === 'tsx' ? tsxGoTo : cssGoTo}
+                          diagnostics={activeTab === 'tsx' ? typeDiagnostics : undefined}
+                        />
+                      )}
+                    </div>
+                    {activeTab === 'tsx' && componentCode.tsx && (
+                      <TypeDiagnosticsPanel
+                        diagnostics={typeDiagnostics}
+                        checking={checkingTypes}
+                        onJumpToLine={(line, column) => setTsxGoTo({ line, column })}
+                      />
+                    )}
                   </div>
                 )}
               </CardBody>
@@ -529,6 +1043,17 @@ Import the component and styles into your React project.
           </div>
         </div>
       </div>
+
+      {showShare && user && (
+        <ShareDialog
+          sessionId={sessionId as string}
+          members={members}
+          currentUserId={user._id}
+          onMembersChange={setMembers}
+          onLeave={() => router.push('/dashboard')}
+          onClose={() => setShowShare(false)}
+        />
+      )}
     </div>
   );
 } 
\ No newline at end of file
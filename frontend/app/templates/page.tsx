@@ -0,0 +1,474 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { clsx } from 'clsx';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  PromptTemplate,
+  PromptTemplatePrompt,
+  PromptTemplateTask,
+  PromptTemplateVariable,
+  PromptTemplateVersion,
+} from '@/types';
+import apiClient from '@/lib/api';
+import { getErrorMessage } from '@/lib/errors';
+import { Button } from '@/components/ui/Button';
+import { Card, CardHeader, CardBody } from '@/components/ui/Card';
+import { Input, Select, Textarea } from '@/components/ui/Input';
+import { ArrowLeft, FileText, History, Plus, Save, Trash2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const TASK_OPTIONS: Array<{ value: PromptTemplateTask; label: string }> = [
+  { value: 'generate', label: 'Generate' },
+  { value: 'refine', label: 'Refine' },
+  { value: 'variations', label: 'Variations' },
+  { value: 'analyze', label: 'Analyze' },
+];
+
+const EMPTY_VARIABLE: PromptTemplateVariable = { name: '', label: '', defaultValue: '', required: false };
+
+type TemplateDraft = PromptTemplatePrompt & {
+  name: string;
+  description: string;
+  visibility: PromptTemplate['visibility'];
+  isDefault: boolean;
+};
+
+const toDraft = (template: PromptTemplate): TemplateDraft => ({
+  name: template.name,
+  description: template.description,
+  visibility: template.visibility,
+  isDefault: template.isDefault,
+  systemPrompt: template.systemPrompt,
+  body: template.body,
+  mode: template.mode,
+  variables: template.variables,
+});
+
+export default function PromptTemplatesPage() {
+  const { user, isAuthenticated } = useAuth();
+  const router = useRouter();
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [builtIn, setBuiltIn] = useState<Record<PromptTemplateTask, string> | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [versions, setVersions] = useState<PromptTemplateVersion[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [newTemplate, setNewTemplate] = useState<{ name: string; task: PromptTemplateTask }>({ name: '', task: 'generate' });
+  const [creating, setCreating] = useState(false);
+
+  const isAdmin = user?.role === 'admin';
+  const selected = templates.find((template) => template._id === selectedId) || null;
+  const canEdit = Boolean(selected && user && (selected.ownerId === user._id || isAdmin));
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      setTemplates(await apiClient.getPromptTemplates());
+    } catch (error) {
+      toast.error('Failed to load prompt templates');
+      console.error('Load prompt templates error:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      router.push('/');
+      return;
+    }
+    loadTemplates();
+    apiClient.getBuiltInInstructions()
+      .then(setBuiltIn)
+      .catch((error) => console.error('Load built-in instructions error:', error));
+  }, [isAuthenticated, router, loadTemplates]);
+
+  // Edits stay local until saved; saving a changed prompt creates a version
+  useEffect(() => {
+    setDraft(selected ? toDraft(selected) : null);
+    setVersions([]);
+    if (selected) {
+      apiClient.getPromptTemplateVersions(selected._id)
+        .then(setVersions)
+        .catch((error) => console.error('Load template versions error:', error));
+    }
+  }, [selected]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setCreating(true);
+      const created = await apiClient.createPromptTemplate({ name: newTemplate.name.trim(), task: newTemplate.task });
+      setNewTemplate({ ...newTemplate, name: '' });
+      await loadTemplates();
+      setSelectedId(created._id);
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to create template'));
+      console.error('Create template error:', error);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const updateVariable = (index: number, changes: Partial<PromptTemplateVariable>) => {
+    setDraft((current) => current && {
+      ...current,
+      variables: current.variables.map((variable, i) => (i === index ? { ...variable, ...changes } : variable)),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!selected || !draft) {
+      return;
+    }
+    try {
+      setSaving(true);
+      const { isDefault, ...fields } = draft;
+      const saved = await apiClient.updatePromptTemplate(selected._id, {
+        ...fields,
+        name: fields.name.trim(),
+        ...(isAdmin && isDefault !== selected.isDefault ? { isDefault } : {}),
+      });
+      toast.success(saved.version !== selected.version ? `Saved as version ${saved.version}` : 'Template saved');
+      await loadTemplates();
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to save template'));
+      console.error('Save template error:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Loads an old version into the editor; saving it makes it the latest version
+  const handleRestore = (version: PromptTemplateVersion) => {
+    setDraft((current) => current && {
+      ...current,
+      systemPrompt: version.systemPrompt,
+      body: version.body,
+      mode: version.mode,
+      variables: version.variables,
+    });
+    toast.success(`Loaded version ${version.version}; save to restore it`);
+  };
+
+  const handleDelete = async () => {
+    if (!selected || !confirm(`Delete "${selected.name}" and all its versions?`)) {
+      return;
+    }
+    try {
+      await apiClient.deletePromptTemplate(selected._id);
+      toast.success('Template deleted');
+      setSelectedId(null);
+      await loadTemplates();
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to delete template'));
+      console.error('Delete template error:', error);
+    }
+  };
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <header className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center space-x-4 py-6">
+            <Button variant="ghost" size="sm" onClick={() => router.push('/dashboard')} leftIcon={<ArrowLeft className="h-4 w-4" />}>
+              Dashboard
+            </Button>
+            <FileText className="h-6 w-6 text-primary-600" />
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Prompt Templates</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8 grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <div className="space-y-4">
+          <Card>
+            <CardBody>
+              <form onSubmit={handleCreate} className="space-y-2">
+                <Input
+                  label="New template"
+                  placeholder="Form with validation"
+                  value={newTemplate.name}
+                  onChange={(e) => setNewTemplate({ ...newTemplate, name: e.target.value })}
+                />
+                <Select
+                  aria-label="Task"
+                  value={newTemplate.task}
+                  onChange={(e) => setNewTemplate({ ...newTemplate, task: e.target.value as PromptTemplateTask })}
+                  options={TASK_OPTIONS}
+                />
+                <Button
+                  type="submit"
+                  size="sm"
+                  loading={creating}
+                  disabled={creating || !newTemplate.name.trim()}
+                  leftIcon={<Plus className="h-4 w-4" />}
+                >
+                  Create
+                </Button>
+              </form>
+            </CardBody>
+          </Card>
+
+          {loading ? (
+            <p className="text-sm text-gray-500">Loading templates...</p>
+          ) : (
+            TASK_OPTIONS.map((task) => {
+              const taskTemplates = templates.filter((template) => template.task === task.value);
+              if (taskTemplates.length === 0) {
+                return null;
+              }
+              return (
+                <div key={task.value}>
+                  <h3 className="px-3 mb-1 text-xs uppercase text-gray-500">{task.label}</h3>
+                  {taskTemplates.map((template) => (
+                    <button
+                      key={template._id}
+                      type="button"
+                      onClick={() => setSelectedId(template._id)}
+                      className={clsx(
+                        'w-full flex items-center justify-between px-3 py-2 rounded text-left text-sm',
+                        template._id === selectedId
+                          ? 'bg-primary-50 dark:bg-primary-900/20 text-primary-700 dark:text-primary-300'
+                          : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800'
+                      )}
+                    >
+                      <span className="truncate">{template.name}</span>
+                      <span className="flex-shrink-0 ml-2 text-xs text-gray-500">
+                        {template.isDefault ? 'default' : template.visibility === 'shared' ? 'shared' : ''} v{template.version}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        <div className="lg:col-span-3 space-y-6">
+          {!selected || !draft ? (
+            <Card>
+              <CardBody>
+                <p className="text-sm text-gray-500">
+                  Templates tune the prompts behind generation, refinement, variations and analysis. Pick a generate
+                  template in the editor, e.g. &quot;Form with validation&quot;, and fill in its {'{{variables}}'}. Every
+                  change to a template&apos;s prompt is saved as a new version, and results record the version used.
+                </p>
+              </CardBody>
+            </Card>
+          ) : (
+            <>
+              <Card>
+                <CardHeader>
+                  <div className="flex items-start justify-between space-x-4">
+                    <div>
+                      <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                        {selected.name} <span className="text-sm font-normal text-gray-500">v{selected.version}</span>
+                      </h2>
+                      <p className="text-sm text-gray-600 dark:text-gray-300">
+                        {TASK_OPTIONS.find((task) => task.value === selected.task)?.label} template
+                        {!canEdit && ' - shared with you, read only'}
+                      </p>
+                    </div>
+                    {canEdit && (
+                      <div className="flex space-x-2">
+                        <Button variant="outline" size="sm" onClick={handleDelete} leftIcon={<Trash2 className="h-4 w-4" />}>
+                          Delete
+                        </Button>
+                        <Button size="sm" onClick={handleSave} loading={saving} disabled={saving} leftIcon={<Save className="h-4 w-4" />}>
+                          Save
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                </CardHeader>
+                <CardBody className="space-y-4">
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <Input
+                      label="Name"
+                      value={draft.name}
+                      disabled={!canEdit}
+                      onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    />
+                    <Select
+                      label="Visibility"
+                      value={draft.visibility}
+                      disabled={!canEdit}
+                      onChange={(e) => setDraft({
+                        ...draft,
+                        visibility: e.target.value as PromptTemplate['visibility'],
+                        isDefault: e.target.value === 'shared' && draft.isDefault,
+                      })}
+                      options={[
+                        { value: 'private', label: 'Private' },
+                        { value: 'shared', label: 'Shared with everyone' },
+                      ]}
+                    />
+                  </div>
+                  <Input
+                    label="Description"
+                    value={draft.description}
+                    disabled={!canEdit}
+                    onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                  />
+                  {isAdmin && (
+                    <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={draft.isDefault}
+                        disabled={draft.visibility !== 'shared'}
+                        onChange={(e) => setDraft({ ...draft, isDefault: e.target.checked })}
+                      />
+                      <span>Use for every {selected.task} request that picks no template (shared templates only)</span>
+                    </label>
+                  )}
+                  <Textarea
+                    label="System prompt"
+                    helperText="Sent as the system message. Leave empty for none."
+                    rows={3}
+                    value={draft.systemPrompt}
+                    disabled={!canEdit}
+                    onChange={(e) => setDraft({ ...draft, systemPrompt: e.target.value })}
+                  />
+                  <div className="flex items-end space-x-4">
+                    <div className="w-64">
+                      <Select
+                        label="Instructions"
+                        value={draft.mode}
+                        disabled={!canEdit}
+                        onChange={(e) => setDraft({ ...draft, mode: e.target.value as PromptTemplatePrompt['mode'] })}
+                        options={[
+                          { value: 'append', label: 'Add to the built-in instructions' },
+                          { value: 'replace', label: 'Replace the built-in instructions' },
+                        ]}
+                      />
+                    </div>
+                    {canEdit && draft.mode === 'replace' && builtIn && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setDraft({ ...draft, body: builtIn[selected.task] })}
+                      >
+                        Start from the built-in instructions
+                      </Button>
+                    )}
+                  </div>
+                  <Textarea
+                    className="font-mono text-sm"
+                    rows={10}
+                    placeholder="Build a form with these fields: {{fields}}. Validate each field on blur..."
+                    value={draft.body}
+                    disabled={!canEdit}
+                    onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+                  />
+                  {draft.mode === 'append' && builtIn && (
+                    <details className="text-xs text-gray-500">
+                      <summary className="cursor-pointer">Built-in instructions this is added to</summary>
+                      <pre className="mt-2 whitespace-pre-wrap font-mono">{builtIn[selected.task]}</pre>
+                    </details>
+                  )}
+
+                  <div className="space-y-2">
+                    <h3 className="text-sm font-medium text-gray-900 dark:text-white">Variables</h3>
+                    {draft.variables.map((variable, index) => (
+                      <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                        <div className="col-span-3">
+                          <Input
+                            className="font-mono"
+                            placeholder="fields"
+                            value={variable.name}
+                            disabled={!canEdit}
+                            onChange={(e) => updateVariable(index, { name: e.target.value })}
+                          />
+                        </div>
+                        <div className="col-span-3">
+                          <Input
+                            placeholder="Label"
+                            value={variable.label}
+                            disabled={!canEdit}
+                            onChange={(e) => updateVariable(index, { label: e.target.value })}
+                          />
+                        </div>
+                        <div className="col-span-3">
+                          <Input
+                            placeholder="Default value"
+                            value={variable.defaultValue}
+                            disabled={!canEdit}
+                            onChange={(e) => updateVariable(index, { defaultValue: e.target.value })}
+                          />
+                        </div>
+                        <label className="col-span-2 flex items-center space-x-1 text-sm text-gray-700 dark:text-gray-300">
+                          <input
+                            type="checkbox"
+                            checked={variable.required}
+                            disabled={!canEdit}
+                            onChange={(e) => updateVariable(index, { required: e.target.checked })}
+                          />
+                          <span>Required</span>
+                        </label>
+                        {canEdit && (
+                          <div className="col-span-1 flex justify-end">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setDraft({ ...draft, variables: draft.variables.filter((_, i) => i !== index) })}
+                              aria-label={`Remove ${variable.name || 'variable'}`}
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                    {canEdit && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setDraft({ ...draft, variables: [...draft.variables, EMPTY_VARIABLE] })}
+                        leftIcon={<Plus className="h-4 w-4" />}
+                      >
+                        Add variable
+                      </Button>
+                    )}
+                  </div>
+                </CardBody>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <h2 className="flex items-center text-sm font-semibold text-gray-900 dark:text-white">
+                    <History className="h-4 w-4 mr-2" />
+                    Versions
+                  </h2>
+                </CardHeader>
+                <CardBody className="p-0">
+                  <ul className="divide-y divide-gray-100 dark:divide-gray-800">
+                    {versions.map((version) => (
+                      <li key={version._id} className="flex items-center justify-between px-4 py-2 text-sm">
+                        <span className="text-gray-900 dark:text-white">
+                          v{version.version}
+                          <span className="ml-2 text-gray-500">{new Date(version.createdAt).toLocaleString()}</span>
+                        </span>
+                        {canEdit && version.version !== selected.version && (
+                          <Button variant="ghost" size="sm" onClick={() => handleRestore(version)}>
+                            Load
+                          </Button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </CardBody>
+              </Card>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
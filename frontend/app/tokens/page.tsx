@@ -0,0 +1,323 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { clsx } from 'clsx';
+import { useAuth } from '@/hooks/useAuth';
+import { DesignToken, DesignTokenGroup, DesignTokenSet } from '@/types';
+import apiClient from '@/lib/api';
+import { getErrorMessage } from '@/lib/errors';
+import { Button } from '@/components/ui/Button';
+import { Card, CardHeader, CardBody } from '@/components/ui/Card';
+import { Input, Select } from '@/components/ui/Input';
+import { ArrowLeft, Palette, Plus, Save, Star, Trash2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const GROUP_OPTIONS: Array<{ value: DesignTokenGroup; label: string }> = [
+  { value: 'color', label: 'Color' },
+  { value: 'typography', label: 'Typography' },
+  { value: 'radius', label: 'Radius' },
+  { value: 'spacing', label: 'Spacing' },
+  { value: 'shadow', label: 'Shadow' },
+  { value: 'other', label: 'Other' },
+];
+
+const EMPTY_TOKEN: DesignToken = { name: '', group: 'color', value: '', darkValue: null };
+
+export default function DesignTokensPage() {
+  const { isAuthenticated } = useAuth();
+  const router = useRouter();
+  const [tokenSets, setTokenSets] = useState<DesignTokenSet[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<{ name: string; tokens: DesignToken[] } | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [newSetName, setNewSetName] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  const selected = tokenSets.find((tokenSet) => tokenSet._id === selectedId) || null;
+
+  const loadTokenSets = useCallback(async () => {
+    try {
+      const loaded = await apiClient.getDesignTokenSets();
+      setTokenSets(loaded);
+      setSelectedId((current) => (current && loaded.some((tokenSet) => tokenSet._id === current)
+        ? current
+        : loaded.length > 0 ? loaded[0]._id : null));
+    } catch (error) {
+      toast.error('Failed to load design tokens');
+      console.error('Load design tokens error:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      router.push('/');
+      return;
+    }
+    loadTokenSets();
+  }, [isAuthenticated, router, loadTokenSets]);
+
+  // Edits stay local until saved
+  useEffect(() => {
+    setDraft(selected ? { name: selected.name, tokens: selected.tokens } : null);
+  }, [selected]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setCreating(true);
+      const created = await apiClient.createDesignTokenSet({ name: newSetName.trim() });
+      setNewSetName('');
+      setSelectedId(created._id);
+      await loadTokenSets();
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to create token set'));
+      console.error('Create token set error:', error);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const updateToken = (index: number, changes: Partial<DesignToken>) => {
+    setDraft((current) => current && {
+      ...current,
+      tokens: current.tokens.map((token, i) => (i === index ? { ...token, ...changes } : token)),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!selected || !draft) {
+      return;
+    }
+    try {
+      setSaving(true);
+      await apiClient.updateDesignTokenSet(selected._id, {
+        name: draft.name.trim(),
+        tokens: draft.tokens.map((token) => ({
+          ...token,
+          darkValue: token.darkValue && token.darkValue.trim() ? token.darkValue : null,
+        })),
+      });
+      toast.success('Design tokens saved');
+      await loadTokenSets();
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to save token set'));
+      console.error('Save token set error:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSetDefault = async () => {
+    if (!selected) {
+      return;
+    }
+    try {
+      await apiClient.setDefaultDesignTokenSet(selected._id);
+      await loadTokenSets();
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to set default token set'));
+      console.error('Set default token set error:', error);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected || !confirm(`Delete "${selected.name}"? Sessions using it switch to your default tokens.`)) {
+      return;
+    }
+    try {
+      await apiClient.deleteDesignTokenSet(selected._id);
+      toast.success('Token set deleted');
+      setSelectedId(null);
+      await loadTokenSets();
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to delete token set'));
+      console.error('Delete token set error:', error);
+    }
+  };
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <header className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center space-x-4 py-6">
+            <Button variant="ghost" size="sm" onClick={() => router.push('/dashboard')} leftIcon={<ArrowLeft className="h-4 w-4" />}>
+              Dashboard
+            </Button>
+            <Palette className="h-6 w-6 text-primary-600" />
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Design Tokens</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8 grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <div className="space-y-4">
+          <Card>
+            <CardBody>
+              <form onSubmit={handleCreate} className="space-y-2">
+                <Input
+                  label="New token set"
+                  placeholder="Brand"
+                  value={newSetName}
+                  onChange={(e) => setNewSetName(e.target.value)}
+                />
+                <Button
+                  type="submit"
+                  size="sm"
+                  loading={creating}
+                  disabled={creating || !newSetName.trim()}
+                  leftIcon={<Plus className="h-4 w-4" />}
+                >
+                  Create
+                </Button>
+              </form>
+            </CardBody>
+          </Card>
+
+          {loading ? (
+            <p className="text-sm text-gray-500">Loading token sets...</p>
+          ) : (
+            <div className="space-y-1">
+              {tokenSets.map((tokenSet) => (
+                <button
+                  key={tokenSet._id}
+                  type="button"
+                  onClick={() => setSelectedId(tokenSet._id)}
+                  className={clsx(
+                    'w-full flex items-center justify-between px-3 py-2 rounded text-left text-sm',
+                    tokenSet._id === selectedId
+                      ? 'bg-primary-50 dark:bg-primary-900/20 text-primary-700 dark:text-primary-300'
+                      : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800'
+                  )}
+                >
+                  <span className="truncate">{tokenSet.name}</span>
+                  {tokenSet.isDefault && <Star className="h-4 w-4 flex-shrink-0 text-warning-500" />}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="lg:col-span-3">
+          {!selected || !draft ? (
+            <Card>
+              <CardBody>
+                <p className="text-sm text-gray-500">
+                  Token sets describe your brand: colors, typography, radii and spacing. Generated components use them
+                  as CSS variables, e.g. <code className="font-mono">var(--color-primary)</code>, and the preview
+                  switches to the dark values in dark mode.
+                </p>
+              </CardBody>
+            </Card>
+          ) : (
+            <Card>
+              <CardHeader>
+                <div className="flex items-end justify-between space-x-4">
+                  <div className="flex-1 max-w-sm">
+                    <Input
+                      label="Name"
+                      value={draft.name}
+                      onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    />
+                  </div>
+                  <div className="flex space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleSetDefault}
+                      disabled={selected.isDefault}
+                      leftIcon={<Star className="h-4 w-4" />}
+                    >
+                      {selected.isDefault ? 'Default' : 'Make default'}
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={handleDelete} leftIcon={<Trash2 className="h-4 w-4" />}>
+                      Delete
+                    </Button>
+                    <Button size="sm" onClick={handleSave} loading={saving} disabled={saving} leftIcon={<Save className="h-4 w-4" />}>
+                      Save
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardBody className="space-y-2">
+                <div className="grid grid-cols-12 gap-2 text-xs uppercase text-gray-500">
+                  <span className="col-span-3">Variable</span>
+                  <span className="col-span-2">Group</span>
+                  <span className="col-span-3">Light value</span>
+                  <span className="col-span-3">Dark value</span>
+                </div>
+                {draft.tokens.map((token, index) => (
+                  <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                    <div className="col-span-3 flex items-center">
+                      <span className="font-mono text-gray-500 mr-1">--</span>
+                      <Input
+                        className="font-mono"
+                        placeholder="color-primary"
+                        value={token.name}
+                        onChange={(e) => updateToken(index, { name: e.target.value })}
+                      />
+                    </div>
+                    <div className="col-span-2">
+                      <Select
+                        value={token.group}
+                        onChange={(e) => updateToken(index, { group: e.target.value as DesignTokenGroup })}
+                        options={GROUP_OPTIONS}
+                      />
+                    </div>
+                    <div className="col-span-3 flex items-center space-x-2">
+                      {token.group === 'color' && (
+                        <span className="h-6 w-6 flex-shrink-0 rounded border border-gray-300" style={{ background: token.value }} />
+                      )}
+                      <Input
+                        className="font-mono"
+                        placeholder="#2563eb"
+                        value={token.value}
+                        onChange={(e) => updateToken(index, { value: e.target.value })}
+                      />
+                    </div>
+                    <div className="col-span-3 flex items-center space-x-2">
+                      {token.group === 'color' && token.darkValue && (
+                        <span className="h-6 w-6 flex-shrink-0 rounded border border-gray-300" style={{ background: token.darkValue }} />
+                      )}
+                      <Input
+                        className="font-mono"
+                        placeholder="Same as light"
+                        value={token.darkValue || ''}
+                        onChange={(e) => updateToken(index, { darkValue: e.target.value })}
+                      />
+                    </div>
+                    <div className="col-span-1 flex justify-end">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setDraft({ ...draft, tokens: draft.tokens.filter((_, i) => i !== index) })}
+                        aria-label={`Remove ${token.name || 'token'}`}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setDraft({ ...draft, tokens: [...draft.tokens, EMPTY_TOKEN] })}
+                  leftIcon={<Plus className="h-4 w-4" />}
+                >
+                  Add token
+                </Button>
+              </CardBody>
+            </Card>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
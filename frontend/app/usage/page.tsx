@@ -0,0 +1,336 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { clsx } from 'clsx';
+import { useAuth } from '@/hooks/useAuth';
+import { QuotaStatus, UsageReport, UsageTotals, UserPlan } from '@/types';
+import apiClient from '@/lib/api';
+import { getErrorMessage } from '@/lib/errors';
+import { Button } from '@/components/ui/Button';
+import { Card, CardHeader, CardBody } from '@/components/ui/Card';
+import { Select } from '@/components/ui/Input';
+import { ArrowLeft, BarChart3 } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const PERIOD_OPTIONS = [
+  { value: '7', label: 'Last 7 days' },
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+];
+
+const PLAN_OPTIONS: Array<{ value: UserPlan; label: string }> = [
+  { value: 'free', label: 'Free' },
+  { value: 'pro', label: 'Pro' },
+  { value: 'team', label: 'Team' },
+];
+
+const formatNumber = (value: number) => value.toLocaleString();
+const formatCost = (value: number) => `$${value.toFixed(value > 0 && value < 1 ? 4 : 2)}`;
+const formatLatency = (value: number | null) => (value === null ? '-' : `${(value / 1000).toFixed(1)} s`);
+
+const QuotaBar = ({ label, used, limit, resetsAt }: { label: string; used: number; limit: number | null; resetsAt: string }) => {
+  const share = limit ? Math.min(used / limit, 1) : 0;
+  return (
+    <div>
+      <div className="flex justify-between text-sm text-gray-700 dark:text-gray-300">
+        <span>{label}</span>
+        <span>{formatNumber(used)} / {limit === null ? 'unlimited' : formatNumber(limit)}</span>
+      </div>
+      <div className="mt-1 h-2 rounded bg-gray-200 dark:bg-gray-700 overflow-hidden">
+        <div
+          className={clsx('h-full', share >= 1 ? 'bg-error-500' : share >= 0.8 ? 'bg-warning-500' : 'bg-primary-500')}
+          style={{ width: `${share * 100}%` }}
+        />
+      </div>
+      <p className="mt-1 text-xs text-gray-500">Resets {new Date(resetsAt).toLocaleString()}</p>
+    </div>
+  );
+};
+
+const QuotaCard = ({ quota }: { quota: QuotaStatus }) => (
+  <Card>
+    <CardHeader>
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+        {PLAN_OPTIONS.find((plan) => plan.value === quota.plan)?.label} plan
+      </h2>
+      {quota.exceeded && (
+        <p className="text-sm text-error-600 dark:text-error-400">
+          Quota reached: AI requests are refused until it resets. Cached responses are still served.
+        </p>
+      )}
+    </CardHeader>
+    <CardBody className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+      <QuotaBar
+        label="Requests today"
+        used={quota.used.requestsToday}
+        limit={quota.limits.requestsPerDay}
+        resetsAt={quota.resets.requestsPerDay}
+      />
+      <QuotaBar
+        label="Tokens this month"
+        used={quota.used.tokensThisMonth}
+        limit={quota.limits.tokensPerMonth}
+        resetsAt={quota.resets.tokensPerMonth}
+      />
+    </CardBody>
+  </Card>
+);
+
+const Stat = ({ label, value }: { label: string; value: string }) => (
+  <div>
+    <p className="text-xs uppercase text-gray-500">{label}</p>
+    <p className="text-xl font-semibold text-gray-900 dark:text-white">{value}</p>
+  </div>
+);
+
+const TotalsCard = ({ totals }: { totals: UsageTotals }) => (
+  <Card>
+    <CardBody className="grid grid-cols-2 sm:grid-cols-5 gap-4">
+      <Stat label="Requests" value={formatNumber(totals.requests)} />
+      <Stat
+        label="Cache hits"
+        value={totals.requests > 0 ? `${Math.round((totals.cacheHits / totals.requests) * 100)}%` : '-'}
+      />
+      <Stat label="Tokens in / out" value={`${formatNumber(totals.inputTokens)} / ${formatNumber(totals.outputTokens)}`} />
+      <Stat label="Estimated cost" value={formatCost(totals.costUsd)} />
+      <Stat label="Avg. model time" value={formatLatency(totals.avgLatencyMs)} />
+    </CardBody>
+  </Card>
+);
+
+// Tokens per day as bars; the tooltip has the day's numbers
+const DailyChart = ({ daily }: { daily: UsageReport['daily'] }) => {
+  const max = Math.max(1, ...daily.map((day) => day.inputTokens + day.outputTokens));
+  return (
+    <Card>
+      <CardHeader>
+        <h2 className="text-sm font-semibold text-gray-900 dark:text-white">Tokens per day</h2>
+      </CardHeader>
+      <CardBody>
+        <div className="flex items-end h-40 space-x-px">
+          {daily.map((day) => {
+            const tokens = day.inputTokens + day.outputTokens;
+            return (
+              <div
+                key={day.date}
+                className="flex-1 flex flex-col justify-end h-full"
+                title={`${day.date}: ${formatNumber(tokens)} tokens, ${day.requests} requests (${day.cacheHits} cached), ${formatCost(day.costUsd)}`}
+              >
+                <div className="bg-primary-500 rounded-t" style={{ height: `${(tokens / max) * 100}%` }} />
+              </div>
+            );
+          })}
+        </div>
+        <div className="flex justify-between mt-1 text-xs text-gray-500">
+          <span>{daily[0]?.date}</span>
+          <span>{daily[daily.length - 1]?.date}</span>
+        </div>
+      </CardBody>
+    </Card>
+  );
+};
+
+const TotalsCells = ({ totals }: { totals: UsageTotals }) => (
+  <>
+    <td className="px-4 py-2 text-right">{formatNumber(totals.requests)}</td>
+    <td className="px-4 py-2 text-right">{formatNumber(totals.cacheHits)}</td>
+    <td className="px-4 py-2 text-right">{formatNumber(totals.inputTokens + totals.outputTokens)}</td>
+    <td className="px-4 py-2 text-right">{formatCost(totals.costUsd)}</td>
+  </>
+);
+
+const TotalsHeadings = () => (
+  <>
+    <th className="px-4 py-2 text-right">Requests</th>
+    <th className="px-4 py-2 text-right">Cached</th>
+    <th className="px-4 py-2 text-right">Tokens</th>
+    <th className="px-4 py-2 text-right">Cost</th>
+  </>
+);
+
+export default function UsagePage() {
+  const { user, isAuthenticated } = useAuth();
+  const router = useRouter();
+  const [days, setDays] = useState('30');
+  const [allUsers, setAllUsers] = useState(false);
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const isAdmin = user?.role === 'admin';
+
+  const loadUsage = useCallback(async () => {
+    try {
+      setLoading(true);
+      const period = parseInt(days);
+      setReport(allUsers ? await apiClient.getAllUsage(period) : await apiClient.getUsage(period));
+    } catch (error) {
+      toast.error('Failed to load usage');
+      console.error('Load usage error:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [days, allUsers]);
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      router.push('/');
+      return;
+    }
+    loadUsage();
+  }, [isAuthenticated, router, loadUsage]);
+
+  const handlePlanChange = async (userId: string, plan: UserPlan) => {
+    try {
+      await apiClient.updateUserPlan(userId, plan);
+      toast.success('Plan updated');
+      await loadUsage();
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to update plan'));
+      console.error('Update plan error:', error);
+    }
+  };
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <header className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between py-6">
+            <div className="flex items-center space-x-4">
+              <Button variant="ghost" size="sm" onClick={() => router.push('/dashboard')} leftIcon={<ArrowLeft className="h-4 w-4" />}>
+                Dashboard
+              </Button>
+              <BarChart3 className="h-6 w-6 text-primary-600" />
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-white">AI Usage</h1>
+            </div>
+            <div className="flex items-center space-x-4">
+              {isAdmin && (
+                <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input type="checkbox" checked={allUsers} onChange={(e) => setAllUsers(e.target.checked)} />
+                  <span>All users</span>
+                </label>
+              )}
+              <div className="w-40">
+                <Select aria-label="Period" value={days} onChange={(e) => setDays(e.target.value)} options={PERIOD_OPTIONS} />
+              </div>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {loading && !report ? (
+          <p className="text-sm text-gray-500">Loading usage...</p>
+        ) : report && (
+          <>
+            {report.quota && <QuotaCard quota={report.quota} />}
+            <TotalsCard totals={report.totals} />
+            <DailyChart daily={report.daily} />
+
+            <Card>
+              <CardHeader>
+                <h2 className="text-sm font-semibold text-gray-900 dark:text-white">By model</h2>
+              </CardHeader>
+              <CardBody className="p-0">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs uppercase text-gray-500 border-b border-gray-200 dark:border-gray-700">
+                      <th className="px-4 py-2">Model</th>
+                      <TotalsHeadings />
+                      <th className="px-4 py-2 text-right">Avg. time</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.byModel.map((entry) => (
+                      <tr key={`${entry.provider}:${entry.model}`} className="border-b border-gray-100 dark:border-gray-800 text-gray-900 dark:text-white">
+                        <td className="px-4 py-2 font-mono">{entry.provider}/{entry.model}</td>
+                        <TotalsCells totals={entry} />
+                        <td className="px-4 py-2 text-right">{formatLatency(entry.avgLatencyMs)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </CardBody>
+            </Card>
+
+            {report.byUser ? (
+              <Card>
+                <CardHeader>
+                  <h2 className="text-sm font-semibold text-gray-900 dark:text-white">By user</h2>
+                </CardHeader>
+                <CardBody className="p-0">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs uppercase text-gray-500 border-b border-gray-200 dark:border-gray-700">
+                        <th className="px-4 py-2">User</th>
+                        <th className="px-4 py-2">Plan</th>
+                        <TotalsHeadings />
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.byUser.map((entry) => (
+                        <tr key={entry.userId} className="border-b border-gray-100 dark:border-gray-800 text-gray-900 dark:text-white">
+                          <td className="px-4 py-2">
+                            {entry.name || 'Deleted user'}
+                            {entry.email && <span className="block text-xs text-gray-500">{entry.email}</span>}
+                          </td>
+                          <td className="px-4 py-2 w-32">
+                            {entry.plan && (
+                              <Select
+                                aria-label={`Plan of ${entry.name}`}
+                                value={entry.plan}
+                                onChange={(e) => handlePlanChange(entry.userId, e.target.value as UserPlan)}
+                                options={PLAN_OPTIONS}
+                              />
+                            )}
+                          </td>
+                          <TotalsCells totals={entry} />
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </CardBody>
+              </Card>
+            ) : report.bySession.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <h2 className="text-sm font-semibold text-gray-900 dark:text-white">Top sessions</h2>
+                </CardHeader>
+                <CardBody className="p-0">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs uppercase text-gray-500 border-b border-gray-200 dark:border-gray-700">
+                        <th className="px-4 py-2">Session</th>
+                        <TotalsHeadings />
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.bySession.map((entry) => (
+                        <tr key={entry.sessionId} className="border-b border-gray-100 dark:border-gray-800 text-gray-900 dark:text-white">
+                          <td className="px-4 py-2">
+                            {entry.title ? (
+                              <button type="button" className="hover:underline" onClick={() => router.push(`/editor/${entry.sessionId}`)}>
+                                {entry.title}
+                              </button>
+                            ) : (
+                              <span className="text-gray-500">Deleted session</span>
+                            )}
+                          </td>
+                          <TotalsCells totals={entry} />
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </CardBody>
+              </Card>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
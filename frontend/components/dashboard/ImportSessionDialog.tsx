@@ -0,0 +1,247 @@
+'use client';
+
+import { useState } from 'react';
+import { useDropzone } from 'react-dropzone';
+import { clsx } from 'clsx';
+import { Upload, FileCode, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import apiClient from '@/lib/api';
+import { getErrorData } from '@/lib/errors';
+import { Button } from '@/components/ui/Button';
+import { Card, CardHeader, CardBody } from '@/components/ui/Card';
+import { Input, Textarea, Select } from '@/components/ui/Input';
+import { FileUpload, Session } from '@/types';
+
+interface ImportSessionDialogProps {
+  onClose: () => void;
+  onImported: (session: Session) => void;
+}
+
+// Mirrors the server's limits (backend/services/componentImport.js)
+const ACCEPTED_EXTENSIONS = ['.jsx', '.tsx', '.js', '.ts', '.css', '.zip'];
+const MAX_FILE_SIZE = 1024 * 1024;
+const MAX_FILES = 10;
+const MAX_PASTE_SIZE = 200 * 1024;
+
+const validateFile = (file: File): string | undefined => {
+  const extension = file.name.slice(file.name.lastIndexOf('.')).toLowerCase();
+  if (ACCEPTED_EXTENSIONS.indexOf(extension) === -1) {
+    return 'Only .jsx, .tsx, .js, .ts, .css and .zip files can be imported';
+  }
+  if (file.size > MAX_FILE_SIZE) {
+    return 'File is larger than 1 MB';
+  }
+  return undefined;
+};
+
+const formatSize = (bytes: number) => (bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`);
+
+export const ImportSessionDialog = ({ onClose, onImported }: ImportSessionDialogProps) => {
+  const [mode, setMode] = useState<'upload' | 'paste'>('upload');
+  const [uploads, setUploads] = useState<FileUpload[]>([]);
+  const [pasted, setPasted] = useState({ jsx: '', css: '' });
+  const [title, setTitle] = useState('');
+  const [tags, setTags] = useState('');
+  const [importing, setImporting] = useState(false);
+  // Set when the upload holds several components and the user has to pick the entry
+  const [entryCandidates, setEntryCandidates] = useState<string[]>([]);
+  const [entry, setEntry] = useState('');
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    multiple: true,
+    disabled: importing,
+    onDrop: (files) => {
+      setUploads((current) => {
+        const names = current.map((upload) => upload.file.name);
+        const added = files
+          .filter((file) => names.indexOf(file.name) === -1)
+          .map((file) => ({ file, error: validateFile(file) }));
+        return current.concat(added).slice(0, MAX_FILES);
+      });
+      setEntryCandidates([]);
+    },
+  });
+
+  const validUploads = uploads.filter((upload) => !upload.error);
+  const pastedTooLarge = pasted.jsx.length > MAX_PASTE_SIZE || pasted.css.length > MAX_PASTE_SIZE;
+  const canImport = mode === 'upload'
+    ? validUploads.length > 0
+    : pasted.jsx.trim().length > 0 && !pastedTooLarge;
+
+  const removeUpload = (name: string) => {
+    setUploads((current) => current.filter((upload) => upload.file.name !== name));
+    setEntryCandidates([]);
+  };
+
+  const setProgress = (progress: number) => {
+    setUploads((current) => current.map((upload) => (upload.error ? upload : { ...upload, progress })));
+  };
+
+  const handleImport = async () => {
+    try {
+      setImporting(true);
+      const { session, skipped } = await apiClient.importSession({
+        title: title.trim() || undefined,
+        tags: tags.split(',').map((tag) => tag.trim()).filter((tag) => tag.length > 0),
+        ...(mode === 'upload'
+          ? { files: validUploads.map((upload) => upload.file), entry: entryCandidates.length > 0 ? entry : undefined }
+          : { jsx: pasted.jsx, css: pasted.css }),
+      }, mode === 'upload' ? setProgress : undefined);
+
+      if (skipped.length > 0) {
+        toast(`Skipped ${skipped.length} file(s) that are not component sources`);
+      }
+      toast.success('Component imported');
+      onImported(session);
+    } catch (error) {
+      const data = getErrorData<{ error?: string; code?: string; candidates?: string[] }>(error);
+      setUploads((current) => current.map((upload) => ({ ...upload, progress: undefined })));
+      if (data?.code === 'IMPORT_MULTIPLE_COMPONENTS' && data.candidates) {
+        setEntryCandidates(data.candidates);
+        setEntry(data.candidates[0]);
+        toast.error('Several components were found; choose the entry and import again');
+        return;
+      }
+      toast.error(data?.error || 'Failed to import component');
+      console.error('Import error:', error);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <Card className="w-full max-w-lg mx-4">
+        <CardHeader>
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Import Component</h2>
+        </CardHeader>
+        <CardBody>
+          <div className="space-y-4">
+            <div className="flex space-x-2">
+              <Button variant={mode === 'upload' ? 'primary' : 'ghost'} size="sm" onClick={() => setMode('upload')}>
+                Upload files
+              </Button>
+              <Button variant={mode === 'paste' ? 'primary' : 'ghost'} size="sm" onClick={() => setMode('paste')}>
+                Paste code
+              </Button>
+            </div>
+
+            {mode === 'upload' ? (
+              <>
+                <div
+                  {...getRootProps()}
+                  className={clsx(
+                    'border-2 border-dashed rounded-lg p-6 text-center cursor-pointer transition-colors',
+                    isDragActive
+                      ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/20'
+                      : 'border-gray-300 dark:border-gray-600 hover:border-primary-400'
+                  )}
+                >
+                  <input {...getInputProps()} />
+                  <Upload className="h-8 w-8 text-gray-400 mx-auto mb-2" />
+                  <p className="text-sm text-gray-700 dark:text-gray-300">
+                    Drop a component here, or click to choose files
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    A component with its sub-components, hooks and styles, or a .zip of them (up to 1 MB each)
+                  </p>
+                </div>
+
+                {uploads.length > 0 && (
+                  <ul className="space-y-2">
+                    {uploads.map((upload) => (
+                      <li key={upload.file.name} className="text-sm">
+                        <div className="flex items-center justify-between space-x-2">
+                          <span className="flex items-center space-x-2 min-w-0">
+                            <FileCode className="h-4 w-4 flex-shrink-0 text-gray-400" />
+                            <span className="truncate text-gray-900 dark:text-white">{upload.file.name}</span>
+                            <span className="text-xs text-gray-500 flex-shrink-0">{formatSize(upload.file.size)}</span>
+                          </span>
+                          <button
+                            type="button"
+                            className="text-gray-400 hover:text-gray-600"
+                            onClick={() => removeUpload(upload.file.name)}
+                            disabled={importing}
+                            aria-label={`Remove ${upload.file.name}`}
+                          >
+                            <X className="h-4 w-4" />
+                          </button>
+                        </div>
+                        {upload.error && (
+                          <p className="text-xs text-error-600 dark:text-error-400">{upload.error}</p>
+                        )}
+                        {upload.progress !== undefined && (
+                          <div className="h-1 mt-1 bg-gray-200 dark:bg-gray-700 rounded">
+                            <div className="h-1 bg-primary-500 rounded" style={{ width: `${upload.progress}%` }} />
+                          </div>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {entryCandidates.length > 0 && (
+                  <Select
+                    label="Entry component"
+                    value={entry}
+                    onChange={(e) => setEntry(e.target.value)}
+                    options={entryCandidates.map((candidate) => ({ value: candidate, label: candidate }))}
+                    helperText="The other files are kept alongside it"
+                  />
+                )}
+              </>
+            ) : (
+              <>
+                <Textarea
+                  label="Component (JSX or TSX)"
+                  rows={8}
+                  className="font-mono text-xs"
+                  placeholder="function Button({ label }) { ... }"
+                  value={pasted.jsx}
+                  onChange={(e) => setPasted((current) => ({ ...current, jsx: e.target.value }))}
+                  error={pasted.jsx.length > MAX_PASTE_SIZE ? 'Code is larger than 200 KB' : undefined}
+                />
+                <Textarea
+                  label="CSS (Optional)"
+                  rows={4}
+                  className="font-mono text-xs"
+                  value={pasted.css}
+                  onChange={(e) => setPasted((current) => ({ ...current, css: e.target.value }))}
+                  error={pasted.css.length > MAX_PASTE_SIZE ? 'CSS is larger than 200 KB' : undefined}
+                />
+              </>
+            )}
+
+            <Input
+              label="Session Title (Optional)"
+              placeholder="Defaults to the component name"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+            />
+            <Input
+              label="Tags (Optional)"
+              placeholder="design-system, button (comma separated)"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+            />
+
+            <div className="flex space-x-3 pt-4">
+              <Button type="button" variant="outline" onClick={onClose} className="flex-1" disabled={importing}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleImport}
+                loading={importing}
+                disabled={importing || !canImport}
+                leftIcon={<Upload className="h-4 w-4" />}
+                className="flex-1"
+              >
+                Import
+              </Button>
+            </div>
+          </div>
+        </CardBody>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,265 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { clsx } from 'clsx';
+import { Activity, Wand2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import apiClient from '@/lib/api';
+import { getErrorMessage } from '@/lib/errors';
+import { waitForJob, isJobFinished, getJobError } from '@/lib/jobs';
+import { Button } from '@/components/ui/Button';
+import { AIAnalysisIssue, AIAnalysisResponse, AIAnalysisSeverity, ComponentAnalysis, Job } from '@/types';
+
+interface AnalysisPanelProps {
+  sessionId: string;
+  headVersion: number;
+  // Analyzing and fixing are disabled while the component is being changed
+  disabled: boolean;
+  onApplyFix: (issue: AIAnalysisIssue) => Promise<void>;
+  // Opens the issue's line in the JSX or CSS tab
+  onJumpToIssue: (issue: AIAnalysisIssue) => void;
+}
+
+const severityOrder: Record<AIAnalysisSeverity, number> = {
+  critical: 0,
+  high: 1,
+  medium: 2,
+  low: 3,
+};
+
+const severityBadges: Record<AIAnalysisSeverity, string> = {
+  critical: 'badge-error',
+  high: 'badge-error',
+  medium: 'badge-warning',
+  low: 'badge-secondary',
+};
+
+const getScoreColor = (score: number) => {
+  if (score >= 80) return 'bg-success-500';
+  if (score >= 60) return 'bg-warning-500';
+  return 'bg-error-500';
+};
+
+const summaryFields = [
+  { key: 'codeQuality', label: 'Code quality' },
+  { key: 'performance', label: 'Performance' },
+  { key: 'accessibility', label: 'Accessibility' },
+  { key: 'security', label: 'Security' },
+] as const;
+
+export const AnalysisPanel = ({ sessionId, headVersion, disabled, onApplyFix, onJumpToIssue }: AnalysisPanelProps) => {
+  const [analyses, setAnalyses] = useState<ComponentAnalysis[]>([]);
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [analyzing, setAnalyzing] = useState(false);
+  const [fixingIssue, setFixingIssue] = useState<number | null>(null);
+
+  useEffect(() => {
+    loadAnalyses();
+    setSelectedVersion(null);
+  }, [sessionId, headVersion]);
+
+  const loadAnalyses = async () => {
+    try {
+      const response = await apiClient.getAnalyses(sessionId);
+      setAnalyses(response.analyses);
+    } catch (error) {
+      console.error('Load analyses error:', error);
+      toast.error('Failed to load analyses');
+    }
+  };
+
+  // An analysis started before the panel opened may still be running
+  useEffect(() => {
+    const controller = new AbortController();
+    apiClient.getJobs({ sessionId, active: true })
+      .then((jobs) => {
+        const job = jobs.find((candidate) => candidate.type === 'analyze');
+        if (job) {
+          followAnalysis(job, controller.signal).catch((error) => console.error('Follow analysis error:', error));
+        }
+      })
+      .catch((error) => console.error('Load jobs error:', error));
+    return () => controller.abort();
+  }, [sessionId]);
+
+  // The job stores the analysis with the session, so it only needs loading once done
+  const followAnalysis = async (job: Job<AIAnalysisResponse>, signal?: AbortSignal) => {
+    try {
+      setAnalyzing(true);
+      const finished = await waitForJob(job, { signal });
+      if (finished.status === 'succeeded') {
+        await loadAnalyses();
+      } else if (isJobFinished(finished)) {
+        toast.error(getJobError(finished));
+      }
+    } finally {
+      setAnalyzing(false);
+    }
+  };
+
+  const handleAnalyze = async () => {
+    try {
+      setAnalyzing(true);
+      await followAnalysis(await apiClient.createJob<AIAnalysisResponse>({ type: 'analyze', sessionId }));
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to analyze component'));
+      console.error('Analyze error:', error);
+    } finally {
+      setAnalyzing(false);
+    }
+  };
+
+  const handleApplyFix = async (issue: AIAnalysisIssue, index: number) => {
+    try {
+      setFixingIssue(index);
+      await onApplyFix(issue);
+    } finally {
+      setFixingIssue(null);
+    }
+  };
+
+  const viewedVersion = selectedVersion ?? headVersion;
+  const current = analyses.find((analysis) => analysis.version === viewedVersion) || null;
+  const headAnalyzed = analyses.some((analysis) => analysis.version === headVersion);
+  const issues = current
+    ? [...current.analysis.issues].sort((a, b) => severityOrder[a.severity] - severityOrder[b.severity])
+    : [];
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Score history */}
+      <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-sm font-medium text-gray-900 dark:text-white">Score history</h3>
+          {!headAnalyzed && (
+            <Button
+              size="sm"
+              onClick={handleAnalyze}
+              loading={analyzing}
+              disabled={analyzing || disabled}
+              leftIcon={<Activity className="h-4 w-4" />}
+            >
+              Analyze v{headVersion}
+            </Button>
+          )}
+        </div>
+        {analyses.length === 0 ? (
+          <p className="text-sm text-gray-500">No analyses yet. Analyze the current version to get a score.</p>
+        ) : (
+          <div className="flex items-end space-x-2 h-24 overflow-x-auto">
+            {analyses.map((analysis) => (
+              <button
+                key={analysis._id}
+                type="button"
+                className="flex flex-col items-center justify-end h-full w-10 flex-shrink-0"
+                onClick={() => setSelectedVersion(analysis.version)}
+                title={`v${analysis.version}: ${analysis.analysis.overallScore}`}
+              >
+                <span className="text-xs text-gray-600 dark:text-gray-300">{analysis.analysis.overallScore}</span>
+                <div
+                  className={clsx(
+                    'w-6 rounded-t',
+                    getScoreColor(analysis.analysis.overallScore),
+                    analysis.version !== viewedVersion && 'opacity-40'
+                  )}
+                  style={{ height: `${Math.max(analysis.analysis.overallScore, 4) * 0.6}%` }}
+                />
+                <span className="text-xs text-gray-500 mt-1">v{analysis.version}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Report */}
+      <div className="flex-1 overflow-y-auto p-4">
+        {!current ? (
+          <p className="text-sm text-gray-500">Version {viewedVersion} has not been analyzed.</p>
+        ) : (
+          <div className="space-y-6">
+            <div>
+              <h3 className="text-sm font-medium text-gray-900 dark:text-white mb-2">
+                Issues in v{current.version}
+                {current.version !== headVersion && (
+                  <span className="ml-2 text-xs text-gray-500">(fixes apply to the current version only)</span>
+                )}
+              </h3>
+              {current.provider === null && (
+                <p className="text-xs text-gray-500 mb-2">
+                  Static checks only. Configure an AI provider for a full review.
+                </p>
+              )}
+              {current.promptTemplate && (
+                <p className="text-xs text-gray-500 mb-2">
+                  Reviewed with the &quot;{current.promptTemplate.name}&quot; template, v{current.promptTemplate.version}
+                </p>
+              )}
+              {issues.length === 0 ? (
+                <p className="text-sm text-gray-500">No issues found.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {issues.map((issue, index) => (
+                    <li
+                      key={index}
+                      className="flex items-start justify-between p-3 rounded-lg border border-gray-200 dark:border-gray-700"
+                    >
+                      <div className="min-w-0 pr-3">
+                        <div className="flex items-center space-x-2 mb-1">
+                          <span className={severityBadges[issue.severity]}>{issue.severity}</span>
+                          <span className="text-xs text-gray-500">{issue.category}</span>
+                          {issue.rule && <span className="text-xs text-gray-500 font-mono">{issue.rule}</span>}
+                          {issue.line !== null && (
+                            <button
+                              type="button"
+                              className="text-xs text-primary-600 dark:text-primary-400 font-mono underline"
+                              onClick={() => onJumpToIssue(issue)}
+                            >
+                              {issue.file === 'css' ? 'CSS ' : ''}line {issue.line}
+                            </button>
+                          )}
+                        </div>
+                        <p className="text-sm text-gray-900 dark:text-white">{issue.message}</p>
+                      </div>
+                      {current.version === headVersion && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleApplyFix(issue, index)}
+                          loading={fixingIssue === index}
+                          disabled={disabled || fixingIssue !== null}
+                          leftIcon={<Wand2 className="h-3 w-3" />}
+                        >
+                          Apply fix
+                        </Button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {summaryFields.map(({ key, label }) => (
+                <div key={key} className="p-3 rounded-lg bg-gray-50 dark:bg-gray-800/50">
+                  <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-1">{label}</h4>
+                  <p className="text-sm text-gray-700 dark:text-gray-200">{current.analysis[key]}</p>
+                </div>
+              ))}
+            </div>
+
+            {current.analysis.optimizations.length > 0 && (
+              <div>
+                <h3 className="text-sm font-medium text-gray-900 dark:text-white mb-2">Suggested optimizations</h3>
+                <ul className="list-disc list-inside space-y-1 text-sm text-gray-700 dark:text-gray-200">
+                  {current.analysis.optimizations.map((optimization, index) => (
+                    <li key={index}>{optimization}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
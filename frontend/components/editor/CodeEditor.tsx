@@ -0,0 +1,114 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import CodeMirror, { EditorView } from '@uiw/react-codemirror';
+import { javascript } from '@codemirror/lang-javascript';
+import { css } from '@codemirror/lang-css';
+import { Diagnostic, lintGutter, setDiagnostics } from '@codemirror/lint';
+import { yCollab } from 'y-codemirror.next';
+import type * as Y from 'yjs';
+import type { Awareness } from 'y-protocols/awareness';
+import { TypeDiagnostic } from '@/types';
+
+export type CodeLanguage = 'jsx' | 'tsx' | 'css';
+
+export interface CodePosition {
+  line: number;
+  column?: number | null;
+}
+
+interface CodeEditorProps {
+  value: string;
+  language: CodeLanguage;
+  onChange: (value: string) => void;
+  readOnly?: boolean;
+  placeholder?: string;
+  theme?: 'light' | 'dark';
+  // Moves the cursor here and scrolls it into view whenever a new position is passed
+  goTo?: CodePosition | null;
+  // Underlined in the code and marked in the gutter
+  diagnostics?: TypeDiagnostic[];
+  // Edit this shared text together with others, showing their cursors. The text is the
+  // editor's content then; `value` is ignored.
+  collaboration?: {
+    text: Y.Text;
+    awareness: Awareness;
+  } | null;
+}
+
+const languageExtensions = {
+  jsx: [javascript({ jsx: true })],
+  tsx: [javascript({ jsx: true, typescript: true }), lintGutter()],
+  css: [css()],
+};
+
+export const CodeEditor = ({ value, language, onChange, readOnly, placeholder, theme = 'light', goTo, diagnostics, collaboration }: CodeEditorProps) => {
+  const [view, setView] = useState<EditorView | null>(null);
+
+  const text = collaboration?.text;
+  const awareness = collaboration?.awareness;
+  const extensions = useMemo(
+    () => (text && awareness ? [...languageExtensions[language], yCollab(text, awareness)] : languageExtensions[language]),
+    [language, text, awareness]
+  );
+  // The shared text only seeds the editor, which keeps it in sync from then on; a changing
+  // value would be written back into the text as an edit
+  const sharedValue = useMemo(() => text?.toString(), [text]);
+
+  useEffect(() => {
+    if (!view || !goTo) {
+      return;
+    }
+
+    const { doc } = view.state;
+    const line = doc.line(Math.min(Math.max(goTo.line, 1), doc.lines));
+    const position = line.from + Math.min(Math.max((goTo.column || 1) - 1, 0), line.length);
+
+    view.dispatch({
+      selection: { anchor: position, head: goTo.column ? position : line.to },
+      effects: EditorView.scrollIntoView(position, { y: 'center' }),
+    });
+    view.focus();
+  }, [view, goTo]);
+
+  useEffect(() => {
+    if (!view) {
+      return;
+    }
+
+    const { doc } = view.state;
+    const toOffset = (line: number, column: number) => {
+      const docLine = doc.line(Math.min(Math.max(line, 1), doc.lines));
+      return docLine.from + Math.min(Math.max(column - 1, 0), docLine.length);
+    };
+
+    const markers: Diagnostic[] = (diagnostics || []).map((diagnostic) => {
+      const from = toOffset(diagnostic.line, diagnostic.column);
+      return {
+        from,
+        to: Math.max(from, toOffset(diagnostic.endLine, diagnostic.endColumn)),
+        severity: diagnostic.severity,
+        message: diagnostic.message,
+        source: `TS${diagnostic.code}`,
+      };
+    });
+    view.dispatch(setDiagnostics(view.state, markers));
+  }, [view, diagnostics]);
+
+  return (
+    <CodeMirror
+      // Each shared text gets an editor of its own
+      key={text ? `shared-${language}` : 'local'}
+      value={sharedValue ?? value}
+      height="100%"
+      className="h-full"
+      theme={theme}
+      extensions={extensions}
+      onChange={onChange}
+      onCreateEditor={setView}
+      readOnly={readOnly}
+      placeholder={placeholder}
+      basicSetup={{ tabSize: 2 }}
+    />
+  );
+};
@@ -0,0 +1,266 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Code, AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { compileComponent, compileModules, CompiledComponent, CompiledModules, PreviewCompileError } from '@/lib/preview/compile';
+import { instrumentElements } from '@/lib/preview/elements';
+import { findPackageImports, getComponentSources, loadPackageBundles } from '@/lib/preview/packages';
+import { toCSSVariables } from '@/lib/preview/tokens';
+import {
+  HOST_SOURCE,
+  PreviewFrameMessage,
+  PreviewHostMessage,
+  getPreviewFrameUrl,
+  isPreviewFrameMessage,
+} from '@/lib/preview/protocol';
+import { ComponentFile, DesignToken } from '@/types';
+
+interface ComponentPreviewProps {
+  jsx: string;
+  css: string;
+  // The component's other modules and stylesheets, importable from the JSX
+  files?: ComponentFile[];
+  // Design tokens defined as CSS variables; theme picks their light or dark values
+  tokens?: DesignToken[];
+  theme?: 'light' | 'dark';
+  selectMode?: boolean;
+  // Source ID of the element to outline, e.g. the one open in the property editor
+  highlightedElement?: string | null;
+  onMessage?: (message: PreviewFrameMessage) => void;
+  // Called after every compile with the error, or null when the code compiled
+  onCompile?: (error: PreviewCompileError | null) => void;
+}
+
+const frameUrl = getPreviewFrameUrl();
+
+const NO_FILES: ComponentFile[] = [];
+const NO_TOKENS: DesignToken[] = [];
+
+export const ComponentPreview = ({
+  jsx,
+  css,
+  files = NO_FILES,
+  tokens = NO_TOKENS,
+  theme = 'light',
+  selectMode = false,
+  highlightedElement = null,
+  onMessage,
+  onCompile,
+}: ComponentPreviewProps) => {
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [renderTime, setRenderTime] = useState<number | null>(null);
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const readyRef = useRef(false);
+  const onMessageRef = useRef(onMessage);
+  const onCompileRef = useRef(onCompile);
+
+  useEffect(() => {
+    onMessageRef.current = onMessage;
+    onCompileRef.current = onCompile;
+  }, [onMessage, onCompile]);
+
+  // Transpile in the editor so the frame only ever receives plain JavaScript
+  const preview = useMemo(() => {
+    if (!jsx) {
+      return null;
+    }
+    try {
+      return { compiled: compileComponent(instrumentElements(jsx)), modules: compileModules(files), error: null };
+    } catch (error) {
+      const compileError = error instanceof PreviewCompileError
+        ? error
+        : new PreviewCompileError((error as Error).message);
+      return { compiled: null, modules: null, error: compileError };
+    }
+  }, [jsx, files]);
+
+  // Allow-listed packages the code imports; rendering waits until their bundles are loaded
+  const packageNames = useMemo(() => findPackageImports(getComponentSources(jsx, files)).sort().join(','), [jsx, files]);
+  const [packages, setPackages] = useState<{ names: string; bundles: Record<string, string> } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadPackageBundles(packageNames ? packageNames.split(',') : [])
+      .catch((error) => {
+        // Imports of packages that failed to load are reported by the frame
+        console.error('Preview packages error:', error);
+        return {};
+      })
+      .then((bundles) => {
+        if (!cancelled) {
+          setPackages({ names: packageNames, bundles });
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [packageNames]);
+
+  const tokenCss = useMemo(() => toCSSVariables(tokens), [tokens]);
+
+  const latestRef = useRef<{
+    compiled: CompiledComponent | null;
+    modules: CompiledModules | null;
+    packages: Record<string, string> | null;
+    css: string;
+    tokenCss: string;
+    theme: 'light' | 'dark';
+    selectMode: boolean;
+    highlightedElement: string | null;
+  }>({
+    compiled: null,
+    modules: null,
+    packages: null,
+    css,
+    tokenCss,
+    theme,
+    selectMode,
+    highlightedElement,
+  });
+  latestRef.current = {
+    compiled: preview?.compiled || null,
+    modules: preview?.modules || null,
+    packages: packages && packages.names === packageNames ? packages.bundles : null,
+    css,
+    tokenCss,
+    theme,
+    selectMode,
+    highlightedElement,
+  };
+
+  // The frame has an opaque origin, so '*' is the only usable target; it only ever receives component code
+  const send = useCallback((message: PreviewHostMessage) => {
+    iframeRef.current?.contentWindow?.postMessage(message, '*');
+  }, []);
+
+  const sendRender = useCallback(() => {
+    const { compiled, modules, packages: latestPackages, css: latestCss } = latestRef.current;
+    if (!readyRef.current || !compiled || !modules || !latestPackages) {
+      return;
+    }
+    send({
+      source: HOST_SOURCE,
+      type: 'render',
+      code: compiled.code,
+      componentName: compiled.componentName,
+      css: modules.css ? `${latestCss}\n\n${modules.css}` : latestCss,
+      modules: modules.modules,
+      packages: latestPackages,
+    });
+  }, [send]);
+
+  const sendTheme = useCallback(() => {
+    if (readyRef.current) {
+      send({ source: HOST_SOURCE, type: 'theme', theme: latestRef.current.theme, tokenCss: latestRef.current.tokenCss });
+    }
+  }, [send]);
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      // Origin is "null" for a sandboxed frame, so trust is based on which window sent it
+      if (!iframeRef.current || event.source !== iframeRef.current.contentWindow || !isPreviewFrameMessage(event.data)) {
+        return;
+      }
+
+      const message = event.data;
+      if (message.type === 'ready') {
+        readyRef.current = true;
+        sendTheme();
+        sendRender();
+        send({ source: HOST_SOURCE, type: 'select-mode', enabled: latestRef.current.selectMode });
+        send({ source: HOST_SOURCE, type: 'highlight', elementId: latestRef.current.highlightedElement });
+      } else if (message.type === 'rendered') {
+        setRenderTime(message.durationMs);
+      }
+      onMessageRef.current?.(message);
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [send, sendRender, sendTheme]);
+
+  useEffect(() => {
+    onCompileRef.current?.(preview ? preview.error : null);
+  }, [preview]);
+
+  useEffect(() => {
+    sendRender();
+  }, [preview, packages, css, sendRender]);
+
+  useEffect(() => {
+    sendTheme();
+  }, [tokenCss, theme, sendTheme]);
+
+  useEffect(() => {
+    if (readyRef.current) {
+      send({ source: HOST_SOURCE, type: 'select-mode', enabled: selectMode });
+    }
+  }, [selectMode, send]);
+
+  useEffect(() => {
+    if (readyRef.current) {
+      send({ source: HOST_SOURCE, type: 'highlight', elementId: highlightedElement });
+    }
+  }, [highlightedElement, send]);
+
+  // The reloaded frame announces itself with a new ready message
+  const handleRefresh = () => {
+    readyRef.current = false;
+    setRenderTime(null);
+    setRefreshKey((key) => key + 1);
+  };
+
+  if (!preview) {
+    return (
+      <div className="flex items-center justify-center h-full text-gray-500">
+        <div className="text-center">
+          <Code className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+          <p>No component to preview</p>
+          <p className="text-sm">Generate a component using the chat below</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative w-full h-full">
+      {preview.error && (
+        <div className="absolute inset-0 z-10 p-6 bg-white dark:bg-gray-900">
+          <div className="flex items-start space-x-3 p-4 rounded-lg border border-error-200 dark:border-error-700 bg-error-50 dark:bg-error-900/20">
+            <AlertTriangle className="h-5 w-5 text-error-600 flex-shrink-0 mt-0.5" />
+            <div>
+              <h3 className="text-sm font-medium text-error-800 dark:text-error-200">Failed to compile component</h3>
+              <pre className="mt-2 text-xs font-mono text-error-700 dark:text-error-300 whitespace-pre-wrap">
+                {preview.error.message}
+              </pre>
+            </div>
+          </div>
+        </div>
+      )}
+      {/* Kept mounted through compile errors so the frame doesn't reload on every keystroke */}
+      <iframe
+        key={refreshKey}
+        ref={iframeRef}
+        src={frameUrl}
+        className="w-full h-full border-0 rounded-lg"
+        title="Component Preview"
+        sandbox="allow-scripts"
+      />
+      <div className="absolute top-2 right-2 flex items-center space-x-2">
+        {renderTime !== null && (
+          <span className="text-xs text-gray-500 bg-white/80 dark:bg-gray-800/80 px-2 py-1 rounded">
+            Rendered in {renderTime} ms
+          </span>
+        )}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleRefresh}
+        >
+          Refresh Preview
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,41 @@
+'use client';
+
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { ExportDialog } from '@/components/editor/ExportDialog';
+
+interface ExportButtonProps {
+  sessionId: string;
+  hasTsx: boolean;
+  // Exports are built on the server from the saved code, so pending edits are saved first
+  onBeforeOpen: () => Promise<void>;
+}
+
+export const ExportButton = ({ sessionId, hasTsx, onBeforeOpen }: ExportButtonProps) => {
+  const [open, setOpen] = useState(false);
+
+  const handleOpen = async () => {
+    await onBeforeOpen();
+    setOpen(true);
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        onClick={handleOpen}
+        leftIcon={<Download className="h-4 w-4" />}
+      >
+        Download
+      </Button>
+      {open && (
+        <ExportDialog
+          sessionId={sessionId}
+          hasTsx={hasTsx}
+          onClose={() => setOpen(false)}
+        />
+      )}
+    </>
+  );
+};
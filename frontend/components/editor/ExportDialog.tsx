@@ -0,0 +1,169 @@
+'use client';
+
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import toast from 'react-hot-toast';
+import apiClient from '@/lib/api';
+import { getErrorMessage } from '@/lib/errors';
+import { waitForJob, getJobError, describeJobStage } from '@/lib/jobs';
+import { Button } from '@/components/ui/Button';
+import { Card, CardHeader, CardBody } from '@/components/ui/Card';
+import { Select } from '@/components/ui/Input';
+import { ExportJobResult, ExportOptions, Job } from '@/types';
+
+interface ExportDialogProps {
+  sessionId: string;
+  hasTsx: boolean;
+  onClose: () => void;
+}
+
+const formatOptions = [
+  { value: 'zip', label: 'ZIP archive' },
+  { value: 'jsx', label: 'Component file (.jsx)' },
+  { value: 'tsx', label: 'TypeScript file (.tsx)' },
+  { value: 'css', label: 'Stylesheet only (.css)' },
+];
+
+const targetOptions = [
+  { value: 'component', label: 'Component files' },
+  { value: 'vite', label: 'Runnable Vite project' },
+  { value: 'nextjs', label: 'Next.js page' },
+];
+
+const stylingOptions = [
+  { value: 'css', label: 'Plain CSS' },
+  { value: 'css-modules', label: 'CSS Modules' },
+  { value: 'tailwind', label: 'Tailwind utilities' },
+];
+
+const checkboxes: Array<{ key: 'includeDependencies' | 'includeReadme' | 'includeStory'; label: string }> = [
+  { key: 'includeDependencies', label: 'package.json with dependencies' },
+  { key: 'includeReadme', label: 'README' },
+  { key: 'includeStory', label: 'Storybook story' },
+];
+
+export const ExportDialog = ({ sessionId, hasTsx, onClose }: ExportDialogProps) => {
+  const [options, setOptions] = useState<ExportOptions>({
+    format: 'zip',
+    target: 'component',
+    styling: 'css',
+    includeDependencies: true,
+    includeReadme: true,
+    includeStory: false,
+  });
+  const [exporting, setExporting] = useState(false);
+  const [job, setJob] = useState<Job<ExportJobResult> | null>(null);
+
+  const update = <K extends keyof ExportOptions>(key: K, value: ExportOptions[K]) => {
+    setOptions((current) => ({ ...current, [key]: value }));
+  };
+
+  const handleExport = async () => {
+    try {
+      setExporting(true);
+      // Built by a background job; the file is downloaded once it is ready
+      const queued = await apiClient.createJob<ExportJobResult>({ type: 'export', sessionId, options });
+      const finished = await waitForJob(queued, { onStatus: setJob });
+      if (finished.status === 'cancelled') {
+        return;
+      }
+      if (finished.status !== 'succeeded') {
+        throw new Error(getJobError(finished));
+      }
+      const { filename, blob } = await apiClient.downloadJobFile(finished.id);
+
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filename;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      toast.success('Component downloaded successfully!');
+      onClose();
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to download component'));
+      console.error('Download error:', error);
+    } finally {
+      setExporting(false);
+      setJob(null);
+    }
+  };
+
+  // Cancelling while an export runs cancels its job too
+  const handleCancel = async () => {
+    if (job && exporting) {
+      await apiClient.cancelJob(job.id).catch((error) => console.error('Cancel export error:', error));
+    }
+    onClose();
+  };
+
+  const isArchive = options.format === 'zip';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <Card className="w-full max-w-md mx-4">
+        <CardHeader>
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Export Component</h2>
+        </CardHeader>
+        <CardBody>
+          <div className="space-y-4">
+            <Select
+              label="Format"
+              value={options.format}
+              onChange={(e) => update('format', e.target.value as ExportOptions['format'])}
+              options={formatOptions.map((option) => ({ ...option, disabled: option.value === 'tsx' && !hasTsx }))}
+            />
+            {isArchive && (
+              <Select
+                label="Target"
+                value={options.target}
+                onChange={(e) => update('target', e.target.value as ExportOptions['target'])}
+                options={targetOptions}
+              />
+            )}
+            <Select
+              label="Styling"
+              value={options.styling}
+              onChange={(e) => update('styling', e.target.value as ExportOptions['styling'])}
+              options={stylingOptions}
+            />
+            {isArchive && (
+              <div className="space-y-2">
+                {checkboxes.map(({ key, label }) => (
+                  <label key={key} className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4"
+                      // A Vite project always ships its package.json
+                      checked={options[key] || (key === 'includeDependencies' && options.target === 'vite')}
+                      disabled={key === 'includeDependencies' && options.target === 'vite'}
+                      onChange={(e) => update(key, e.target.checked)}
+                    />
+                    <span>{label}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+            <div className="flex space-x-3 pt-4">
+              <Button type="button" variant="outline" onClick={handleCancel} className="flex-1">
+                Cancel
+              </Button>
+              <Button
+                onClick={handleExport}
+                loading={exporting}
+                disabled={exporting}
+                leftIcon={<Download className="h-4 w-4" />}
+                className="flex-1"
+              >
+                {exporting && job ? describeJobStage(job) : 'Download'}
+              </Button>
+            </div>
+          </div>
+        </CardBody>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,204 @@
+'use client';
+
+import { useState } from 'react';
+import { clsx } from 'clsx';
+import { FileCode, FilePlus, Pencil, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { CodeEditor, CodeLanguage } from '@/components/editor/CodeEditor';
+import { ComponentFile } from '@/types';
+
+interface FilesPanelProps {
+  files: ComponentFile[];
+  // Entry file name; it and its stylesheet are edited in the JSX and CSS tabs
+  entry: string;
+  readOnly?: boolean;
+  onChange: (files: ComponentFile[]) => void;
+}
+
+// Mirrors the server's rules (backend/services/componentFiles.js)
+const MAX_FILES = 30;
+const FILE_EXTENSIONS = ['.js', '.jsx', '.ts', '.tsx', '.css'];
+const PATH_SEGMENT = /^[\w@][\w.@-]*$/;
+
+const getLanguage = (path: string): CodeLanguage => {
+  if (/\.css$/.test(path)) {
+    return 'css';
+  }
+  return /\.tsx?$/.test(path) ? 'tsx' : 'jsx';
+};
+
+export const FilesPanel = ({ files, entry, readOnly, onChange }: FilesPanelProps) => {
+  const [selectedPath, setSelectedPath] = useState<string | null>(files.length > 0 ? files[0].path : null);
+  // Path being typed for a new file, or for the file being renamed
+  const [draft, setDraft] = useState<{ path: string; renaming: string | null } | null>(null);
+
+  const selected = files.find((file) => file.path === selectedPath) || null;
+
+  const validatePath = (path: string, ignore: string | null): string | null => {
+    const segments = path.split('/');
+    if (!segments.every((segment) => PATH_SEGMENT.test(segment))) {
+      return 'Use a relative path like hooks/useToggle.js';
+    }
+    if (FILE_EXTENSIONS.indexOf(path.slice(path.lastIndexOf('.')).toLowerCase()) === -1) {
+      return `Files must end in ${FILE_EXTENSIONS.join(', ')}`;
+    }
+    if (path === entry || path === entry.replace(/\.[jt]sx?$/, '.css')) {
+      return `${path} is the entry module or its stylesheet`;
+    }
+    if (path !== ignore && files.some((file) => file.path === path)) {
+      return `${path} already exists`;
+    }
+    return null;
+  };
+
+  const handleSubmitDraft = () => {
+    if (!draft) {
+      return;
+    }
+    const path = draft.path.trim().replace(/^\.\//, '');
+    const error = validatePath(path, draft.renaming);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+
+    if (draft.renaming) {
+      onChange(files.map((file) => (file.path === draft.renaming ? { ...file, path } : file)));
+    } else {
+      onChange([...files, { path, content: '' }]);
+    }
+    setSelectedPath(path);
+    setDraft(null);
+  };
+
+  const handleDelete = (path: string) => {
+    if (!window.confirm(`Delete ${path}?`)) {
+      return;
+    }
+    const remaining = files.filter((file) => file.path !== path);
+    onChange(remaining);
+    if (selectedPath === path) {
+      setSelectedPath(remaining.length > 0 ? remaining[0].path : null);
+    }
+  };
+
+  const handleContentChange = (content: string) => {
+    onChange(files.map((file) => (file.path === selectedPath ? { ...file, content } : file)));
+  };
+
+  return (
+    <div className="h-full flex">
+      <div className="w-56 flex-shrink-0 border-r border-gray-200 dark:border-gray-700 flex flex-col">
+        <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200 dark:border-gray-700">
+          <span className="text-xs font-medium uppercase text-gray-500">Files</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setDraft({ path: '', renaming: null })}
+            disabled={readOnly || files.length >= MAX_FILES}
+            leftIcon={<FilePlus className="h-4 w-4" />}
+          >
+            New
+          </Button>
+        </div>
+
+        {draft && (
+          <form
+            className="p-2 border-b border-gray-200 dark:border-gray-700"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleSubmitDraft();
+            }}
+          >
+            <Input
+              autoFocus
+              className="font-mono text-xs"
+              placeholder="components/Icon.jsx"
+              value={draft.path}
+              onChange={(e) => setDraft({ ...draft, path: e.target.value })}
+              onKeyDown={(e) => {
+                if (e.key === 'Escape') {
+                  setDraft(null);
+                }
+              }}
+              onBlur={() => {
+                if (!draft.path.trim()) {
+                  setDraft(null);
+                }
+              }}
+            />
+          </form>
+        )}
+
+        <ul className="flex-1 overflow-y-auto py-1 font-mono text-xs">
+          <li className="flex items-center space-x-2 px-3 py-1.5 text-gray-500" title="Edited in the JSX tab">
+            <FileCode className="h-3.5 w-3.5 flex-shrink-0" />
+            <span className="truncate">{entry}</span>
+          </li>
+          {files.map((file) => (
+            <li
+              key={file.path}
+              className={clsx(
+                'group flex items-center justify-between px-3 py-1.5 cursor-pointer',
+                file.path === selectedPath
+                  ? 'bg-primary-50 text-primary-800 dark:bg-primary-900/20 dark:text-primary-200'
+                  : 'text-gray-700 hover:bg-gray-50 dark:text-gray-200 dark:hover:bg-gray-800'
+              )}
+              onClick={() => setSelectedPath(file.path)}
+            >
+              <span className="flex items-center space-x-2 min-w-0">
+                <FileCode className="h-3.5 w-3.5 flex-shrink-0" />
+                <span className="truncate">{file.path}</span>
+              </span>
+              {!readOnly && (
+                <span className="hidden group-hover:flex items-center space-x-1 flex-shrink-0">
+                  <button
+                    type="button"
+                    className="text-gray-400 hover:text-gray-600"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setDraft({ path: file.path, renaming: file.path });
+                    }}
+                    aria-label={`Rename ${file.path}`}
+                  >
+                    <Pencil className="h-3.5 w-3.5" />
+                  </button>
+                  <button
+                    type="button"
+                    className="text-gray-400 hover:text-error-600"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDelete(file.path);
+                    }}
+                    aria-label={`Delete ${file.path}`}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </button>
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div className="flex-1 min-w-0">
+        {selected ? (
+          <CodeEditor
+            key={selected.path}
+            value={selected.content}
+            language={getLanguage(selected.path)}
+            onChange={handleContentChange}
+            readOnly={readOnly}
+            placeholder={`No code in ${selected.path} yet`}
+          />
+        ) : (
+          <div className="h-full flex items-center justify-center p-6 text-center text-sm text-gray-500">
+            Add sub-components, hooks, utils and stylesheets here, then import them from {entry} with a relative path.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
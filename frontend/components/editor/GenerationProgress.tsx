@@ -0,0 +1,86 @@
+'use client';
+
+import { StopCircle } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { describeJobStage } from '@/lib/jobs';
+import { AIStreamPartial, Job } from '@/types';
+
+interface GenerationProgressProps {
+  // Null until the job is created, and for generations that don't run as a job
+  job: Job | null;
+  streaming: AIStreamPartial | null;
+  onStop: () => void;
+}
+
+const getStatus = (job: Job | null, streaming: AIStreamPartial | null) => {
+  // Queued, retrying, repairing, saving or cancelling
+  if (job && (job.cancelRequested || job.progress?.stage !== 'generating')) {
+    return `${describeJobStage(job)}...`;
+  }
+  if (!streaming) {
+    return 'Generating component...';
+  }
+  if (streaming.values.css !== undefined && !streaming.complete.css) {
+    return 'Writing CSS...';
+  }
+  if (streaming.values.jsx !== undefined && !streaming.complete.jsx) {
+    return 'Writing JSX...';
+  }
+  if (streaming.complete.jsx && streaming.complete.css) {
+    return 'Finishing up...';
+  }
+  return 'Generating component...';
+};
+
+// The tail of whichever code block the model is currently writing
+const getStreamingCode = (streaming: AIStreamPartial | null) => {
+  if (!streaming) {
+    return null;
+  }
+  const field = streaming.values.css !== undefined && !streaming.complete.css ? 'css' : 'jsx';
+  const code = streaming.values[field];
+  if (!code || streaming.complete[field]) {
+    return null;
+  }
+  return code.split('\n').slice(-8).join('\n');
+};
+
+export const GenerationProgress = ({ job, streaming, onStop }: GenerationProgressProps) => {
+  const code = getStreamingCode(streaming);
+
+  return (
+    <div className="bg-gray-50 dark:bg-gray-800/50 border border-gray-200 dark:border-gray-700 rounded-lg p-3 mr-8">
+      {streaming?.values.explanation && (
+        <p className="text-sm text-gray-900 dark:text-white mb-2">
+          {streaming.values.explanation}
+        </p>
+      )}
+      {code && (
+        <pre className="text-xs font-mono bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded p-2 mb-2 max-h-40 overflow-hidden whitespace-pre-wrap">
+          {code}
+        </pre>
+      )}
+      <div className="flex items-center space-x-2">
+        <div className="loading-dots">
+          <div></div>
+          <div></div>
+          <div></div>
+        </div>
+        <span className="text-sm text-gray-600 dark:text-gray-300">
+          {getStatus(job, streaming)}
+        </span>
+        {job && !job.cancelRequested && (
+          <Button
+            size="sm"
+            variant="outline"
+            className="ml-auto"
+            onClick={onStop}
+            leftIcon={<StopCircle className="h-4 w-4" />}
+          >
+            Stop
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
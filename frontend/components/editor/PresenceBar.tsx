@@ -0,0 +1,51 @@
+'use client';
+
+import { CollaborationStatus, SessionPresence } from '@/types';
+
+interface PresenceBarProps {
+  peers: SessionPresence[];
+  status: CollaborationStatus;
+}
+
+const MAX_AVATARS = 5;
+
+const fileLabels: Record<string, string> = {
+  preview: 'the preview',
+  jsx: 'JSX',
+  css: 'CSS',
+  tsx: 'TSX',
+  files: 'files',
+  variations: 'variations',
+  analysis: 'analysis',
+  history: 'history',
+};
+
+export const PresenceBar = ({ peers, status }: PresenceBarProps) => {
+  // Someone with the session open in two tabs shows up once
+  const people = Array.from(new Map(peers.map((peer) => [peer.user.id, peer])).values());
+
+  return (
+    <div className="flex items-center space-x-2">
+      {status === 'offline' && (
+        <span className="text-sm text-warning-600 dark:text-warning-400">Reconnecting...</span>
+      )}
+      <div className="flex -space-x-2">
+        {people.slice(0, MAX_AVATARS).map(({ clientId, user, file }) => (
+          <span
+            key={clientId}
+            title={`${user.name} (${user.role})${file ? ` – on ${fileLabels[file] || file}` : ''}`}
+            className="h-8 w-8 rounded-full border-2 flex items-center justify-center text-sm font-medium text-white overflow-hidden"
+            style={{ borderColor: user.color, backgroundColor: user.color }}
+          >
+            {user.avatar ? <img src={user.avatar} alt="" className="h-full w-full" /> : user.name.charAt(0).toUpperCase()}
+          </span>
+        ))}
+        {people.length > MAX_AVATARS && (
+          <span className="h-8 w-8 rounded-full border-2 border-white dark:border-gray-800 bg-gray-200 dark:bg-gray-700 flex items-center justify-center text-xs text-gray-700 dark:text-gray-200">
+            +{people.length - MAX_AVATARS}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,134 @@
+'use client';
+
+import { useState } from 'react';
+import { clsx } from 'clsx';
+import { Terminal, ChevronDown, ChevronUp, Trash2, Wand2 } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { AIRefineError } from '@/types';
+import { PreviewConsoleLevel } from '@/lib/preview/protocol';
+
+export interface PreviewConsoleEntry {
+  id: number;
+  level: PreviewConsoleLevel;
+  // Errors carry their origin so they can be sent to the AI for fixing
+  error: AIRefineError | null;
+  message: string;
+  stack: string | null;
+  line: number | null;
+  column: number | null;
+  timestamp: number;
+}
+
+interface PreviewConsoleProps {
+  entries: PreviewConsoleEntry[];
+  fixing: boolean;
+  onClear: () => void;
+  onJumpToLine: (line: number, column: number | null) => void;
+  onFix: (entry: PreviewConsoleEntry) => void;
+}
+
+const levelStyles: Record<PreviewConsoleLevel, string> = {
+  log: 'text-gray-700 dark:text-gray-200',
+  info: 'text-primary-700 dark:text-primary-300',
+  debug: 'text-gray-500 dark:text-gray-400',
+  warn: 'bg-warning-50 text-warning-800 dark:bg-warning-900/20 dark:text-warning-200',
+  error: 'bg-error-50 text-error-800 dark:bg-error-900/20 dark:text-error-200',
+};
+
+const errorLabels: Record<AIRefineError['kind'], string> = {
+  compile: 'Compile error',
+  runtime: 'Uncaught error',
+  render: 'Render error',
+  unhandledrejection: 'Unhandled rejection',
+};
+
+export const PreviewConsole = ({ entries, fixing, onClear, onJumpToLine, onFix }: PreviewConsoleProps) => {
+  const [open, setOpen] = useState(true);
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  const errorCount = entries.filter((entry) => entry.level === 'error').length;
+  const warningCount = entries.filter((entry) => entry.level === 'warn').length;
+
+  return (
+    <div className="border-t border-gray-200 dark:border-gray-700 flex flex-col">
+      <div className="flex items-center justify-between px-3 py-1.5 bg-gray-50 dark:bg-gray-800">
+        <button
+          type="button"
+          className="flex items-center space-x-2 text-sm font-medium text-gray-700 dark:text-gray-200"
+          onClick={() => setOpen((value) => !value)}
+        >
+          <Terminal className="h-4 w-4" />
+          <span>Console</span>
+          {errorCount > 0 && <span className="badge-error">{errorCount}</span>}
+          {warningCount > 0 && <span className="badge-warning">{warningCount}</span>}
+          {open ? <ChevronDown className="h-4 w-4" /> : <ChevronUp className="h-4 w-4" />}
+        </button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onClear}
+          disabled={entries.length === 0}
+          leftIcon={<Trash2 className="h-4 w-4" />}
+        >
+          Clear
+        </Button>
+      </div>
+
+      {open && (
+        <div className="h-48 overflow-y-auto font-mono text-xs">
+          {entries.length === 0 ? (
+            <p className="px-3 py-2 text-gray-500">No output</p>
+          ) : (
+            entries.map((entry) => (
+              <div
+                key={entry.id}
+                className={clsx(
+                  'px-3 py-1.5 border-b border-gray-100 dark:border-gray-800',
+                  levelStyles[entry.level]
+                )}
+              >
+                <div className="flex items-start justify-between space-x-2">
+                  <div
+                    className={clsx('flex-1 min-w-0', entry.stack && 'cursor-pointer')}
+                    onClick={() => entry.stack && setExpanded(expanded === entry.id ? null : entry.id)}
+                  >
+                    {entry.error && (
+                      <span className="font-semibold mr-2">{errorLabels[entry.error.kind]}:</span>
+                    )}
+                    <span className="whitespace-pre-wrap break-words">{entry.message}</span>
+                  </div>
+                  <div className="flex items-center space-x-2 flex-shrink-0">
+                    {entry.line !== null && (
+                      <button
+                        type="button"
+                        className="underline hover:no-underline"
+                        onClick={() => onJumpToLine(entry.line as number, entry.column)}
+                      >
+                        JSX:{entry.line}{entry.column !== null && `:${entry.column}`}
+                      </button>
+                    )}
+                    {entry.error && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => onFix(entry)}
+                        loading={fixing}
+                        disabled={fixing}
+                        leftIcon={<Wand2 className="h-3 w-3" />}
+                      >
+                        Fix this error
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                {expanded === entry.id && entry.stack && (
+                  <pre className="mt-1 whitespace-pre-wrap opacity-75">{entry.stack}</pre>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,141 @@
+'use client';
+
+import { useState } from 'react';
+import { HexColorInput, HexColorPicker } from 'react-colorful';
+import { SlidersHorizontal, X } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input, Select } from '@/components/ui/Input';
+import { PropertyControl } from '@/types';
+import { PropertyControlEntry, PropertyValue } from '@/lib/preview/properties';
+
+interface PropertyPanelProps {
+  elementId: string;
+  tagName: string;
+  controls: PropertyControlEntry[];
+  onChange: (key: string, value: PropertyValue) => void;
+  onClose: () => void;
+}
+
+const groupLabels: Record<PropertyControlEntry['group'], string> = {
+  content: 'Content',
+  props: 'Props',
+  style: 'Styles',
+};
+
+const ColorControl = ({ value, onChange }: { value: string; onChange: (value: string) => void }) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div>
+      <div className="flex items-center space-x-2">
+        <button
+          type="button"
+          className="h-8 w-8 rounded border border-gray-300 dark:border-gray-600 flex-shrink-0"
+          style={{ backgroundColor: value }}
+          onClick={() => setOpen((current) => !current)}
+          aria-label="Pick color"
+        />
+        <HexColorInput
+          color={value}
+          onChange={onChange}
+          prefixed
+          className="input py-1 text-sm font-mono"
+        />
+      </div>
+      {open && (
+        <div className="mt-2">
+          <HexColorPicker color={value} onChange={onChange} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+const renderControl = (control: PropertyControl, onChange: (value: PropertyValue) => void) => {
+  switch (control.type) {
+    case 'color':
+      return <ColorControl value={control.value} onChange={onChange} />;
+    case 'select':
+      return (
+        <Select
+          value={control.value}
+          onChange={(e) => onChange(e.target.value)}
+          options={[{ label: '—', value: '' }, ...(control.options || [])]}
+        />
+      );
+    case 'slider':
+      return (
+        <div className="flex items-center space-x-2">
+          <input
+            type="range"
+            className="flex-1"
+            min={control.min}
+            max={control.max}
+            step={control.step}
+            value={control.value}
+            onChange={(e) => onChange(Number(e.target.value))}
+          />
+          <span className="w-10 text-right text-xs text-gray-600 dark:text-gray-300">{control.value}</span>
+        </div>
+      );
+    case 'number':
+      return (
+        <Input
+          type="number"
+          value={control.value}
+          min={control.min}
+          max={control.max}
+          step={control.step}
+          onChange={(e) => onChange(Number(e.target.value))}
+        />
+      );
+    case 'boolean':
+      return (
+        <input
+          type="checkbox"
+          className="h-4 w-4"
+          checked={Boolean(control.value)}
+          onChange={(e) => onChange(e.target.checked)}
+        />
+      );
+    default:
+      return <Input value={control.value} onChange={(e) => onChange(e.target.value)} />;
+  }
+};
+
+export const PropertyPanel = ({ elementId, tagName, controls, onChange, onClose }: PropertyPanelProps) => {
+  const groups = (['content', 'props', 'style'] as const)
+    .map((group) => ({ group, entries: controls.filter((entry) => entry.group === group) }))
+    .filter(({ entries }) => entries.length > 0);
+
+  return (
+    <div className="w-72 flex-shrink-0 border-l border-gray-200 dark:border-gray-700 flex flex-col">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200 dark:border-gray-700">
+        <div className="flex items-center space-x-2 min-w-0">
+          <SlidersHorizontal className="h-4 w-4 text-gray-500 flex-shrink-0" />
+          <span className="text-sm font-medium text-gray-900 dark:text-white">&lt;{tagName}&gt;</span>
+          <span className="text-xs text-gray-500 font-mono truncate">{elementId}</span>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onClose} aria-label="Close properties">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-4">
+        {groups.map(({ group, entries }) => (
+          <div key={group}>
+            <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">{groupLabels[group]}</h3>
+            <div className="space-y-3">
+              {entries.map(({ key, control }) => (
+                <div key={key}>
+                  <label className="block text-xs text-gray-700 dark:text-gray-300 mb-1">{control.label}</label>
+                  {renderControl(control, (value) => onChange(key, value))}
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
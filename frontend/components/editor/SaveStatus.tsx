@@ -0,0 +1,61 @@
+'use client';
+
+import { clsx } from 'clsx';
+import { Button } from '@/components/ui/Button';
+import { AutoSaveStatus } from '@/hooks/useAutoSave';
+import { ComponentCode } from '@/types';
+
+interface SaveStatusLabelProps {
+  status: AutoSaveStatus;
+}
+
+interface SaveConflictBannerProps {
+  // The server's version the edits could not be saved over
+  conflict: ComponentCode;
+  onLoadLatest: () => void;
+  onKeepMine: () => void;
+}
+
+const statusLabels: Record<AutoSaveStatus, string> = {
+  idle: '',
+  pending: 'Unsaved changes',
+  saving: 'Saving...',
+  saved: 'All changes saved',
+  conflict: 'Conflict',
+  error: 'Save failed',
+};
+
+export const SaveStatusLabel = ({ status }: SaveStatusLabelProps) => {
+  if (status === 'idle') {
+    return null;
+  }
+
+  return (
+    <span
+      className={clsx(
+        'text-sm',
+        status === 'conflict' || status === 'error'
+          ? 'text-error-600 dark:text-error-400'
+          : 'text-gray-500 dark:text-gray-400'
+      )}
+    >
+      {statusLabels[status]}
+    </span>
+  );
+};
+
+export const SaveConflictBanner = ({ conflict, onLoadLatest, onKeepMine }: SaveConflictBannerProps) => (
+  <div className="flex items-center justify-between px-4 py-2 bg-warning-50 dark:bg-warning-900/20 border-b border-warning-200 dark:border-warning-700">
+    <span className="text-sm text-warning-800 dark:text-warning-200">
+      This component was changed elsewhere (now v{conflict.version}). Your edits are not saved.
+    </span>
+    <div className="flex space-x-2">
+      <Button variant="outline" size="sm" onClick={onLoadLatest}>
+        Load latest
+      </Button>
+      <Button variant="primary" size="sm" onClick={onKeepMine}>
+        Keep mine
+      </Button>
+    </div>
+  </div>
+);
@@ -0,0 +1,182 @@
+'use client';
+
+import { useState } from 'react';
+import { UserPlus, X, LogOut } from 'lucide-react';
+import toast from 'react-hot-toast';
+import apiClient from '@/lib/api';
+import { getErrorMessage } from '@/lib/errors';
+import { Button } from '@/components/ui/Button';
+import { Card, CardHeader, CardBody } from '@/components/ui/Card';
+import { Input, Select } from '@/components/ui/Input';
+import { CollaboratorRole, SessionMember, SessionMembers } from '@/types';
+
+interface ShareDialogProps {
+  sessionId: string;
+  members: SessionMembers | null;
+  currentUserId: string;
+  onMembersChange: (members: SessionMembers) => void;
+  // Called after a collaborator removed themselves from the session
+  onLeave: () => void;
+  onClose: () => void;
+}
+
+const roleOptions = [
+  { value: 'editor', label: 'Can edit' },
+  { value: 'viewer', label: 'Can view' },
+];
+
+const MemberAvatar = ({ member }: { member: SessionMember }) => (
+  member.avatar ? (
+    <img src={member.avatar} alt="" className="h-8 w-8 rounded-full" />
+  ) : (
+    <span className="h-8 w-8 rounded-full bg-primary-100 text-primary-800 dark:bg-primary-900 dark:text-primary-200 flex items-center justify-center text-sm font-medium">
+      {member.name.charAt(0).toUpperCase()}
+    </span>
+  )
+);
+
+export const ShareDialog = ({ sessionId, members, currentUserId, onMembersChange, onLeave, onClose }: ShareDialogProps) => {
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<CollaboratorRole>('editor');
+  const [saving, setSaving] = useState(false);
+
+  const isOwner = members?.owner.userId === currentUserId;
+
+  // Every change returns the updated member list
+  const update = async (action: () => Promise<SessionMembers>, failure: string) => {
+    try {
+      setSaving(true);
+      onMembersChange(await action());
+      return true;
+    } catch (error) {
+      toast.error(getErrorMessage(error, failure));
+      console.error('Share session error:', error);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) {
+      return;
+    }
+    const added = await update(() => apiClient.addCollaborator(sessionId, email.trim(), role), 'Failed to share session');
+    if (added) {
+      toast.success(`Shared with ${email.trim()}`);
+      setEmail('');
+    }
+  };
+
+  const handleLeave = async () => {
+    if (!confirm('Leave this session? You will need to be invited again to open it.')) {
+      return;
+    }
+    const left = await update(() => apiClient.removeCollaborator(sessionId, currentUserId), 'Failed to leave session');
+    if (left) {
+      onLeave();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <Card className="w-full max-w-lg mx-4">
+        <CardHeader>
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Share Session</h2>
+        </CardHeader>
+        <CardBody>
+          <div className="space-y-4">
+            {isOwner && (
+              <form onSubmit={handleAdd} className="flex items-end space-x-2">
+                <div className="flex-1">
+                  <Input
+                    label="Invite by email"
+                    type="email"
+                    placeholder="teammate@example.com"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                  />
+                </div>
+                <div className="w-32">
+                  <Select
+                    aria-label="Role"
+                    value={role}
+                    onChange={(e) => setRole(e.target.value as CollaboratorRole)}
+                    options={roleOptions}
+                  />
+                </div>
+                <Button type="submit" loading={saving} disabled={saving || !email.trim()} leftIcon={<UserPlus className="h-4 w-4" />}>
+                  Share
+                </Button>
+              </form>
+            )}
+
+            {!members ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Loading...</p>
+            ) : (
+              <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                <li className="flex items-center space-x-3 py-2">
+                  <MemberAvatar member={members.owner} />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{members.owner.name}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{members.owner.email}</p>
+                  </div>
+                  <span className="badge-primary">Owner</span>
+                </li>
+                {members.collaborators.map((collaborator) => (
+                  <li key={collaborator.userId} className="flex items-center space-x-3 py-2">
+                    <MemberAvatar member={collaborator} />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                        {collaborator.name}{collaborator.userId === currentUserId ? ' (you)' : ''}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{collaborator.email}</p>
+                    </div>
+                    {isOwner ? (
+                      <>
+                        <div className="w-32">
+                          <Select
+                            aria-label={`Role of ${collaborator.name}`}
+                            value={collaborator.role}
+                            disabled={saving}
+                            onChange={(e) => update(
+                              () => apiClient.updateCollaborator(sessionId, collaborator.userId, e.target.value as CollaboratorRole),
+                              'Failed to change role'
+                            )}
+                            options={roleOptions}
+                          />
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Remove"
+                          disabled={saving}
+                          onClick={() => update(() => apiClient.removeCollaborator(sessionId, collaborator.userId), 'Failed to remove collaborator')}
+                          leftIcon={<X className="h-4 w-4" />}
+                        />
+                      </>
+                    ) : (
+                      <span className="badge-secondary">{collaborator.role === 'editor' ? 'Can edit' : 'Can view'}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex space-x-3 pt-4">
+              {!isOwner && members && (
+                <Button variant="outline" onClick={handleLeave} disabled={saving} leftIcon={<LogOut className="h-4 w-4" />} className="flex-1">
+                  Leave session
+                </Button>
+              )}
+              <Button type="button" variant="outline" onClick={onClose} className="flex-1">
+                Close
+              </Button>
+            </div>
+          </div>
+        </CardBody>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+'use client';
+
+import { PromptTemplate } from '@/types';
+import { Input, Select } from '@/components/ui/Input';
+
+interface TemplatePickerProps {
+  templates: PromptTemplate[];
+  templateId: string;
+  values: Record<string, string>;
+  onTemplateChange: (templateId: string) => void;
+  onValuesChange: (values: Record<string, string>) => void;
+  disabled?: boolean;
+}
+
+// Picks a prompt template for generation and fills in its variables
+export const TemplatePicker = ({
+  templates,
+  templateId,
+  values,
+  onTemplateChange,
+  onValuesChange,
+  disabled = false,
+}: TemplatePickerProps) => {
+  const template = templates.find((candidate) => candidate._id === templateId);
+
+  return (
+    <div className="space-y-2">
+      <Select
+        aria-label="Prompt template"
+        value={templateId}
+        onChange={(e) => onTemplateChange(e.target.value)}
+        disabled={disabled}
+        options={[
+          { value: '', label: 'No template' },
+          ...templates.map((candidate) => ({
+            value: candidate._id,
+            label: `${candidate.name} (v${candidate.version})${candidate.isDefault ? ' - default' : ''}`,
+          })),
+        ]}
+      />
+      {template && template.description && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">{template.description}</p>
+      )}
+      {template && template.variables.map((variable) => (
+        <Input
+          key={variable.name}
+          label={`${variable.label || variable.name}${variable.required ? ' *' : ''}`}
+          placeholder={variable.defaultValue}
+          value={values[variable.name] || ''}
+          disabled={disabled}
+          onChange={(e) => onValuesChange({ ...values, [variable.name]: e.target.value })}
+        />
+      ))}
+    </div>
+  );
+};
+
+// True when every required variable has a value or a default
+export const hasRequiredValues = (template: PromptTemplate | undefined, values: Record<string, string>) => {
+  return !template || template.variables.every((variable) => (
+    !variable.required || Boolean((values[variable.name] || variable.defaultValue).trim())
+  ));
+};
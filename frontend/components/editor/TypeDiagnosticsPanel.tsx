@@ -0,0 +1,72 @@
+'use client';
+
+import { useState } from 'react';
+import { clsx } from 'clsx';
+import { FileCode, ChevronDown, ChevronUp, Loader2 } from 'lucide-react';
+import { TypeDiagnostic } from '@/types';
+
+interface TypeDiagnosticsPanelProps {
+  diagnostics: TypeDiagnostic[];
+  checking: boolean;
+  onJumpToLine: (line: number, column: number) => void;
+}
+
+const severityStyles: Record<TypeDiagnostic['severity'], string> = {
+  error: 'bg-error-50 text-error-800 dark:bg-error-900/20 dark:text-error-200',
+  warning: 'bg-warning-50 text-warning-800 dark:bg-warning-900/20 dark:text-warning-200',
+  info: 'text-gray-700 dark:text-gray-200',
+};
+
+export const TypeDiagnosticsPanel = ({ diagnostics, checking, onJumpToLine }: TypeDiagnosticsPanelProps) => {
+  const [open, setOpen] = useState(true);
+
+  const errorCount = diagnostics.filter((diagnostic) => diagnostic.severity === 'error').length;
+
+  return (
+    <div className="border-t border-gray-200 dark:border-gray-700 flex flex-col">
+      <div className="flex items-center justify-between px-3 py-1.5 bg-gray-50 dark:bg-gray-800">
+        <button
+          type="button"
+          className="flex items-center space-x-2 text-sm font-medium text-gray-700 dark:text-gray-200"
+          onClick={() => setOpen((value) => !value)}
+        >
+          <FileCode className="h-4 w-4" />
+          <span>Type errors</span>
+          {errorCount > 0 && <span className="badge-error">{errorCount}</span>}
+          {open ? <ChevronDown className="h-4 w-4" /> : <ChevronUp className="h-4 w-4" />}
+        </button>
+        {checking && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+      </div>
+
+      {open && (
+        <div className="max-h-40 overflow-y-auto font-mono text-xs">
+          {diagnostics.length === 0 ? (
+            <p className="px-3 py-2 text-gray-500">{checking ? 'Checking…' : 'No type errors'}</p>
+          ) : (
+            diagnostics.map((diagnostic, index) => (
+              <div
+                key={`${diagnostic.line}:${diagnostic.column}:${diagnostic.code}:${index}`}
+                className={clsx(
+                  'flex items-start justify-between space-x-2 px-3 py-1.5 border-b border-gray-100 dark:border-gray-800',
+                  severityStyles[diagnostic.severity]
+                )}
+              >
+                <span className="flex-1 min-w-0 whitespace-pre-wrap break-words">
+                  <span className="font-semibold mr-2">TS{diagnostic.code}:</span>
+                  {diagnostic.message}
+                </span>
+                <button
+                  type="button"
+                  className="flex-shrink-0 underline hover:no-underline"
+                  onClick={() => onJumpToLine(diagnostic.line, diagnostic.column)}
+                >
+                  TSX:{diagnostic.line}:{diagnostic.column}
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
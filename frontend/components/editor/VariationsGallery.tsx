@@ -0,0 +1,113 @@
+'use client';
+
+import { useState } from 'react';
+import { Layers, Check, GitBranch, Sparkles } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Select } from '@/components/ui/Input';
+import { ComponentPreview } from '@/components/editor/ComponentPreview';
+import { AIVariation } from '@/types';
+
+interface VariationsGalleryProps {
+  variations: AIVariation[];
+  generating: boolean;
+  // Adopting or forking is disabled while the base component is being changed
+  disabled: boolean;
+  onGenerate: (count: number) => void;
+  onAdopt: (variation: AIVariation) => Promise<void>;
+  onFork: (variation: AIVariation) => Promise<void>;
+}
+
+const countOptions = [2, 3, 4].map((count) => ({ label: `${count} variations`, value: String(count) }));
+
+export const VariationsGallery = ({ variations, generating, disabled, onGenerate, onAdopt, onFork }: VariationsGalleryProps) => {
+  const [count, setCount] = useState(3);
+  const [pending, setPending] = useState<{ index: number; action: 'adopt' | 'fork' } | null>(null);
+
+  const runAction = async (index: number, action: 'adopt' | 'fork') => {
+    try {
+      setPending({ index, action });
+      await (action === 'adopt' ? onAdopt : onFork)(variations[index]);
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+        <p className="text-sm text-gray-600 dark:text-gray-300">
+          Explore alternative designs of the current component.
+        </p>
+        <div className="flex items-center space-x-2">
+          <div className="w-40">
+            <Select
+              value={String(count)}
+              onChange={(e) => setCount(Number(e.target.value))}
+              options={countOptions}
+              disabled={generating}
+            />
+          </div>
+          <Button
+            size="sm"
+            onClick={() => onGenerate(count)}
+            loading={generating}
+            disabled={generating || disabled}
+            leftIcon={<Sparkles className="h-4 w-4" />}
+          >
+            {variations.length > 0 ? 'Regenerate' : 'Generate'}
+          </Button>
+        </div>
+      </div>
+
+      {variations.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center text-gray-500">
+          <div className="text-center">
+            <Layers className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+            <p>No variations yet</p>
+            <p className="text-sm">Generate variations to compare design directions side by side</p>
+          </div>
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto p-4 grid grid-cols-1 xl:grid-cols-2 gap-4">
+          {variations.map((variation, index) => (
+            <div
+              key={`${variation.name}-${index}`}
+              className="flex flex-col rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden"
+            >
+              <div className="h-72 bg-white dark:bg-gray-900">
+                <ComponentPreview jsx={variation.jsx} css={variation.css} />
+              </div>
+              <div className="p-3 border-t border-gray-200 dark:border-gray-700 flex-1 flex flex-col">
+                <h3 className="text-sm font-medium text-gray-900 dark:text-white">{variation.name}</h3>
+                {variation.description && (
+                  <p className="text-xs text-gray-600 dark:text-gray-300 mt-1 flex-1">{variation.description}</p>
+                )}
+                <div className="flex justify-end space-x-2 mt-3">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => runAction(index, 'fork')}
+                    loading={pending?.index === index && pending.action === 'fork'}
+                    disabled={disabled || pending !== null}
+                    leftIcon={<GitBranch className="h-4 w-4" />}
+                  >
+                    Fork
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => runAction(index, 'adopt')}
+                    loading={pending?.index === index && pending.action === 'adopt'}
+                    disabled={disabled || pending !== null}
+                    leftIcon={<Check className="h-4 w-4" />}
+                  >
+                    Adopt
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,243 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { clsx } from 'clsx';
+import { History, RotateCcw, GitCompare } from 'lucide-react';
+import toast from 'react-hot-toast';
+import apiClient from '@/lib/api';
+import { Button } from '@/components/ui/Button';
+import { ChatMessage, ComponentCode, ComponentVersion, ComponentVersionSource, VersionDiff } from '@/types';
+
+interface VersionTimelineProps {
+  sessionId: string;
+  headVersion: number;
+  chatHistory: ChatMessage[];
+  onRestore: (componentCode: ComponentCode) => void;
+  // Viewers of a shared session can browse versions but not restore them
+  readOnly?: boolean;
+}
+
+const sourceLabels: Record<ComponentVersionSource, string> = {
+  initial: 'Initial',
+  ai: 'AI',
+  manual: 'Edit',
+  restore: 'Restore',
+};
+
+const sourceBadges: Record<ComponentVersionSource, string> = {
+  initial: 'badge-secondary',
+  ai: 'badge-primary',
+  manual: 'badge-secondary',
+  restore: 'badge-warning',
+};
+
+const formatTime = (dateString: string) => {
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+export const VersionTimeline = ({ sessionId, headVersion, chatHistory, onRestore, readOnly }: VersionTimelineProps) => {
+  const [versions, setVersions] = useState<ComponentVersion[]>([]);
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [compareTo, setCompareTo] = useState<'head' | 'previous'>('head');
+  const [diff, setDiff] = useState<VersionDiff | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  useEffect(() => {
+    loadVersions();
+  }, [sessionId, headVersion]);
+
+  useEffect(() => {
+    loadDiff();
+  }, [selectedVersion, compareTo, headVersion]);
+
+  const loadVersions = async () => {
+    try {
+      const response = await apiClient.getVersions(sessionId);
+      setVersions(response.versions);
+    } catch (error) {
+      console.error('Load versions error:', error);
+      toast.error('Failed to load version history');
+    }
+  };
+
+  const loadDiff = async () => {
+    if (selectedVersion === null) {
+      setDiff(null);
+      return;
+    }
+
+    const [from, to] = compareTo === 'head'
+      ? [selectedVersion, headVersion]
+      : [selectedVersion - 1, selectedVersion];
+
+    if (from < 1 || from === to) {
+      setDiff(null);
+      return;
+    }
+
+    try {
+      setDiff(await apiClient.diffVersions(sessionId, from, to));
+    } catch (error) {
+      console.error('Diff versions error:', error);
+      setDiff(null);
+    }
+  };
+
+  const handleRestore = async (version: number) => {
+    try {
+      setRestoring(true);
+      const componentCode = await apiClient.restoreVersion(sessionId, version);
+      onRestore(componentCode);
+      setSelectedVersion(null);
+      toast.success(`Restored version ${version}`);
+    } catch (error) {
+      console.error('Restore version error:', error);
+      toast.error('Failed to restore version');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const getMessageExcerpt = (messageId: string | null) => {
+    if (!messageId) {
+      return null;
+    }
+    const message = chatHistory.find((msg) => msg._id === messageId);
+    return message ? message.content.slice(0, 120) : null;
+  };
+
+  if (versions.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-full text-gray-500">
+        <div className="text-center">
+          <History className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+          <p>No version history yet</p>
+          <p className="text-sm">Versions are recorded every time the code changes</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex h-full">
+      {/* Timeline */}
+      <ol className="w-72 flex-shrink-0 overflow-y-auto border-r border-gray-200 dark:border-gray-700 p-4 space-y-3">
+        {versions.map((version) => {
+          const excerpt = getMessageExcerpt(version.messageId);
+          const isHead = version.version === headVersion;
+
+          return (
+            <li
+              key={version._id}
+              className={clsx(
+                'p-3 rounded-lg border cursor-pointer',
+                selectedVersion === version.version
+                  ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/20'
+                  : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-800'
+              )}
+              onClick={() => setSelectedVersion(version.version)}
+            >
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-gray-900 dark:text-white">
+                  v{version.version}
+                  {isHead && <span className="ml-2 text-xs text-gray-500">(current)</span>}
+                </span>
+                <span className={sourceBadges[version.source]}>
+                  {sourceLabels[version.source]}
+                  {version.restoredFrom !== null && ` v${version.restoredFrom}`}
+                </span>
+              </div>
+              <p className="text-xs text-gray-500 mt-1">{formatTime(version.createdAt)}</p>
+              {excerpt && (
+                <p className="text-xs text-gray-600 dark:text-gray-300 mt-2 line-clamp-2">{excerpt}</p>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      {/* Diff */}
+      <div className="flex-1 overflow-auto p-4">
+        {selectedVersion === null ? (
+          <p className="text-sm text-gray-500">Select a version to compare or restore it.</p>
+        ) : (
+          <>
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex space-x-1">
+                <Button
+                  variant={compareTo === 'head' ? 'primary' : 'ghost'}
+                  size="sm"
+                  onClick={() => setCompareTo('head')}
+                  leftIcon={<GitCompare className="h-4 w-4" />}
+                >
+                  vs current
+                </Button>
+                <Button
+                  variant={compareTo === 'previous' ? 'primary' : 'ghost'}
+                  size="sm"
+                  onClick={() => setCompareTo('previous')}
+                  leftIcon={<GitCompare className="h-4 w-4" />}
+                >
+                  vs previous
+                </Button>
+              </div>
+              {!readOnly && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRestore(selectedVersion)}
+                  loading={restoring}
+                  disabled={selectedVersion === headVersion}
+                  leftIcon={<RotateCcw className="h-4 w-4" />}
+                >
+                  Restore v{selectedVersion}
+                </Button>
+              )}
+            </div>
+
+            {!diff ? (
+              <p className="text-sm text-gray-500">Nothing to compare.</p>
+            ) : (
+              diff.files
+                .filter((file) => file.additions > 0 || file.deletions > 0)
+                .map((file) => (
+                  <div key={file.name} className="mb-6">
+                    <div className="flex items-center justify-between text-sm font-medium text-gray-900 dark:text-white mb-2">
+                      <span>{file.name}</span>
+                      <span className="text-xs">
+                        <span className="text-success-600">+{file.additions}</span>{' '}
+                        <span className="text-error-600">-{file.deletions}</span>
+                      </span>
+                    </div>
+                    <pre className="text-xs font-mono rounded-lg border border-gray-200 dark:border-gray-700 overflow-x-auto">
+                      {file.changes.map((change, index) => (
+                        <div
+                          key={index}
+                          className={clsx(
+                            'px-3 whitespace-pre',
+                            change.added && 'bg-success-50 text-success-800 dark:bg-success-900/20 dark:text-success-200',
+                            change.removed && 'bg-error-50 text-error-800 dark:bg-error-900/20 dark:text-error-200'
+                          )}
+                        >
+                          {change.value
+                            .replace(/\n$/, '')
+                            .split('\n')
+                            .map((line) => `${change.added ? '+' : change.removed ? '-' : ' '} ${line}`)
+                            .join('\n')}
+                        </div>
+                      ))}
+                    </pre>
+                  </div>
+                ))
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,143 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import axios from 'axios';
+import apiClient from '@/lib/api';
+import { ComponentCode } from '@/types';
+
+export type AutoSaveStatus = 'idle' | 'pending' | 'saving' | 'saved' | 'conflict' | 'error';
+
+export type EditableCode = Pick<ComponentCode, 'jsx' | 'css' | 'tsx' | 'files'>;
+
+interface UseAutoSaveOptions {
+  sessionId: string;
+  // Version the local edits are based on; sent as baseVersion with each save
+  baseVersion: number;
+  delay?: number;
+  onSaved: (componentCode: ComponentCode) => void;
+}
+
+export const useAutoSave = ({ sessionId, baseVersion, delay = 1500, onSaved }: UseAutoSaveOptions) => {
+  const [status, setStatus] = useState<AutoSaveStatus>('idle');
+  const [conflict, setConflict] = useState<ComponentCode | null>(null);
+
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const pendingRef = useRef<EditableCode | null>(null);
+  const savingRef = useRef<Promise<void> | null>(null);
+  const conflictRef = useRef(false);
+  const versionRef = useRef(baseVersion);
+  const onSavedRef = useRef(onSaved);
+
+  useEffect(() => {
+    versionRef.current = baseVersion;
+  }, [baseVersion]);
+
+  useEffect(() => {
+    onSavedRef.current = onSaved;
+  }, [onSaved]);
+
+  const clearTimer = () => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+  };
+
+  // Save the latest pending edits now; resolves once nothing is left to save
+  const flush = useCallback(async (): Promise<void> => {
+    clearTimer();
+
+    if (savingRef.current) {
+      await savingRef.current;
+    }
+
+    // Nothing is saved until the user resolves the conflict
+    const code = pendingRef.current;
+    if (!code || conflictRef.current) {
+      return;
+    }
+    pendingRef.current = null;
+
+    const save = async () => {
+      try {
+        setStatus('saving');
+        const saved = await apiClient.updateComponentCode(sessionId, {
+          ...code,
+          baseVersion: versionRef.current,
+        });
+        versionRef.current = saved.version;
+        onSavedRef.current(saved);
+        setStatus(pendingRef.current ? 'pending' : 'saved');
+      } catch (error) {
+        if (axios.isAxiosError<{ componentCode: ComponentCode }>(error) && error.response?.status === 409) {
+          conflictRef.current = true;
+          pendingRef.current = code;
+          setConflict(error.response.data.componentCode);
+          setStatus('conflict');
+        } else {
+          // Keep the edits so the next change or flush retries them
+          pendingRef.current = pendingRef.current || code;
+          setStatus('error');
+          console.error('Auto-save error:', error);
+        }
+      }
+    };
+
+    savingRef.current = save();
+    await savingRef.current;
+    savingRef.current = null;
+
+    // Edits made while saving get their own save
+    if (pendingRef.current && !timerRef.current && !conflictRef.current) {
+      timerRef.current = setTimeout(flush, delay);
+    }
+  }, [sessionId, delay]);
+
+  const schedule = useCallback((code: EditableCode) => {
+    pendingRef.current = code;
+    setStatus((current) => (current === 'conflict' ? current : 'pending'));
+    clearTimer();
+    timerRef.current = setTimeout(flush, delay);
+  }, [flush, delay]);
+
+  // Drop unsaved edits, e.g. after loading the latest server version
+  const discard = useCallback(() => {
+    clearTimer();
+    pendingRef.current = null;
+    conflictRef.current = false;
+    setConflict(null);
+    setStatus('idle');
+  }, []);
+
+  // Version the saved code is at, counting saves that finished since the last render
+  const getBaseVersion = useCallback(() => versionRef.current, []);
+
+  // Save the given code on top of the conflicting server version
+  const overwrite = useCallback(async (code: EditableCode) => {
+    if (!conflict) {
+      return;
+    }
+    versionRef.current = conflict.version;
+    conflictRef.current = false;
+    setConflict(null);
+    pendingRef.current = code;
+    await flush();
+  }, [conflict, flush]);
+
+  // Save whatever is still pending when the editor unmounts
+  useEffect(() => () => {
+    if (pendingRef.current) {
+      flush();
+    } else {
+      clearTimer();
+    }
+  }, [flush]);
+
+  return {
+    status,
+    conflict,
+    schedule,
+    flush,
+    discard,
+    overwrite,
+    getBaseVersion,
+  };
+};
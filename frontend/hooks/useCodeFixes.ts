@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+import apiClient from '@/lib/api';
+import { getErrorMessage } from '@/lib/errors';
+import { findElementAtLine } from '@/lib/preview/elements';
+import { PreviewConsoleEntry } from '@/components/editor/PreviewConsole';
+import { AIAnalysisIssue, AIRefineError, ComponentCode } from '@/types';
+
+interface UseCodeFixesOptions {
+  sessionId: string;
+  componentCode: ComponentCode;
+  // Save pending manual edits so the fix works from them
+  flush: () => Promise<void>;
+  // Version the saved code is at; the fix is saved on top of it or not at all
+  getBaseVersion: () => number;
+  onFixed: (componentCode: ComponentCode) => Promise<void>;
+}
+
+// Fixes for preview errors and analysis issues, asked for outside the chat box
+// with the exchange kept in the chat history
+export const useCodeFixes = ({ sessionId, componentCode, flush, getBaseVersion, onFixed }: UseCodeFixesOptions) => {
+  const [fixing, setFixing] = useState(false);
+
+  const applyRefinement = async (
+    request: string,
+    refinement: { prompt: string; error?: AIRefineError; targetElementId?: string }
+  ) => {
+    await flush();
+    const metadata = refinement.targetElementId ? { targetElementId: refinement.targetElementId } : undefined;
+
+    await apiClient.addChatMessage(sessionId, {
+      role: 'user',
+      content: request,
+      metadata,
+    });
+
+    const baseVersion = getBaseVersion();
+    const response = await apiClient.refineComponent({
+      ...refinement,
+      currentCode: componentCode,
+      sessionId
+    });
+
+    const savedMessage = await apiClient.addChatMessage(sessionId, {
+      role: 'assistant',
+      content: response.explanation,
+      metadata,
+    });
+
+    const newCode = await apiClient.updateComponentCode(sessionId, {
+      jsx: response.jsx || '',
+      css: response.css || '',
+      tsx: response.tsx || '',
+      files: response.files,
+      messageId: savedMessage._id,
+      source: 'ai',
+      baseVersion
+    });
+
+    await onFixed(newCode);
+  };
+
+  const fixError = async (entry: PreviewConsoleEntry) => {
+    if (!entry.error) {
+      return;
+    }
+
+    try {
+      setFixing(true);
+      await applyRefinement(`Fix this error: ${entry.message}`, {
+        prompt: 'Fix the error reported by the preview without changing anything else.',
+        error: entry.error
+      });
+      toast.success('Fix applied');
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to fix error'));
+      console.error('Fix error:', error);
+    } finally {
+      setFixing(false);
+    }
+  };
+
+  const applyFix = async (issue: AIAnalysisIssue) => {
+    // Scope the fix to the element at the reported JSX line, falling back to the whole component;
+    // CSS issues name their line in the prompt instead
+    const cssLine = issue.file === 'css' && issue.line !== null ? ` (CSS line ${issue.line})` : '';
+    const target = issue.line !== null && issue.file !== 'css' ? findElementAtLine(componentCode.jsx, issue.line) : null;
+
+    try {
+      setFixing(true);
+      await applyRefinement(`Fix this ${issue.severity} ${issue.category} issue: ${issue.message}${cssLine}`, {
+        prompt: `Fix this ${issue.category} issue without changing anything else: ${issue.message}${cssLine}`,
+        targetElementId: target?.id
+      });
+      toast.success('Fix applied');
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to apply fix'));
+      console.error('Apply fix error:', error);
+    } finally {
+      setFixing(false);
+    }
+  };
+
+  return {
+    fixing,
+    fixError,
+    applyFix,
+  };
+};
@@ -0,0 +1,69 @@
+import { useEffect, useRef, useState } from 'react';
+import { SessionCollaboration } from '@/lib/collaboration';
+import { CollaborationStatus, SessionEvent, SessionPresence, SessionRole } from '@/types';
+
+interface UseCollaborationOptions {
+  sessionId: string;
+  userId?: string;
+  // Connect once the session is known to exist and be shared with the user
+  enabled: boolean;
+  onEvent: (event: SessionEvent) => void;
+}
+
+export const useCollaboration = ({ sessionId, userId, enabled, onEvent }: UseCollaborationOptions) => {
+  const [collaboration, setCollaboration] = useState<SessionCollaboration | null>(null);
+  const [status, setStatus] = useState<CollaborationStatus>('connecting');
+  // Why the server closed the connection for good, see CLOSE_CODES
+  const [closeCode, setCloseCode] = useState<number | null>(null);
+  // Set once the shared document has the server's state; until then the code is the session's
+  const [synced, setSynced] = useState(false);
+  const [role, setRole] = useState<SessionRole | null>(null);
+  const [peers, setPeers] = useState<SessionPresence[]>([]);
+
+  const onEventRef = useRef(onEvent);
+
+  useEffect(() => {
+    onEventRef.current = onEvent;
+  }, [onEvent]);
+
+  useEffect(() => {
+    if (!enabled || !userId) {
+      return;
+    }
+
+    const instance = new SessionCollaboration(sessionId, userId, {
+      onStatus: (next, code) => {
+        setStatus(next);
+        if (code) {
+          setCloseCode(code);
+        }
+      },
+      onSynced: (nextRole) => {
+        setRole(nextRole);
+        setSynced(true);
+      },
+      onEvent: (event) => onEventRef.current(event),
+    });
+    const updatePeers = () => setPeers(instance.getPeers());
+    instance.awareness.on('change', updatePeers);
+    setCollaboration(instance);
+
+    return () => {
+      instance.awareness.off('change', updatePeers);
+      instance.destroy();
+      setCollaboration(null);
+      setSynced(false);
+      setPeers([]);
+      setStatus('connecting');
+      setCloseCode(null);
+    };
+  }, [sessionId, userId, enabled]);
+
+  return {
+    collaboration: synced ? collaboration : null,
+    status,
+    closeCode,
+    role,
+    peers,
+  };
+};
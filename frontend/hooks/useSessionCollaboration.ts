@@ -0,0 +1,149 @@
+import { Dispatch, SetStateAction, useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import toast from 'react-hot-toast';
+import { useCollaboration } from '@/hooks/useCollaboration';
+import apiClient from '@/lib/api';
+import { CLOSE_CODES } from '@/lib/collaboration';
+import { isJobFinished } from '@/lib/jobs';
+import { AIStreamPartial, AIVariation, ComponentCode, Job, Session, SessionEvent, SessionMembers } from '@/types';
+
+// A generation another collaborator started, shown while it runs
+export interface RemoteGeneration {
+  job: Job;
+  userId: string;
+  partial: AIStreamPartial | null;
+}
+
+interface UseSessionCollaborationOptions {
+  sessionId: string;
+  userId?: string;
+  // Connect once the session is known to exist and be shared with the user
+  enabled: boolean;
+  // What the user has open, shown to the others next to their avatar
+  file: string;
+  setSession: Dispatch<SetStateAction<Session | null>>;
+  setComponentCode: Dispatch<SetStateAction<ComponentCode>>;
+  onVariations: (variations: AIVariation[]) => void;
+}
+
+// The editor's side of a shared session: its code follows the shared document, and what
+// collaborators do elsewhere (chat, generations, membership) is applied as it happens
+export const useSessionCollaboration = ({
+  sessionId,
+  userId,
+  enabled,
+  file,
+  setSession,
+  setComponentCode,
+  onVariations,
+}: UseSessionCollaborationOptions) => {
+  const router = useRouter();
+  const [members, setMembers] = useState<SessionMembers | null>(null);
+  const [remoteGeneration, setRemoteGeneration] = useState<RemoteGeneration | null>(null);
+
+  // Code edits arrive through the shared document, everything else as session events
+  const handleSessionEvent = useCallback((sessionEvent: SessionEvent) => {
+    switch (sessionEvent.event) {
+      case 'message': {
+        const { message } = sessionEvent.data;
+        setSession((current) => (current && !current.chatHistory.some((existing) => existing._id === message._id)
+          ? { ...current, chatHistory: [...current.chatHistory, message] }
+          : current));
+        if (Array.isArray(message.metadata?.variations)) {
+          onVariations(message.metadata!.variations);
+        }
+        break;
+      }
+      case 'code': {
+        // The code and files are the shared document's already; take the rest of the new version
+        const saved = sessionEvent.data.componentCode;
+        setComponentCode((current) => ({
+          ...current,
+          entry: saved.entry,
+          version: saved.version,
+          lastModified: saved.lastModified
+        }));
+        break;
+      }
+      case 'job': {
+        const { job, userId: startedBy } = sessionEvent.data;
+        if (job.type !== 'generate' || startedBy === userId) {
+          break;
+        }
+        setRemoteGeneration((current) => (isJobFinished(job) ? null : { job, userId: startedBy, partial: current?.job.id === job.id ? current.partial : null }));
+        break;
+      }
+      case 'partial': {
+        const { jobId, partial } = sessionEvent.data;
+        setRemoteGeneration((current) => (current?.job.id === jobId ? { ...current, partial } : current));
+        break;
+      }
+      case 'session':
+        setSession((current) => (current ? { ...current, ...sessionEvent.data.session } : current));
+        break;
+      case 'collaborators':
+        setMembers(sessionEvent.data);
+        break;
+      case 'deleted':
+        toast.error('This session was deleted');
+        router.push('/dashboard');
+        break;
+    }
+  }, [userId, router, setSession, setComponentCode, onVariations]);
+
+  const { collaboration, status, closeCode, peers } = useCollaboration({
+    sessionId,
+    userId,
+    enabled,
+    onEvent: handleSessionEvent
+  });
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    apiClient.getCollaborators(sessionId)
+      .then(setMembers)
+      .catch((error) => console.error('Load collaborators error:', error));
+  }, [sessionId, enabled]);
+
+  // The code text and files follow the shared document while it is connected
+  useEffect(() => {
+    if (!collaboration) {
+      return;
+    }
+    const readCode = () => setComponentCode((current) => ({ ...current, ...collaboration.getCode() }));
+    readCode();
+    collaboration.doc.on('update', readCode);
+    return () => collaboration.doc.off('update', readCode);
+  }, [collaboration, setComponentCode]);
+
+  useEffect(() => {
+    collaboration?.setPresence({ file });
+  }, [collaboration, file]);
+
+  // Removed from the session or the session deleted while it was open
+  useEffect(() => {
+    if (closeCode === CLOSE_CODES.forbidden || closeCode === CLOSE_CODES.deleted) {
+      toast.error(closeCode === CLOSE_CODES.deleted ? 'This session was deleted' : 'This session is no longer shared with you');
+      router.push('/dashboard');
+    } else if (closeCode === CLOSE_CODES.unauthorized) {
+      router.push('/');
+    }
+  }, [closeCode, router]);
+
+  const describeMember = (memberId: string) => {
+    const member = [members?.owner, ...(members?.collaborators || [])].find((candidate) => candidate?.userId === memberId);
+    return member?.name || 'A collaborator';
+  };
+
+  return {
+    collaboration,
+    status,
+    peers,
+    members,
+    setMembers,
+    remoteGeneration,
+    describeMember,
+  };
+};
@@ -0,0 +1,73 @@
+import { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import apiClient from '@/lib/api';
+import { getErrorMessage } from '@/lib/errors';
+import { TypeDiagnostic } from '@/types';
+
+interface UseTypeCheckOptions {
+  jsx: string;
+  tsx?: string;
+  // Type-checking runs only while the TSX is on screen
+  enabled: boolean;
+  delay?: number;
+  onConverted: (tsx: string) => void;
+}
+
+// Server-side type errors for the TSX, and conversion of the JSX into it
+export const useTypeCheck = ({ jsx, tsx, enabled, delay = 800, onConverted }: UseTypeCheckOptions) => {
+  const [typeDiagnostics, setTypeDiagnostics] = useState<TypeDiagnostic[]>([]);
+  const [checkingTypes, setCheckingTypes] = useState(false);
+  const [converting, setConverting] = useState(false);
+
+  // Check once typing pauses
+  useEffect(() => {
+    if (!enabled || !tsx) {
+      setTypeDiagnostics([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        setCheckingTypes(true);
+        const diagnostics = await apiClient.checkTypes(tsx);
+        if (!cancelled) {
+          setTypeDiagnostics(diagnostics);
+        }
+      } catch (error) {
+        console.error('Type check error:', error);
+      } finally {
+        if (!cancelled) {
+          setCheckingTypes(false);
+        }
+      }
+    }, delay);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [enabled, tsx, delay]);
+
+  const convertToTsx = async () => {
+    try {
+      setConverting(true);
+      const converted = await apiClient.convertToTsx(jsx);
+      onConverted(converted.tsx);
+      setTypeDiagnostics(converted.diagnostics);
+      toast.success(converted.diagnostics.length > 0 ? `Converted with ${converted.diagnostics.length} type error(s)` : 'Converted to TypeScript');
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to convert to TypeScript'));
+      console.error('Convert error:', error);
+    } finally {
+      setConverting(false);
+    }
+  };
+
+  return {
+    typeDiagnostics,
+    checkingTypes,
+    converting,
+    convertToTsx,
+  };
+};
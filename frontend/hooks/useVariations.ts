@@ -0,0 +1,117 @@
+import { Dispatch, SetStateAction, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import toast from 'react-hot-toast';
+import apiClient from '@/lib/api';
+import { getErrorMessage } from '@/lib/errors';
+import { waitForJob, isJobFinished, getJobError } from '@/lib/jobs';
+import { AIVariation, AIVariationResponse, ComponentCode, Job, Session } from '@/types';
+
+interface UseVariationsOptions {
+  sessionId: string;
+  session: Session | null;
+  componentCode: ComponentCode;
+  // Save pending manual edits so the variations start from them
+  flush: () => Promise<void>;
+  // Aborted when the page goes away; the job itself keeps running on the server
+  getSignal: () => AbortSignal | undefined;
+  setSession: Dispatch<SetStateAction<Session | null>>;
+  onAdopted: (componentCode: ComponentCode) => Promise<void>;
+}
+
+export const useVariations = ({
+  sessionId,
+  session,
+  componentCode,
+  flush,
+  getSignal,
+  setSession,
+  onAdopted,
+}: UseVariationsOptions) => {
+  const router = useRouter();
+  const [variations, setVariations] = useState<AIVariation[]>([]);
+  const [generatingVariations, setGeneratingVariations] = useState(false);
+
+  // The job also replies in the chat with the variations, so they survive a closed page
+  const followVariationsJob = async (job: Job<AIVariationResponse>) => {
+    try {
+      setGeneratingVariations(true);
+      const finished = await waitForJob(job, { signal: getSignal() });
+      if (finished.status === 'succeeded') {
+        setVariations(finished.result!.variations);
+        setSession(await apiClient.getSession(sessionId));
+      } else if (isJobFinished(finished)) {
+        toast.error(getJobError(finished));
+      }
+    } finally {
+      setGeneratingVariations(false);
+    }
+  };
+
+  const generateVariations = async (count: number) => {
+    try {
+      setGeneratingVariations(true);
+      await flush();
+      const job = await apiClient.createJob<AIVariationResponse>({
+        type: 'variations',
+        baseCode: componentCode,
+        count,
+        sessionId
+      });
+      await followVariationsJob(job);
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to generate variations'));
+      console.error('Generate variations error:', error);
+    } finally {
+      setGeneratingVariations(false);
+    }
+  };
+
+  const adoptVariation = async (variation: AIVariation) => {
+    try {
+      await flush();
+
+      const savedMessage = await apiClient.addChatMessage(sessionId, {
+        role: 'assistant',
+        content: `Adopted variation "${variation.name}"${variation.description ? `: ${variation.description}` : ''}`,
+      });
+
+      const newCode = await apiClient.updateComponentCode(sessionId, {
+        jsx: variation.jsx,
+        css: variation.css,
+        tsx: '',
+        messageId: savedMessage._id,
+        source: 'ai'
+      });
+
+      await onAdopted(newCode);
+      toast.success(`Adopted "${variation.name}"`);
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to adopt variation'));
+      console.error('Adopt variation error:', error);
+    }
+  };
+
+  const forkVariation = async (variation: AIVariation) => {
+    try {
+      const forked = await apiClient.forkSession(sessionId, {
+        title: `${session?.title || 'Component'} - ${variation.name}`,
+        componentCode: { jsx: variation.jsx, css: variation.css, tsx: '' }
+      });
+      toast.success('Forked into a new session');
+      router.push(`/editor/${forked._id}`);
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to fork variation'));
+      console.error('Fork variation error:', error);
+    }
+  };
+
+  return {
+    variations,
+    setVariations,
+    generatingVariations,
+    followVariationsJob,
+    generateVariations,
+    adoptVariation,
+    forkVariation,
+  };
+};
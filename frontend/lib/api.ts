@@ -4,16 +4,42 @@ import {
   Session, 
   ChatMessage, 
   ComponentCode, 
+  ComponentFile,
+  ComponentVersion,
+  ComponentAnalysis,
+  VersionDiff,
   UIState,
   LoginCredentials,
   RegisterCredentials,
   AuthResponse,
   AIComponentResponse,
-  AIVariationResponse,
-  AIAnalysisResponse,
+  AIProviderOptions,
+  AIStreamPartial,
+  AIProvidersResponse,
+  AIRefineError,
+  ExportFile,
+  ImportSessionData,
+  ImportSessionResponse,
+  TypeDiagnostic,
+  TypeScriptConversion,
+  PreviewPackage,
+  DesignToken,
+  DesignTokenSet,
+  PromptTemplate,
+  PromptTemplatePrompt,
+  PromptTemplateTask,
+  PromptTemplateVersion,
+  PromptTemplateOptions,
+  UsageReport,
+  UserPlan,
+  Job,
+  JobRequest,
+  CollaboratorRole,
+  SessionMembers,
   ApiResponse,
   PaginatedResponse
 } from '@/types';
+import { readServerSentEvents } from '@/lib/sse';
 
 class ApiClient {
   private client: AxiosInstance;
@@ -134,20 +160,72 @@ class ApiClient {
     return response.data.session;
   }
 
-  async updateSession(sessionId: string, data: { title?: string; description?: string; tags?: string[] }): Promise<Session> {
+  async importSession(data: ImportSessionData, onProgress?: (percent: number) => void): Promise<ImportSessionResponse> {
+    const form = new FormData();
+    (data.files || []).forEach((file) => form.append('files', file, file.name));
+    (['title', 'description', 'jsx', 'css', 'tsx', 'entry'] as const).forEach((key) => {
+      if (data[key]) {
+        form.append(key, data[key] as string);
+      }
+    });
+    if (data.tags && data.tags.length > 0) {
+      form.append('tags', data.tags.join(','));
+    }
+
+    const response: AxiosResponse<ImportSessionResponse> = await this.client.post('/sessions/import', form, {
+      // Let the browser set the multipart boundary
+      headers: { 'Content-Type': 'multipart/form-data' },
+      onUploadProgress: (event) => {
+        if (onProgress && event.total) {
+          onProgress(Math.round((event.loaded / event.total) * 100));
+        }
+      },
+    });
+    return response.data;
+  }
+
+  async updateSession(sessionId: string, data: {
+    title?: string;
+    description?: string;
+    tags?: string[];
+    designTokenSetId?: string | null;
+  }): Promise<Session> {
     const response: AxiosResponse<{ session: Session }> = await this.client.put(`/sessions/${sessionId}`, data);
     return response.data.session;
   }
 
+  async forkSession(sessionId: string, data: {
+    title?: string;
+    componentCode?: Pick<ComponentCode, 'jsx' | 'css' | 'tsx' | 'files'>;
+  } = {}): Promise<Session> {
+    const response: AxiosResponse<{ session: Session }> = await this.client.post(`/sessions/${sessionId}/fork`, data);
+    return response.data.session;
+  }
+
   async deleteSession(sessionId: string): Promise<void> {
     await this.client.delete(`/sessions/${sessionId}`);
   }
 
-  async addChatMessage(sessionId: string, message: Omit<ChatMessage, '_id' | 'timestamp'>): Promise<void> {
-    await this.client.post(`/sessions/${sessionId}/chat`, message);
+  async addChatMessage(sessionId: string, message: Omit<ChatMessage, '_id' | 'timestamp'>): Promise<ChatMessage> {
+    const response: AxiosResponse<{ chatMessage: ChatMessage }> = await this.client.post(`/sessions/${sessionId}/chat`, message);
+    return response.data.chatMessage;
   }
 
-  async updateComponentCode(sessionId: string, code: { jsx?: string; css?: string; tsx?: string }): Promise<ComponentCode> {
+  async updateComponentCode(
+    sessionId: string,
+    code: {
+      jsx?: string;
+      css?: string;
+      tsx?: string;
+      // Replaces all extra files when given
+      files?: ComponentFile[];
+      entry?: string;
+      messageId?: string;
+      source?: 'ai' | 'manual';
+      // Rejected with 409 VERSION_CONFLICT when this is no longer the current version
+      baseVersion?: number;
+    }
+  ): Promise<ComponentCode> {
     const response: AxiosResponse<{ componentCode: ComponentCode }> = await this.client.put(`/sessions/${sessionId}/code`, code);
     return response.data.componentCode;
   }
@@ -157,22 +235,70 @@ class ApiClient {
     return response.data.uiState;
   }
 
+  async getVersions(sessionId: string): Promise<{ versions: ComponentVersion[]; headVersion: number }> {
+    const response: AxiosResponse<{ versions: ComponentVersion[]; headVersion: number }> = await this.client.get(`/sessions/${sessionId}/versions`);
+    return response.data;
+  }
+
+  async getAnalyses(sessionId: string): Promise<{ analyses: ComponentAnalysis[]; headVersion: number }> {
+    const response: AxiosResponse<{ analyses: ComponentAnalysis[]; headVersion: number }> = await this.client.get(`/sessions/${sessionId}/analyses`);
+    return response.data;
+  }
+
+  async getVersion(sessionId: string, version: number): Promise<ComponentVersion> {
+    const response: AxiosResponse<{ version: ComponentVersion }> = await this.client.get(`/sessions/${sessionId}/versions/${version}`);
+    return response.data.version;
+  }
+
+  async diffVersions(sessionId: string, from: number, to: number): Promise<VersionDiff> {
+    const params = new URLSearchParams({ from: from.toString(), to: to.toString() });
+    const response: AxiosResponse<{ diff: VersionDiff }> = await this.client.get(`/sessions/${sessionId}/versions/diff?${params}`);
+    return response.data.diff;
+  }
+
+  async restoreVersion(sessionId: string, version: number): Promise<ComponentCode> {
+    const response: AxiosResponse<{ componentCode: ComponentCode }> = await this.client.post(`/sessions/${sessionId}/versions/${version}/restore`);
+    return response.data.componentCode;
+  }
+
+  async getCollaborators(sessionId: string): Promise<SessionMembers> {
+    const response: AxiosResponse<SessionMembers> = await this.client.get(`/sessions/${sessionId}/collaborators`);
+    return response.data;
+  }
+
+  async addCollaborator(sessionId: string, email: string, role: CollaboratorRole): Promise<SessionMembers> {
+    const response: AxiosResponse<SessionMembers> = await this.client.post(`/sessions/${sessionId}/collaborators`, { email, role });
+    return response.data;
+  }
+
+  async updateCollaborator(sessionId: string, userId: string, role: CollaboratorRole): Promise<SessionMembers> {
+    const response: AxiosResponse<SessionMembers> = await this.client.put(`/sessions/${sessionId}/collaborators/${userId}`, { role });
+    return response.data;
+  }
+
+  // Owners remove collaborators; collaborators remove themselves to leave a session
+  async removeCollaborator(sessionId: string, userId: string): Promise<SessionMembers> {
+    const response: AxiosResponse<SessionMembers> = await this.client.delete(`/sessions/${sessionId}/collaborators/${userId}`);
+    return response.data;
+  }
+
+  // Sockets can't send headers, so the token goes in the URL
+  getCollaborationUrl(sessionId: string): string {
+    const apiUrl = new URL(this.client.defaults.baseURL as string);
+    apiUrl.protocol = apiUrl.protocol === 'https:' ? 'wss:' : 'ws:';
+    apiUrl.pathname = apiUrl.pathname.replace(/\/api\/?$/, '') + `/ws/sessions/${sessionId}`;
+    apiUrl.search = new URLSearchParams({ token: this.token || '' }).toString();
+    return apiUrl.toString();
+  }
+
   async getSessionStats(sessionId: string): Promise<any> {
     const response: AxiosResponse<{ stats: any }> = await this.client.get(`/sessions/${sessionId}/stats`);
     return response.data.stats;
   }
 
   // AI endpoints
-  async generateComponent(data: {
-    prompt: string;
-    sessionId?: string;
-    existingCode?: ComponentCode;
-    chatHistory?: ChatMessage[];
-  }): Promise<AIComponentResponse> {
-    const response: AxiosResponse<ApiResponse<AIComponentResponse>> = await this.client.post('/ai/generate', data);
-    if (!response.data.success) {
-      throw new Error(response.data.error || 'Failed to generate component');
-    }
+  async getAIProviders(): Promise<AIProvidersResponse> {
+    const response: AxiosResponse<ApiResponse<AIProvidersResponse>> = await this.client.get('/ai/providers');
     return response.data.data!;
   }
 
@@ -180,7 +306,12 @@ class ApiClient {
     prompt: string;
     currentCode: ComponentCode;
     sessionId?: string;
-  }): Promise<AIComponentResponse> {
+    // Only used without a sessionId; the server reads a session's history itself
+    chatHistory?: ChatMessage[];
+    error?: AIRefineError;
+    // Stable element ID (see lib/preview/elements.ts); only that element is changed
+    targetElementId?: string;
+  } & AIProviderOptions & PromptTemplateOptions): Promise<AIComponentResponse> {
     const response: AxiosResponse<ApiResponse<AIComponentResponse>> = await this.client.post('/ai/refine', data);
     if (!response.data.success) {
       throw new Error(response.data.error || 'Failed to refine component');
@@ -188,25 +319,199 @@ class ApiClient {
     return response.data.data!;
   }
 
-  async generateVariations(data: {
-    baseCode: ComponentCode;
-    count?: number;
-  }): Promise<AIVariationResponse> {
-    const response: AxiosResponse<ApiResponse<AIVariationResponse>> = await this.client.post('/ai/variations', data);
+  // TypeScript endpoints
+  async convertToTsx(jsx: string): Promise<TypeScriptConversion> {
+    const response: AxiosResponse<ApiResponse<TypeScriptConversion>> = await this.client.post('/typescript/convert', { jsx });
     if (!response.data.success) {
-      throw new Error(response.data.error || 'Failed to generate variations');
+      throw new Error(response.data.error || 'Failed to convert component');
     }
     return response.data.data!;
   }
 
-  async analyzeComponent(data: { code: ComponentCode }): Promise<AIAnalysisResponse> {
-    const response: AxiosResponse<ApiResponse<AIAnalysisResponse>> = await this.client.post('/ai/analyze', data);
+  async checkTypes(tsx: string): Promise<TypeDiagnostic[]> {
+    const response: AxiosResponse<ApiResponse<{ diagnostics: TypeDiagnostic[] }>> = await this.client.post('/typescript/check', { tsx });
     if (!response.data.success) {
-      throw new Error(response.data.error || 'Failed to analyze component');
+      throw new Error(response.data.error || 'Failed to type-check component');
     }
+    return response.data.data!.diagnostics;
+  }
+
+  // Preview package endpoints; create, update, rebuild and delete are admin-only
+  async getPackages(): Promise<PreviewPackage[]> {
+    const response: AxiosResponse<{ packages: PreviewPackage[] }> = await this.client.get('/packages');
+    return response.data.packages;
+  }
+
+  async getPackageBundle(packageId: string): Promise<string> {
+    const response: AxiosResponse<string> = await this.client.get(`/packages/${packageId}/bundle`, {
+      responseType: 'text',
+    });
+    return response.data;
+  }
+
+  async createPackage(data: { name: string; version: string; description?: string }): Promise<PreviewPackage> {
+    const response: AxiosResponse<{ package: PreviewPackage }> = await this.client.post('/packages', data);
+    return response.data.package;
+  }
+
+  async updatePackage(packageId: string, data: { version?: string; description?: string; enabled?: boolean }): Promise<PreviewPackage> {
+    const response: AxiosResponse<{ package: PreviewPackage }> = await this.client.put(`/packages/${packageId}`, data);
+    return response.data.package;
+  }
+
+  async rebuildPackage(packageId: string): Promise<PreviewPackage> {
+    const response: AxiosResponse<{ package: PreviewPackage }> = await this.client.post(`/packages/${packageId}/rebuild`);
+    return response.data.package;
+  }
+
+  async deletePackage(packageId: string): Promise<void> {
+    await this.client.delete(`/packages/${packageId}`);
+  }
+
+  // Design token endpoints
+  async getDesignTokenSets(): Promise<DesignTokenSet[]> {
+    const response: AxiosResponse<{ tokenSets: DesignTokenSet[] }> = await this.client.get('/design-tokens');
+    return response.data.tokenSets;
+  }
+
+  async createDesignTokenSet(data: { name: string; tokens?: DesignToken[]; isDefault?: boolean }): Promise<DesignTokenSet> {
+    const response: AxiosResponse<{ tokenSet: DesignTokenSet }> = await this.client.post('/design-tokens', data);
+    return response.data.tokenSet;
+  }
+
+  async updateDesignTokenSet(tokenSetId: string, data: { name?: string; tokens?: DesignToken[] }): Promise<DesignTokenSet> {
+    const response: AxiosResponse<{ tokenSet: DesignTokenSet }> = await this.client.put(`/design-tokens/${tokenSetId}`, data);
+    return response.data.tokenSet;
+  }
+
+  async setDefaultDesignTokenSet(tokenSetId: string): Promise<DesignTokenSet> {
+    const response: AxiosResponse<{ tokenSet: DesignTokenSet }> = await this.client.post(`/design-tokens/${tokenSetId}/default`);
+    return response.data.tokenSet;
+  }
+
+  async deleteDesignTokenSet(tokenSetId: string): Promise<void> {
+    await this.client.delete(`/design-tokens/${tokenSetId}`);
+  }
+
+  // Prompt template endpoints; templates can be edited by their owner (or an admin)
+  async getPromptTemplates(task?: PromptTemplateTask): Promise<PromptTemplate[]> {
+    const response: AxiosResponse<{ templates: PromptTemplate[] }> = await this.client.get('/prompt-templates', {
+      params: task ? { task } : undefined,
+    });
+    return response.data.templates;
+  }
+
+  async getBuiltInInstructions(): Promise<Record<PromptTemplateTask, string>> {
+    const response: AxiosResponse<{ instructions: Record<PromptTemplateTask, string> }> = await this.client.get('/prompt-templates/built-in');
+    return response.data.instructions;
+  }
+
+  async getPromptTemplateVersions(templateId: string): Promise<PromptTemplateVersion[]> {
+    const response: AxiosResponse<{ versions: PromptTemplateVersion[] }> = await this.client.get(`/prompt-templates/${templateId}/versions`);
+    return response.data.versions;
+  }
+
+  async createPromptTemplate(data: Partial<PromptTemplatePrompt> & {
+    name: string;
+    description?: string;
+    task: PromptTemplateTask;
+    visibility?: PromptTemplate['visibility'];
+  }): Promise<PromptTemplate> {
+    const response: AxiosResponse<{ template: PromptTemplate }> = await this.client.post('/prompt-templates', data);
+    return response.data.template;
+  }
+
+  // A changed prompt becomes a new version; isDefault is admin-only
+  async updatePromptTemplate(templateId: string, data: Partial<PromptTemplatePrompt> & {
+    name?: string;
+    description?: string;
+    visibility?: PromptTemplate['visibility'];
+    isDefault?: boolean;
+  }): Promise<PromptTemplate> {
+    const response: AxiosResponse<{ template: PromptTemplate }> = await this.client.put(`/prompt-templates/${templateId}`, data);
+    return response.data.template;
+  }
+
+  async deletePromptTemplate(templateId: string): Promise<void> {
+    await this.client.delete(`/prompt-templates/${templateId}`);
+  }
+
+  // Usage endpoints
+  async getUsage(days?: number): Promise<UsageReport> {
+    const response: AxiosResponse<ApiResponse<UsageReport>> = await this.client.get('/usage', { params: { days } });
     return response.data.data!;
   }
 
+  // Every user's usage (admin)
+  async getAllUsage(days?: number): Promise<UsageReport> {
+    const response: AxiosResponse<ApiResponse<UsageReport>> = await this.client.get('/usage/all', { params: { days } });
+    return response.data.data!;
+  }
+
+  async updateUserPlan(userId: string, plan: UserPlan): Promise<void> {
+    await this.client.put(`/usage/users/${userId}/plan`, { plan });
+  }
+
+  // Background jobs (see lib/jobs.ts for waiting on one)
+  async createJob<T = any>(data: JobRequest): Promise<Job<T>> {
+    const response: AxiosResponse<{ job: Job<T> }> = await this.client.post('/jobs', data);
+    return response.data.job;
+  }
+
+  async getJobs(params: { sessionId?: string; active?: boolean } = {}): Promise<Job[]> {
+    const response: AxiosResponse<{ jobs: Job[] }> = await this.client.get('/jobs', { params });
+    return response.data.jobs;
+  }
+
+  async getJob<T = any>(jobId: string): Promise<Job<T>> {
+    const response: AxiosResponse<{ job: Job<T> }> = await this.client.get(`/jobs/${jobId}`);
+    return response.data.job;
+  }
+
+  async cancelJob(jobId: string): Promise<Job> {
+    const response: AxiosResponse<{ job: Job }> = await this.client.post(`/jobs/${jobId}/cancel`);
+    return response.data.job;
+  }
+
+  // Follow a job's events until it finishes or the stream drops; resolves with the last job seen
+  async followJob<T = any>(
+    jobId: string,
+    options: { onStatus?: (job: Job<T>) => void; onPartial?: (partial: AIStreamPartial) => void; signal?: AbortSignal } = {}
+  ): Promise<Job<T> | null> {
+    const response = await fetch(`${this.client.defaults.baseURL}/jobs/${jobId}/events`, {
+      headers: {
+        Accept: 'text/event-stream',
+        ...(this.token ? { Authorization: `Bearer ${this.token}` } : {}),
+      },
+      signal: options.signal,
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to follow job');
+    }
+
+    let latest: Job<T> | null = null;
+    await readServerSentEvents(response, ({ event, data }) => {
+      if (event === 'status') {
+        latest = JSON.parse(data);
+        options.onStatus?.(latest!);
+      } else if (event === 'partial') {
+        options.onPartial?.(JSON.parse(data));
+      }
+    });
+    return latest;
+  }
+
+  async downloadJobFile(jobId: string): Promise<ExportFile> {
+    const response: AxiosResponse<Blob> = await this.client.get(`/jobs/${jobId}/download`, {
+      responseType: 'blob',
+    });
+    const disposition = response.headers['content-disposition'] || '';
+    const match = disposition.match(/filename="([^"]+)"/);
+    return { filename: match ? match[1] : 'component.zip', blob: response.data };
+  }
+
   // Health check
   async healthCheck(): Promise<{ status: string; timestamp: string }> {
     const response: AxiosResponse<{ status: string; timestamp: string }> = await this.client.get('/health');
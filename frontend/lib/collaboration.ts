@@ -0,0 +1,271 @@
+import * as Y from 'yjs';
+import { Awareness, applyAwarenessUpdate, encodeAwarenessUpdate, removeAwarenessStates } from 'y-protocols/awareness';
+import apiClient from '@/lib/api';
+import { CollaborationStatus, ComponentFile, SessionEvent, SessionPresence, SessionRole } from '@/types';
+
+// Keeps a session's shared code document (a Yjs doc with a Y.Text per code field and a 'files'
+// map with a Y.Text per extra file, by path) and the awareness states of everyone in the session in sync over the session's socket, and passes on
+// its other events. Edits made while offline stay in the document and are sent on reconnect.
+
+export type SharedCodeField = 'jsx' | 'css' | 'tsx';
+
+export type SharedCode = Record<SharedCodeField, string> & { files: ComponentFile[] };
+
+// The server closes with these when reconnecting won't help
+export const CLOSE_CODES = {
+  unauthorized: 4401,
+  forbidden: 4403,
+  deleted: 4410,
+};
+
+const RECONNECT_DELAYS = [1000, 2000, 5000, 10000];
+
+// Changes received from the server, which are not sent back
+const REMOTE = 'remote';
+
+const PRESENCE_COLORS = ['#2563eb', '#db2777', '#16a34a', '#ea580c', '#7c3aed', '#0891b2', '#ca8a04', '#dc2626'];
+
+// The same color for a user wherever they show up
+export const getPresenceColor = (userId: string) => {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) >>> 0;
+  }
+  return PRESENCE_COLORS[hash % PRESENCE_COLORS.length];
+};
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+const fromBase64 = (encoded: string) => Uint8Array.from(atob(encoded), (char) => char.charCodeAt(0));
+
+// Turn `text` into `value` with a single edit between the unchanged start and end, so others'
+// edits elsewhere are kept
+const replaceText = (text: Y.Text, value: string) => {
+  const current = text.toString();
+  if (current === value) {
+    return;
+  }
+
+  const shorter = Math.min(current.length, value.length);
+  let start = 0;
+  while (start < shorter && current[start] === value[start]) {
+    start++;
+  }
+  let end = 0;
+  while (end < shorter - start && current[current.length - 1 - end] === value[value.length - 1 - end]) {
+    end++;
+  }
+
+  if (current.length - start - end > 0) {
+    text.delete(start, current.length - start - end);
+  }
+  if (value.length - start - end > 0) {
+    text.insert(start, value.slice(start, value.length - end));
+  }
+};
+
+interface CollaborationHandlers {
+  onStatus: (status: CollaborationStatus, closeCode?: number) => void;
+  // After each (re)connect, once the document has the server's state
+  onSynced: (role: SessionRole) => void;
+  onEvent: (event: SessionEvent) => void;
+}
+
+type ServerMessage =
+  | { type: 'init'; connectionId: string; role: SessionRole; update: string; stateVector: string; awareness: string | null }
+  | { type: 'update'; update: string }
+  | { type: 'awareness'; update: string }
+  | ({ type: 'event' } & SessionEvent)
+  | { type: 'error'; error: string; code: string };
+
+export class SessionCollaboration {
+  readonly doc = new Y.Doc();
+  readonly awareness = new Awareness(this.doc);
+  role: SessionRole | null = null;
+
+  private socket: WebSocket | null = null;
+  private connected = false;
+  private attempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private destroyed = false;
+
+  constructor(private sessionId: string, userId: string, private handlers: CollaborationHandlers) {
+    const color = getPresenceColor(userId);
+    // Who we are is filled in by the server; the colors are for our cursor in others' editors
+    this.awareness.setLocalState({ user: { color, colorLight: `${color}33` } });
+    this.doc.on('update', this.handleDocumentUpdate);
+    this.awareness.on('update', this.handleAwarenessUpdate);
+    this.connect();
+  }
+
+  getText(field: SharedCodeField) {
+    return this.doc.getText(field);
+  }
+
+  // Files are listed by path, as the server saves them
+  getFiles(): ComponentFile[] {
+    const files: ComponentFile[] = [];
+    this.doc.getMap<Y.Text>('files').forEach((text, path) => files.push({ path, content: text.toString() }));
+    return files.sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+  }
+
+  getCode(): SharedCode {
+    return {
+      jsx: this.getText('jsx').toString(),
+      css: this.getText('css').toString(),
+      tsx: this.getText('tsx').toString(),
+      files: this.getFiles(),
+    };
+  }
+
+  // Put code from outside the editor (property edits, conversions) into the shared text
+  setText(field: SharedCodeField, value: string) {
+    this.doc.transact(() => replaceText(this.getText(field), value));
+  }
+
+  // Put the files panel's files into the shared files; a file keeps its text while its path
+  // stays, so edits to it merge like the code's
+  setFiles(files: ComponentFile[]) {
+    const map = this.doc.getMap<Y.Text>('files');
+    const paths = new Set(files.map((file) => file.path));
+    this.doc.transact(() => {
+      Array.from(map.keys()).filter((path) => !paths.has(path)).forEach((path) => map.delete(path));
+      files.forEach((file) => {
+        const text = map.get(file.path);
+        if (text) {
+          replaceText(text, file.content);
+        } else {
+          map.set(file.path, new Y.Text(file.content));
+        }
+      });
+    });
+  }
+
+  setPresence(fields: { file?: string }) {
+    Object.entries(fields).forEach(([key, value]) => this.awareness.setLocalStateField(key, value));
+  }
+
+  // Everyone else in the session, one entry per open editor
+  getPeers(): SessionPresence[] {
+    const peers: SessionPresence[] = [];
+    this.awareness.getStates().forEach((state, clientId) => {
+      if (clientId !== this.doc.clientID && state.user?.id) {
+        peers.push({ clientId, user: state.user, file: state.file });
+      }
+    });
+    return peers;
+  }
+
+  destroy() {
+    this.destroyed = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+    }
+    // Tells the others we left before the socket closes
+    removeAwarenessStates(this.awareness, [this.doc.clientID], 'local');
+    this.socket?.close();
+    this.awareness.destroy();
+    this.doc.destroy();
+  }
+
+  private connect() {
+    this.handlers.onStatus('connecting');
+    const socket = new WebSocket(apiClient.getCollaborationUrl(this.sessionId));
+    this.socket = socket;
+
+    socket.onmessage = (event) => {
+      try {
+        this.handleMessage(JSON.parse(event.data));
+      } catch (error) {
+        console.error('Collaboration message error:', error);
+      }
+    };
+
+    socket.onclose = (event) => {
+      this.connected = false;
+      this.socket = null;
+      if (this.destroyed) {
+        return;
+      }
+
+      // Others' cursors would go stale while we can't hear from them
+      const others = Array.from(this.awareness.getStates().keys()).filter((clientId) => clientId !== this.doc.clientID);
+      removeAwarenessStates(this.awareness, others, REMOTE);
+
+      if (Object.values(CLOSE_CODES).includes(event.code)) {
+        this.handlers.onStatus('closed', event.code);
+        return;
+      }
+      this.handlers.onStatus('offline');
+      const delay = RECONNECT_DELAYS[Math.min(this.attempts, RECONNECT_DELAYS.length - 1)];
+      this.attempts += 1;
+      this.reconnectTimer = setTimeout(() => this.connect(), delay);
+    };
+  }
+
+  private send(message: { type: 'update' | 'awareness'; update: Uint8Array }) {
+    if (this.connected && this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify({ type: message.type, update: toBase64(message.update) }));
+    }
+  }
+
+  private handleMessage(message: ServerMessage) {
+    switch (message.type) {
+      case 'init': {
+        this.role = message.role;
+        Y.applyUpdate(this.doc, fromBase64(message.update), REMOTE);
+        if (message.awareness) {
+          applyAwarenessUpdate(this.awareness, fromBase64(message.awareness), REMOTE);
+        }
+        this.connected = true;
+        this.attempts = 0;
+
+        // Edits made while offline
+        if (this.role !== 'viewer') {
+          const missing = Y.encodeStateAsUpdate(this.doc, fromBase64(message.stateVector));
+          if (missing.length > 2) {
+            this.send({ type: 'update', update: missing });
+          }
+        }
+        this.send({ type: 'awareness', update: encodeAwarenessUpdate(this.awareness, [this.doc.clientID]) });
+
+        this.handlers.onStatus('connected');
+        this.handlers.onSynced(message.role);
+        break;
+      }
+      case 'update':
+        Y.applyUpdate(this.doc, fromBase64(message.update), REMOTE);
+        break;
+      case 'awareness':
+        applyAwarenessUpdate(this.awareness, fromBase64(message.update), REMOTE);
+        break;
+      case 'event':
+        this.handlers.onEvent({ event: message.event, data: message.data } as SessionEvent);
+        break;
+      case 'error':
+        console.error('Collaboration error:', message.error);
+        break;
+    }
+  }
+
+  private handleDocumentUpdate = (update: Uint8Array, origin: unknown) => {
+    if (origin !== REMOTE && this.role !== 'viewer') {
+      this.send({ type: 'update', update });
+    }
+  };
+
+  private handleAwarenessUpdate = (
+    { added, updated, removed }: { added: number[]; updated: number[]; removed: number[] },
+    origin: unknown
+  ) => {
+    if (origin !== REMOTE) {
+      this.send({ type: 'awareness', update: encodeAwarenessUpdate(this.awareness, added.concat(updated, removed)) });
+    }
+  };
+}
@@ -0,0 +1,19 @@
+import axios from 'axios';
+
+interface ApiErrorBody {
+  error?: string;
+  code?: string;
+}
+
+// The body the API sent with a failed request, if the error came from one
+export const getErrorData = <T extends ApiErrorBody = ApiErrorBody>(error: unknown): T | undefined =>
+  axios.isAxiosError(error) ? (error.response?.data as T | undefined) : undefined;
+
+// The API's message for a failed request, else the error's own message, else `fallback`.
+// Axios's own messages ("Request failed with status code 500") are never shown.
+export const getErrorMessage = (error: unknown, fallback: string): string => {
+  if (axios.isAxiosError(error)) {
+    return getErrorData(error)?.error || fallback;
+  }
+  return (error instanceof Error && error.message) || fallback;
+};
@@ -0,0 +1,68 @@
+import apiClient from '@/lib/api';
+import { AIStreamPartial, Job } from '@/types';
+
+const POLL_INTERVAL = 2000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export const isJobFinished = (job: Job) =>
+  job.status === 'succeeded' || job.status === 'failed' || job.status === 'cancelled';
+
+// Readable reason a job did not succeed
+export const getJobError = (job: Job): string => {
+  if (job.status === 'cancelled') {
+    return 'Cancelled';
+  }
+  if (!job.error) {
+    return 'Job failed';
+  }
+  return job.error.details ? `${job.error.message}: ${job.error.details}` : job.error.message;
+};
+
+// Human-readable job stage for progress labels
+export const describeJobStage = (job: Job): string => {
+  const stage = job.progress?.stage || job.status;
+  const labels: Record<string, string> = {
+    queued: 'Waiting in queue',
+    retrying: `Retrying (attempt ${job.attempts + 1} of ${job.maxAttempts})`,
+    starting: 'Starting',
+    generating: 'Generating',
+    repairing: 'Repairing the model output',
+    saving: 'Saving',
+    analyzing: 'Analyzing',
+    exporting: 'Exporting',
+  };
+  return job.cancelRequested && !isJobFinished(job) ? 'Cancelling' : labels[stage] || stage;
+};
+
+// Resolve with the job once it has finished. Its events are followed as they happen; when the
+// event stream fails or drops, the job is polled instead. Once `signal` aborts, resolves with
+// the job as last seen, still unfinished: the job itself keeps running on the server.
+export const waitForJob = async <T = any>(
+  job: Job<T>,
+  options: { onStatus?: (job: Job<T>) => void; onPartial?: (partial: AIStreamPartial) => void; signal?: AbortSignal } = {}
+): Promise<Job<T>> => {
+  let current = job;
+  const onStatus = (updated: Job<T>) => {
+    current = updated;
+    options.onStatus?.(updated);
+  };
+
+  if (!isJobFinished(current)) {
+    try {
+      await apiClient.followJob<T>(job.id, { onStatus, onPartial: options.onPartial, signal: options.signal });
+    } catch (error) {
+      if (!options.signal?.aborted) {
+        console.error('Follow job error, polling instead:', error);
+      }
+    }
+  }
+
+  while (!isJobFinished(current) && !options.signal?.aborted) {
+    await sleep(POLL_INTERVAL);
+    if (!options.signal?.aborted) {
+      onStatus(await apiClient.getJob<T>(job.id));
+    }
+  }
+  return current;
+};
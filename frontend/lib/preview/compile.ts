@@ -0,0 +1,153 @@
+import { transform, Transform } from 'sucrase';
+import { ComponentFile } from '@/types';
+
+export interface CompiledComponent {
+  code: string;
+  componentName: string;
+}
+
+// The component's other files, ready for the frame's module loader
+export interface CompiledModules {
+  // CommonJS code by file path
+  modules: Record<string, string>;
+  // Every extra stylesheet, injected alongside the entry's CSS
+  css: string;
+}
+
+export class PreviewCompileError extends Error {
+  line: number | null;
+  column: number | null;
+
+  constructor(message: string, line: number | null = null, column: number | null = null) {
+    super(message);
+    this.name = 'PreviewCompileError';
+    this.line = line;
+    this.column = column;
+  }
+}
+
+// Sucrase throws syntax errors with the position they were raised at
+interface SucraseError {
+  message?: string;
+  loc?: { line: number; column: number };
+}
+
+const PLACEHOLDER_COMPONENT = `function App() {
+  return (
+    <div style={{ padding: '20px', fontFamily: 'Arial, sans-serif' }}>
+      <h1>Generated Component</h1>
+      <p>This is a placeholder component. Please check the generated code.</p>
+    </div>
+  );
+}`;
+
+// Replace a match with the same number of newlines so line numbers stay aligned
+const blankOut = (match: string) => match.replace(/[^\n]/g, '');
+
+const IMPORT_STATEMENT = /import\s+([^'";]*?)\s*from\s+['"]([^'"]*)['"];?/g;
+
+// Turn an import of one of the component's own files or an allow-listed package into a lookup
+// through the frame's loader. React imports and stylesheets are dropped: React is a global and
+// every stylesheet is injected.
+const rewriteImport = (match: string, clause: string, specifier: string, index: number) => {
+  const lines = blankOut(match);
+  if (specifier === 'react' || /\.css$/.test(specifier) || /^type\s/.test(clause)) {
+    return lines;
+  }
+
+  const moduleName = `__cgModule${index}`;
+  const declarations = [`const ${moduleName} = __require(${JSON.stringify(specifier)});`];
+  const defaultMatch = clause.match(/^([\w$]+)\s*(?:,|$)/);
+  const namespaceMatch = clause.match(/\*\s*as\s+([\w$]+)/);
+  const namedMatch = clause.match(/\{([\s\S]*)\}/);
+
+  if (defaultMatch) {
+    declarations.push(`const ${defaultMatch[1]} = ${moduleName}.default;`);
+  }
+  if (namespaceMatch) {
+    declarations.push(`const ${namespaceMatch[1]} = ${moduleName};`);
+  }
+  if (namedMatch) {
+    const names = namedMatch[1]
+      .split(',')
+      .map((name) => name.trim())
+      .filter((name) => name.length > 0 && !/^type\s/.test(name))
+      .map((name) => name.replace(/\s+as\s+/, ': '));
+    if (names.length > 0) {
+      declarations.push(`const { ${names.join(', ')} } = ${moduleName};`);
+    }
+  }
+  return declarations.join(' ') + lines;
+};
+
+// Strip module syntax from generated code and find the component to render.
+// Line numbers are preserved so compile and runtime errors map back to the JSX tab.
+export const prepareComponentSource = (jsx: string): CompiledComponent => {
+  let source = jsx;
+  let importCount = 0;
+
+  source = source.replace(IMPORT_STATEMENT, (match, clause, specifier) => rewriteImport(match, clause, specifier, importCount++));
+  source = source.replace(/import\s+['"][^'"]*['"];?/g, blankOut);
+  source = source.replace(/export\s+default\s+(?=function|class)/g, '');
+  source = source.replace(/export\s+default\s+\w+;?/g, '');
+  source = source.replace(/export\s+(?=const|let|function|class)/g, '');
+
+  const componentMatch = source.match(/(?:function|const|class)\s+([A-Z]\w*)/) || source.match(/(?:function|const)\s+(\w+)/);
+  const componentName = componentMatch ? componentMatch[1] : 'App';
+
+  if (!source.includes('return')) {
+    return { code: PLACEHOLDER_COMPONENT, componentName: 'App' };
+  }
+
+  return { code: source, componentName };
+};
+
+// Transpile JSX/TSX to plain JavaScript that calls React.createElement
+export const compileComponent = (jsx: string): CompiledComponent => {
+  const { code, componentName } = prepareComponentSource(jsx);
+
+  try {
+    const result = transform(code, {
+      transforms: ['jsx', 'typescript'],
+      jsxRuntime: 'classic',
+      production: true,
+    });
+    return { code: result.code, componentName };
+  } catch (error) {
+    const { message, loc } = error as SucraseError;
+    throw new PreviewCompileError(
+      message || 'Failed to compile component',
+      loc ? loc.line : null,
+      loc ? loc.column : null
+    );
+  }
+};
+
+// Transpile the component's other modules to CommonJS for the frame's require()
+export const compileModules = (files: ComponentFile[] = []): CompiledModules => {
+  const modules: Record<string, string> = {};
+  const stylesheets: string[] = [];
+
+  files.forEach((file) => {
+    if (/\.css$/.test(file.path)) {
+      stylesheets.push(`/* ${file.path} */\n${file.content}`);
+      return;
+    }
+    // Plain .ts files can't hold JSX, and parsing them as TSX would misread generic arrows
+    const transforms: Transform[] = /\.ts$/.test(file.path)
+      ? ['typescript', 'imports']
+      : ['jsx', 'typescript', 'imports'];
+    try {
+      modules[file.path] = transform(file.content, {
+        transforms,
+        jsxRuntime: 'classic',
+        production: true,
+      }).code;
+    } catch (error) {
+      // Line and column only map onto the JSX tab; sucrase already puts them in the message
+      throw new PreviewCompileError(`${file.path}: ${(error as SucraseError).message || 'Failed to compile'}`);
+    }
+  });
+
+  return { modules, css: stylesheets.join('\n\n') };
+};
@@ -0,0 +1,147 @@
+import { parse } from '@babel/parser';
+import type { JSXElement, Node } from '@babel/types';
+
+// Attribute added to host elements in the preview so a click maps back to the source
+export const ELEMENT_ID_ATTRIBUTE = 'data-cg-id';
+
+export interface IndexedElement {
+  // Stable path-based ID, e.g. "App:0.2.1" is the second child of the third child of App's first root element
+  id: string;
+  name: string;
+  node: JSXElement;
+}
+
+const SKIPPED_KEYS = new Set(['loc', 'start', 'end', 'extra', 'range', 'leadingComments', 'trailingComments', 'innerComments']);
+
+const isNode = (value: unknown): value is Node => {
+  return typeof value === 'object' && value !== null && typeof (value as { type?: unknown }).type === 'string';
+};
+
+export const parseComponent = (source: string) => {
+  return parse(source, {
+    sourceType: 'module',
+    plugins: ['jsx', 'typescript'],
+  });
+};
+
+const getElementName = (element: JSXElement): string => {
+  const print = (name: Node): string => {
+    if (name.type === 'JSXIdentifier') {
+      return name.name;
+    }
+    if (name.type === 'JSXMemberExpression') {
+      return `${print(name.object)}.${name.property.name}`;
+    }
+    if (name.type === 'JSXNamespacedName') {
+      return `${name.namespace.name}:${name.name.name}`;
+    }
+    return 'unknown';
+  };
+  return print(element.openingElement.name);
+};
+
+// Name of the top-level declaration a statement introduces, used to scope element IDs
+const getScopeName = (statement: Node): string => {
+  if (statement.type === 'ExportDefaultDeclaration' || statement.type === 'ExportNamedDeclaration') {
+    return statement.declaration ? getScopeName(statement.declaration) : 'default';
+  }
+  if ((statement.type === 'FunctionDeclaration' || statement.type === 'ClassDeclaration') && statement.id) {
+    return statement.id.name;
+  }
+  if (statement.type === 'VariableDeclaration') {
+    const declarator = statement.declarations[0];
+    if (declarator && declarator.id.type === 'Identifier') {
+      return declarator.id.name;
+    }
+  }
+  return 'default';
+};
+
+// Assign every JSX element an ID from its position in the element tree. IDs only change
+// when elements are added, removed or reordered, so they survive edits to attributes and text.
+// Keep in sync with backend/services/jsxElements.js.
+export const indexElements = (source: string): IndexedElement[] => {
+  const ast = parseComponent(source);
+  const elements: IndexedElement[] = [];
+
+  const visit = (node: Node, parentId: string, counters: Record<string, number>) => {
+    if (node.type === 'JSXElement') {
+      const index = counters[parentId] || 0;
+      counters[parentId] = index + 1;
+      const id = parentId.includes(':') ? `${parentId}.${index}` : `${parentId}:${index}`;
+      elements.push({ id, name: getElementName(node), node });
+
+      node.openingElement.attributes.forEach((attribute) => visit(attribute, id, counters));
+      node.children.forEach((child) => visit(child, id, counters));
+      return;
+    }
+
+    Object.keys(node).forEach((key) => {
+      if (SKIPPED_KEYS.has(key)) {
+        return;
+      }
+      const value = (node as unknown as Record<string, unknown>)[key];
+      if (Array.isArray(value)) {
+        value.forEach((item) => isNode(item) && visit(item, parentId, counters));
+      } else if (isNode(value)) {
+        visit(value, parentId, counters);
+      }
+    });
+  };
+
+  const scopeCounts: Record<string, number> = {};
+  ast.program.body.forEach((statement) => {
+    // A repeated top-level name (rare) gets a suffix so IDs stay unique
+    const name = getScopeName(statement);
+    const seen = scopeCounts[name] || 0;
+    scopeCounts[name] = seen + 1;
+    visit(statement, seen ? `${name}~${seen}` : name, {});
+  });
+
+  return elements;
+};
+
+export const findElement = (source: string, id: string): IndexedElement | null => {
+  try {
+    return indexElements(source).find((element) => element.id === id) || null;
+  } catch (error) {
+    return null;
+  }
+};
+
+// Innermost element spanning a source line, e.g. to scope a fix for an issue reported at that line
+export const findElementAtLine = (source: string, line: number): IndexedElement | null => {
+  let elements: IndexedElement[];
+  try {
+    elements = indexElements(source);
+  } catch (error) {
+    return null;
+  }
+
+  // Elements are listed parents first, so the last match is the deepest
+  const matches = elements.filter(({ node }) => node.loc && node.loc.start.line <= line && line <= node.loc.end.line);
+  return matches.length > 0 ? matches[matches.length - 1] : null;
+};
+
+// Tag host elements with their IDs for the preview. Insertions never add newlines,
+// so line numbers still match the JSX tab. Unparseable source is returned unchanged.
+export const instrumentElements = (source: string): string => {
+  let elements: IndexedElement[];
+  try {
+    elements = indexElements(source);
+  } catch (error) {
+    return source;
+  }
+
+  const insertions = elements
+    .filter(({ name, node }) => /^[a-z]/.test(name) && !node.openingElement.attributes.some(
+      (attribute) => attribute.type === 'JSXAttribute' && attribute.name.name === ELEMENT_ID_ATTRIBUTE
+    ))
+    .map(({ id, node }) => ({ position: node.openingElement.name.end as number, text: ` ${ELEMENT_ID_ATTRIBUTE}="${id}"` }))
+    .sort((a, b) => b.position - a.position);
+
+  return insertions.reduce(
+    (result, { position, text }) => result.slice(0, position) + text + result.slice(position),
+    source
+  );
+};
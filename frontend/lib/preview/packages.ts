@@ -0,0 +1,86 @@
+import apiClient from '@/lib/api';
+import { ComponentFile, PreviewPackage } from '@/types';
+
+// Allow-listed npm packages for the preview. Bundles are built on the server and passed to
+// the frame as code, since the sandboxed frame can't make authenticated requests itself.
+
+// Always provided by the frame
+const BUILT_IN_PACKAGES = ['react', 'react-dom'];
+
+const IMPORT_SPECIFIER = /(?:import\s+(?:[^'";]*?\s*from\s*)?|export\s+[^'";]*?\s*from\s*|require\s*\(\s*)['"]([^'"]+)['"]/g;
+
+// The package a specifier imports from, e.g. "date-fns" for "date-fns/format"
+const getPackageName = (specifier: string) => {
+  const parts = specifier.split('/');
+  return specifier.charAt(0) === '@' ? parts.slice(0, 2).join('/') : parts[0];
+};
+
+// Packages imported by the component, e.g. "date-fns" or "lucide-react"; subpath imports
+// are served from the package's bundle (see frame.js), as the server allow-lists them
+export const findPackageImports = (sources: string[]): string[] => {
+  const names: string[] = [];
+  sources.forEach((source) => {
+    let match: RegExpExecArray | null;
+    IMPORT_SPECIFIER.lastIndex = 0;
+    while ((match = IMPORT_SPECIFIER.exec(source)) !== null) {
+      const specifier = match[1];
+      if (specifier.charAt(0) === '.' || specifier.charAt(0) === '/' || /\.css$/.test(specifier)) {
+        continue;
+      }
+      const name = getPackageName(specifier);
+      if (BUILT_IN_PACKAGES.indexOf(name) === -1 && names.indexOf(name) === -1) {
+        names.push(name);
+      }
+    }
+  });
+  return names;
+};
+
+export const getComponentSources = (jsx: string, files: ComponentFile[] = []) => {
+  return [jsx].concat(files.filter((file) => !/\.css$/.test(file.path)).map((file) => file.content));
+};
+
+let allowListRequest: Promise<PreviewPackage[]> | null = null;
+const bundleRequests: Record<string, Promise<string>> = {};
+
+// The allow-list, fetched once per page load
+export const getPreviewPackages = () => {
+  if (!allowListRequest) {
+    allowListRequest = apiClient.getPackages().catch((error) => {
+      allowListRequest = null;
+      throw error;
+    });
+  }
+  return allowListRequest;
+};
+
+// Refetch the allow-list next time, e.g. after an admin changed it
+export const clearPreviewPackages = () => {
+  allowListRequest = null;
+};
+
+// Bundles for the allow-listed packages among `names`, by name. Other names are left out,
+// so the frame reports them as unavailable.
+export const loadPackageBundles = async (names: string[]): Promise<Record<string, string>> => {
+  if (names.length === 0) {
+    return {};
+  }
+
+  const allowed = (await getPreviewPackages()).filter((pkg) => pkg.enabled && pkg.status === 'ready');
+  const bundles: Record<string, string> = {};
+  await Promise.all(names.map(async (name) => {
+    const pkg = allowed.find((candidate) => candidate.name === name);
+    if (!pkg) {
+      return;
+    }
+    const key = `${pkg.name}@${pkg.version}`;
+    if (!bundleRequests[key]) {
+      bundleRequests[key] = apiClient.getPackageBundle(pkg._id).catch((error) => {
+        delete bundleRequests[key];
+        throw error;
+      });
+    }
+    bundles[name] = await bundleRequests[key];
+  }));
+  return bundles;
+};
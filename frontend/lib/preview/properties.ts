@@ -0,0 +1,316 @@
+import type { JSXAttribute, JSXElement, Node, ObjectExpression } from '@babel/types';
+import { PropertyControl } from '@/types';
+import { ELEMENT_ID_ATTRIBUTE, findElement } from '@/lib/preview/elements';
+
+export type PropertyValue = string | number | boolean;
+
+// Control keys are namespaced: "style.color", "prop.className" or "text"
+export interface ElementProperties {
+  tagName: string;
+  style: Record<string, PropertyValue>;
+  props: Record<string, PropertyValue>;
+  text: string | null;
+}
+
+export interface PropertyControlEntry {
+  key: string;
+  group: 'content' | 'props' | 'style';
+  control: PropertyControl;
+}
+
+interface StyleControlSpec {
+  name: string;
+  label: string;
+  type: PropertyControl['type'];
+  options?: string[];
+  min?: number;
+  max?: number;
+  step?: number;
+}
+
+// Styles offered for every element. The preview frame reports computed values for
+// the same list (see STYLE_PROPERTIES in public/preview/frame.js).
+const STYLE_CONTROLS: StyleControlSpec[] = [
+  { name: 'color', label: 'Text color', type: 'color' },
+  { name: 'backgroundColor', label: 'Background', type: 'color' },
+  { name: 'fontSize', label: 'Font size', type: 'slider', min: 8, max: 72, step: 1 },
+  { name: 'fontWeight', label: 'Font weight', type: 'select', options: ['300', '400', '500', '600', '700', '800'] },
+  { name: 'textAlign', label: 'Text align', type: 'select', options: ['left', 'center', 'right', 'justify'] },
+  { name: 'padding', label: 'Padding', type: 'slider', min: 0, max: 64, step: 1 },
+  { name: 'margin', label: 'Margin', type: 'slider', min: 0, max: 64, step: 1 },
+  { name: 'borderRadius', label: 'Border radius', type: 'slider', min: 0, max: 48, step: 1 },
+  { name: 'width', label: 'Width', type: 'text' },
+  { name: 'height', label: 'Height', type: 'text' },
+  { name: 'display', label: 'Display', type: 'select', options: ['block', 'inline-block', 'inline', 'flex', 'grid', 'none'] },
+  { name: 'opacity', label: 'Opacity', type: 'slider', min: 0, max: 1, step: 0.05 },
+];
+
+// Attributes that are wiring rather than something a designer would tweak
+const HIDDEN_PROPS = new Set(['key', 'ref', 'style', ELEMENT_ID_ATTRIBUTE]);
+
+const getPropertyName = (node: Node): string | null => {
+  if (node.type === 'Identifier') {
+    return node.name;
+  }
+  if (node.type === 'StringLiteral') {
+    return node.value;
+  }
+  return null;
+};
+
+// Static value of an expression, or undefined when it depends on runtime data
+const getLiteralValue = (node: Node | null | undefined): PropertyValue | undefined => {
+  if (!node) {
+    return undefined;
+  }
+  if (node.type === 'StringLiteral' || node.type === 'NumericLiteral' || node.type === 'BooleanLiteral') {
+    return node.value;
+  }
+  if (node.type === 'TemplateLiteral' && node.expressions.length === 0) {
+    return node.quasis[0].value.cooked || '';
+  }
+  if (node.type === 'UnaryExpression' && node.operator === '-' && node.argument.type === 'NumericLiteral') {
+    return -node.argument.value;
+  }
+  if (node.type === 'JSXExpressionContainer') {
+    return node.expression.type === 'JSXEmptyExpression' ? undefined : getLiteralValue(node.expression);
+  }
+  return undefined;
+};
+
+const getAttribute = (element: JSXElement, name: string): JSXAttribute | null => {
+  const attribute = element.openingElement.attributes.find(
+    (item) => item.type === 'JSXAttribute' && item.name.name === name
+  );
+  return (attribute as JSXAttribute) || null;
+};
+
+const getStyleObject = (element: JSXElement): ObjectExpression | null => {
+  const style = getAttribute(element, 'style');
+  if (style && style.value && style.value.type === 'JSXExpressionContainer' && style.value.expression.type === 'ObjectExpression') {
+    return style.value.expression;
+  }
+  return null;
+};
+
+// The element's only child when it is plain text, written as JSX text or {'a string'}
+const getStaticText = (element: JSXElement) => {
+  if (element.children.length !== 1) {
+    return null;
+  }
+  const child = element.children[0];
+  if (child.type === 'JSXText') {
+    return child.value.trim() ? { node: child, value: child.value } : null;
+  }
+  if (child.type === 'JSXExpressionContainer' && child.expression.type === 'StringLiteral') {
+    return { node: child, value: child.expression.value };
+  }
+  return null;
+};
+
+export const getElementProperties = (source: string, id: string): ElementProperties | null => {
+  const indexed = findElement(source, id);
+  if (!indexed) {
+    return null;
+  }
+  const { node, name } = indexed;
+
+  const style: Record<string, PropertyValue> = {};
+  const styleObject = getStyleObject(node);
+  if (styleObject) {
+    styleObject.properties.forEach((property) => {
+      if (property.type !== 'ObjectProperty' || property.computed) {
+        return;
+      }
+      const key = getPropertyName(property.key);
+      const value = getLiteralValue(property.value);
+      if (key && value !== undefined) {
+        style[key] = value;
+      }
+    });
+  }
+
+  const props: Record<string, PropertyValue> = {};
+  node.openingElement.attributes.forEach((attribute) => {
+    if (attribute.type !== 'JSXAttribute' || typeof attribute.name.name !== 'string') {
+      return;
+    }
+    const key = attribute.name.name;
+    if (HIDDEN_PROPS.has(key) || /^on[A-Z]/.test(key)) {
+      return;
+    }
+    const value = attribute.value === null ? true : getLiteralValue(attribute.value);
+    if (value !== undefined) {
+      props[key] = value;
+    }
+  });
+
+  const text = getStaticText(node);
+
+  return { tagName: name, style, props, text: text ? text.value.trim() : null };
+};
+
+const toNumber = (value: PropertyValue | undefined) => {
+  const number = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(number) ? number : undefined;
+};
+
+// rgb()/rgba() as reported by getComputedStyle, converted for <input type="color">
+const toHexColor = (value: PropertyValue | undefined) => {
+  if (typeof value !== 'string') {
+    return '#000000';
+  }
+  if (/^#[0-9a-f]{6}$/i.test(value)) {
+    return value;
+  }
+  if (/^#[0-9a-f]{3}$/i.test(value)) {
+    return `#${value.slice(1).split('').map((digit) => digit + digit).join('')}`;
+  }
+  const match = value.match(/rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)/);
+  if (!match) {
+    return '#000000';
+  }
+  return `#${match.slice(1, 4).map((channel) => `0${Number(channel).toString(16)}`.slice(-2)).join('')}`;
+};
+
+// Build the side panel controls for an element, preferring values written in the source
+// over the computed values reported by the preview
+export const buildPropertyControls = (
+  properties: ElementProperties,
+  computedStyles: Record<string, string> = {}
+): PropertyControlEntry[] => {
+  const entries: PropertyControlEntry[] = [];
+
+  if (properties.text !== null) {
+    entries.push({ key: 'text', group: 'content', control: { type: 'text', label: 'Text', value: properties.text } });
+  }
+
+  Object.keys(properties.props).forEach((name) => {
+    const value = properties.props[name];
+    const type = typeof value === 'boolean' ? 'boolean' : typeof value === 'number' ? 'number' : 'text';
+    entries.push({ key: `prop.${name}`, group: 'props', control: { type, label: name, value } });
+  });
+
+  STYLE_CONTROLS.forEach((spec) => {
+    const value = spec.name in properties.style ? properties.style[spec.name] : computedStyles[spec.name];
+    const control: PropertyControl = { type: spec.type, label: spec.label, value: value === undefined ? '' : value };
+
+    if (spec.type === 'color') {
+      control.value = toHexColor(value);
+    } else if (spec.type === 'slider' || spec.type === 'number') {
+      control.value = toNumber(value) ?? spec.min ?? 0;
+      control.min = spec.min;
+      control.max = spec.max;
+      control.step = spec.step;
+    } else if (spec.type === 'select' && spec.options) {
+      control.options = spec.options.map((option) => ({ label: option, value: option }));
+    }
+
+    entries.push({ key: `style.${spec.name}`, group: 'style', control });
+  });
+
+  return entries;
+};
+
+const quote = (value: string) => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+
+const toExpression = (value: PropertyValue) => {
+  return typeof value === 'string' ? quote(value) : String(value);
+};
+
+const toAttributeValue = (value: PropertyValue) => {
+  if (typeof value === 'string') {
+    return /["\n]/.test(value) ? `{${quote(value)}}` : `"${value}"`;
+  }
+  return `{${value}}`;
+};
+
+const toJSXText = (value: string) => {
+  return /[{}<>]/.test(value) ? `{${quote(value)}}` : value;
+};
+
+const splice = (source: string, start: number, end: number, text: string) => {
+  return source.slice(0, start) + text + source.slice(end);
+};
+
+const setStyle = (source: string, element: JSXElement, name: string, value: PropertyValue) => {
+  const opening = element.openingElement;
+  const style = getAttribute(element, 'style');
+  const entry = `${name}: ${toExpression(value)}`;
+
+  if (!style) {
+    return splice(source, opening.name.end as number, opening.name.end as number, ` style={{ ${entry} }}`);
+  }
+
+  const styleObject = getStyleObject(element);
+  if (!styleObject) {
+    // style={someObject}: keep it and layer the override on top
+    const expression = style.value && style.value.type === 'JSXExpressionContainer' ? style.value.expression : null;
+    if (!expression || expression.type === 'JSXEmptyExpression') {
+      return splice(source, style.start as number, style.end as number, `style={{ ${entry} }}`);
+    }
+    const original = source.slice(expression.start as number, expression.end as number);
+    return splice(source, style.start as number, style.end as number, `style={{ ...${original}, ${entry} }}`);
+  }
+
+  const existing = styleObject.properties.find(
+    (property) => property.type === 'ObjectProperty' && !property.computed && getPropertyName(property.key) === name
+  );
+  if (existing && existing.type === 'ObjectProperty') {
+    return splice(source, existing.value.start as number, existing.value.end as number, toExpression(value));
+  }
+
+  const last = styleObject.properties[styleObject.properties.length - 1];
+  if (!last) {
+    return splice(source, (styleObject.start as number) + 1, (styleObject.end as number) - 1, ` ${entry} `);
+  }
+  return splice(source, last.end as number, last.end as number, `, ${entry}`);
+};
+
+const setProp = (source: string, element: JSXElement, name: string, value: PropertyValue) => {
+  const attribute = getAttribute(element, name);
+  if (!attribute) {
+    const end = element.openingElement.name.end as number;
+    return splice(source, end, end, ` ${name}=${toAttributeValue(value)}`);
+  }
+  if (value === true) {
+    return splice(source, attribute.start as number, attribute.end as number, name);
+  }
+  return splice(source, attribute.start as number, attribute.end as number, `${name}=${toAttributeValue(value)}`);
+};
+
+const setText = (source: string, element: JSXElement, value: string) => {
+  const text = getStaticText(element);
+  if (!text) {
+    return source;
+  }
+  if (text.node.type !== 'JSXText') {
+    return splice(source, text.node.start as number, text.node.end as number, toJSXText(value));
+  }
+  // Keep the whitespace around the text so the layout of the source is untouched
+  const leading = (text.value.match(/^\s*/) as RegExpMatchArray)[0].length;
+  const trailing = (text.value.match(/\s*$/) as RegExpMatchArray)[0].length;
+  const start = (text.node.start as number) + leading;
+  const end = (text.node.end as number) - trailing;
+  return splice(source, start, end, toJSXText(value));
+};
+
+// Write a control's new value back into the component source. Returns the source
+// unchanged when the element no longer exists or the key is not editable.
+export const applyPropertyEdit = (source: string, id: string, key: string, value: PropertyValue): string => {
+  const indexed = findElement(source, id);
+  if (!indexed) {
+    return source;
+  }
+
+  if (key === 'text') {
+    return setText(source, indexed.node, String(value));
+  }
+  if (key.startsWith('style.')) {
+    return setStyle(source, indexed.node, key.slice('style.'.length), value);
+  }
+  if (key.startsWith('prop.')) {
+    return setProp(source, indexed.node, key.slice('prop.'.length), value);
+  }
+  return source;
+};
@@ -0,0 +1,116 @@
+// Messages exchanged between the editor and the sandboxed preview frame.
+// The frame runs without allow-same-origin, so this protocol is its only channel to the editor.
+
+export const HOST_SOURCE = 'cg-preview-host';
+export const FRAME_SOURCE = 'cg-preview-frame';
+
+// Editor -> frame
+export interface PreviewRenderMessage {
+  source: typeof HOST_SOURCE;
+  type: 'render';
+  code: string;
+  componentName: string;
+  css: string;
+  // The component's other files as CommonJS, by path relative to the entry (see compileModules)
+  modules: Record<string, string>;
+  // Bundles of the allow-listed npm packages the component imports, by package name
+  packages: Record<string, string>;
+}
+
+export interface PreviewSelectModeMessage {
+  source: typeof HOST_SOURCE;
+  type: 'select-mode';
+  enabled: boolean;
+}
+
+// Outline an element by its source ID (see lib/preview/elements.ts), or clear with null
+export interface PreviewHighlightMessage {
+  source: typeof HOST_SOURCE;
+  type: 'highlight';
+  elementId: string | null;
+}
+
+// Design tokens as CSS variables (see lib/preview/tokens.ts) and the theme that picks their values
+export interface PreviewThemeMessage {
+  source: typeof HOST_SOURCE;
+  type: 'theme';
+  theme: 'light' | 'dark';
+  tokenCss: string;
+}
+
+export type PreviewHostMessage =
+  | PreviewRenderMessage
+  | PreviewSelectModeMessage
+  | PreviewHighlightMessage
+  | PreviewThemeMessage;
+
+// Frame -> editor
+export type PreviewConsoleLevel = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+export interface PreviewReadyMessage {
+  source: typeof FRAME_SOURCE;
+  type: 'ready';
+}
+
+export interface PreviewConsoleMessage {
+  source: typeof FRAME_SOURCE;
+  type: 'console';
+  level: PreviewConsoleLevel;
+  args: string[];
+}
+
+export interface PreviewErrorMessage {
+  source: typeof FRAME_SOURCE;
+  type: 'error';
+  kind: 'runtime' | 'render' | 'unhandledrejection';
+  message: string;
+  stack: string | null;
+  // Position in the JSX tab, when the stack points into the component
+  line: number | null;
+  column: number | null;
+}
+
+export interface PreviewRenderedMessage {
+  source: typeof FRAME_SOURCE;
+  type: 'rendered';
+  durationMs: number;
+}
+
+export interface PreviewSelectedElement {
+  // Source ID from the data-cg-id attribute; null when the element isn't in the JSX source
+  elementId: string | null;
+  tagName: string;
+  id: string | null;
+  className: string | null;
+  // CSS-selector-like path from #root, e.g. "div > ul > li:nth-child(2)"
+  path: string;
+  text: string;
+  rect: { x: number; y: number; width: number; height: number };
+  // Computed values for the styles the property editor offers
+  styles: Record<string, string>;
+}
+
+export interface PreviewElementSelectedMessage {
+  source: typeof FRAME_SOURCE;
+  type: 'element-selected';
+  element: PreviewSelectedElement;
+}
+
+export type PreviewFrameMessage =
+  | PreviewReadyMessage
+  | PreviewConsoleMessage
+  | PreviewErrorMessage
+  | PreviewRenderedMessage
+  | PreviewElementSelectedMessage;
+
+export const isPreviewFrameMessage = (data: unknown): data is PreviewFrameMessage => {
+  return typeof data === 'object' && data !== null && (data as { source?: unknown }).source === FRAME_SOURCE;
+};
+
+// Where the preview frame is served from. Point this at a separate origin in production;
+// even on the app origin the frame is sandboxed without allow-same-origin.
+export const getPreviewFrameUrl = () => {
+  const origin = process.env.NEXT_PUBLIC_PREVIEW_ORIGIN || '';
+  const runtime = process.env.NODE_ENV === 'production' ? 'production' : 'development';
+  return `${origin}/preview/frame.html?runtime=${runtime}`;
+};
@@ -0,0 +1,20 @@
+import { DesignToken } from '@/types';
+
+// Mirrors toCSSVariables in the backend's services/designTokens.js, which exports use.
+// Light values go on :root and dark values under [data-theme="dark"], which the frame sets.
+
+const declarations = (tokens: DesignToken[], dark: boolean) => tokens
+  .map((token) => `  --${token.name}: ${dark && token.darkValue ? token.darkValue : token.value};`)
+  .join('\n');
+
+export const toCSSVariables = (tokens: DesignToken[]) => {
+  if (tokens.length === 0) {
+    return '';
+  }
+  let css = `:root {\n${declarations(tokens, false)}\n}\n`;
+  const darkTokens = tokens.filter((token) => token.darkValue);
+  if (darkTokens.length > 0) {
+    css += `\n[data-theme="dark"] {\n${declarations(darkTokens, true)}\n}\n`;
+  }
+  return css;
+};
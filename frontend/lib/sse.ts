@@ -0,0 +1,58 @@
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+const parseEvent = (rawEvent: string): ServerSentEvent | null => {
+  let event = 'message';
+  const data: string[] = [];
+
+  rawEvent.split('\n').forEach((line) => {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice(5).replace(/^ /, ''));
+    }
+  });
+
+  return data.length > 0 ? { event, data: data.join('\n') } : null;
+};
+
+// Read server-sent events from a fetch response body, calling onEvent for each one.
+// EventSource only supports GET, so streamed POST endpoints are read this way.
+export const readServerSentEvents = async (
+  response: Response,
+  onEvent: (event: ServerSentEvent) => void
+): Promise<void> => {
+  if (!response.body) {
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) {
+      break;
+    }
+
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+    let separatorIndex;
+    while ((separatorIndex = buffer.indexOf('\n\n')) !== -1) {
+      const parsed = parseEvent(buffer.slice(0, separatorIndex));
+      buffer = buffer.slice(separatorIndex + 2);
+
+      if (parsed) {
+        onEvent(parsed);
+      }
+    }
+  }
+
+  const remaining = parseEvent(buffer);
+  if (remaining) {
+    onEvent(remaining);
+  }
+};
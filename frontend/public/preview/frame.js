@@ -0,0 +1,491 @@
+// Preview frame runtime. Runs inside an iframe sandboxed with allow-scripts only,
+// so it has an opaque origin and talks to the editor exclusively through postMessage.
+(function () {
+  'use strict';
+
+  var HOST_SOURCE = 'cg-preview-host';
+  var FRAME_SOURCE = 'cg-preview-frame';
+  var SOURCE_URL = 'component.jsx';
+  var MAX_ARG_LENGTH = 2000;
+  var ELEMENT_ID_ATTRIBUTE = 'data-cg-id';
+  // Generated code uses the hooks without importing them
+  var HOOKS_PRELUDE = 'const { useState, useEffect, useRef, useMemo, useCallback, useReducer, useContext, useLayoutEffect } = React; ';
+  // Tried in order when an import leaves out the extension, as bundlers do
+  var MODULE_SUFFIXES = ['', '.js', '.jsx', '.ts', '.tsx', '/index.js', '/index.jsx', '/index.ts', '/index.tsx'];
+  // Evaluated package bundles by name; kept across renders while the bundle is unchanged
+  var packageCache = {};
+  // Computed styles reported for a selected element (see STYLE_CONTROLS in lib/preview/properties.ts)
+  var STYLE_PROPERTIES = [
+    'color', 'backgroundColor', 'fontSize', 'fontWeight', 'textAlign', 'padding',
+    'margin', 'borderRadius', 'width', 'height', 'display', 'opacity',
+  ];
+
+  var params = new URLSearchParams(window.location.search);
+  var runtimeBuild = params.get('runtime') === 'production' ? 'production.min' : 'development';
+
+  var ready = false;
+  var pendingRender = null;
+  var root = null;
+  var renderStartedAt = 0;
+  var selectMode = false;
+  var hoveredElement = null;
+  var selectedElement = null;
+  var highlightedId = null;
+
+  var post = function (message) {
+    message.source = FRAME_SOURCE;
+    // The editor origin is not known to an opaque-origin frame; nothing sensitive is sent
+    window.parent.postMessage(message, '*');
+  };
+
+  // Console
+
+  var serialize = function (value) {
+    if (typeof value === 'string') {
+      return value.slice(0, MAX_ARG_LENGTH);
+    }
+    if (value instanceof Error) {
+      return (value.stack || value.message || String(value)).slice(0, MAX_ARG_LENGTH);
+    }
+    try {
+      var json = JSON.stringify(value);
+      return (json === undefined ? String(value) : json).slice(0, MAX_ARG_LENGTH);
+    } catch (error) {
+      return String(value).slice(0, MAX_ARG_LENGTH);
+    }
+  };
+
+  ['log', 'info', 'warn', 'error', 'debug'].forEach(function (level) {
+    var original = console[level];
+    console[level] = function () {
+      var args = Array.prototype.slice.call(arguments);
+      post({ type: 'console', level: level, args: args.map(serialize) });
+      original.apply(console, args);
+    };
+  });
+
+  // Errors
+
+  // Lines the Function constructor adds before the body, measured rather than assumed
+  var functionHeaderLines = (function () {
+    try {
+      var stack = new Function('return new Error().stack;\n//# sourceURL=probe.js')() || '';
+      var match = stack.match(/probe\.js:(\d+)/);
+      return match ? Number(match[1]) - 1 : 2;
+    } catch (error) {
+      return 2;
+    }
+  })();
+
+  // Find the first frame inside the component and map it back to the JSX source
+  var locate = function (stack) {
+    var pattern = new RegExp(SOURCE_URL.replace('.', '\\.') + ':(\\d+):(\\d+)');
+    var match = stack && stack.match(pattern);
+    if (!match) {
+      return { line: null, column: null };
+    }
+    // One extra prelude line declares the React hooks
+    var line = Number(match[1]) - functionHeaderLines - 1;
+    return { line: line > 0 ? line : null, column: Number(match[2]) };
+  };
+
+  var reportError = function (kind, error) {
+    var message = error && error.message ? error.message : String(error);
+    var stack = error && error.stack ? String(error.stack) : null;
+    var location = locate(stack);
+    post({
+      type: 'error',
+      kind: kind,
+      message: message,
+      stack: stack,
+      line: location.line,
+      column: location.column,
+    });
+  };
+
+  window.addEventListener('error', function (event) {
+    reportError('runtime', event.error || event.message);
+  });
+
+  window.addEventListener('unhandledrejection', function (event) {
+    reportError('unhandledrejection', event.reason);
+  });
+
+  // Rendering
+
+  var createErrorBoundary = function (React) {
+    function ErrorBoundary(props) {
+      React.Component.call(this, props);
+      this.state = { hasError: false, error: null };
+    }
+    ErrorBoundary.prototype = Object.create(React.Component.prototype);
+    ErrorBoundary.prototype.constructor = ErrorBoundary;
+
+    ErrorBoundary.getDerivedStateFromError = function (error) {
+      return { hasError: true, error: error };
+    };
+
+    ErrorBoundary.prototype.componentDidMount = function () {
+      post({ type: 'rendered', durationMs: Math.round((performance.now() - renderStartedAt) * 100) / 100 });
+      highlight(highlightedId);
+    };
+
+    ErrorBoundary.prototype.componentDidCatch = function (error) {
+      reportError('render', error);
+    };
+
+    ErrorBoundary.prototype.render = function () {
+      var self = this;
+      if (this.state.hasError) {
+        return React.createElement('div', { style: { padding: '20px', color: 'red', border: '1px solid red', borderRadius: '4px' } },
+          React.createElement('h3', null, 'Component Error'),
+          React.createElement('p', null, (this.state.error && this.state.error.message) || 'Something went wrong'),
+          React.createElement('button', { onClick: function () { self.setState({ hasError: false }); } }, 'Try Again')
+        );
+      }
+      return this.props.children;
+    };
+
+    return ErrorBoundary;
+  };
+
+  var ErrorBoundary = null;
+
+  // Modules
+
+  // Resolve a relative import against the importing file's directory
+  var resolvePath = function (from, request) {
+    var parts = from.split('/');
+    parts.pop();
+    request.split('/').forEach(function (part) {
+      if (part === '..') {
+        parts.pop();
+      } else if (part !== '.' && part !== '') {
+        parts.push(part);
+      }
+    });
+    return parts.join('/');
+  };
+
+  // What bundles built with React as an external expect from the automatic JSX runtime
+  var createJsxRuntime = function (React) {
+    var jsx = function (type, props, key) {
+      return React.createElement(type, key === undefined ? props : Object.assign({}, props, { key: key }));
+    };
+    return { jsx: jsx, jsxs: jsx, Fragment: React.Fragment };
+  };
+
+  // The package a request imports from, e.g. "date-fns" for "date-fns/format"
+  var getPackageName = function (request) {
+    var parts = request.split('/');
+    return request.charAt(0) === '@' ? parts.slice(0, 2).join('/') : parts[0];
+  };
+
+  // A CommonJS loader over the component's files and allow-listed packages;
+  // each render gets a fresh cache for the component's own modules
+  var createRequire = function (React, ReactDOM, modules, packages) {
+    var cache = {};
+    var jsxRuntime = createJsxRuntime(React);
+
+    var resolveBuiltIn = function (request) {
+      if (request === 'react') {
+        return React;
+      }
+      if (request === 'react-dom' || request === 'react-dom/client') {
+        return ReactDOM;
+      }
+      if (request === 'react/jsx-runtime') {
+        return jsxRuntime;
+      }
+      return null;
+    };
+
+    var loadPackage = function (name) {
+      var cached = packageCache[name];
+      if (cached && cached.code === packages[name]) {
+        return cached.module.exports;
+      }
+      var module = { exports: {} };
+      new Function('require', 'module', 'exports', 'process', packages[name] + '\n//# sourceURL=packages/' + name + '.js')(
+        function (request) {
+          var builtIn = resolveBuiltIn(request);
+          if (builtIn) {
+            return builtIn;
+          }
+          throw new Error('Cannot find module "' + request + '" from package ' + name);
+        },
+        module,
+        module.exports,
+        { env: { NODE_ENV: 'production' } }
+      );
+      // Only cached once it has run, so a bundle that throws is retried on the next render
+      packageCache[name] = { code: packages[name], module: module };
+      return module.exports;
+    };
+
+    // Packages have one bundle, built from their main entry, so a subpath such as
+    // date-fns/format is served from it: named imports are the bundle's exports, and the
+    // default is the export the subpath is named after, when there is one
+    var loadSubpath = function (request, exports) {
+      var member = request.split('/').pop().replace(/\.[cm]?js$/, '').replace(/[-_]+(\w)/g, function (match, letter) {
+        return letter.toUpperCase();
+      });
+      if (!exports || exports[member] === undefined) {
+        return exports;
+      }
+      return Object.assign({}, exports, { default: exports[member] });
+    };
+
+    var load = function (path) {
+      if (cache[path]) {
+        return cache[path].exports;
+      }
+      var module = { exports: {} };
+      // Cached before it runs so circular imports see the partial exports, as in Node
+      cache[path] = module;
+      new Function(
+        'React',
+        'require',
+        'module',
+        'exports',
+        HOOKS_PRELUDE + '(function () {\n' + modules[path] + '\n})();\n//# sourceURL=' + path
+      )(React, requireFrom(path), module, module.exports);
+      return module.exports;
+    };
+
+    var requireFrom = function (from) {
+      return function (request) {
+        var builtIn = resolveBuiltIn(request);
+        if (builtIn) {
+          return builtIn;
+        }
+        // The component's stylesheets are injected with its CSS; package stylesheets aren't bundled
+        if (/\.css$/.test(request)) {
+          return {};
+        }
+        var packageName = getPackageName(request);
+        if (Object.prototype.hasOwnProperty.call(packages, packageName)) {
+          return packageName === request ? loadPackage(request) : loadSubpath(request, loadPackage(packageName));
+        }
+        if (request.charAt(0) !== '.') {
+          throw new Error('Package "' + request + '" is not available in the preview. Only allow-listed packages can be imported.');
+        }
+        var path = resolvePath(from, request);
+        for (var i = 0; i < MODULE_SUFFIXES.length; i++) {
+          if (Object.prototype.hasOwnProperty.call(modules, path + MODULE_SUFFIXES[i])) {
+            return load(path + MODULE_SUFFIXES[i]);
+          }
+        }
+        throw new Error('Cannot find module "' + request + '" from ' + from);
+      };
+    };
+
+    return requireFrom;
+  };
+
+  var render = function (message) {
+    var React = window.React;
+    var ReactDOM = window.ReactDOM;
+
+    document.getElementById('component-styles').textContent = message.css || '';
+
+    if (root) {
+      root.unmount();
+      root = null;
+    }
+    selectedElement = null;
+    renderStartedAt = performance.now();
+
+    var Component;
+    try {
+      // Evaluate in its own function scope so re-renders never collide on top-level declarations
+      var factory = new Function(
+        'React',
+        'ReactDOM',
+        '__require',
+        HOOKS_PRELUDE + 'return (function () {\n' +
+          message.code +
+          '\nreturn typeof ' + message.componentName + ' !== "undefined" ? ' + message.componentName + ' : undefined;\n})();\n' +
+          '//# sourceURL=' + SOURCE_URL
+      );
+      Component = factory(React, ReactDOM, createRequire(React, ReactDOM, message.modules || {}, message.packages || {})(SOURCE_URL));
+    } catch (error) {
+      reportError('runtime', error);
+      return;
+    }
+
+    if (!Component) {
+      reportError('runtime', new Error('Component "' + message.componentName + '" is not defined'));
+      return;
+    }
+
+    root = ReactDOM.createRoot(document.getElementById('root'));
+    root.render(React.createElement(ErrorBoundary, null, React.createElement(Component)));
+  };
+
+  // Element selection
+
+  var describePath = function (element) {
+    var container = document.getElementById('root');
+    var parts = [];
+    var node = element;
+    while (node && node !== container && node.parentElement) {
+      var part = node.tagName.toLowerCase();
+      var siblings = Array.prototype.filter.call(node.parentElement.children, function (child) {
+        return child.tagName === node.tagName;
+      });
+      if (siblings.length > 1) {
+        part += ':nth-child(' + (Array.prototype.indexOf.call(node.parentElement.children, node) + 1) + ')';
+      }
+      parts.unshift(part);
+      node = node.parentElement;
+    }
+    return parts.join(' > ');
+  };
+
+  // Prefer the nearest element that maps back to the source
+  var resolveTarget = function (target) {
+    var container = document.getElementById('root');
+    if (!target || !target.closest || target === container || !container.contains(target)) {
+      return null;
+    }
+    var instrumented = target.closest('[' + ELEMENT_ID_ATTRIBUTE + ']');
+    return instrumented && container.contains(instrumented) ? instrumented : target;
+  };
+
+  var markSelected = function (element) {
+    if (selectedElement) {
+      selectedElement.classList.remove('cg-preview-selected');
+    }
+    selectedElement = element;
+    if (selectedElement) {
+      selectedElement.classList.add('cg-preview-selected');
+    }
+  };
+
+  var highlight = function (elementId) {
+    highlightedId = elementId;
+    var element = elementId
+      ? document.querySelector('[' + ELEMENT_ID_ATTRIBUTE + '="' + elementId.replace(/"/g, '') + '"]')
+      : null;
+    markSelected(element);
+  };
+
+  var readStyles = function (element) {
+    var computed = window.getComputedStyle(element);
+    var styles = {};
+    STYLE_PROPERTIES.forEach(function (name) {
+      styles[name] = computed[name];
+    });
+    return styles;
+  };
+
+  var setHovered = function (element) {
+    if (hoveredElement) {
+      hoveredElement.classList.remove('cg-preview-hover');
+    }
+    hoveredElement = element;
+    if (hoveredElement) {
+      hoveredElement.classList.add('cg-preview-hover');
+    }
+  };
+
+  document.addEventListener('mouseover', function (event) {
+    if (selectMode) {
+      setHovered(resolveTarget(event.target));
+    }
+  });
+
+  document.addEventListener('mouseout', function () {
+    if (selectMode) {
+      setHovered(null);
+    }
+  });
+
+  document.addEventListener('click', function (event) {
+    var element = selectMode ? resolveTarget(event.target) : null;
+    if (!element) {
+      return;
+    }
+    event.preventDefault();
+    event.stopPropagation();
+
+    highlightedId = element.getAttribute(ELEMENT_ID_ATTRIBUTE);
+    markSelected(element);
+
+    var rect = element.getBoundingClientRect();
+    var className = (element.getAttribute('class') || '')
+      .replace(/\bcg-preview-(hover|selected)\b/g, '')
+      .trim();
+
+    post({
+      type: 'element-selected',
+      element: {
+        elementId: element.getAttribute(ELEMENT_ID_ATTRIBUTE),
+        tagName: element.tagName.toLowerCase(),
+        id: element.id || null,
+        className: className || null,
+        path: describePath(element),
+        text: (element.textContent || '').trim().slice(0, 200),
+        rect: { x: rect.x, y: rect.y, width: rect.width, height: rect.height },
+        styles: readStyles(element),
+      },
+    });
+  }, true);
+
+  var setSelectMode = function (enabled) {
+    selectMode = enabled;
+    if (!enabled) {
+      setHovered(null);
+    }
+  };
+
+  // Messages from the editor
+
+  window.addEventListener('message', function (event) {
+    var data = event.data;
+    if (event.source !== window.parent || !data || data.source !== HOST_SOURCE) {
+      return;
+    }
+
+    if (data.type === 'render') {
+      if (ready) {
+        render(data);
+      } else {
+        pendingRender = data;
+      }
+    } else if (data.type === 'select-mode') {
+      setSelectMode(Boolean(data.enabled));
+    } else if (data.type === 'highlight') {
+      highlight(data.elementId || null);
+    } else if (data.type === 'theme') {
+      // Token values switch with the theme attribute, without re-rendering the component
+      document.documentElement.setAttribute('data-theme', data.theme === 'dark' ? 'dark' : 'light');
+      document.getElementById('token-styles').textContent = data.tokenCss || '';
+    }
+  });
+
+  // Load React from the same place this page is served, then announce readiness
+
+  var loadScript = function (src, onLoad) {
+    var script = document.createElement('script');
+    script.src = src;
+    script.onload = onLoad;
+    script.onerror = function () {
+      reportError('runtime', new Error('Failed to load ' + src));
+    };
+    document.body.appendChild(script);
+  };
+
+  loadScript('../preview-runtime/react.' + runtimeBuild + '.js', function () {
+    loadScript('../preview-runtime/react-dom.' + runtimeBuild + '.js', function () {
+      ErrorBoundary = createErrorBoundary(window.React);
+      ready = true;
+      post({ type: 'ready' });
+      if (pendingRender) {
+        render(pendingRender);
+        pendingRender = null;
+      }
+    });
+  });
+})();
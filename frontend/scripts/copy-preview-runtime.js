@@ -0,0 +1,23 @@
+// Copies the React UMD builds used by the component preview into public/,
+// so previews are served by the app itself and work without network access.
+const fs = require('fs');
+const path = require('path');
+
+const outputDir = path.join(__dirname, '..', 'public', 'preview-runtime');
+
+const files = [
+  ['react', 'umd/react.development.js'],
+  ['react', 'umd/react.production.min.js'],
+  ['react-dom', 'umd/react-dom.development.js'],
+  ['react-dom', 'umd/react-dom.production.min.js'],
+];
+
+fs.mkdirSync(outputDir, { recursive: true });
+
+// The UMD files are not in the packages' "exports", so resolve them from the package root
+files.forEach(([pkg, file]) => {
+  const packageDir = path.dirname(require.resolve(`${pkg}/package.json`));
+  fs.copyFileSync(path.join(packageDir, file), path.join(outputDir, path.basename(file)));
+});
+
+console.log(`Preview runtime copied to ${path.relative(process.cwd(), outputDir)}`);
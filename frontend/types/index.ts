@@ -5,6 +5,10 @@ export interface User {
   name: string;
   avatar?: string;
   isActive: boolean;
+  // Admins manage the preview package allow-list
+  role?: 'user' | 'admin';
+  // Sets the AI quota
+  plan?: UserPlan;
   lastLogin: string;
   preferences: {
     theme: 'light' | 'dark' | 'auto';
@@ -23,14 +27,65 @@ export interface ChatMessage {
   metadata?: Record<string, any>;
 }
 
+// One of a component's extra files: sub-components, hooks, utils, stylesheets or tests
+export interface ComponentFile {
+  // Relative to the entry, e.g. "hooks/useToggle.js"
+  path: string;
+  content: string;
+}
+
 export interface ComponentCode {
+  // The entry module; css is its stylesheet and tsx its TypeScript version
   jsx: string;
   css: string;
   tsx: string;
+  // Entry file name, e.g. "Component.jsx"
+  entry?: string;
+  files?: ComponentFile[];
   version: number;
   lastModified: string;
 }
 
+export type ComponentVersionSource = 'initial' | 'ai' | 'manual' | 'restore';
+
+// Immutable snapshot of componentCode; the list endpoint omits the code fields
+export interface ComponentVersion {
+  _id: string;
+  sessionId: string;
+  version: number;
+  jsx?: string;
+  css?: string;
+  tsx?: string;
+  entry?: string;
+  files?: ComponentFile[];
+  source: ComponentVersionSource;
+  messageId: string | null;
+  restoredFrom: number | null;
+  createdAt: string;
+}
+
+export interface VersionDiffChange {
+  value: string;
+  added: boolean;
+  removed: boolean;
+}
+
+export interface VersionFileDiff {
+  // 'file' is one of componentCode.files; name is then its path
+  file: 'jsx' | 'css' | 'tsx' | 'file';
+  name: string;
+  additions: number;
+  deletions: number;
+  changes: VersionDiffChange[];
+  patch: string;
+}
+
+export interface VersionDiff {
+  from: number;
+  to: number;
+  files: VersionFileDiff[];
+}
+
 export interface UIState {
   selectedElement: string | null;
   properties: Record<string, any>;
@@ -41,14 +96,40 @@ export interface UIState {
   theme: 'light' | 'dark';
 }
 
+export interface ConversationSummary {
+  content: string;
+  // How many chatHistory messages, from the start, the summary covers
+  messageCount: number;
+  updatedAt: string | null;
+}
+
+// owner, or the role the owner shared the session with
+export type SessionRole = 'owner' | 'editor' | 'viewer';
+
+export type CollaboratorRole = Exclude<SessionRole, 'owner'>;
+
+export interface Collaborator {
+  userId: string;
+  role: CollaboratorRole;
+  addedAt: string;
+}
+
 export interface Session {
   _id: string;
   userId: string;
+  // Editors chat, edit and generate like the owner; viewers follow along read-only
+  collaborators: Collaborator[];
+  // The current user's role; present on sessions from the list and single-session endpoints
+  role?: SessionRole;
   title: string;
   description: string;
   chatHistory: ChatMessage[];
+  // Earlier chat turns rolled up for AI prompts once the history outgrew its budget
+  conversationSummary?: ConversationSummary;
   componentCode: ComponentCode;
   uiState: UIState;
+  // Token set used for generation and the preview; null uses the user's default set
+  designTokenSetId?: string | null;
   isActive: boolean;
   lastAccessed: string;
   tags: string[];
@@ -62,30 +143,376 @@ export interface AIComponentResponse {
   jsx: string;
   css: string;
   tsx: string;
+  // The component's other files; the current files when the model left them unchanged
+  files?: ComponentFile[];
   explanation: string;
+  // Present when the refine was scoped to one element; jsx/css above already include it
+  patch?: AIElementPatch;
+  // Template version the prompt came from; null for the built-in prompt
+  promptTemplate?: PromptTemplateRef | null;
+}
+
+export interface AIElementPatch {
+  targetElementId: string;
+  jsx: string;
+  css: string;
+}
+
+// An error from the preview, sent to /ai/refine so the model can fix it
+export interface AIRefineError {
+  kind: 'compile' | 'runtime' | 'render' | 'unhandledrejection';
+  message: string;
+  line?: number | null;
+  column?: number | null;
+}
+
+export type AIStreamField = 'explanation' | 'jsx' | 'css';
+
+// Partial fields pushed by /ai/generate/stream while the model is still writing
+export interface AIStreamPartial {
+  values: Partial<Record<AIStreamField, string>>;
+  complete: Partial<Record<AIStreamField, boolean>>;
+}
+
+export interface AIVariation {
+  name: string;
+  jsx: string;
+  css: string;
+  description: string;
 }
 
 export interface AIVariationResponse {
-  variations: Array<{
-    name: string;
-    jsx: string;
-    css: string;
-    description: string;
-  }>;
+  variations: AIVariation[];
+  promptTemplate?: PromptTemplateRef | null;
+}
+
+export type AIAnalysisSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export interface AIAnalysisIssue {
+  message: string;
+  severity: AIAnalysisSeverity;
+  category: string;
+  // Line the issue refers to, if any
+  line: number | null;
+  // Code the line is in; static CSS checks report 'css'
+  file?: 'jsx' | 'css';
+  // Static check that reported the issue; null for model findings
+  rule?: string | null;
+}
+
+export interface AIAnalysis {
+  codeQuality: string;
+  performance: string;
+  accessibility: string;
+  security: string;
+  optimizations: string[];
+  issues: AIAnalysisIssue[];
+  overallScore: number;
 }
 
 export interface AIAnalysisResponse {
-  analysis: {
-    codeQuality: string;
-    performance: string;
-    accessibility: string;
-    security: string;
-    optimizations: string[];
-    issues: string[];
-    overallScore: number;
+  analysis: AIAnalysis;
+  // Component version analyzed, when requested for a session
+  version: number | null;
+  // True when no AI provider was available and only the static checks ran
+  staticOnly: boolean;
+  promptTemplate?: PromptTemplateRef | null;
+}
+
+// Stored analysis of one component version
+export interface ComponentAnalysis {
+  _id: string;
+  sessionId: string;
+  version: number;
+  analysis: AIAnalysis;
+  provider: string | null;
+  model: string | null;
+  promptTemplate: PromptTemplateRef | null;
+  createdAt: string;
+}
+
+// Compiler diagnostic for TSX code; positions are 1-based
+export interface TypeDiagnostic {
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+  message: string;
+  code: number;
+  severity: 'error' | 'warning' | 'info';
+}
+
+export interface TypeScriptConversion {
+  tsx: string;
+  diagnostics: TypeDiagnostic[];
+}
+
+// npm package generated components may import; bundled on the server for the preview
+export interface PreviewPackage {
+  _id: string;
+  name: string;
+  // Exact version, also used in exported package.json files
+  version: string;
+  description: string;
+  enabled: boolean;
+  status: 'pending' | 'building' | 'ready' | 'failed';
+  error: string | null;
+  bundleSize: number | null;
+  builtAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type DesignTokenGroup = 'color' | 'typography' | 'radius' | 'spacing' | 'shadow' | 'other';
+
+// Exposed to components as the CSS variable --<name>
+export interface DesignToken {
+  name: string;
+  group: DesignTokenGroup;
+  value: string;
+  // Used in dark mode; null when the token doesn't change
+  darkValue: string | null;
+}
+
+export interface DesignTokenSet {
+  _id: string;
+  name: string;
+  tokens: DesignToken[];
+  isDefault: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type AIProviderName = 'gemini' | 'openai' | 'ollama' | 'mock';
+
+export interface AIProviderInfo {
+  name: AIProviderName;
+  model: string;
+  // Models a request may pick with `model`; includes the default
+  models: string[];
+  configured: boolean;
+}
+
+export interface AIProvidersResponse {
+  default: AIProviderName;
+  providers: AIProviderInfo[];
+}
+
+// Provider selection accepted by every AI endpoint
+export interface AIProviderOptions {
+  provider?: AIProviderName;
+  model?: string;
+  // 'shared' reuses responses to identical requests from other users who opted in; defaults to 'user'
+  cacheScope?: 'user' | 'shared';
+}
+
+export type PromptTemplateTask = 'generate' | 'refine' | 'variations' | 'analyze';
+
+// A value filled in when the template is used, referenced in its text as {{name}}
+export interface PromptTemplateVariable {
+  name: string;
+  label: string;
+  defaultValue: string;
+  required: boolean;
+}
+
+// The prompt fields of a template; every change is a new version
+export interface PromptTemplatePrompt {
+  systemPrompt: string;
+  body: string;
+  // 'append' adds the body to the built-in instructions, 'replace' swaps them out
+  mode: 'append' | 'replace';
+  variables: PromptTemplateVariable[];
+}
+
+export interface PromptTemplate extends PromptTemplatePrompt {
+  _id: string;
+  ownerId: string;
+  name: string;
+  description: string;
+  task: PromptTemplateTask;
+  visibility: 'private' | 'shared';
+  // Used for its task when no template is picked; set by admins
+  isDefault: boolean;
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PromptTemplateVersion extends PromptTemplatePrompt {
+  _id: string;
+  templateId: string;
+  version: number;
+  createdAt: string;
+}
+
+// Recorded with AI results: which template version produced them
+export interface PromptTemplateRef {
+  id: string;
+  name: string;
+  version: number;
+}
+
+// Picks a template for an AI request; without templateId the task's default is used
+export interface PromptTemplateOptions {
+  templateId?: string;
+  // Defaults to the latest version
+  templateVersion?: number;
+  variables?: Record<string, string>;
+}
+
+// Returned with HTTP 502 when model output fails schema validation after all repair attempts
+export interface AIOutputErrorResponse {
+  error: string;
+  code: 'AI_INVALID_OUTPUT';
+  details: string;
+  validationErrors: string[];
+}
+
+export type UserPlan = 'free' | 'pro' | 'team';
+
+// Limits are null when the plan has none; quotas reset at midnight UTC and on the first of the month
+export interface QuotaStatus {
+  plan: UserPlan;
+  limits: { requestsPerDay: number | null; tokensPerMonth: number | null };
+  used: { requestsToday: number; tokensThisMonth: number };
+  // Other requests of the user still running
+  pending: number;
+  resets: { requestsPerDay: string; tokensPerMonth: string };
+  exceeded: 'requestsPerDay' | 'tokensPerMonth' | null;
+}
+
+// Returned with HTTP 429 (and a Retry-After header) once a quota is used up
+export interface QuotaExceededResponse {
+  error: string;
+  code: 'QUOTA_EXCEEDED';
+  quota: QuotaStatus & { resetsAt: string };
+}
+
+// Metered AI requests; cache hits count as requests but use no tokens
+export interface UsageTotals {
+  requests: number;
+  cacheHits: number;
+  failures: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  avgLatencyMs: number | null;
+}
+
+export interface UsageReport {
+  days: number;
+  since: string;
+  totals: UsageTotals;
+  daily: Array<UsageTotals & { date: string }>;
+  byModel: Array<UsageTotals & { provider: AIProviderName; model: string }>;
+  bySession: Array<UsageTotals & { sessionId: string; title: string | null }>;
+  // Only in the report across all users
+  byUser?: Array<UsageTotals & { userId: string; name: string | null; email: string | null; plan: UserPlan | null }>;
+  // Only in the user's own report
+  quota?: QuotaStatus;
+}
+
+export type JobType = 'generate' | 'variations' | 'analyze' | 'export';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+// e.g. queued, starting, generating, repairing, saving, retrying, then the final status
+export interface JobProgress {
+  stage: string;
+}
+
+export interface JobError {
+  message: string;
+  code: string | null;
+  validationErrors?: string[];
+  details?: string;
+}
+
+// Results of session jobs are also attached to the session: generated components as a new
+// version with the assistant's reply, variations as a reply listing them
+export interface GenerateJobResult extends AIComponentResponse {
+  cached: boolean;
+  // Only for jobs with a session
+  messageId?: string;
+  version?: number;
+}
+
+export interface ExportJobResult {
+  filename: string;
+  contentType: string;
+  size: number;
+}
+
+export interface Job<T = any> {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  sessionId: string | null;
+  progress: JobProgress | null;
+  result: T | null;
+  // The last attempt's error; kept while a failed attempt waits to be retried
+  error: JobError | null;
+  attempts: number;
+  maxAttempts: number;
+  cancelRequested: boolean;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+// Requests of the AI job types take the same fields as the matching /ai endpoint
+export type JobRequest =
+  | ({ type: 'generate'; prompt: string; sessionId?: string; existingCode?: ComponentCode } & AIProviderOptions & PromptTemplateOptions)
+  | ({ type: 'variations'; baseCode: ComponentCode; count?: number; sessionId?: string } & AIProviderOptions & PromptTemplateOptions)
+  | ({ type: 'analyze'; code?: ComponentCode; sessionId?: string; staticOnly?: boolean } & AIProviderOptions & PromptTemplateOptions)
+  | { type: 'export'; sessionId: string; options: ExportOptions };
+
+// Collaboration types
+export interface SessionMember {
+  userId: string;
+  name: string;
+  email: string | null;
+  avatar: string | null;
+}
+
+export interface SessionCollaborator extends SessionMember {
+  role: CollaboratorRole;
+  addedAt: string;
+}
+
+export interface SessionMembers {
+  owner: SessionMember;
+  collaborators: SessionCollaborator[];
+}
+
+// Sent to everyone in a session over its collaboration socket. `userId` is who made the change.
+export type SessionEvent =
+  | { event: 'message'; data: { message: ChatMessage; userId: string | null } }
+  // `live` for versions saved from the shared code document
+  | { event: 'code'; data: { componentCode: ComponentCode; userId: string | null; live: boolean } }
+  | { event: 'job'; data: { job: Job; userId: string } }
+  | { event: 'partial'; data: { jobId: string; partial: AIStreamPartial } }
+  | { event: 'session'; data: { session: Pick<Session, 'title' | 'description' | 'tags' | 'designTokenSetId'> } }
+  | { event: 'collaborators'; data: SessionMembers }
+  | { event: 'deleted'; data: null };
+
+// Someone in the session, from their awareness state; the server fills in `user`
+export interface SessionPresence {
+  clientId: number;
+  user: {
+    id: string;
+    name: string;
+    avatar: string | null;
+    role: SessionRole;
+    color: string;
   };
+  // Code tab they have open
+  file?: string;
 }
 
+export type CollaborationStatus = 'connecting' | 'connected' | 'offline' | 'closed';
+
 // API Response types
 export interface ApiResponse<T = any> {
   success?: boolean;
@@ -162,10 +589,24 @@ export interface PropertyControl {
 }
 
 // Export types
+export type ExportTarget = 'component' | 'vite' | 'nextjs';
+
+export type ExportStyling = 'css' | 'css-modules' | 'tailwind';
+
 export interface ExportOptions {
+  // 'zip' exports the target's files; the others download a single file
   format: 'zip' | 'jsx' | 'tsx' | 'css';
+  target: ExportTarget;
+  styling: ExportStyling;
   includeDependencies: boolean;
   includeReadme: boolean;
+  // Add a Storybook story for the component
+  includeStory: boolean;
+}
+
+export interface ExportFile {
+  filename: string;
+  blob: Blob;
 }
 
 // Theme types
@@ -217,6 +658,25 @@ export interface FileUpload {
   error?: string;
 }
 
+// Files (.jsx/.tsx/.css/.zip) and pasted code to seed a new session with
+export interface ImportSessionData {
+  title?: string;
+  description?: string;
+  tags?: string[];
+  files?: File[];
+  jsx?: string;
+  css?: string;
+  tsx?: string;
+  // Uploaded module to use as the entry when several components were imported
+  entry?: string;
+}
+
+export interface ImportSessionResponse {
+  session: Session;
+  // Zip entries that were not imported, e.g. stories, tests and non-source files
+  skipped: string[];
+}
+
 // Search and filter types
 export interface SearchFilters {
   query: string;